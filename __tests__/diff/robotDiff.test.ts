@@ -0,0 +1,170 @@
+// Robot Diff Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { diffRobots } from '../../src/diff/robotDiff';
+import { removeSubtree, renameJoint, renameLink } from '../../src/editing/robotEditor';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Robot } from '../../src/types/urdf';
+
+describe('Robot Diff', () => {
+  const sampleUrdfPath = path.join(__dirname, '../../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+
+  let a: Robot;
+  let b: Robot;
+
+  beforeEach(() => {
+    const parser = new URDFParser();
+    a = parser.parse(sampleUrdf);
+    b = parser.parse(sampleUrdf);
+  });
+
+  /**
+   * Get a joint of the second robot by name
+   * @param name Joint name
+   * @returns Joint object
+   */
+  const joint = (name: string) => b.joints.find(other => other.name === name)!;
+
+  /**
+   * Get a link of the second robot by name
+   * @param name Link name
+   * @returns Link object
+   */
+  const link = (name: string) => b.links.find(other => other.name === name)!;
+
+  test('Reports no changes for equal robots', () => {
+    expect(diffRobots(a, b)).toEqual({ changes: [], summary: 'No changes' });
+  });
+
+  test('Reports added and removed links and joints', () => {
+    removeSubtree(b, 'gripper');
+    b.links.push({ name: 'camera', visuals: [], collisions: [] });
+    b.joints.push({
+      name: 'camera_joint',
+      type: 'fixed',
+      parent: { link: 'base_link' },
+      child: { link: 'camera' },
+    });
+
+    const { changes } = diffRobots(a, b);
+    expect(changes.map(change => [change.kind, change.element, change.name])).toEqual([
+      ['removed', 'link', 'gripper'],
+      ['added', 'link', 'camera'],
+      ['removed', 'joint', 'arm_to_gripper'],
+      ['added', 'joint', 'camera_joint'],
+    ]);
+    expect(changes[0].before).toBe(a.links[5]);
+  });
+
+  test('Detects renamed links and joints without reporting their references', () => {
+    renameLink(b, 'arm', 'upper_arm');
+    renameJoint(b, 'base_to_right_wheel', 'right_wheel_joint');
+
+    const { changes, summary } = diffRobots(a, b);
+    expect(changes).toEqual([
+      {
+        kind: 'renamed',
+        element: 'link',
+        name: 'upper_arm',
+        previousName: 'arm',
+        message: 'Link arm renamed to upper_arm',
+      },
+      {
+        kind: 'renamed',
+        element: 'joint',
+        name: 'right_wheel_joint',
+        previousName: 'base_to_right_wheel',
+        message: 'Joint base_to_right_wheel renamed to right_wheel_joint',
+      },
+    ]);
+    expect(summary).toBe(
+      '→ Link arm renamed to upper_arm\n' +
+        '→ Joint base_to_right_wheel renamed to right_wheel_joint'
+    );
+  });
+
+  test('Reports limit and type changes per property', () => {
+    joint('base_to_arm').limit!.upper = 2;
+    joint('base_to_arm').limit!.effort = 120;
+    joint('base_to_slider').type = 'revolute';
+
+    const { changes, summary } = diffRobots(a, b);
+    expect(changes[0]).toMatchObject({
+      kind: 'changed',
+      element: 'joint',
+      name: 'base_to_arm',
+      property: 'limit',
+      before: { lower: -1.57, upper: 1.57, effort: 100, velocity: 1 },
+      after: { lower: -1.57, upper: 2, effort: 120, velocity: 1 },
+    });
+    expect(summary).toBe(
+      '~ Joint base_to_arm limit changed: upper 1.57 → 2, effort 100 → 120\n' +
+        '~ Joint base_to_slider type changed: prismatic → revolute'
+    );
+  });
+
+  test('Reports origin deltas beyond the tolerance', () => {
+    joint('base_to_arm').origin!.xyz!.z += 0.01;
+    joint('base_to_slider').origin!.rpy!.z += 1e-7;
+
+    const { changes } = diffRobots(a, b);
+    expect(changes).toHaveLength(2);
+    expect(changes[0].delta!.xyz.z).toBeCloseTo(0.01, 12);
+    expect(changes[0].message).toMatch(/^Joint base_to_arm origin changed: xyz moved by \(0, 0, /);
+    expect(changes[1].message).toMatch(/^Joint base_to_slider origin changed: rpy turned by /);
+
+    expect(diffRobots(a, b, { tolerance: 1e-6 }).changes.map(change => change.name)).toEqual([
+      'base_to_arm',
+    ]);
+  });
+
+  test('Compares rotations rather than rpy angles', () => {
+    joint('base_to_arm').origin!.rpy = { x: 0, y: 0, z: Math.PI };
+    a.joints.find(other => other.name === 'base_to_arm')!.origin!.rpy = { x: 0, y: 0, z: -Math.PI };
+    joint('base_to_slider').origin!.rpy!.z += 2 * Math.PI - 0.1;
+
+    const { changes } = diffRobots(a, b, { tolerance: 1e-9 });
+    expect(changes.map(change => change.name)).toEqual(['base_to_slider']);
+    expect(changes[0].delta!.rpy.z).toBeCloseTo(-0.1, 12);
+  });
+
+  test('Does not pair links without content as renames', () => {
+    a.links.push({ name: 'tool0', visuals: [], collisions: [] });
+    b.links.push({ name: 'camera_frame', visuals: [], collisions: [] });
+
+    const { changes } = diffRobots(a, b);
+    expect(changes.map(change => [change.kind, change.element, change.name])).toEqual([
+      ['removed', 'link', 'tool0'],
+      ['added', 'link', 'camera_frame'],
+    ]);
+  });
+
+  test('Reports geometry, material and inertial changes', () => {
+    link('caster').collisions[0].geometry = { cylinder: { radius: 0.05, length: 0.02 } };
+    link('caster').visuals[0].material = { name: 'red' };
+    link('caster').inertial!.mass!.value = 0.2;
+    link('slider').visuals.push({ geometry: { sphere: { radius: 0.01 } } });
+    b.materials[0].color!.rgba = [0, 0, 0.8, 1];
+
+    const { changes } = diffRobots(a, b);
+    expect(changes.map(change => change.message)).toEqual([
+      'Link caster inertial changed: mass.value 0.1 → 0.2',
+      'Link caster visual[1].material changed: name gray → red',
+      'Link caster collision[1].geometry changed: sphere {"radius":0.05} → none, cylinder none → {"radius":0.05,"length":0.02}',
+      'Link slider visual[2] changed: none → {"geometry":{"sphere":{"radius":0.01}}}',
+      'Material blue color changed: rgba [0 0 1 1] → [0 0 0.8 1]',
+    ]);
+  });
+
+  test('Ignores unknown content kept in lossless mode', () => {
+    const lossless = new URDFParser({ lossless: true });
+    const changes = diffRobots(
+      lossless.parse(sampleUrdf),
+      lossless.parse(sampleUrdf.replace('<link name="arm">', '<link name="arm" vendor:id="1">'))
+    ).changes;
+
+    expect(changes).toEqual([]);
+  });
+});
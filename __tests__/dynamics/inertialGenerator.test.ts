@@ -0,0 +1,132 @@
+// Inertial Generator Tests
+import {
+  computeGeometryInertia,
+  computeGeometryVolume,
+  fillMissingInertials,
+  generateInertial,
+} from '../../src/dynamics/inertialGenerator';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { checkInertials } from '../../src/validation/inertialChecker';
+
+function robotWith(links: string) {
+  return new URDFParser().parse(`<?xml version="1.0"?><robot name="test">${links}</robot>`);
+}
+
+describe('Inertial Generator', () => {
+  describe('Primitives', () => {
+    test('Computes volumes', () => {
+      expect(computeGeometryVolume({ box: { size: { x: 1, y: 2, z: 3 } } })).toBe(6);
+      expect(computeGeometryVolume({ cylinder: { radius: 1, length: 2 } })).toBeCloseTo(
+        2 * Math.PI,
+        9
+      );
+      expect(computeGeometryVolume({ sphere: { radius: 1 } })).toBeCloseTo((4 / 3) * Math.PI, 9);
+      expect(computeGeometryVolume({ mesh: { filename: 'base.stl' } })).toBeUndefined();
+    });
+
+    test('Computes solid inertia tensors', () => {
+      expect(computeGeometryInertia({ box: { size: { x: 1, y: 2, z: 3 } } }, 12)).toEqual([
+        13, 0, 0, 0, 10, 0, 0, 0, 5,
+      ]);
+      expect(computeGeometryInertia({ cylinder: { radius: 1, length: 2 } }, 12)).toEqual([
+        7, 0, 0, 0, 7, 0, 0, 0, 6,
+      ]);
+      expect(computeGeometryInertia({ sphere: { radius: 1 } }, 5)).toEqual([
+        2, 0, 0, 0, 2, 0, 0, 0, 2,
+      ]);
+    });
+  });
+
+  describe('generateInertial', () => {
+    test('Uses density for the mass', () => {
+      const robot = robotWith(`
+        <link name="base">
+          <collision><geometry><box size="0.1 0.2 0.3"/></geometry></collision>
+        </link>`);
+      const inertial = generateInertial(robot.links[0], { density: 1000 })!;
+
+      expect(inertial.mass?.value).toBeCloseTo(6, 9);
+      expect(inertial.origin?.xyz).toEqual({ x: 0, y: 0, z: 0 });
+      expect(inertial.inertia?.ixx).toBeCloseTo(0.065, 9);
+      expect(inertial.inertia?.iyy).toBeCloseTo(0.05, 9);
+      expect(inertial.inertia?.izz).toBeCloseTo(0.025, 9);
+    });
+
+    test('Rotates shapes by their origin', () => {
+      const robot = robotWith(`
+        <link name="wheel">
+          <collision>
+            <origin xyz="0 0 0.5" rpy="1.5707963267948966 0 0"/>
+            <geometry><cylinder radius="1" length="2"/></geometry>
+          </collision>
+        </link>`);
+      const inertial = generateInertial(robot.links[0], { mass: 12 })!;
+
+      expect(inertial.mass?.value).toBeCloseTo(12, 9);
+      expect(inertial.origin?.xyz?.z).toBeCloseTo(0.5, 9);
+      expect(inertial.inertia?.ixx).toBeCloseTo(7, 9);
+      expect(inertial.inertia?.iyy).toBeCloseTo(6, 9);
+      expect(inertial.inertia?.izz).toBeCloseTo(7, 9);
+      expect(inertial.inertia?.iyz).toBeCloseTo(0, 9);
+    });
+
+    test('Combines shapes with the parallel-axis theorem', () => {
+      const robot = robotWith(`
+        <link name="dumbbell">
+          <collision><origin xyz="-1 0 0"/><geometry><sphere radius="0.5"/></geometry></collision>
+          <collision><origin xyz="1 0 0"/><geometry><sphere radius="0.5"/></geometry></collision>
+          <collision><geometry><mesh filename="bar.stl"/></geometry></collision>
+        </link>`);
+      const inertial = generateInertial(robot.links[0], { mass: 4 })!;
+
+      expect(inertial.mass?.value).toBeCloseTo(4, 9);
+      expect(inertial.origin?.xyz?.x).toBeCloseTo(0, 9);
+      expect(inertial.inertia?.ixx).toBeCloseTo(0.4, 9);
+      expect(inertial.inertia?.iyy).toBeCloseTo(4.4, 9);
+      expect(inertial.inertia?.izz).toBeCloseTo(4.4, 9);
+    });
+
+    test('Falls back to visual geometry', () => {
+      const robot = robotWith(`
+        <link name="base">
+          <visual><geometry><sphere radius="1"/></geometry></visual>
+          <collision><geometry><mesh filename="base.stl"/></geometry></collision>
+        </link>`);
+
+      expect(generateInertial(robot.links[0], { mass: 5 })?.inertia?.ixx).toBeCloseTo(2, 9);
+      expect(generateInertial(robot.links[0], { mass: 5, source: 'visual' })?.mass?.value).toBe(5);
+    });
+
+    test('Returns undefined without primitive geometry', () => {
+      const robot = robotWith('<link name="base"/>');
+      expect(generateInertial(robot.links[0], { density: 1000 })).toBeUndefined();
+    });
+
+    test('Requires density or mass', () => {
+      const robot = robotWith('<link name="base"/>');
+      expect(() => generateInertial(robot.links[0], {})).toThrow('Either density or mass');
+    });
+  });
+
+  describe('fillMissingInertials', () => {
+    test('Fills only links without inertial', () => {
+      const robot = robotWith(`
+        <link name="base">
+          <inertial><mass value="3"/><inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1"/></inertial>
+          <collision><geometry><box size="1 1 1"/></geometry></collision>
+        </link>
+        <link name="arm">
+          <collision><geometry><box size="0.1 0.1 0.5"/></geometry></collision>
+        </link>
+        <link name="camera">
+          <collision><geometry><mesh filename="camera.stl"/></geometry></collision>
+        </link>`);
+
+      expect(fillMissingInertials(robot, { density: 1000 })).toEqual(['arm']);
+      expect(robot.links[0].inertial?.mass?.value).toBe(3);
+      expect(robot.links[1].inertial?.mass?.value).toBeCloseTo(5, 9);
+      expect(robot.links[2].inertial).toBeUndefined();
+      expect(checkInertials(robot)[1].diagnostics).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// Mass Properties Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  combineMassProperties,
+  computeCenterOfMass,
+  computeCompositeInertia,
+  computeInertialMassProperties,
+  computeTotalMass,
+  inertiaToMatrix3,
+  matrix3ToInertia,
+} from '../../src/dynamics/massProperties';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Matrix3 } from '../../src/types/math';
+import { Robot } from '../../src/types/urdf';
+import { translationMatrix4 } from '../../src/utils/transform';
+
+function expectVectorClose(
+  actual: { x: number; y: number; z: number },
+  expected: { x: number; y: number; z: number }
+) {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+  expect(actual.z).toBeCloseTo(expected.z, 9);
+}
+
+function expectMatrixClose(actual: Matrix3, expected: Matrix3) {
+  actual.forEach((value, index) => expect(value).toBeCloseTo(expected[index], 9));
+}
+
+// Base of 2 kg at the origin, and an arm of 1 kg on a z-axis revolute joint 1 m along x
+// whose center of mass is 1 m further along x with its inertial frame turned 90 degrees
+const robot: Robot = {
+  name: 'test',
+  links: [
+    {
+      name: 'base',
+      inertial: {
+        mass: { value: 2 },
+        inertia: { ixx: 1, ixy: 0, ixz: 0, iyy: 1, iyz: 0, izz: 1 },
+      },
+      visuals: [],
+      collisions: [],
+    },
+    {
+      name: 'arm',
+      inertial: {
+        origin: { xyz: { x: 1, y: 0, z: 0 }, rpy: { x: 0, y: 0, z: Math.PI / 2 } },
+        mass: { value: 1 },
+        inertia: { ixx: 1, ixy: 0, ixz: 0, iyy: 2, iyz: 0, izz: 3 },
+      },
+      visuals: [],
+      collisions: [],
+    },
+  ],
+  joints: [
+    {
+      name: 'shoulder',
+      type: 'continuous',
+      origin: { xyz: { x: 1, y: 0, z: 0 } },
+      parent: { link: 'base' },
+      child: { link: 'arm' },
+      axis: { xyz: { x: 0, y: 0, z: 1 } },
+    },
+  ],
+  materials: [],
+  transmissions: [],
+};
+
+describe('Mass Properties', () => {
+  test('Converts between inertia components and matrices', () => {
+    const inertia = { ixx: 1, ixy: 0.1, ixz: 0.2, iyy: 2, iyz: 0.3, izz: 3 };
+    expect(inertiaToMatrix3(inertia)).toEqual([1, 0.1, 0.2, 0.1, 2, 0.3, 0.2, 0.3, 3]);
+    expect(matrix3ToInertia(inertiaToMatrix3(inertia))).toEqual(inertia);
+    expect(inertiaToMatrix3()).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  test('Rotates link inertia by the inertial origin', () => {
+    const properties = computeInertialMassProperties(robot.links[1].inertial!);
+
+    expect(properties.mass).toBe(1);
+    expectVectorClose(properties.centerOfMass, { x: 1, y: 0, z: 0 });
+    expectMatrixClose(properties.inertia, [2, 0, 0, 0, 1, 0, 0, 0, 3]);
+  });
+
+  test('Computes total mass', () => {
+    expect(computeTotalMass(robot)).toBe(3);
+
+    const sampleUrdf = fs.readFileSync(
+      path.join(__dirname, '../../samples/sample_robot.urdf'),
+      'utf8'
+    );
+    expect(computeTotalMass(new URDFParser().parse(sampleUrdf))).toBeCloseTo(2.7, 9);
+  });
+
+  test('Computes center of mass for a configuration', () => {
+    expectVectorClose(computeCenterOfMass(robot), { x: 2 / 3, y: 0, z: 0 });
+    expectVectorClose(computeCenterOfMass(robot, { shoulder: Math.PI / 2 }), {
+      x: 1 / 3,
+      y: 1 / 3,
+      z: 0,
+    });
+    expectVectorClose(
+      computeCenterOfMass(robot, {}, { rootTransform: translationMatrix4({ x: 0, y: 0, z: 1 }) }),
+      { x: 2 / 3, y: 0, z: 1 }
+    );
+  });
+
+  test('Applies the parallel-axis theorem to composite inertia', () => {
+    const composite = computeCompositeInertia(robot, 'base');
+
+    expect(composite.mass).toBe(3);
+    expectVectorClose(composite.centerOfMass, { x: 2 / 3, y: 0, z: 0 });
+    expectMatrixClose(composite.inertia, [3, 0, 0, 0, 14 / 3, 0, 0, 0, 20 / 3]);
+  });
+
+  test('Expresses subtree inertia in any link frame', () => {
+    const inArm = computeCompositeInertia(robot, 'arm', { shoulder: Math.PI / 2 });
+    expectVectorClose(inArm.centerOfMass, { x: 1, y: 0, z: 0 });
+    expectMatrixClose(inArm.inertia, [2, 0, 0, 0, 1, 0, 0, 0, 3]);
+
+    const inBase = computeCompositeInertia(robot, 'arm', { shoulder: Math.PI / 2 }, 'base');
+    expect(inBase.mass).toBe(1);
+    expectVectorClose(inBase.centerOfMass, { x: 1, y: 1, z: 0 });
+    expectMatrixClose(inBase.inertia, [1, 0, 0, 0, 2, 0, 0, 0, 3]);
+  });
+
+  test('Throws for unknown links', () => {
+    expect(() => computeCompositeInertia(robot, 'missing')).toThrow('Unknown link: missing');
+    expect(() => computeCompositeInertia(robot, 'arm', {}, 'missing')).toThrow(
+      'Unknown link: missing'
+    );
+  });
+
+  test('Combines massless bodies', () => {
+    expect(combineMassProperties([])).toEqual({
+      mass: 0,
+      centerOfMass: { x: 0, y: 0, z: 0 },
+      inertia: [0, 0, 0, 0, 0, 0, 0, 0, 0],
+    });
+  });
+});
@@ -0,0 +1,169 @@
+// Robot Composer Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { attach } from '../../src/editing/robotComposer';
+import { computeLinkTransforms } from '../../src/kinematics/forwardKinematics';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Robot } from '../../src/types/urdf';
+import { validate } from '../../src/validation/validator';
+import { URDFWriter } from '../../src/writer/urdfWriter';
+
+describe('Robot Composer', () => {
+  const sampleUrdfPath = path.join(__dirname, '../../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+  const gripperUrdf = `
+    <robot name="gripper">
+      <material name="black"><color rgba="0 0 0 1"/></material>
+      <material name="red"><color rgba="0.8 0 0 1"/></material>
+      <link name="base_link">
+        <visual><geometry><box size="0.1 0.1 0.02"/></geometry><material name="black"/></visual>
+      </link>
+      <link name="finger_left">
+        <visual><geometry><box size="0.01 0.01 0.05"/></geometry><material name="red"/></visual>
+      </link>
+      <link name="finger_right"/>
+      <joint name="finger_left_joint" type="prismatic">
+        <parent link="base_link"/>
+        <child link="finger_left"/>
+        <origin xyz="0 0.02 0.02"/>
+        <axis xyz="0 1 0"/>
+        <limit lower="0" upper="0.04" effort="10" velocity="0.1"/>
+      </joint>
+      <joint name="finger_right_joint" type="prismatic">
+        <parent link="base_link"/>
+        <child link="finger_right"/>
+        <axis xyz="0 -1 0"/>
+        <limit lower="0" upper="0.04" effort="10" velocity="0.1"/>
+        <mimic joint="finger_left_joint"/>
+      </joint>
+      <transmission name="finger_trans">
+        <type>transmission_interface/SimpleTransmission</type>
+        <joint name="finger_left_joint">
+          <hardwareInterface>hardware_interface/PositionJointInterface</hardwareInterface>
+        </joint>
+        <actuator name="finger_motor"><mechanicalReduction>1</mechanicalReduction></actuator>
+      </transmission>
+      <ros2_control name="gripper_system" type="system">
+        <hardware><plugin>mock/System</plugin></hardware>
+        <joint name="finger_left_joint"><command_interface name="position"/></joint>
+      </ros2_control>
+      <gazebo reference="finger_left"><mu1>1.0</mu1></gazebo>
+    </robot>
+  `;
+
+  let base: Robot;
+  let tool: Robot;
+
+  beforeEach(() => {
+    const parser = new URDFParser();
+    base = parser.parse(sampleUrdf);
+    tool = parser.parse(gripperUrdf);
+  });
+
+  describe('attach', () => {
+    test('Connects the tool root with a fixed joint', () => {
+      const robot = attach(
+        base,
+        tool,
+        'gripper',
+        { xyz: { x: 0, y: 0, z: 0.1 } },
+        { prefix: 'g_' }
+      );
+
+      expect(robot.name).toBe('simple_robot');
+      expect(robot.links).toHaveLength(base.links.length + tool.links.length);
+      expect(robot.joints.find(joint => joint.name === 'gripper_to_g_base_link')).toEqual({
+        name: 'gripper_to_g_base_link',
+        type: 'fixed',
+        origin: { xyz: { x: 0, y: 0, z: 0.1 } },
+        parent: { link: 'gripper' },
+        child: { link: 'g_base_link' },
+      });
+      expect(computeLinkTransforms(robot).g_finger_left[11]).toBeCloseTo(
+        0.05 + 0.25 + 0.1 + 0.02,
+        12
+      );
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Prefixes names and every reference to them', () => {
+      const robot = attach(base, tool, 'gripper', {}, { prefix: 'g_' });
+      const mimic = robot.joints.find(joint => joint.name === 'g_finger_right_joint')!;
+      const transmission = robot.transmissions.find(t => t.name === 'g_finger_trans')!;
+
+      expect(mimic.parent.link).toBe('g_base_link');
+      expect(mimic.mimic?.joint).toBe('g_finger_left_joint');
+      expect(transmission.joint?.name).toBe('g_finger_left_joint');
+      expect(transmission.joint).toBe(transmission.joints![0]);
+      expect(transmission.actuator?.name).toBe('g_finger_motor');
+      expect(robot.ros2Control).toHaveLength(1);
+      expect(robot.ros2Control![0].name).toBe('g_gripper_system');
+      expect(robot.ros2Control![0].joints[0].name).toBe('g_finger_left_joint');
+      expect(robot.gazebo).toEqual([
+        {
+          reference: 'g_finger_left',
+          elements: [{ tag: 'mu1', attributes: {}, children: [], text: '1.0' }],
+        },
+      ]);
+    });
+
+    test('Dedupes identical root materials', () => {
+      const robot = attach(base, tool, 'gripper', {}, { prefix: 'g_' });
+      const link = (name: string) => robot.links.find(other => other.name === name)!;
+
+      expect(robot.materials.map(material => material.name)).toEqual([
+        'blue',
+        'black',
+        'gray',
+        'red',
+        'textured',
+        'g_red',
+      ]);
+      expect(link('g_base_link').visuals[0].material?.name).toBe('black');
+      expect(link('g_finger_left').visuals[0].material?.name).toBe('g_red');
+    });
+
+    test('Leaves both robots unchanged', () => {
+      const baseCopy = JSON.parse(JSON.stringify(base));
+      const toolCopy = JSON.parse(JSON.stringify(tool));
+      const robot = attach(base, tool, 'gripper', {}, { prefix: 'g_' });
+      robot.links[0].name = 'changed';
+
+      expect(JSON.parse(JSON.stringify(base))).toEqual(baseCopy);
+      expect(JSON.parse(JSON.stringify(tool))).toEqual(toolCopy);
+    });
+
+    test('Round trips through the writer', () => {
+      const robot = attach(base, tool, 'gripper', {}, { prefix: 'g_' });
+      const reparsed = new URDFParser().parse(new URDFWriter().serialize(robot));
+
+      expect(reparsed.joints.map(joint => joint.name)).toEqual(
+        robot.joints.map(joint => joint.name)
+      );
+      expect(reparsed.transmissions[2].joints![0].name).toBe('g_finger_left_joint');
+    });
+
+    test('Refuses name collisions and unknown links', () => {
+      expect(() => attach(base, tool, 'gripper')).toThrow(
+        'Link base_link is already defined; use a different prefix'
+      );
+      expect(() => attach(base, tool, 'missing', {}, { prefix: 'g_' })).toThrow(
+        'Unknown link: missing'
+      );
+      expect(() =>
+        attach(base, tool, 'gripper', {}, { prefix: 'g_', jointName: 'base_to_arm' })
+      ).toThrow('Joint base_to_arm is already defined; use a different prefix');
+    });
+
+    test('Refuses materials redefined without a prefix', () => {
+      tool.links = [{ ...tool.links[0], name: 'tool_base' }];
+      tool.joints = [];
+      tool.transmissions = [];
+
+      expect(() => attach(base, tool, 'gripper')).toThrow(
+        'Material red is already defined; use a different prefix'
+      );
+    });
+  });
+});
@@ -0,0 +1,394 @@
+// Robot Editor Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { computeCenterOfMass, computeTotalMass } from '../../src/dynamics/massProperties';
+import {
+  insertFixedFrame,
+  lumpFixedJoints,
+  mergeFixedJoints,
+  removeSubtree,
+  renameJoint,
+  renameLink,
+  reparent,
+} from '../../src/editing/robotEditor';
+import { computeLinkTransforms } from '../../src/kinematics/forwardKinematics';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Robot } from '../../src/types/urdf';
+import { validate } from '../../src/validation/validator';
+
+describe('Robot Editor', () => {
+  const sampleUrdfPath = path.join(__dirname, '../../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+  const extensions = `
+    <ros2_control name="sys" type="system">
+      <hardware><plugin>mock/System</plugin></hardware>
+      <joint name="base_to_arm"><command_interface name="position"/></joint>
+      <joint name="arm_to_gripper"><command_interface name="position"/></joint>
+    </ros2_control>
+    <gazebo reference="arm"><mu1>0.5</mu1></gazebo>
+    <gazebo reference="arm_to_gripper"><provideFeedback>true</provideFeedback></gazebo>
+    <gazebo reference="caster"><mu1>0.1</mu1></gazebo>
+    <gazebo reference="base_to_caster"><preserveFixedJoint>true</preserveFixedJoint></gazebo>
+    <gazebo><static>false</static></gazebo>
+  `;
+
+  let robot: Robot;
+
+  beforeEach(() => {
+    robot = new URDFParser().parse(sampleUrdf.replace('</robot>', `${extensions}</robot>`));
+  });
+
+  /**
+   * Get a joint by name
+   * @param name Joint name
+   * @returns Joint object
+   */
+  const joint = (name: string) => robot.joints.find(other => other.name === name)!;
+
+  /**
+   * Get a link by name
+   * @param name Link name
+   * @returns Link object
+   */
+  const link = (name: string) => robot.links.find(other => other.name === name)!;
+
+  describe('renameLink', () => {
+    test('Updates joints and gazebo references', () => {
+      renameLink(robot, 'arm', 'upper_arm');
+
+      expect(link('upper_arm')).toBeDefined();
+      expect(joint('base_to_arm').child.link).toBe('upper_arm');
+      expect(joint('arm_to_gripper').parent.link).toBe('upper_arm');
+      expect(robot.gazebo![0].reference).toBe('upper_arm');
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Refuses unknown links and existing names', () => {
+      expect(() => renameLink(robot, 'missing', 'x')).toThrow('Unknown link: missing');
+      expect(() => renameLink(robot, 'arm', 'gripper')).toThrow('Link gripper already exists');
+      expect(link('arm')).toBeDefined();
+    });
+  });
+
+  describe('renameJoint', () => {
+    test('Updates mimic, transmission, ros2_control and gazebo references', () => {
+      renameJoint(robot, 'base_to_right_wheel', 'right_wheel_joint');
+      renameJoint(robot, 'arm_to_gripper', 'wrist');
+
+      expect(joint('base_to_left_wheel').mimic?.joint).toBe('right_wheel_joint');
+      expect(robot.transmissions[0].joint?.name).toBe('right_wheel_joint');
+      expect(robot.transmissions[0].joints?.[0].name).toBe('right_wheel_joint');
+      expect(robot.ros2Control![0].joints.map(j => j.name)).toEqual(['base_to_arm', 'wrist']);
+      expect(robot.gazebo![1].reference).toBe('wrist');
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Refuses unknown joints and existing names', () => {
+      expect(() => renameJoint(robot, 'missing', 'x')).toThrow('Unknown joint: missing');
+      expect(() => renameJoint(robot, 'base_to_arm', 'base_to_slider')).toThrow(
+        'Joint base_to_slider already exists'
+      );
+    });
+  });
+
+  describe('removeSubtree', () => {
+    test('Removes links, joints and references below a link', () => {
+      removeSubtree(robot, 'arm');
+
+      expect(robot.links.map(l => l.name)).not.toContain('arm');
+      expect(robot.links.map(l => l.name)).not.toContain('gripper');
+      expect(robot.joints.map(j => j.name)).not.toContain('base_to_arm');
+      expect(robot.joints.map(j => j.name)).not.toContain('arm_to_gripper');
+      expect(robot.transmissions.map(t => t.name)).toEqual(['wheel_trans']);
+      expect(robot.ros2Control![0].joints).toEqual([]);
+      expect(robot.gazebo!.map(block => block.reference)).toEqual([
+        'caster',
+        'base_to_caster',
+        undefined,
+      ]);
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Keeps transmissions that still drive joints', () => {
+      robot.transmissions[1].joints!.push({ name: 'base_to_slider' });
+      removeSubtree(robot, 'arm');
+
+      const transmission = robot.transmissions.find(t => t.name === 'arm_trans')!;
+      expect(transmission.joints!.map(j => j.name)).toEqual(['base_to_slider']);
+      expect(transmission.joint).toBe(transmission.joints![0]);
+    });
+
+    test('Refuses to remove the root or a mimicked joint', () => {
+      expect(() => removeSubtree(robot, 'base_link')).toThrow('Cannot remove root link base_link');
+      expect(() => removeSubtree(robot, 'right_wheel')).toThrow(
+        'Joint base_to_left_wheel mimics base_to_right_wheel, which would be removed'
+      );
+      expect(link('right_wheel')).toBeDefined();
+    });
+  });
+
+  describe('reparent', () => {
+    test('Keeps the world pose of the moved link', () => {
+      const before = computeLinkTransforms(robot);
+      reparent(robot, 'slider', 'arm');
+
+      expect(joint('base_to_slider').parent.link).toBe('arm');
+      expect(joint('base_to_slider').origin?.xyz).toEqual({ x: 0.1, y: 0, z: 0 });
+      const after = computeLinkTransforms(robot);
+      for (const name of ['slider', 'arm', 'gripper']) {
+        after[name].forEach((value, i) => expect(value).toBeCloseTo(before[name][i], 12));
+      }
+    });
+
+    test('Keeps the joint origin when configured', () => {
+      reparent(robot, 'slider', 'arm', { keepPose: false });
+      expect(joint('base_to_slider').parent.link).toBe('arm');
+      expect(joint('base_to_slider').origin?.xyz).toEqual({ x: 0.1, y: 0, z: 0.05 });
+    });
+
+    test('Refuses moves that would create a cycle', () => {
+      expect(() => reparent(robot, 'arm', 'gripper')).toThrow(
+        'Cannot move link arm under its own subtree link gripper'
+      );
+      expect(() => reparent(robot, 'arm', 'arm')).toThrow();
+      expect(() => reparent(robot, 'base_link', 'arm')).toThrow(
+        'Link base_link has no parent joint'
+      );
+      expect(joint('base_to_arm').parent.link).toBe('base_link');
+    });
+  });
+
+  describe('insertFixedFrame', () => {
+    test('Adds an empty link with a fixed joint', () => {
+      const created = insertFixedFrame(robot, 'gripper', 'tool0', {
+        origin: { xyz: { x: 0, y: 0, z: 0.1 } },
+      });
+
+      expect(created).toMatchObject({
+        name: 'tool0_joint',
+        type: 'fixed',
+        parent: { link: 'gripper' },
+        child: { link: 'tool0' },
+      });
+      expect(link('tool0')).toEqual({ name: 'tool0', visuals: [], collisions: [] });
+      expect(computeLinkTransforms(robot).tool0[11]).toBeCloseTo(0.05 + 0.25 + 0.1, 12);
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Refuses existing names', () => {
+      expect(() => insertFixedFrame(robot, 'missing', 'tool0')).toThrow('Unknown link: missing');
+      expect(() => insertFixedFrame(robot, 'arm', 'gripper')).toThrow(
+        'Link gripper already exists'
+      );
+      expect(() => insertFixedFrame(robot, 'arm', 'x', { jointName: 'base_to_arm' })).toThrow(
+        'Joint base_to_arm already exists'
+      );
+    });
+  });
+
+  describe('mergeFixedJoints', () => {
+    test('Moves geometry, mass and child joints into the parent link', () => {
+      insertFixedFrame(robot, 'caster', 'caster_mount', { origin: { xyz: { x: 0, y: 0, z: -1 } } });
+      mergeFixedJoints(robot, ['base_to_caster']);
+
+      const base = link('base_link');
+      expect(robot.links.map(l => l.name)).not.toContain('caster');
+      expect(robot.joints.map(j => j.name)).not.toContain('base_to_caster');
+      expect(base.visuals[1].geometry?.sphere?.radius).toBe(0.05);
+      expect(base.visuals[1].origin?.xyz).toEqual({ x: 0.1, y: 0, z: -0.05 });
+      expect(base.collisions[1].origin?.xyz).toEqual({ x: 0.1, y: 0, z: -0.05 });
+
+      expect(base.inertial?.mass?.value).toBeCloseTo(1.1, 12);
+      expect(base.inertial?.origin?.xyz?.x).toBeCloseTo(0.01 / 1.1, 12);
+      expect(base.inertial?.origin?.xyz?.z).toBeCloseTo(-0.005 / 1.1, 12);
+      // Parallel-axis terms of both bodies about the combined center of mass
+      const dx = 0.1;
+      const dz = -0.05;
+      const reduced = (1 * 0.1) / 1.1;
+      expect(base.inertial?.inertia?.iyy).toBeCloseTo(0.11 + reduced * (dx * dx + dz * dz), 12);
+      expect(base.inertial?.inertia?.ixz).toBeCloseTo(-reduced * dx * dz, 12);
+
+      const mount = joint('caster_mount_joint');
+      expect(mount.parent.link).toBe('base_link');
+      expect(mount.origin?.xyz).toEqual({ x: 0.1, y: 0, z: -1.05 });
+      expect(robot.gazebo!.map(block => block.reference)).toEqual([
+        'arm',
+        'arm_to_gripper',
+        'base_link',
+        undefined,
+      ]);
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Composes rotated joint origins', () => {
+      const before = computeLinkTransforms(robot);
+      joint('base_to_slider').type = 'fixed';
+      insertFixedFrame(robot, 'slider', 'tip', { origin: { xyz: { x: 1, y: 0, z: 0 } } });
+      robot.transmissions = [];
+      mergeFixedJoints(robot, ['base_to_slider']);
+
+      const tip = computeLinkTransforms(robot).tip;
+      expect(tip[3]).toBeCloseTo(before.slider[3] + Math.cos(1.57), 12);
+      expect(tip[7]).toBeCloseTo(before.slider[7] + Math.sin(1.57), 12);
+    });
+
+    test('Refuses moving and referenced joints', () => {
+      expect(() => mergeFixedJoints(robot, ['base_to_arm'])).toThrow(
+        'Joint base_to_arm is not fixed'
+      );
+      expect(() => mergeFixedJoints(robot, ['base_to_caster', 'missing'])).toThrow(
+        'Unknown joint: missing'
+      );
+      expect(link('caster')).toBeDefined();
+
+      joint('base_to_arm').type = 'fixed';
+      expect(() => mergeFixedJoints(robot, ['base_to_arm'])).toThrow(
+        'Joint base_to_arm is referenced by transmission arm_trans'
+      );
+    });
+  });
+
+  describe('lumpFixedJoints', () => {
+    beforeEach(() => {
+      insertFixedFrame(robot, 'gripper', 'tool0', { origin: { xyz: { x: 0, y: 0, z: 0.1 } } });
+      insertFixedFrame(robot, 'tool0', 'tcp', { origin: { rpy: { x: 0, y: 0, z: 1 } } });
+      link('tcp').inertial = {
+        origin: { xyz: { x: 0.01, y: 0, z: 0 } },
+        mass: { value: 0.05 },
+        inertia: { ixx: 0.001, ixy: 0, ixz: 0, iyy: 0.002, iyz: 0, izz: 0.003 },
+      };
+    });
+
+    test('Collapses every fixed joint into the reduced model', () => {
+      const mass = computeTotalMass(robot);
+      const centerOfMass = computeCenterOfMass(robot);
+      const gripperToTcp = computeLinkTransforms(robot).tcp;
+
+      expect(lumpFixedJoints(robot)).toEqual(['caster', 'tool0', 'tcp']);
+      expect(robot.joints.some(joint => joint.type === 'fixed')).toBe(false);
+      expect(robot.links.map(l => l.name)).toEqual([
+        'base_link',
+        'right_wheel',
+        'left_wheel',
+        'arm',
+        'gripper',
+        'slider',
+      ]);
+      expect(computeTotalMass(robot)).toBeCloseTo(mass, 12);
+      const lumped = computeCenterOfMass(robot);
+      expect(lumped.x).toBeCloseTo(centerOfMass.x, 12);
+      expect(lumped.y).toBeCloseTo(centerOfMass.y, 12);
+      expect(lumped.z).toBeCloseTo(centerOfMass.z, 12);
+
+      // The tcp inertia is rotated by 1 rad about z into the gripper frame, and both
+      // tensors are shifted to the combined center of mass; the tcp center of mass is
+      // at (0.01 cos 1, 0.01 sin 1, 0.05) relative to the gripper's
+      const inertia = link('gripper').inertial!.inertia!;
+      const [c, s] = [Math.cos(1), Math.sin(1)];
+      const reduced = (0.1 * 0.05) / 0.15;
+      expect(inertia.izz).toBeCloseTo(0.01 + 0.003 + reduced * 0.01 ** 2, 12);
+      expect(inertia.ixy).toBeCloseTo(c * s * (0.001 - 0.002) - reduced * 0.01 ** 2 * c * s, 12);
+      expect(gripperToTcp[11]).toBeCloseTo(0.05 + 0.25 + 0.1, 12);
+      expect(validate(robot)).toEqual([]);
+    });
+
+    test('Keeps named frames and attaches them to the lumped parent', () => {
+      expect(lumpFixedJoints(robot, { keepFrames: ['tcp'] })).toEqual(['caster', 'tool0']);
+
+      const tcp = joint('tcp_joint');
+      expect(tcp.parent.link).toBe('gripper');
+      expect(tcp.origin?.xyz).toEqual({ x: 0, y: 0, z: 0.1 });
+      expect(tcp.origin?.rpy?.z).toBeCloseTo(1, 12);
+      expect(link('tcp').inertial?.mass?.value).toBe(0.05);
+    });
+
+    test('Keeps fixed joints that other elements reference', () => {
+      joint('base_to_arm').type = 'fixed';
+
+      expect(lumpFixedJoints(robot)).toEqual(['caster', 'tool0', 'tcp']);
+      expect(joint('base_to_arm').parent.link).toBe('base_link');
+    });
+
+    test('Keeps fixed joints below an empty root link', () => {
+      robot.links.push({ name: 'base_footprint', visuals: [], collisions: [] });
+      robot.joints.push({
+        name: 'footprint_joint',
+        type: 'fixed',
+        parent: { link: 'base_footprint' },
+        child: { link: 'base_link' },
+      });
+
+      expect(lumpFixedJoints(robot)).toEqual(['caster', 'tool0', 'tcp']);
+      expect(joint('footprint_joint').child.link).toBe('base_link');
+    });
+
+    test('Keeps fixed joints below a world root link', () => {
+      robot.links.push({ name: 'world', visuals: [], collisions: [] });
+      link('world').collisions.push({ geometry: { box: { size: { x: 10, y: 10, z: 0.01 } } } });
+      robot.joints.push({
+        name: 'world_joint',
+        type: 'fixed',
+        parent: { link: 'world' },
+        child: { link: 'base_link' },
+      });
+
+      expect(lumpFixedJoints(robot)).toEqual(['caster', 'tool0', 'tcp']);
+      expect(joint('world_joint').child.link).toBe('base_link');
+      expect(link('world').collisions).toHaveLength(1);
+    });
+
+    test('Merges fixed children into links without content below moving joints', () => {
+      const slider = link('slider');
+      slider.visuals = [];
+      slider.collisions = [];
+      delete slider.inertial;
+      insertFixedFrame(robot, 'slider', 'tip');
+      link('tip').inertial = { mass: { value: 2 } };
+
+      expect(lumpFixedJoints(robot)).toContain('tip');
+      expect(link('slider').inertial?.mass?.value).toBe(2);
+    });
+
+    test('Composes the joint origins into moved sensor poses', () => {
+      const sensor = (pose?: string) => ({
+        tag: 'sensor',
+        attributes: { name: 'camera', type: 'camera' },
+        children: pose ? [{ tag: 'pose', attributes: {}, children: [], text: pose }] : [],
+      });
+      robot.gazebo!.push(
+        { reference: 'tool0', elements: [sensor('0 0 0.05 0 0 0')] },
+        { reference: 'tcp', elements: [sensor()] }
+      );
+
+      lumpFixedJoints(robot);
+
+      const poses = robot
+        .gazebo!.filter(block => block.reference === 'gripper')
+        .map(block => block.elements[0].children[0].text);
+      expect(poses).toEqual(['0 0 0.15 0 0 0', '0 0 0.1 0 0 1']);
+    });
+
+    test('Renames merged visuals and collisions that clash with the parent', () => {
+      link('gripper').visuals[0].name = 'body';
+      link('gripper').collisions[0].name = 'body';
+      link('tcp').visuals.push(
+        { name: 'body', geometry: { sphere: { radius: 0.01 } } },
+        { name: 'body_2', geometry: { sphere: { radius: 0.02 } } }
+      );
+      link('tcp').collisions.push({ name: 'body', geometry: { sphere: { radius: 0.01 } } });
+
+      lumpFixedJoints(robot);
+
+      expect(link('gripper').visuals.map(visual => visual.name)).toEqual([
+        'body',
+        'body_2',
+        'body_2_2',
+      ]);
+      expect(link('gripper').collisions.map(collision => collision.name)).toEqual([
+        'body',
+        'body_2',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+// glTF Writer Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { URDFParser } from '../src/parser/urdfParser';
+import { GLTFDocument, GLTFNode, GLTFWriter } from '../src/writer/gltfWriter';
+
+describe('GLTFWriter', () => {
+  const sampleUrdfPath = path.join(__dirname, '../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+
+  let parser: URDFParser;
+  let writer: GLTFWriter;
+
+  beforeEach(() => {
+    parser = new URDFParser();
+    writer = new GLTFWriter();
+  });
+
+  /**
+   * Find a node by name
+   * @param gltf glTF document
+   * @param name Node name
+   * @returns Node index
+   */
+  const nodeIndex = (gltf: GLTFDocument, name: string) =>
+    gltf.nodes.findIndex(node => node.name === name);
+
+  /**
+   * Read the data of an accessor from the embedded buffer
+   * @param gltf glTF document
+   * @param accessor Accessor index
+   * @returns Accessor values
+   */
+  const readAccessor = (gltf: GLTFDocument, accessor: number): number[] => {
+    const { bufferView, componentType, count, type } = gltf.accessors![accessor];
+    const view = gltf.bufferViews![bufferView];
+    const data = Buffer.from(gltf.buffers![view.buffer].uri!.split(',')[1], 'base64');
+    const bytes = data.buffer.slice(
+      data.byteOffset + view.byteOffset,
+      data.byteOffset + view.byteOffset + view.byteLength
+    );
+    const values =
+      componentType === 5126
+        ? new Float32Array(bytes)
+        : componentType === 5123
+          ? new Uint16Array(bytes)
+          : new Uint32Array(bytes);
+    expect(values.length).toBe(count * (type === 'VEC3' ? 3 : 1));
+    return Array.from(values);
+  };
+
+  /**
+   * Read the triangles of a mesh
+   * @param gltf glTF document
+   * @param mesh Mesh index
+   * @returns Triangle corner positions and vertex normals
+   */
+  const readTriangles = (gltf: GLTFDocument, mesh: number) => {
+    const { attributes, indices } = gltf.meshes![mesh].primitives[0];
+    const positions = readAccessor(gltf, attributes.POSITION);
+    const normals = readAccessor(gltf, attributes.NORMAL);
+    const vertex = (values: number[], index: number) => values.slice(3 * index, 3 * index + 3);
+    const triangles: { corners: number[][]; normals: number[][] }[] = [];
+    const list = readAccessor(gltf, indices);
+    for (let i = 0; i < list.length; i += 3) {
+      const corners = list.slice(i, i + 3);
+      triangles.push({
+        corners: corners.map(index => vertex(positions, index)),
+        normals: corners.map(index => vertex(normals, index)),
+      });
+    }
+    return triangles;
+  };
+
+  /**
+   * Check that triangles are wound counter-clockwise when seen from their normal side
+   * @param triangles Triangles from readTriangles
+   */
+  const expectOutwardWinding = (triangles: ReturnType<typeof readTriangles>) => {
+    for (const { corners, normals } of triangles) {
+      const [a, b, c] = corners;
+      const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+      const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+      const cross = [
+        e1[1] * e2[2] - e1[2] * e2[1],
+        e1[2] * e2[0] - e1[0] * e2[2],
+        e1[0] * e2[1] - e1[1] * e2[0],
+      ];
+      const normal = normals[0].map((value, i) => value + normals[1][i] + normals[2][i]);
+      expect(cross[0] * normal[0] + cross[1] * normal[1] + cross[2] * normal[2]).toBeGreaterThan(0);
+    }
+  };
+
+  describe('Document', () => {
+    test('Emits a glTF 2.0 scene with a Y-up root node', () => {
+      const gltf = JSON.parse(writer.serialize(parser.parse(sampleUrdf)));
+
+      expect(gltf.asset.version).toBe('2.0');
+      expect(gltf.scenes[gltf.scene].nodes).toHaveLength(1);
+      const root = gltf.nodes[gltf.scenes[0].nodes[0]];
+      expect(root.name).toBe('simple_robot');
+      expect(root.rotation[0]).toBeCloseTo(-Math.SQRT1_2, 12);
+      expect(root.rotation[3]).toBeCloseTo(Math.SQRT1_2, 12);
+      expect(root.children).toEqual([nodeIndex(gltf, 'base_link')]);
+    });
+
+    test('Keeps the Z-up frame when configured', () => {
+      const { gltf } = new GLTFWriter({ yUp: false }).convert(parser.parse(sampleUrdf));
+      expect(gltf.scenes[0].nodes).toEqual([nodeIndex(gltf, 'base_link')]);
+    });
+
+    test('Embeds a single four-byte aligned buffer', () => {
+      const { gltf } = writer.convert(parser.parse(sampleUrdf));
+
+      expect(gltf.buffers).toHaveLength(1);
+      expect(gltf.buffers![0].uri!.startsWith('data:application/octet-stream;base64,')).toBe(true);
+      const data = Buffer.from(gltf.buffers![0].uri!.split(',')[1], 'base64');
+      expect(data.length).toBe(gltf.buffers![0].byteLength);
+      for (const view of gltf.bufferViews!) {
+        expect(view.byteOffset % 4).toBe(0);
+        expect(view.byteOffset + view.byteLength).toBeLessThanOrEqual(data.length);
+      }
+    });
+  });
+
+  describe('Nodes', () => {
+    test('Mirrors the kinematic tree with joint origins as transforms', () => {
+      const { gltf } = writer.convert(parser.parse(sampleUrdf));
+      const base = gltf.nodes[nodeIndex(gltf, 'base_link')];
+      const arm = gltf.nodes[nodeIndex(gltf, 'arm')];
+      const slider = gltf.nodes[nodeIndex(gltf, 'slider')];
+
+      expect(base.translation).toBeUndefined();
+      expect(base.children).toContain(nodeIndex(gltf, 'arm'));
+      expect(arm.children).toContain(nodeIndex(gltf, 'gripper'));
+      expect(arm.translation).toEqual([0, 0, 0.05]);
+      expect(arm.extras).toEqual({ joint: 'base_to_arm', type: 'revolute' });
+      expect(slider.rotation![0]).toBe(0);
+      expect(slider.rotation![1]).toBe(0);
+      expect(slider.rotation![2]).toBeCloseTo(Math.sin(0.785), 12);
+      expect(slider.rotation![3]).toBeCloseTo(Math.cos(0.785), 12);
+    });
+
+    test('References mesh files from visual nodes', () => {
+      const { gltf } = writer.convert(parser.parse(sampleUrdf));
+      const visual = gltf.nodes[nodeIndex(gltf, 'arm_visual_0')];
+
+      expect(visual).toEqual({
+        name: 'arm_visual_0',
+        translation: [0, 0, 0.15],
+        scale: [0.1, 0.1, 0.1],
+        extras: { uri: 'meshes/arm.stl' },
+      });
+      expect(gltf.nodes[nodeIndex(gltf, 'arm')].children![0]).toBe(nodeIndex(gltf, 'arm_visual_0'));
+    });
+  });
+
+  describe('Meshes', () => {
+    test('Tessellates boxes, cylinders and spheres with outward normals', () => {
+      const { gltf } = new GLTFWriter({ segments: 12 }).convert(
+        parser.parse(`
+          <robot name="r">
+            <link name="a">
+              <visual name="box"><geometry><box size="1 2 3"/></geometry></visual>
+              <visual name="cylinder"><geometry><cylinder radius="0.5" length="2"/></geometry></visual>
+              <visual name="sphere"><geometry><sphere radius="2"/></geometry></visual>
+            </link>
+          </robot>
+        `)
+      );
+
+      const box = readTriangles(gltf, gltf.nodes[nodeIndex(gltf, 'box')].mesh!);
+      expect(box).toHaveLength(12);
+      expectOutwardWinding(box);
+      const position = gltf.accessors![gltf.meshes![0].primitives[0].attributes.POSITION];
+      expect(position.min).toEqual([-0.5, -1, -1.5]);
+      expect(position.max).toEqual([0.5, 1, 1.5]);
+
+      const cylinder = readTriangles(gltf, gltf.nodes[nodeIndex(gltf, 'cylinder')].mesh!);
+      expect(cylinder).toHaveLength(4 * 12);
+      expectOutwardWinding(cylinder);
+      for (const [x, y, z] of cylinder.flatMap(triangle => triangle.corners)) {
+        expect(Math.hypot(x, y)).toBeLessThanOrEqual(0.5 + 1e-6);
+        expect(Math.abs(z)).toBeCloseTo(1, 6);
+      }
+
+      const sphere = readTriangles(gltf, gltf.nodes[nodeIndex(gltf, 'sphere')].mesh!);
+      expect(sphere).toHaveLength(12 * 2 * 5);
+      expectOutwardWinding(sphere);
+      for (const [x, y, z] of sphere.flatMap(triangle => triangle.corners)) {
+        expect(Math.hypot(x, y, z)).toBeCloseTo(2, 5);
+      }
+    });
+
+    test('Shares geometry and materials between equal visuals', () => {
+      const { gltf } = writer.convert(parser.parse(sampleUrdf));
+      const leftMesh = gltf.nodes[nodeIndex(gltf, 'left_wheel_visual_0')].mesh!;
+      const rightMesh = gltf.nodes[nodeIndex(gltf, 'right_wheel_visual_0')].mesh!;
+
+      expect(leftMesh).toBe(rightMesh);
+      const casterMesh = gltf.meshes![gltf.nodes[nodeIndex(gltf, 'caster_visual_0')].mesh!];
+      const sliderMesh = gltf.meshes![gltf.nodes[nodeIndex(gltf, 'slider_visual_0')].mesh!];
+      expect(casterMesh.primitives[0].material).toBe(sliderMesh.primitives[0].material);
+    });
+  });
+
+  describe('Materials', () => {
+    test('Uses colors as PBR base colors', () => {
+      const { gltf, diagnostics } = writer.convert(
+        parser.parse(`
+          <robot name="r">
+            <material name="glass"><color rgba="0.5 0.5 1 0.25"/></material>
+            <link name="a">
+              <visual name="named"><geometry><sphere radius="1"/></geometry><material name="glass"/></visual>
+              <visual name="plain"><geometry><sphere radius="1"/></geometry></visual>
+              <visual name="textured">
+                <geometry><sphere radius="1"/></geometry>
+                <material name="wood"><texture filename="wood.png"/></material>
+              </visual>
+            </link>
+          </robot>
+        `)
+      );
+
+      expect(gltf.materials).toEqual([
+        {
+          name: 'glass',
+          pbrMetallicRoughness: { baseColorFactor: [0.5, 0.5, 1, 0.25], metallicFactor: 0 },
+          alphaMode: 'BLEND',
+        },
+      ]);
+      const plain = gltf.meshes![gltf.nodes[nodeIndex(gltf, 'plain')].mesh!];
+      expect(plain.primitives[0].material).toBeUndefined();
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['UNSUPPORTED_ELEMENT', "/robot/link[@name='a']/visual[3]/material/texture"],
+      ]);
+    });
+
+    test('Omits empty arrays for robots with only mesh visuals', () => {
+      const json = writer.serialize(
+        parser.parse(`
+          <robot name="r">
+            <link name="a">
+              <visual><geometry><mesh filename="package://r/meshes/a.stl"/></geometry></visual>
+            </link>
+          </robot>
+        `)
+      );
+      const gltf = JSON.parse(json);
+
+      expect(Object.keys(gltf)).toEqual(['asset', 'scene', 'scenes', 'nodes']);
+      expect(gltf.scenes[0].nodes.every((node: number) => node < gltf.nodes.length)).toBe(true);
+      expect(gltf.nodes.every((node: GLTFNode) => node.mesh === undefined)).toBe(true);
+      expect(gltf.nodes[nodeIndex(gltf, 'a_visual_0')].extras).toEqual({
+        uri: 'package://r/meshes/a.stl',
+      });
+    });
+
+    test('Reports visuals without geometry', () => {
+      const { gltf, diagnostics } = writer.convert(
+        parser.parse('<robot name="r"><link name="a"><visual name="empty"/></link></robot>')
+      );
+
+      expect(nodeIndex(gltf, 'empty')).toBe(-1);
+      expect(gltf.buffers).toBeUndefined();
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['UNSUPPORTED_ELEMENT', "/robot/link[@name='a']/visual[1]"],
+      ]);
+    });
+  });
+});
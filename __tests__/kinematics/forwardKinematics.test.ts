@@ -0,0 +1,144 @@
+// Forward Kinematics Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  computeJointMotion,
+  computeLinkPoses,
+  computeLinkTransforms,
+  resolveJointPositions,
+} from '../../src/kinematics/forwardKinematics';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Joint, Robot } from '../../src/types/urdf';
+import { getTranslation, transformPoint, translationMatrix4 } from '../../src/utils/transform';
+
+function expectVectorClose(
+  actual: { x: number; y: number; z: number },
+  expected: { x: number; y: number; z: number }
+) {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+  expect(actual.z).toBeCloseTo(expected.z, 9);
+}
+
+function joint(overrides: Partial<Joint>): Joint {
+  return { name: 'j', type: 'fixed', parent: { link: 'a' }, child: { link: 'b' }, ...overrides };
+}
+
+describe('Forward Kinematics', () => {
+  const sampleUrdfPath = path.join(__dirname, '../../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+
+  let robot: Robot;
+
+  beforeEach(() => {
+    robot = new URDFParser().parse(sampleUrdf);
+  });
+
+  describe('computeLinkTransforms', () => {
+    test('Places the root link at the origin', () => {
+      const transforms = computeLinkTransforms(robot);
+      expectVectorClose(getTranslation(transforms['base_link']), { x: 0, y: 0, z: 0 });
+    });
+
+    test('Applies joint origins at zero configuration', () => {
+      const transforms = computeLinkTransforms(robot);
+      expect(Object.keys(transforms).length).toBe(7);
+      expectVectorClose(getTranslation(transforms['right_wheel']), { x: 0, y: -0.15, z: 0 });
+      expectVectorClose(getTranslation(transforms['gripper']), { x: 0, y: 0, z: 0.3 });
+    });
+
+    test('Rotates revolute joints about their axis', () => {
+      const transforms = computeLinkTransforms(robot, { base_to_arm: Math.PI / 2 });
+      // Arm rotates about Y, so the gripper offset along Z swings to +X
+      expectVectorClose(getTranslation(transforms['gripper']), { x: 0.25, y: 0, z: 0.05 });
+    });
+
+    test('Translates prismatic joints along their rotated axis', () => {
+      const transforms = computeLinkTransforms(robot, { base_to_slider: 0.1 });
+      // Slider origin has yaw 1.57, so its X axis points along world +Y
+      const position = getTranslation(transforms['slider']);
+      expect(position.x).toBeCloseTo(0.1 + 0.1 * Math.cos(1.57), 9);
+      expect(position.y).toBeCloseTo(0.1 * Math.sin(1.57), 9);
+      expect(position.z).toBeCloseTo(0.05, 9);
+    });
+
+    test('Applies root transform', () => {
+      const transforms = computeLinkTransforms(
+        robot,
+        {},
+        { rootTransform: translationMatrix4({ x: 1, y: 2, z: 3 }) }
+      );
+      expectVectorClose(getTranslation(transforms['caster']), { x: 1.1, y: 2, z: 2.95 });
+    });
+  });
+
+  describe('resolveJointPositions', () => {
+    test('Applies mimic multiplier and offset', () => {
+      robot.joints.find(j => j.name === 'base_to_left_wheel')!.mimic = {
+        joint: 'base_to_right_wheel',
+        multiplier: -2,
+        offset: 0.5,
+      };
+      const resolved = resolveJointPositions(robot, { base_to_right_wheel: 1 });
+      expect(resolved['base_to_left_wheel']).toBeCloseTo(-1.5);
+    });
+
+    test('Ignores explicit values for mimic joints', () => {
+      const resolved = resolveJointPositions(robot, {
+        base_to_right_wheel: 0.3,
+        base_to_left_wheel: 5,
+      });
+      expect(resolved['base_to_left_wheel']).toBeCloseTo(0.3);
+    });
+
+    test('Does not loop on cyclic mimic relations', () => {
+      const robot: Robot = {
+        name: 'cyclic',
+        links: [],
+        joints: [
+          joint({ name: 'a', type: 'revolute', mimic: { joint: 'b' } }),
+          joint({ name: 'b', type: 'revolute', mimic: { joint: 'a' } }),
+        ],
+        materials: [],
+        transmissions: [],
+      };
+      expect(() => resolveJointPositions(robot, { a: 1 })).not.toThrow();
+    });
+  });
+
+  describe('computeJointMotion', () => {
+    test('Defaults to the X axis when no axis is given', () => {
+      const motion = computeJointMotion(joint({ type: 'prismatic' }), 2);
+      expectVectorClose(getTranslation(motion), { x: 2, y: 0, z: 0 });
+    });
+
+    test('Ignores position for fixed joints', () => {
+      const motion = computeJointMotion(joint({ type: 'fixed' }), 2);
+      expectVectorClose(getTranslation(motion), { x: 0, y: 0, z: 0 });
+    });
+
+    test('Moves planar joints within the plane normal to the axis', () => {
+      const motion = computeJointMotion(
+        joint({ type: 'planar', axis: { xyz: { x: 0, y: 0, z: 1 } } }),
+        [1, 2, Math.PI / 2]
+      );
+      expectVectorClose(getTranslation(motion), { x: 1, y: 2, z: 0 });
+      expectVectorClose(transformPoint(motion, { x: 1, y: 0, z: 0 }), { x: 1, y: 3, z: 0 });
+    });
+
+    test('Applies floating joint translation and rotation', () => {
+      const motion = computeJointMotion(joint({ type: 'floating' }), [1, 2, 3, 0, 0, Math.PI]);
+      expectVectorClose(transformPoint(motion, { x: 1, y: 0, z: 0 }), { x: 0, y: 2, z: 3 });
+    });
+  });
+
+  describe('computeLinkPoses', () => {
+    test('Returns quaternions for link orientations', () => {
+      const poses = computeLinkPoses(robot, { base_to_right_wheel: Math.PI });
+      const { quaternion } = poses['right_wheel'];
+      expect(Math.abs(quaternion.y)).toBeCloseTo(1, 9);
+      expect(quaternion.w).toBeCloseTo(0, 9);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+// Inverse Kinematics Tests
+import {
+  computeLinkTransforms,
+  resolveJointPositions,
+} from '../../src/kinematics/forwardKinematics';
+import { solveIK } from '../../src/kinematics/inverseKinematics';
+import { Joint, Robot } from '../../src/types/urdf';
+import {
+  getRotation,
+  getTranslation,
+  invertMatrix4,
+  matrix3ToQuaternion,
+  multiplyMatrix4,
+} from '../../src/utils/transform';
+
+function joint(name: string, parent: string, child: string, overrides: Partial<Joint> = {}): Joint {
+  return {
+    name,
+    type: 'revolute',
+    parent: { link: parent },
+    child: { link: child },
+    axis: { xyz: { x: 0, y: 0, z: 1 } },
+    limit: { lower: -Math.PI, upper: Math.PI, effort: 1, velocity: 1 },
+    ...overrides,
+  };
+}
+
+function robotOf(linkNames: string[], joints: Joint[]): Robot {
+  return {
+    name: 'test',
+    links: linkNames.map(name => ({ name, visuals: [], collisions: [] })),
+    joints,
+    materials: [],
+    transmissions: [],
+  };
+}
+
+// Planar arm with two 1 m links rotating about z
+const arm = robotOf(
+  ['base', 'upper', 'lower', 'tool'],
+  [
+    joint('shoulder', 'base', 'upper'),
+    joint('elbow', 'upper', 'lower', { origin: { xyz: { x: 1, y: 0, z: 0 } } }),
+    joint('tool_joint', 'lower', 'tool', {
+      type: 'fixed',
+      origin: { xyz: { x: 1, y: 0, z: 0 } },
+    }),
+  ]
+);
+
+function toolPose(robot: Robot, positions: Record<string, number>, base = 'base', tip = 'tool') {
+  const transforms = computeLinkTransforms(robot, positions);
+  return multiplyMatrix4(invertMatrix4(transforms[base]), transforms[tip]);
+}
+
+describe('solveIK', () => {
+  test('Reaches a position target', () => {
+    const result = solveIK(
+      arm,
+      'base',
+      'tool',
+      { position: { x: 1, y: 1, z: 0 } },
+      { initialPositions: { shoulder: 0.1, elbow: 0.5 } }
+    );
+
+    expect(result.converged).toBe(true);
+    expect(result.positionError).toBeLessThan(1e-6);
+    expect(result.orientationError).toBe(0);
+    expect(result.iterations).toBeGreaterThan(0);
+
+    const position = getTranslation(toolPose(arm, result.positions as Record<string, number>));
+    expect(position.x).toBeCloseTo(1, 5);
+    expect(position.y).toBeCloseTo(1, 5);
+  });
+
+  test('Reaches a full pose target', () => {
+    const planar = robotOf(
+      ['base', 'slider', 'upper', 'lower', 'tool'],
+      [
+        joint('slide', 'base', 'slider', {
+          type: 'prismatic',
+          axis: { xyz: { x: 0, y: 1, z: 0 } },
+          limit: { lower: -2, upper: 2, effort: 1, velocity: 1 },
+        }),
+        joint('shoulder', 'slider', 'upper'),
+        joint('elbow', 'upper', 'lower', { origin: { xyz: { x: 1, y: 0, z: 0 } } }),
+        joint('tool_joint', 'lower', 'tool', {
+          type: 'fixed',
+          origin: { xyz: { x: 1, y: 0, z: 0 } },
+        }),
+      ]
+    );
+    const expected = toolPose(planar, { slide: 0.3, shoulder: 0.4, elbow: 0.8 });
+    const target = {
+      position: getTranslation(expected),
+      quaternion: matrix3ToQuaternion(getRotation(expected)),
+    };
+
+    const result = solveIK(planar, 'base', 'tool', target, {
+      initialPositions: { shoulder: 0.2, elbow: 0.5 },
+    });
+
+    expect(result.converged).toBe(true);
+    expect(result.orientationError).toBeLessThan(1e-6);
+    expect(result.positions.slide).toBeCloseTo(0.3, 5);
+    expect(result.positions.shoulder).toBeCloseTo(0.4, 5);
+    expect(result.positions.elbow).toBeCloseTo(0.8, 5);
+  });
+
+  test('Respects joint limits', () => {
+    const limited = robotOf(
+      ['base', 'upper', 'lower', 'tool'],
+      arm.joints.map(j =>
+        j.name === 'shoulder'
+          ? { ...j, limit: { lower: 0, upper: 0.5, effort: 1, velocity: 1 } }
+          : j
+      )
+    );
+
+    const result = solveIK(limited, 'base', 'tool', { position: { x: 0, y: -2, z: 0 } });
+
+    expect(result.converged).toBe(false);
+    expect(result.iterations).toBe(100);
+    expect(result.positions.shoulder).toBeGreaterThanOrEqual(0);
+    expect(result.positions.shoulder).toBeLessThanOrEqual(0.5);
+  });
+
+  test('Solves mimic joints through their driving joint', () => {
+    const coupled = robotOf(
+      ['base', 'upper', 'lower', 'tool'],
+      arm.joints.map(j =>
+        j.name === 'elbow' ? { ...j, mimic: { joint: 'shoulder', multiplier: 2 } } : j
+      )
+    );
+    const expected = getTranslation(toolPose(coupled, { shoulder: 0.3 }));
+
+    const result = solveIK(coupled, 'base', 'tool', { position: expected });
+
+    expect(result.converged).toBe(true);
+    expect(result.positions.shoulder).toBeCloseTo(0.3, 5);
+    expect(result.positions.elbow).toBeUndefined();
+  });
+
+  test('Keeps mimic joints within their own limits', () => {
+    const coupled = robotOf(
+      ['base', 'upper', 'lower', 'tool'],
+      arm.joints.map(j =>
+        j.name === 'elbow'
+          ? {
+              ...j,
+              mimic: { joint: 'shoulder', multiplier: -2, offset: 0.1 },
+              limit: { lower: -0.5, upper: 0.5, effort: 1, velocity: 1 },
+            }
+          : j
+      )
+    );
+    const target = getTranslation(toolPose(coupled, { shoulder: 1, elbow: -1.9 }));
+
+    const result = solveIK(coupled, 'base', 'tool', { position: target });
+
+    expect(result.converged).toBe(false);
+    const elbow = resolveJointPositions(coupled, result.positions).elbow as number;
+    expect(elbow).toBeGreaterThanOrEqual(-0.5);
+    expect(elbow).toBeLessThanOrEqual(0.5);
+    expect(elbow).toBeCloseTo(0.5, 12);
+  });
+
+  test('Reports mimic joint limits that cannot be met without solving', () => {
+    const coupled = robotOf(
+      ['base', 'upper', 'lower', 'tool'],
+      arm.joints.map(j =>
+        j.name === 'elbow'
+          ? {
+              ...j,
+              mimic: { joint: 'shoulder', offset: 1 },
+              limit: { lower: -0.5, upper: 0.5, effort: 1, velocity: 1 },
+            }
+          : j.name === 'shoulder'
+            ? { ...j, limit: { lower: 0, upper: 1, effort: 1, velocity: 1 } }
+            : j
+      )
+    );
+
+    const result = solveIK(coupled, 'base', 'tool', { position: { x: 1, y: 1, z: 0 } });
+    expect(result).toMatchObject({
+      converged: false,
+      positions: {},
+      iterations: 0,
+      reason: 'Joint shoulder cannot keep the joints mimicking it within their limits',
+    });
+    expect(result.positionError).toBeGreaterThan(0);
+  });
+
+  test('Solves chains that climb from the base link', () => {
+    const expected = toolPose(arm, { shoulder: 0.3, elbow: 0.6 }, 'tool', 'base');
+
+    const result = solveIK(
+      arm,
+      'tool',
+      'base',
+      { position: getTranslation(expected) },
+      { initialPositions: { shoulder: 0.1, elbow: 0.4 } }
+    );
+
+    expect(result.converged).toBe(true);
+    const position = getTranslation(
+      toolPose(arm, result.positions as Record<string, number>, 'tool', 'base')
+    );
+    expect(position.x).toBeCloseTo(getTranslation(expected).x, 5);
+    expect(position.y).toBeCloseTo(getTranslation(expected).y, 5);
+  });
+
+  test('Reports unreachable targets', () => {
+    const result = solveIK(
+      arm,
+      'base',
+      'tool',
+      { position: { x: 3, y: 0, z: 0 } },
+      { maxIterations: 20 }
+    );
+
+    expect(result.converged).toBe(false);
+    expect(result.iterations).toBe(20);
+    expect(result.positionError).toBeCloseTo(1, 3);
+  });
+
+  test('Throws for unknown links', () => {
+    expect(() => solveIK(arm, 'base', 'missing', { position: { x: 0, y: 0, z: 0 } })).toThrow(
+      'Unknown link: missing'
+    );
+  });
+});
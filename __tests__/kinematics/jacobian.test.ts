@@ -0,0 +1,164 @@
+// Jacobian Tests
+import { computeLinkTransforms } from '../../src/kinematics/forwardKinematics';
+import { computeJacobian } from '../../src/kinematics/jacobian';
+import { Joint, Robot } from '../../src/types/urdf';
+import {
+  getRotation,
+  getTranslation,
+  invertMatrix4,
+  matrix3ToRotationVector,
+  multiplyMatrix3,
+  multiplyMatrix4,
+  transposeMatrix3,
+} from '../../src/utils/transform';
+
+function joint(name: string, parent: string, child: string, overrides: Partial<Joint> = {}): Joint {
+  return {
+    name,
+    type: 'revolute',
+    parent: { link: parent },
+    child: { link: child },
+    axis: { xyz: { x: 0, y: 0, z: 1 } },
+    ...overrides,
+  };
+}
+
+function robotOf(linkNames: string[], joints: Joint[]): Robot {
+  return {
+    name: 'test',
+    links: linkNames.map(name => ({ name, visuals: [], collisions: [] })),
+    joints,
+    materials: [],
+    transmissions: [],
+  };
+}
+
+// Spatial arm with tilted joint frames and a prismatic stage
+const arm = robotOf(
+  ['base', 'stage', 'upper', 'lower', 'tool'],
+  [
+    joint('lift', 'base', 'stage', { type: 'prismatic', axis: { xyz: { x: 0, y: 0, z: 1 } } }),
+    joint('shoulder', 'stage', 'upper', {
+      origin: { xyz: { x: 0.1, y: 0, z: 0.2 }, rpy: { x: 0.3, y: 0, z: 0.2 } },
+      axis: { xyz: { x: 0, y: 1, z: 0 } },
+    }),
+    joint('elbow', 'upper', 'lower', {
+      origin: { xyz: { x: 0.5, y: 0.1, z: 0 }, rpy: { x: 0, y: -0.4, z: 0 } },
+      axis: { xyz: { x: 1, y: 1, z: 0 } },
+    }),
+    joint('tool_joint', 'lower', 'tool', {
+      type: 'fixed',
+      origin: { xyz: { x: 0.3, y: 0, z: 0.1 } },
+    }),
+  ]
+);
+
+function numericJacobian(
+  robot: Robot,
+  link: string,
+  positions: Record<string, number>,
+  joints: string[],
+  base?: string
+): number[][] {
+  const pose = (values: Record<string, number>) => {
+    const transforms = computeLinkTransforms(robot, values);
+    const toBase = base ? invertMatrix4(transforms[base]) : undefined;
+    return toBase ? multiplyMatrix4(toBase, transforms[link]) : transforms[link];
+  };
+  const h = 1e-6;
+  const reference = pose(positions);
+  const columns = joints.map(name => {
+    const moved = pose({ ...positions, [name]: positions[name] + h });
+    const p0 = getTranslation(reference);
+    const p1 = getTranslation(moved);
+    const w = matrix3ToRotationVector(
+      multiplyMatrix3(getRotation(moved), transposeMatrix3(getRotation(reference)))
+    );
+    return [(p1.x - p0.x) / h, (p1.y - p0.y) / h, (p1.z - p0.z) / h, w.x / h, w.y / h, w.z / h];
+  });
+  return Array.from({ length: 6 }, (_, row) => columns.map(column => column[row]));
+}
+
+function expectMatrixClose(actual: number[][], expected: number[][]) {
+  expect(actual.length).toBe(expected.length);
+  actual.forEach((row, i) =>
+    row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 5))
+  );
+}
+
+describe('computeJacobian', () => {
+  test('Computes revolute columns of a planar arm', () => {
+    const planar = robotOf(
+      ['base', 'upper', 'lower'],
+      [
+        joint('shoulder', 'base', 'upper'),
+        joint('elbow', 'upper', 'lower', { origin: { xyz: { x: 1, y: 0, z: 0 } } }),
+      ]
+    );
+
+    const jacobian = computeJacobian(planar, 'lower');
+
+    expect(jacobian.joints).toEqual(['shoulder', 'elbow']);
+    expectMatrixClose(jacobian.matrix, [
+      [0, 0],
+      [1, 0],
+      [0, 0],
+      [0, 0],
+      [0, 0],
+      [1, 1],
+    ]);
+  });
+
+  test('Matches numeric differentiation of forward kinematics', () => {
+    const positions = { lift: 0.2, shoulder: 0.7, elbow: -0.4 };
+    const jacobian = computeJacobian(arm, 'tool', positions);
+
+    expect(jacobian.joints).toEqual(['lift', 'shoulder', 'elbow']);
+    expectMatrixClose(jacobian.matrix, numericJacobian(arm, 'tool', positions, jacobian.joints));
+  });
+
+  test('Uses linear columns for prismatic joints and skips fixed joints', () => {
+    const jacobian = computeJacobian(arm, 'stage');
+
+    expect(jacobian.joints).toEqual(['lift']);
+    expect(jacobian.matrix.map(row => row[0])).toEqual([0, 0, 1, 0, 0, 0]);
+  });
+
+  test('Folds mimic joints into the driving column', () => {
+    const coupled = robotOf(
+      ['base', 'stage', 'upper', 'lower', 'tool'],
+      arm.joints.map(j =>
+        j.name === 'elbow' ? { ...j, mimic: { joint: 'shoulder', multiplier: 2, offset: 0.1 } } : j
+      )
+    );
+    const independent = computeJacobian(arm, 'tool', { shoulder: 0.5, elbow: 1.1 });
+    const jacobian = computeJacobian(coupled, 'tool', { shoulder: 0.5 });
+
+    expect(jacobian.joints).toEqual(['lift', 'shoulder']);
+    independent.matrix.forEach((row, i) => {
+      expect(jacobian.matrix[i][1]).toBeCloseTo(row[1] + 2 * row[2], 9);
+    });
+  });
+
+  test('Expresses the Jacobian in a base link frame', () => {
+    const positions = { lift: 0.2, shoulder: 0.7, elbow: -0.4 };
+
+    const downward = computeJacobian(arm, 'tool', positions, { baseLink: 'upper' });
+    expect(downward.joints).toEqual(['elbow']);
+    expectMatrixClose(
+      downward.matrix,
+      numericJacobian(arm, 'tool', positions, downward.joints, 'upper')
+    );
+
+    const upward = computeJacobian(arm, 'stage', positions, { baseLink: 'tool' });
+    expect(upward.joints).toEqual(['elbow', 'shoulder']);
+    expectMatrixClose(
+      upward.matrix,
+      numericJacobian(arm, 'stage', positions, upward.joints, 'tool')
+    );
+  });
+
+  test('Throws for unknown links', () => {
+    expect(() => computeJacobian(arm, 'missing')).toThrow('Unknown link: missing');
+  });
+});
@@ -0,0 +1,146 @@
+// Kinematic Tree Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { RobotModel, buildKinematicTree } from '../../src/kinematics/kinematicTree';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Joint, Robot } from '../../src/types/urdf';
+
+function joint(name: string, parent: string, child: string): Joint {
+  return { name, type: 'fixed', parent: { link: parent }, child: { link: child } };
+}
+
+function robotOf(linkNames: string[], joints: Joint[]): Robot {
+  return {
+    name: 'test',
+    links: linkNames.map(name => ({ name, visuals: [], collisions: [] })),
+    joints,
+    materials: [],
+    transmissions: [],
+  };
+}
+
+describe('RobotModel', () => {
+  const sampleUrdfPath = path.join(__dirname, '../../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+
+  let model: RobotModel;
+
+  beforeEach(() => {
+    model = buildKinematicTree(new URDFParser().parse(sampleUrdf));
+  });
+
+  describe('Structure', () => {
+    test('Detects the root link', () => {
+      expect(model.root).toBe('base_link');
+      expect(model.roots).toEqual(['base_link']);
+    });
+
+    test('Finds parent and child joints', () => {
+      expect(model.getParentJoint('gripper')?.name).toBe('arm_to_gripper');
+      expect(model.getParentJoint('base_link')).toBeUndefined();
+      expect(model.getParentLink('gripper')).toBe('arm');
+      expect(model.getChildJoints('base_link').map(j => j.name)).toEqual([
+        'base_to_right_wheel',
+        'base_to_left_wheel',
+        'base_to_caster',
+        'base_to_arm',
+        'base_to_slider',
+      ]);
+      expect(model.getChildLinks('arm')).toEqual(['gripper']);
+    });
+
+    test('Computes link depth', () => {
+      expect(model.getDepth('base_link')).toBe(0);
+      expect(model.getDepth('arm')).toBe(1);
+      expect(model.getDepth('gripper')).toBe(2);
+    });
+
+    test('Lists leaf links', () => {
+      expect(model.getLeafLinks()).toEqual([
+        'right_wheel',
+        'left_wheel',
+        'caster',
+        'gripper',
+        'slider',
+      ]);
+    });
+
+    test('Reports multiple roots', () => {
+      const forest = new RobotModel(robotOf(['a', 'b', 'c'], [joint('j', 'a', 'b')]));
+      expect(forest.roots).toEqual(['a', 'c']);
+    });
+
+    test('Throws when there is no root', () => {
+      const cyclic = new RobotModel(
+        robotOf(['a', 'b'], [joint('ab', 'a', 'b'), joint('ba', 'b', 'a')])
+      );
+      expect(() => cyclic.root).toThrow('Robot has no root link');
+    });
+  });
+
+  describe('getChain', () => {
+    test('Returns joints from ancestor to descendant', () => {
+      expect(model.getChain('base_link', 'gripper').map(j => j.name)).toEqual([
+        'base_to_arm',
+        'arm_to_gripper',
+      ]);
+    });
+
+    test('Returns joints from descendant to ancestor', () => {
+      expect(model.getChain('gripper', 'base_link').map(j => j.name)).toEqual([
+        'arm_to_gripper',
+        'base_to_arm',
+      ]);
+    });
+
+    test('Goes through the common ancestor between branches', () => {
+      expect(model.getChain('right_wheel', 'gripper').map(j => j.name)).toEqual([
+        'base_to_right_wheel',
+        'base_to_arm',
+        'arm_to_gripper',
+      ]);
+    });
+
+    test('Returns an empty chain for the same link', () => {
+      expect(model.getChain('arm', 'arm')).toEqual([]);
+    });
+
+    test('Throws for unknown or disconnected links', () => {
+      expect(() => model.getChain('base_link', 'missing')).toThrow('Unknown link: missing');
+      const forest = new RobotModel(robotOf(['a', 'b'], []));
+      expect(() => forest.getChain('a', 'b')).toThrow('Links a and b are not connected');
+    });
+  });
+
+  describe('Traversal', () => {
+    test('Iterates depth-first', () => {
+      expect([...model.dfs()]).toEqual([
+        'base_link',
+        'right_wheel',
+        'left_wheel',
+        'caster',
+        'arm',
+        'gripper',
+        'slider',
+      ]);
+    });
+
+    test('Iterates breadth-first', () => {
+      expect([...model.bfs()]).toEqual([
+        'base_link',
+        'right_wheel',
+        'left_wheel',
+        'caster',
+        'arm',
+        'slider',
+        'gripper',
+      ]);
+    });
+
+    test('Iterates a subtree', () => {
+      expect([...model.dfs('arm')]).toEqual(['arm', 'gripper']);
+      expect([...model.bfs('arm')]).toEqual(['arm', 'gripper']);
+    });
+  });
+});
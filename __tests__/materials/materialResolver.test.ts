@@ -0,0 +1,94 @@
+// Material Resolver Tests
+import { resolveMaterials } from '../../src/materials/materialResolver';
+import { URDFParser } from '../../src/parser/urdfParser';
+
+function robotWith(body: string) {
+  return new URDFParser().parse(`<?xml version="1.0"?><robot name="test">${body}</robot>`);
+}
+
+describe('resolveMaterials', () => {
+  test('Fills named references from root-level materials', () => {
+    const robot = robotWith(`
+      <material name="blue"><color rgba="0 0 1 1"/></material>
+      <material name="wood"><texture filename="wood.png"/></material>
+      <link name="base">
+        <visual><geometry><box size="1 1 1"/></geometry><material name="blue"/></visual>
+        <visual><geometry><box size="1 1 1"/></geometry><material name="wood"/></visual>
+      </link>`);
+
+    expect(resolveMaterials(robot)).toEqual([]);
+    expect(robot.links[0].visuals[0].material).toEqual({
+      name: 'blue',
+      color: { rgba: [0, 0, 1, 1] },
+    });
+    expect(robot.links[0].visuals[1].material?.texture?.filename).toBe('wood.png');
+
+    // Resolved materials do not share objects with their definitions
+    robot.links[0].visuals[0].material!.color!.rgba![0] = 1;
+    expect(robot.materials[0].color?.rgba).toEqual([0, 0, 1, 1]);
+  });
+
+  test('Uses named materials defined inline in visuals', () => {
+    const robot = robotWith(`
+      <link name="a">
+        <visual><geometry><box size="1 1 1"/></geometry><material name="red"><color rgba="1 0 0 1"/></material></visual>
+      </link>
+      <link name="b">
+        <visual><geometry><box size="1 1 1"/></geometry><material name="red"/></visual>
+      </link>`);
+
+    expect(resolveMaterials(robot)).toEqual([]);
+    expect(robot.links[1].visuals[0].material?.color?.rgba).toEqual([1, 0, 0, 1]);
+  });
+
+  test('Reports undefined materials', () => {
+    const robot = robotWith(`
+      <link name="base">
+        <visual><geometry><box size="1 1 1"/></geometry><material name="missing"/></visual>
+      </link>`);
+
+    expect(resolveMaterials(robot)).toEqual([
+      {
+        code: 'UNDEFINED_MATERIAL',
+        severity: 'error',
+        path: "/robot/link[@name='base']/visual[1]/material",
+        message: 'Material missing is not defined',
+      },
+    ]);
+    expect(robot.links[0].visuals[0].material).toEqual({ name: 'missing' });
+  });
+
+  test('Flags conflicting definitions and keeps the first', () => {
+    const robot = robotWith(`
+      <material name="blue"><color rgba="0 0 1 1"/></material>
+      <material name="blue"><color rgba="0 0 1 1"/></material>
+      <material name="blue"><color rgba="0 0 0.8 1"/></material>
+      <link name="base">
+        <visual><geometry><box size="1 1 1"/></geometry><material name="blue"><color rgba="0 1 0 1"/></material></visual>
+        <visual><geometry><box size="1 1 1"/></geometry><material name="blue"/></visual>
+      </link>`);
+
+    const diagnostics = resolveMaterials(robot);
+
+    expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+      ['CONFLICTING_MATERIAL', "/robot/material[@name='blue']"],
+      ['CONFLICTING_MATERIAL', "/robot/link[@name='base']/visual[1]/material"],
+    ]);
+    expect(robot.links[0].visuals[1].material?.color?.rgba).toEqual([0, 0, 1, 1]);
+  });
+
+  test('Resolves materials while parsing', () => {
+    const parser = new URDFParser({ resolveMaterials: true, collectDiagnostics: true });
+    const robot = parser.parse(`<?xml version="1.0"?>
+      <robot name="test">
+        <material name="blue"><color rgba="0 0 1 1"/></material>
+        <link name="base">
+          <visual><geometry><box size="1 1 1"/></geometry><material name="blue"/></visual>
+          <visual><geometry><box size="1 1 1"/></geometry><material name="green"/></visual>
+        </link>
+      </robot>`);
+
+    expect(robot.links[0].visuals[0].material?.color?.rgba).toEqual([0, 0, 1, 1]);
+    expect(parser.diagnostics.map(d => d.code)).toEqual(['UNDEFINED_MATERIAL']);
+  });
+});
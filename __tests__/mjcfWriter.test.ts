@@ -0,0 +1,345 @@
+// MJCF Writer Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { XMLParser } from 'fast-xml-parser';
+
+import { URDFParser } from '../src/parser/urdfParser';
+import { ResourceResolver } from '../src/resources/resourceResolver';
+import { MJCFWriter } from '../src/writer/mjcfWriter';
+
+describe('MJCFWriter', () => {
+  const sampleUrdfPath = path.join(__dirname, '../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+  const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    isArray: name => ['body', 'geom', 'mesh'].includes(name),
+  });
+
+  let parser: URDFParser;
+  let writer: MJCFWriter;
+
+  beforeEach(() => {
+    parser = new URDFParser();
+    writer = new MJCFWriter();
+  });
+
+  /**
+   * Convert URDF text to MJCF and parse the result
+   * @param urdf URDF text
+   * @returns Parsed mujoco element and conversion diagnostics
+   */
+  const convert = (urdf: string) => {
+    const { xml, diagnostics } = writer.convert(parser.parse(urdf));
+    return { mujoco: xmlParser.parse(xml).mujoco, diagnostics };
+  };
+
+  /**
+   * Find a body by name in a body tree
+   * @param bodies Parsed body elements
+   * @param name Body name
+   * @returns Body element, or undefined if not found
+   */
+  const findBody = (bodies: any[] = [], name: string): any => {
+    for (const body of bodies) {
+      const found = body['@_name'] === name ? body : findBody(body.body, name);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+
+  describe('Document', () => {
+    test('Emits declaration, model name and radian angles', () => {
+      const xml = writer.serialize(parser.parse(sampleUrdf));
+      expect(xml.startsWith('<?xml version="1.0"?>\n<mujoco model="simple_robot">')).toBe(true);
+      expect(xmlParser.parse(xml).mujoco.compiler['@_angle']).toBe('radian');
+    });
+
+    test('Omits the declaration when configured', () => {
+      const xml = new MJCFWriter({ xmlDeclaration: false }).serialize(parser.parse(sampleUrdf));
+      expect(xml.startsWith('<mujoco model="simple_robot">')).toBe(true);
+    });
+  });
+
+  describe('Bodies', () => {
+    test('Nests bodies following the joint tree', () => {
+      const { mujoco } = convert(sampleUrdf);
+      const base = mujoco.worldbody.body[0];
+
+      expect(mujoco.worldbody.body).toHaveLength(1);
+      expect(base['@_name']).toBe('base_link');
+      expect(base.body.map((body: any) => body['@_name'])).toEqual([
+        'right_wheel',
+        'left_wheel',
+        'caster',
+        'arm',
+        'slider',
+      ]);
+      expect(findBody(base.body, 'arm').body[0]['@_name']).toBe('gripper');
+      expect(findBody(base.body, 'arm')['@_pos']).toBe('0 0 0.05');
+    });
+
+    test('Converts joint origins to body quaternions', () => {
+      const { mujoco } = convert(`
+        <robot name="r">
+          <link name="a"/>
+          <link name="b"/>
+          <joint name="ab" type="fixed">
+            <parent link="a"/>
+            <child link="b"/>
+            <origin xyz="1 2 3" rpy="0 0 ${Math.PI / 2}"/>
+          </joint>
+        </robot>
+      `);
+      const b = findBody(mujoco.worldbody.body, 'b');
+      const [w, x, y, z] = b['@_quat'].split(' ').map(Number);
+
+      expect(b['@_pos']).toBe('1 2 3');
+      expect(b.joint).toBeUndefined();
+      expect(w).toBeCloseTo(Math.SQRT1_2, 12);
+      expect(x).toBe(0);
+      expect(y).toBe(0);
+      expect(z).toBeCloseTo(Math.SQRT1_2, 12);
+    });
+
+    test('Attaches children of an empty world link to the worldbody', () => {
+      const { mujoco } = convert(`
+        <robot name="r">
+          <link name="world"/>
+          <link name="base"/>
+          <joint name="free" type="floating">
+            <parent link="world"/>
+            <child link="base"/>
+            <origin xyz="0 0 1"/>
+          </joint>
+        </robot>
+      `);
+      const base = mujoco.worldbody.body[0];
+
+      expect(mujoco.worldbody.body).toHaveLength(1);
+      expect(base['@_name']).toBe('base');
+      expect(base['@_pos']).toBe('0 0 1');
+      expect(base.freejoint['@_name']).toBe('free');
+    });
+
+    test('Welds root bodies to the world unless floatingBase is set', () => {
+      const robot = parser.parse(sampleUrdf);
+      const root = (mjcf: string) => xmlParser.parse(mjcf).mujoco.worldbody.body[0];
+
+      expect(root(writer.serialize(robot)).freejoint).toBeUndefined();
+      expect(root(new MJCFWriter({ floatingBase: true }).serialize(robot)).freejoint).toBe('');
+      expect(findBody(root(writer.serialize(robot)).body, 'arm').freejoint).toBeUndefined();
+    });
+
+    test('Omits inertials with zero mass or inertia', () => {
+      const { mujoco, diagnostics } = convert(`
+        <robot name="r">
+          <link name="a">
+            <inertial><mass value="0"/><inertia ixx="0" ixy="0" ixz="0" iyy="0" iyz="0" izz="0"/></inertial>
+          </link>
+          <link name="b">
+            <inertial><mass value="1"/><inertia ixx="0" ixy="0" ixz="0" iyy="0" iyz="0" izz="0"/></inertial>
+          </link>
+          <joint name="ab" type="fixed"><parent link="a"/><child link="b"/></joint>
+        </robot>
+      `);
+      const a = mujoco.worldbody.body[0];
+
+      expect(a.inertial).toBeUndefined();
+      expect(a.body[0].inertial).toBeUndefined();
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['NON_POSITIVE_MASS', "/robot/link[@name='a']/inertial/mass"],
+        ['NON_POSITIVE_DEFINITE_INERTIA', "/robot/link[@name='b']/inertial/inertia"],
+      ]);
+    });
+
+    test('Writes diagonal and full inertia at the center of mass', () => {
+      const { mujoco, diagnostics } = convert(`
+        <robot name="r">
+          <link name="a">
+            <inertial>
+              <origin xyz="0 0 0.5"/>
+              <mass value="2"/>
+              <inertia ixx="1" ixy="0.1" ixz="0" iyy="2" iyz="0" izz="3"/>
+            </inertial>
+          </link>
+          <link name="b"/>
+          <joint name="ab" type="fixed"><parent link="a"/><child link="b"/></joint>
+        </robot>
+      `);
+      const a = mujoco.worldbody.body[0];
+
+      expect(a.inertial).toEqual({
+        '@_pos': '0 0 0.5',
+        '@_mass': '2',
+        '@_fullinertia': '1 2 3 0.1 0 0',
+      });
+      expect(findBody(a.body, 'b').inertial).toBeUndefined();
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['MISSING_INERTIA', "/robot/link[@name='b']"],
+      ]);
+
+      const arm = findBody(convert(sampleUrdf).mujoco.worldbody.body, 'arm');
+      expect(arm.inertial['@_diaginertia']).toBe('0.03 0.03 0.03');
+    });
+  });
+
+  describe('Geoms', () => {
+    test('Maps primitive sizes to half extents', () => {
+      const { mujoco } = convert(sampleUrdf);
+      const base = mujoco.worldbody.body[0];
+
+      expect(base.geom[1]).toEqual({ '@_type': 'box', '@_size': '0.1 0.1 0.05', '@_group': '3' });
+      expect(findBody(base.body, 'slider').geom[1]['@_size']).toBe('0.02 0.1');
+      expect(findBody(base.body, 'caster').geom[1]).toMatchObject({
+        '@_type': 'sphere',
+        '@_size': '0.05',
+      });
+    });
+
+    test('Excludes visual geoms from collisions and mass', () => {
+      const { mujoco } = convert(sampleUrdf);
+
+      expect(mujoco.worldbody.body[0].geom[0]).toEqual({
+        '@_type': 'box',
+        '@_size': '0.1 0.1 0.05',
+        '@_rgba': '0 0 1 1',
+        '@_contype': '0',
+        '@_conaffinity': '0',
+        '@_density': '0',
+        '@_group': '2',
+      });
+    });
+
+    test('Shares mesh assets and skips unsupported mesh formats', () => {
+      const { mujoco, diagnostics } = convert(`
+        <robot name="r">
+          <link name="a">
+            <visual><geometry><mesh filename="package://r/meshes/part.STL"/></geometry></visual>
+            <collision><geometry><mesh filename="package://r/meshes/part.STL"/></geometry></collision>
+            <collision><geometry><mesh filename="other/part.obj" scale="2 2 2"/></geometry></collision>
+            <collision><geometry><mesh filename="part.dae"/></geometry></collision>
+          </link>
+        </robot>
+      `);
+
+      expect(mujoco.asset.mesh).toEqual([
+        { '@_name': 'part', '@_file': 'package://r/meshes/part.STL' },
+        { '@_name': 'part_1', '@_file': 'other/part.obj', '@_scale': '2 2 2' },
+      ]);
+      expect(mujoco.worldbody.body[0].geom.map((geom: any) => geom['@_mesh'])).toEqual([
+        'part',
+        'part',
+        'part_1',
+      ]);
+      expect(diagnostics.map(d => [d.code, d.path])).toContainEqual([
+        'UNSUPPORTED_ELEMENT',
+        "/robot/link[@name='a']/collision[3]/geometry/mesh",
+      ]);
+    });
+
+    test('Keeps geom names unique across the model', () => {
+      const { mujoco } = convert(`
+        <robot name="r">
+          <link name="a">
+            <visual name="v"><geometry><sphere radius="1"/></geometry></visual>
+            <collision name="v"><geometry><sphere radius="1"/></geometry></collision>
+          </link>
+          <link name="b">
+            <visual name="v"><geometry><sphere radius="1"/></geometry></visual>
+            <visual><geometry><sphere radius="1"/></geometry></visual>
+          </link>
+          <joint name="j" type="fixed"><parent link="a"/><child link="b"/></joint>
+        </robot>
+      `);
+
+      const a = mujoco.worldbody.body[0];
+      expect(a.geom.map((geom: any) => geom['@_name'])).toEqual(['v', 'v_1']);
+      expect(a.body[0].geom.map((geom: any) => geom['@_name'])).toEqual(['v_2', undefined]);
+    });
+
+    test('Reports mesh URIs MuJoCo cannot load', () => {
+      const urdf = `
+        <robot name="r">
+          <link name="a">
+            <visual><geometry><mesh filename="package://r/meshes/part.stl"/></geometry></visual>
+          </link>
+        </robot>
+      `;
+      const { diagnostics } = convert(urdf);
+      expect(diagnostics.filter(d => d.code === 'UNRESOLVED_RESOURCE')).toEqual([
+        {
+          code: 'UNRESOLVED_RESOURCE',
+          severity: 'warning',
+          path: "/robot/link[@name='a']/visual[1]/geometry/mesh",
+          message:
+            'MuJoCo cannot load mesh URI package://r/meshes/part.stl; resolve it to a file path with ResourceResolver before converting',
+        },
+      ]);
+
+      const robot = parser.parse(urdf);
+      new ResourceResolver({ packages: { r: '/opt/r' } }).resolveRobot(robot, true);
+      const resolved = writer.convert(robot);
+      expect(resolved.diagnostics.map(d => d.code)).toEqual(['MISSING_INERTIA']);
+      expect(resolved.xml).toContain('file="/opt/r/meshes/part.stl"');
+    });
+  });
+
+  describe('Joints', () => {
+    test('Maps joint types, ranges and dynamics', () => {
+      const { mujoco } = convert(sampleUrdf);
+      const bodies = mujoco.worldbody.body;
+
+      expect(findBody(bodies, 'arm').joint).toEqual({
+        '@_name': 'base_to_arm',
+        '@_type': 'hinge',
+        '@_axis': '0 1 0',
+        '@_limited': 'true',
+        '@_range': '-1.57 1.57',
+        '@_damping': '0.5',
+        '@_frictionloss': '0.5',
+      });
+      expect(findBody(bodies, 'right_wheel').joint['@_range']).toBeUndefined();
+      expect(findBody(bodies, 'slider').joint).toMatchObject({
+        '@_type': 'slide',
+        '@_axis': '1 0 0',
+        '@_range': '0 0.2',
+      });
+      expect(findBody(bodies, 'caster').joint).toBeUndefined();
+    });
+
+    test('Converts mimic joints to equality constraints', () => {
+      const { mujoco } = convert(sampleUrdf);
+
+      expect(mujoco.equality.joint).toEqual({
+        '@_joint1': 'base_to_left_wheel',
+        '@_joint2': 'base_to_right_wheel',
+        '@_polycoef': '0 1 0 0 0',
+      });
+    });
+
+    test('Reports joints and elements MJCF cannot represent', () => {
+      const { mujoco, diagnostics } = convert(
+        sampleUrdf
+          .replace('type="fixed"', 'type="planar"')
+          .replace(
+            'name="base_to_right_wheel" type="continuous"',
+            'name="base_to_right_wheel" type="floating"'
+          )
+      );
+
+      expect(findBody(mujoco.worldbody.body, 'caster').joint).toBeUndefined();
+      expect(mujoco.equality).toBeUndefined();
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['UNSUPPORTED_JOINT_TYPE', "/robot/joint[@name='base_to_right_wheel']"],
+        ['UNSUPPORTED_JOINT_TYPE', "/robot/joint[@name='base_to_caster']"],
+        ['UNSUPPORTED_ELEMENT', "/robot/link[@name='gripper']/visual[1]/material/texture"],
+        ['UNSUPPORTED_ELEMENT', "/robot/joint[@name='base_to_left_wheel']/mimic"],
+      ]);
+    });
+  });
+});
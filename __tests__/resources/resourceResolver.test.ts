@@ -0,0 +1,151 @@
+// Resource Resolver Tests
+import { URDFParser } from '../../src/parser/urdfParser';
+import { ResourceResolver } from '../../src/resources/resourceResolver';
+
+const urdf = `<?xml version="1.0"?>
+<robot name="test">
+  <material name="wood">
+    <texture filename="textures/wood.png"/>
+  </material>
+  <link name="base">
+    <visual>
+      <geometry><mesh filename="package://robot_description/meshes/base.dae"/></geometry>
+      <material name="logo"><texture filename="package://unknown_pkg/logo.png"/></material>
+    </visual>
+    <collision>
+      <geometry><mesh filename="file:///opt/meshes/base%20collision.stl"/></geometry>
+    </collision>
+  </link>
+</robot>`;
+
+describe('ResourceResolver', () => {
+  describe('resolve', () => {
+    const resolver = new ResourceResolver({
+      basePath: '/home/user/robot/urdf',
+      packages: { robot_description: '/home/user/robot' },
+    });
+
+    test('Resolves package URIs with the package map', () => {
+      expect(resolver.resolve('package://robot_description/meshes/base.stl')).toBe(
+        '/home/user/robot/meshes/base.stl'
+      );
+      expect(resolver.resolve('package://robot_description')).toBe('/home/user/robot');
+      expect(resolver.resolve('package://other/meshes/base.stl')).toBeUndefined();
+    });
+
+    test('Resolves relative, absolute and file paths', () => {
+      expect(resolver.resolve('../meshes/./base.stl')).toBe('/home/user/robot/meshes/base.stl');
+      expect(resolver.resolve('/opt//meshes/base.stl')).toBe('/opt/meshes/base.stl');
+      expect(resolver.resolve('file:///opt/my%20meshes/base.stl')).toBe('/opt/my meshes/base.stl');
+      expect(resolver.resolve('file://localhost/opt/meshes/base.stl')).toBe('/opt/meshes/base.stl');
+    });
+
+    test('Rejects file URIs on other hosts', () => {
+      expect(resolver.resolve('file://meshes/base.stl')).toBeUndefined();
+      expect(resolver.resolve('file://server/opt/meshes/base.stl')).toBeUndefined();
+      expect(resolver.resolve('file://localhost')).toBeUndefined();
+    });
+
+    test('Keeps web URLs and rejects other schemes', () => {
+      expect(resolver.resolve('https://example.com/base.stl')).toBe('https://example.com/base.stl');
+      expect(resolver.resolve('model://robot/base.stl')).toBeUndefined();
+    });
+
+    test('Requires a base path for relative paths', () => {
+      expect(new ResourceResolver().resolve('meshes/base.stl')).toBeUndefined();
+    });
+
+    test('Resolves relative paths against a base URL', () => {
+      const web = new ResourceResolver({ basePath: 'https://example.com/robot/urdf' });
+      expect(web.resolve('../meshes/base.stl')).toBe('https://example.com/robot/meshes/base.stl');
+    });
+
+    test('Searches package paths in order', () => {
+      const exists = jest.fn((path: string) => path === '/ws2/src/robot_description');
+      const search = new ResourceResolver({ packagePaths: ['/ws1/src', '/ws2/src/'], exists });
+
+      expect(search.resolve('package://robot_description/meshes/base.stl')).toBe(
+        '/ws2/src/robot_description/meshes/base.stl'
+      );
+      expect(exists).toHaveBeenCalledWith('/ws1/src/robot_description');
+    });
+  });
+
+  describe('resolveRobot', () => {
+    const resolver = new ResourceResolver({
+      basePath: '/home/user/robot/urdf',
+      packages: { robot_description: '/home/user/robot' },
+    });
+
+    test('Reports every resource and the unresolved ones', () => {
+      const robot = new URDFParser().parse(urdf);
+      const { resources, diagnostics } = resolver.resolveRobot(robot);
+
+      expect(resources).toEqual([
+        {
+          kind: 'texture',
+          uri: 'textures/wood.png',
+          path: "/robot/material[@name='wood']/texture",
+          resolved: '/home/user/robot/urdf/textures/wood.png',
+        },
+        {
+          kind: 'mesh',
+          uri: 'package://robot_description/meshes/base.dae',
+          path: "/robot/link[@name='base']/visual[1]/geometry/mesh",
+          resolved: '/home/user/robot/meshes/base.dae',
+        },
+        {
+          kind: 'texture',
+          uri: 'package://unknown_pkg/logo.png',
+          path: "/robot/link[@name='base']/visual[1]/material/texture",
+          resolved: undefined,
+        },
+        {
+          kind: 'mesh',
+          uri: 'file:///opt/meshes/base%20collision.stl',
+          path: "/robot/link[@name='base']/collision[1]/geometry/mesh",
+          resolved: '/opt/meshes/base collision.stl',
+        },
+      ]);
+      expect(diagnostics).toEqual([
+        {
+          code: 'UNRESOLVED_RESOURCE',
+          severity: 'warning',
+          path: "/robot/link[@name='base']/visual[1]/material/texture",
+          message: 'Cannot resolve texture package://unknown_pkg/logo.png',
+        },
+      ]);
+      expect(robot.links[0].visuals[0].geometry?.mesh?.filename).toBe(
+        'package://robot_description/meshes/base.dae'
+      );
+    });
+
+    test('Rewrites resolved URIs in place', () => {
+      const robot = new URDFParser().parse(urdf);
+      resolver.resolveRobot(robot, true);
+
+      expect(robot.materials[0].texture?.filename).toBe('/home/user/robot/urdf/textures/wood.png');
+      expect(robot.links[0].visuals[0].geometry?.mesh?.filename).toBe(
+        '/home/user/robot/meshes/base.dae'
+      );
+      expect(robot.links[0].visuals[0].material?.texture?.filename).toBe(
+        'package://unknown_pkg/logo.png'
+      );
+    });
+  });
+
+  describe('Parser option', () => {
+    test('Resolves resources while parsing with the parser base path', () => {
+      const parser = new URDFParser({
+        basePath: '/robots/urdf',
+        collectDiagnostics: true,
+        resolveResources: { packages: { robot_description: '/robots' } },
+      });
+      const robot = parser.parse(urdf);
+
+      expect(robot.materials[0].texture?.filename).toBe('/robots/urdf/textures/wood.png');
+      expect(robot.links[0].visuals[0].geometry?.mesh?.filename).toBe('/robots/meshes/base.dae');
+      expect(parser.diagnostics.map(d => d.code)).toEqual(['UNRESOLVED_RESOURCE']);
+    });
+  });
+});
@@ -0,0 +1,383 @@
+// SDF Parser Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { URDFParseError } from '../src/errors';
+import { computeLinkTransforms } from '../src/kinematics/forwardKinematics';
+import { SDFParser } from '../src/parser/sdfParser';
+import { URDFParser } from '../src/parser/urdfParser';
+import { Matrix4 } from '../src/types/math';
+import { SDFWriter } from '../src/writer/sdfWriter';
+
+describe('SDFParser', () => {
+  const sampleUrdfPath = path.join(__dirname, '../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+
+  let parser: SDFParser;
+
+  beforeEach(() => {
+    parser = new SDFParser({ collectDiagnostics: true });
+  });
+
+  /**
+   * Wrap model content in an SDF document
+   * @param content Model content
+   * @param version SDF version
+   * @returns SDF text
+   */
+  const sdf = (content: string, version = '1.7') =>
+    `<?xml version="1.0"?><sdf version="${version}"><model name="m">${content}</model></sdf>`;
+
+  /**
+   * Expect two transforms to be equal within tolerance
+   * @param actual Actual transform
+   * @param expected Expected transform
+   */
+  const expectTransform = (actual: Matrix4, expected: Matrix4) => {
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 9));
+  };
+
+  describe('Basic Parsing', () => {
+    test('Parses links, inertials, geometry, materials and joints', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="base">
+            <inertial>
+              <mass>2</mass>
+              <inertia><ixx>0.1</ixx><ixy>0</ixy><ixz>0</ixz><iyy>0.2</iyy><iyz>0</iyz><izz>0.3</izz></inertia>
+            </inertial>
+            <visual name="body">
+              <pose>0 0 0.1 0 0 0</pose>
+              <geometry><box><size>1 2 3</size></box></geometry>
+              <material><ambient>0.5 0.5 0.5 1</ambient><diffuse>1 0 0 1</diffuse></material>
+            </visual>
+            <collision name="body">
+              <geometry><mesh><uri>model://m/meshes/body.stl</uri><scale>2 2 2</scale></mesh></geometry>
+            </collision>
+          </link>
+          <link name="arm">
+            <pose>0 0 1 0 0 0</pose>
+            <visual><geometry><cylinder><radius>0.1</radius><length>0.5</length></cylinder></geometry></visual>
+          </link>
+          <joint name="shoulder" type="revolute">
+            <parent>base</parent>
+            <child>arm</child>
+            <axis>
+              <xyz>0 1 0</xyz>
+              <limit><lower>-1</lower><upper>1</upper><effort>10</effort><velocity>2</velocity></limit>
+              <dynamics><damping>0.5</damping><friction>0.1</friction></dynamics>
+            </axis>
+          </joint>
+        `)
+      );
+
+      expect(robot.name).toBe('m');
+      expect(robot.links[0]).toEqual({
+        name: 'base',
+        visuals: [
+          {
+            name: 'body',
+            origin: { xyz: { x: 0, y: 0, z: 0.1 }, rpy: { x: 0, y: 0, z: 0 } },
+            geometry: { box: { size: { x: 1, y: 2, z: 3 } } },
+            material: { color: { rgba: [1, 0, 0, 1] } },
+          },
+        ],
+        collisions: [
+          {
+            name: 'body',
+            geometry: {
+              mesh: { filename: 'model://m/meshes/body.stl', scale: { x: 2, y: 2, z: 2 } },
+            },
+          },
+        ],
+        inertial: {
+          mass: { value: 2 },
+          inertia: { ixx: 0.1, ixy: 0, ixz: 0, iyy: 0.2, iyz: 0, izz: 0.3 },
+        },
+      });
+      expect(robot.joints).toEqual([
+        {
+          name: 'shoulder',
+          type: 'revolute',
+          parent: { link: 'base' },
+          child: { link: 'arm' },
+          origin: { xyz: { x: 0, y: 0, z: 1 }, rpy: { x: 0, y: 0, z: 0 } },
+          axis: { xyz: { x: 0, y: 1, z: 0 } },
+          limit: { lower: -1, upper: 1, effort: 10, velocity: 2 },
+          dynamics: { damping: 0.5, friction: 0.1 },
+        },
+      ]);
+      expect(parser.diagnostics).toEqual([]);
+    });
+
+    test('Treats revolute joints without position limits as continuous', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="a"/>
+          <link name="b"/>
+          <joint name="spin" type="revolute">
+            <parent>a</parent>
+            <child>b</child>
+            <axis><xyz>0 0 1</xyz><limit><effort>3</effort></limit></axis>
+          </joint>
+        `)
+      );
+      expect(robot.joints[0].type).toBe('continuous');
+      expect(robot.joints[0].limit).toEqual({ effort: 3 });
+    });
+
+    test('Defaults the axis of joints without one to 0 0 1', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="a"/>
+          <link name="b"/>
+          <link name="c"/>
+          <joint name="spin" type="revolute">
+            <parent>a</parent>
+            <child>b</child>
+          </joint>
+          <joint name="slide" type="prismatic">
+            <parent>b</parent>
+            <child>c</child>
+          </joint>
+        `)
+      );
+      expect(robot.joints.map(joint => [joint.type, joint.axis])).toEqual([
+        ['continuous', { xyz: { x: 0, y: 0, z: 1 } }],
+        ['prismatic', { xyz: { x: 0, y: 0, z: 1 } }],
+      ]);
+    });
+
+    test('Adds a world link for joints attached to the world', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="base"><pose>0 0 1 0 0 0</pose></link>
+          <joint name="fix" type="fixed"><parent>world</parent><child>base</child></joint>
+        `)
+      );
+      expect(robot.links.map(link => link.name)).toEqual(['world', 'base']);
+      expect(robot.joints[0].origin?.xyz).toEqual({ x: 0, y: 0, z: 1 });
+    });
+
+    test('Throws for documents without a model', () => {
+      expect(() => parser.parse('<sdf version="1.7"><world name="w"/></sdf>')).toThrow(
+        'Invalid SDF: Missing model element'
+      );
+    });
+
+    test('Throws URDFParseError for malformed poses in strict mode', () => {
+      const strict = new SDFParser({ strict: true });
+      expect(() => strict.parse(sdf('<link name="a"><pose>1 2 3</pose></link>'))).toThrow(
+        URDFParseError
+      );
+    });
+  });
+
+  describe('Poses', () => {
+    test('Places link frames at joint frames offset from the child link', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="a"/>
+          <link name="b">
+            <pose>1 0 0 0 0 0</pose>
+            <visual name="v"><geometry><sphere><radius>0.1</radius></sphere></geometry></visual>
+          </link>
+          <joint name="hinge" type="continuous">
+            <pose>0 0.5 0 0 0 1.5707963267948966</pose>
+            <parent>a</parent>
+            <child>b</child>
+            <axis><xyz>1 0 0</xyz></axis>
+          </joint>
+        `)
+      );
+      const [, b] = robot.links;
+      const joint = robot.joints[0];
+
+      expect(joint.origin?.xyz).toEqual({ x: 1, y: 0.5, z: 0 });
+      expect(joint.origin?.rpy?.z).toBeCloseTo(Math.PI / 2, 12);
+      // The axis is expressed in the rotated joint frame
+      expect(joint.axis?.xyz).toEqual({ x: 1, y: 0, z: 0 });
+      // The visual stays at the SDF link origin, 0.5 below the joint frame in the model frame
+      const visual = b.visuals[0].origin!;
+      expect(visual.xyz!.x).toBeCloseTo(-0.5, 12);
+      expect(visual.xyz!.y).toBeCloseTo(0, 12);
+      expect(visual.rpy!.z).toBeCloseTo(-Math.PI / 2, 12);
+    });
+
+    test('Resolves relative_to references to links, joints and frames', () => {
+      const robot = parser.parse(
+        sdf(`
+          <frame name="mount"><pose>0 0 2 0 0 0</pose></frame>
+          <link name="a">
+            <pose relative_to="mount">1 0 0 0 0 0</pose>
+            <visual><geometry><sphere><radius>1</radius></sphere></geometry></visual>
+          </link>
+          <link name="b">
+            <pose relative_to="a">0 1 0 0 0 0</pose>
+            <visual><geometry><sphere><radius>1</radius></sphere></geometry></visual>
+          </link>
+          <joint name="j" type="prismatic">
+            <pose relative_to="a">0 0 0 0 0 0</pose>
+            <parent>a</parent>
+            <child>b</child>
+            <axis><xyz expressed_in="__model__">0 0 1</xyz></axis>
+          </joint>
+        `)
+      );
+      const [a, b] = robot.links;
+
+      // The root link frame is the model frame
+      expect(a.visuals[0].origin?.xyz).toEqual({ x: 1, y: 0, z: 2 });
+      expect(robot.joints[0].origin?.xyz).toEqual({ x: 1, y: 0, z: 2 });
+      expect(robot.joints[0].axis?.xyz).toEqual({ x: 0, y: 0, z: 1 });
+      expect(b.visuals[0].origin?.xyz).toEqual({ x: 0, y: 1, z: 0 });
+      expect(computeLinkTransforms(robot, { j: 0.25 }).b[11]).toBeCloseTo(2.25, 12);
+    });
+
+    test('Supports degrees and quaternion rotation formats', () => {
+      const robot = parser.parse(
+        sdf(
+          `
+          <link name="a"/>
+          <link name="b"><pose degrees="true">0 0 0 0 0 90</pose></link>
+          <link name="c"><pose rotation_format="quat_xyzw">0 0 0 0 0 0.7071067811865476 0.7071067811865476</pose></link>
+          <joint name="ab" type="fixed"><parent>a</parent><child>b</child></joint>
+          <joint name="ac" type="fixed"><parent>a</parent><child>c</child></joint>
+        `,
+          '1.9'
+        )
+      );
+      expect(robot.joints[0].origin?.rpy?.z).toBeCloseTo(Math.PI / 2, 12);
+      expect(robot.joints[1].origin?.rpy?.z).toBeCloseTo(Math.PI / 2, 12);
+    });
+
+    test('Reads axes in the model frame with use_parent_model_frame before 1.7', () => {
+      const robot = parser.parse(
+        sdf(
+          `
+          <link name="a"/>
+          <link name="b"/>
+          <joint name="j" type="continuous">
+            <pose>0 0 0 0 0 1.5707963267948966</pose>
+            <parent>a</parent>
+            <child>b</child>
+            <axis><xyz>1 0 0</xyz><use_parent_model_frame>true</use_parent_model_frame></axis>
+          </joint>
+        `,
+          '1.6'
+        )
+      );
+      const axis = robot.joints[0].axis!.xyz!;
+      expect(axis.x).toBeCloseTo(0, 12);
+      expect(axis.y).toBeCloseTo(-1, 12);
+    });
+
+    test('Accepts 1 and 0 as SDF booleans', () => {
+      /**
+       * Parse a joint axis with the given use_parent_model_frame value
+       * @param flag Flag text
+       * @returns Axis in the joint frame
+       */
+      const axisWith = (flag: string) =>
+        parser.parse(
+          sdf(
+            `
+            <link name="a"/>
+            <link name="b"/>
+            <joint name="j" type="continuous">
+              <pose>0 0 0 0 0 1.5707963267948966</pose>
+              <parent>a</parent>
+              <child>b</child>
+              <axis><xyz>1 0 0</xyz><use_parent_model_frame>${flag}</use_parent_model_frame></axis>
+            </joint>
+          `,
+            '1.6'
+          )
+        ).joints[0].axis!.xyz!;
+
+      expect(axisWith('1').y).toBeCloseTo(-1, 12);
+      expect(axisWith('0')).toEqual({ x: 1, y: 0, z: 0 });
+      expect(axisWith('false')).toEqual({ x: 1, y: 0, z: 0 });
+    });
+
+    test('Round-trips URDF through SDF with the same link transforms', () => {
+      const robot = new URDFParser().parse(sampleUrdf);
+      robot.joints[0].origin = { xyz: { x: 0.1, y: 0.2, z: 0.3 }, rpy: { x: 0.4, y: 0.5, z: 0.6 } };
+      robot.joints.forEach(joint => delete joint.mimic);
+      const reparsed = parser.parse(new SDFWriter().serialize(robot));
+
+      const positions = { base_to_right_wheel: 0.7, base_to_arm: 0.3, base_to_slider: 0.1 };
+      const expected = computeLinkTransforms(robot, positions);
+      const actual = computeLinkTransforms(reparsed, positions);
+      for (const link of Object.keys(expected)) {
+        expectTransform(actual[link], expected[link]);
+      }
+      expect(reparsed.joints.map(joint => joint.type)).toEqual(
+        robot.joints.map(joint => joint.type)
+      );
+    });
+  });
+
+  describe('Diagnostics', () => {
+    test('Skips joints that close kinematic loops', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="a"/><link name="b"/><link name="c"/>
+          <joint name="ab" type="revolute"><parent>a</parent><child>b</child></joint>
+          <joint name="bc" type="revolute"><parent>b</parent><child>c</child></joint>
+          <joint name="ac" type="revolute"><parent>a</parent><child>c</child></joint>
+          <joint name="ca" type="fixed"><parent>c</parent><child>a</child></joint>
+        `)
+      );
+      expect(robot.joints.map(joint => joint.name)).toEqual(['ab', 'bc']);
+      expect(parser.diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['CLOSED_LOOP', "/sdf/model[@name='m']/joint[@name='ac']"],
+        ['CLOSED_LOOP', "/sdf/model[@name='m']/joint[@name='ca']"],
+      ]);
+    });
+
+    test('Reports nested models, plugins and unsupported joint types', () => {
+      const robot = parser.parse(
+        sdf(`
+          <model name="inner"><link name="x"/></model>
+          <plugin name="controller" filename="libcontroller.so"/>
+          <link name="a"><plugin filename="libsensor.so"/></link>
+          <link name="b"/>
+          <joint name="ball" type="ball"><parent>a</parent><child>b</child></joint>
+        `)
+      );
+      expect(robot.links.map(link => link.name)).toEqual(['a', 'b']);
+      expect(robot.joints[0].type).toBe('fixed');
+      expect(parser.diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['UNSUPPORTED_ELEMENT', "/sdf/model[@name='m']/model[@name='inner']"],
+        ['UNSUPPORTED_ELEMENT', "/sdf/model[@name='m']/plugin[@name='controller']"],
+        ['UNSUPPORTED_ELEMENT', "/sdf/model[@name='m']/link[@name='a']/plugin[1]"],
+        ['UNSUPPORTED_JOINT_TYPE', "/sdf/model[@name='m']/joint[@name='ball']"],
+      ]);
+    });
+
+    test('Skips visuals with geometry URDF cannot represent', () => {
+      const robot = parser.parse(
+        sdf(`
+          <link name="a">
+            <visual name="v"><geometry><capsule><radius>1</radius><length>2</length></capsule></geometry></visual>
+          </link>
+        `)
+      );
+      expect(robot.links[0].visuals).toEqual([]);
+      expect(parser.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'UNSUPPORTED_ELEMENT',
+          path: "/sdf/model[@name='m']/link[@name='a']/visual[1]/geometry",
+        }),
+      ]);
+    });
+
+    test('Reports unknown frames', () => {
+      parser.parse(sdf('<link name="a"><pose relative_to="nowhere">1 0 0 0 0 0</pose></link>'));
+      expect(parser.diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['UNKNOWN_FRAME', "/sdf/model[@name='m']/link[@name='a']/pose"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+// SDF Writer Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { XMLParser } from 'fast-xml-parser';
+
+import { URDFParser } from '../src/parser/urdfParser';
+import { rpyToMatrix3 } from '../src/utils/transform';
+import { SDFWriter } from '../src/writer/sdfWriter';
+
+describe('SDFWriter', () => {
+  const sampleUrdfPath = path.join(__dirname, '../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+  const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    isArray: name => ['link', 'joint', 'visual', 'collision'].includes(name),
+  });
+
+  let parser: URDFParser;
+  let writer: SDFWriter;
+
+  beforeEach(() => {
+    parser = new URDFParser();
+    writer = new SDFWriter();
+  });
+
+  /**
+   * Convert URDF text to SDF and parse the result
+   * @param urdf URDF text
+   * @returns Parsed model element and conversion diagnostics
+   */
+  const convert = (urdf: string) => {
+    const { xml, diagnostics } = writer.convert(parser.parse(urdf));
+    return { model: xmlParser.parse(xml).sdf.model, diagnostics };
+  };
+
+  /**
+   * Parse a whitespace-separated list of numbers
+   * @param text Text content
+   * @returns Numbers
+   */
+  const numbers = (text: string) => text.trim().split(/\s+/).map(Number);
+
+  describe('Document', () => {
+    test('Emits declaration, version and model name', () => {
+      const xml = writer.serialize(parser.parse(sampleUrdf));
+      expect(xml.startsWith('<?xml version="1.0"?>\n<sdf version="1.7">')).toBe(true);
+      expect(xmlParser.parse(xml).sdf.model['@_name']).toBe('simple_robot');
+    });
+
+    test('Uses the configured version', () => {
+      const xml = new SDFWriter({ version: '1.9', xmlDeclaration: false }).serialize(
+        parser.parse(sampleUrdf)
+      );
+      expect(xml.startsWith('<sdf version="1.9">')).toBe(true);
+    });
+  });
+
+  describe('Links', () => {
+    test('Maps inertials, visuals, collisions and materials', () => {
+      const { model } = convert(sampleUrdf);
+      const arm = model.link.find((link: any) => link['@_name'] === 'arm');
+
+      expect(arm.inertial.pose).toBe('0 0 0.15 0 0 0');
+      expect(arm.inertial.mass).toBe('0.3');
+      expect(arm.inertial.inertia.ixx).toBe('0.03');
+      expect(arm.visual[0]['@_name']).toBe('arm_visual_0');
+      expect(arm.visual[0].geometry.mesh).toEqual({ uri: 'meshes/arm.stl', scale: '0.1 0.1 0.1' });
+      expect(arm.visual[0].material.diffuse).toBe('1 0 0 1');
+      expect(arm.collision[0].geometry.box.size).toBe('0.05 0.05 0.3');
+
+      const gripper = model.link.find((link: any) => link['@_name'] === 'gripper');
+      expect(gripper.visual[0].material.pbr.metal.albedo_map).toBe('textures/default.png');
+    });
+
+    test('Expresses link poses in the model frame', () => {
+      const { model } = convert(`
+        <robot name="chain">
+          <link name="a"/>
+          <link name="b"/>
+          <link name="c"/>
+          <joint name="ab" type="revolute">
+            <parent link="a"/>
+            <child link="b"/>
+            <origin xyz="1 0 0" rpy="0 0 1.5707963267948966"/>
+            <axis xyz="0 0 1"/>
+            <limit lower="-1" upper="1" effort="1" velocity="1"/>
+          </joint>
+          <joint name="bc" type="fixed">
+            <parent link="b"/>
+            <child link="c"/>
+            <origin xyz="2 0 0" rpy="0.3 0 0"/>
+          </joint>
+        </robot>
+      `);
+      const poses = Object.fromEntries(
+        model.link.map((link: any) => [link['@_name'], numbers(link.pose)])
+      );
+
+      expect(poses.a).toEqual([0, 0, 0, 0, 0, 0]);
+      const [x, y, z, roll, pitch, yaw] = poses.c;
+      expect(x).toBeCloseTo(1, 12);
+      expect(y).toBeCloseTo(2, 12);
+      expect(z).toBeCloseTo(0, 12);
+      const expected = rpyToMatrix3({ x: 0.3, y: 0, z: Math.PI / 2 });
+      rpyToMatrix3({ x: roll, y: pitch, z: yaw }).forEach((value, i) =>
+        expect(value).toBeCloseTo(expected[i], 12)
+      );
+    });
+
+    test('Looks up name-only material references', () => {
+      const { model, diagnostics } = convert(`
+        <robot name="r">
+          <material name="red"><color rgba="1 0 0 1"/></material>
+          <link name="a">
+            <visual><geometry><sphere radius="1"/></geometry><material name="red"/></visual>
+            <visual><geometry><sphere radius="1"/></geometry><material name="missing"/></visual>
+          </link>
+        </robot>
+      `);
+      expect(model.link[0].visual[0].material.ambient).toBe('1 0 0 1');
+      expect(model.link[0].visual[1].material).toBeUndefined();
+      expect(diagnostics).toContainEqual(
+        expect.objectContaining({
+          code: 'UNDEFINED_MATERIAL',
+          path: "/robot/link[@name='a']/visual[2]/material",
+        })
+      );
+    });
+
+    test('Reports links without inertial and elements without geometry', () => {
+      const { model, diagnostics } = convert(`
+        <robot name="r">
+          <link name="a">
+            <collision name="empty"/>
+          </link>
+        </robot>
+      `);
+      expect(model.link[0].collision).toBeUndefined();
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['MISSING_INERTIA', "/robot/link[@name='a']"],
+        ['UNSUPPORTED_ELEMENT', "/robot/link[@name='a']/collision[1]"],
+      ]);
+    });
+
+    test('Generates names that do not clash with explicit ones', () => {
+      const { model } = convert(`
+        <robot name="r">
+          <link name="a">
+            <visual><geometry><sphere radius="1"/></geometry></visual>
+            <visual name="a_visual_0"><geometry><sphere radius="2"/></geometry></visual>
+            <collision name="a_collision_1"><geometry><sphere radius="1"/></geometry></collision>
+            <collision><geometry><sphere radius="2"/></geometry></collision>
+          </link>
+        </robot>
+      `);
+      const names = (elements: any[]) => elements.map(element => element['@_name']);
+
+      expect(names(model.link[0].visual)).toEqual(['a_visual_0_2', 'a_visual_0']);
+      expect(names(model.link[0].collision)).toEqual(['a_collision_1', 'a_collision_1_2']);
+    });
+
+    test('Omits an empty world link and keeps it as the joint parent', () => {
+      const { model } = convert(`
+        <robot name="r">
+          <link name="world"/>
+          <link name="base"><inertial><mass value="1"/><inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1"/></inertial></link>
+          <joint name="fix" type="fixed">
+            <parent link="world"/>
+            <child link="base"/>
+            <origin xyz="0 0 1"/>
+          </joint>
+        </robot>
+      `);
+      expect(model.link.map((link: any) => link['@_name'])).toEqual(['base']);
+      expect(model.link[0].pose).toBe('0 0 1 0 0 0');
+      expect(model.joint[0].parent).toBe('world');
+    });
+  });
+
+  describe('Joints', () => {
+    test('Maps axis, limits and dynamics', () => {
+      const { model } = convert(sampleUrdf);
+      const joints = Object.fromEntries(model.joint.map((joint: any) => [joint['@_name'], joint]));
+
+      expect(joints.base_to_arm['@_type']).toBe('revolute');
+      expect(joints.base_to_arm.parent).toBe('base_link');
+      expect(joints.base_to_arm.child).toBe('arm');
+      expect(joints.base_to_arm.axis).toEqual({
+        xyz: '0 1 0',
+        limit: { lower: '-1.57', upper: '1.57', effort: '100', velocity: '1' },
+        dynamics: { damping: '0.5', friction: '0.5' },
+      });
+      expect(joints.base_to_caster.axis).toBeUndefined();
+    });
+
+    test('Omits position limits of continuous joints and defaults the axis', () => {
+      const { model } = convert(`
+        <robot name="r">
+          <link name="a"/>
+          <link name="b"/>
+          <joint name="spin" type="continuous">
+            <parent link="a"/>
+            <child link="b"/>
+            <limit lower="-1" upper="1" effort="5" velocity="2"/>
+          </joint>
+        </robot>
+      `);
+      expect(model.joint[0].axis).toEqual({ xyz: '1 0 0', limit: { effort: '5', velocity: '2' } });
+    });
+
+    test('Reports joints and elements SDF cannot represent', () => {
+      const { model, diagnostics } = convert(sampleUrdf.replace('type="fixed"', 'type="planar"'));
+
+      expect(model.joint.map((joint: any) => joint['@_name'])).not.toContain('base_to_caster');
+      expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+        ['UNSUPPORTED_ELEMENT', "/robot/joint[@name='base_to_left_wheel']/mimic"],
+        ['UNSUPPORTED_JOINT_TYPE', "/robot/joint[@name='base_to_caster']"],
+        ['UNSUPPORTED_ELEMENT', "/robot/joint[@name='base_to_arm']/calibration"],
+        ['UNSUPPORTED_ELEMENT', "/robot/transmission[@name='wheel_trans']"],
+        ['UNSUPPORTED_ELEMENT', "/robot/transmission[@name='arm_trans']"],
+      ]);
+      expect(diagnostics.every(d => d.severity === 'warning')).toBe(true);
+    });
+
+    test('Reports safety controllers, ros2_control and Gazebo extensions', () => {
+      const { diagnostics } = convert(`
+        <robot name="r">
+          <link name="a"><inertial><mass value="1"/><inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1"/></inertial></link>
+          <link name="b"><inertial><mass value="1"/><inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1"/></inertial></link>
+          <joint name="j" type="revolute">
+            <parent link="a"/>
+            <child link="b"/>
+            <limit lower="-1" upper="1" effort="5" velocity="2"/>
+            <safety_controller soft_lower_limit="-0.9" soft_upper_limit="0.9" k_position="10" k_velocity="1"/>
+          </joint>
+          <ros2_control name="system" type="system"><hardware><plugin>mock/System</plugin></hardware></ros2_control>
+          <gazebo reference="b"><mu1>1.0</mu1></gazebo>
+          <gazebo><static>true</static></gazebo>
+        </robot>
+      `);
+
+      expect(diagnostics.map(d => [d.code, d.path, d.message])).toEqual([
+        [
+          'UNSUPPORTED_ELEMENT',
+          "/robot/joint[@name='j']/safety_controller",
+          'Safety controller of joint j has no SDF equivalent and is omitted',
+        ],
+        [
+          'UNSUPPORTED_ELEMENT',
+          "/robot/ros2_control[@name='system']",
+          'ros2_control system has no SDF equivalent and is omitted',
+        ],
+        [
+          'UNSUPPORTED_ELEMENT',
+          '/robot/gazebo[1]',
+          'Gazebo extension for b is not merged into the model and is omitted',
+        ],
+        [
+          'UNSUPPORTED_ELEMENT',
+          '/robot/gazebo[2]',
+          'Gazebo extension is not merged into the model and is omitted',
+        ],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+// Source Locator Tests
+import { findLocation, locateElements } from '../src/parser/sourceLocator';
+
+describe('locateElements', () => {
+  const urdf = [
+    '<?xml version="1.0"?>',
+    '<!-- <link name="commented"/> -->',
+    '<robot name="test">',
+    '  <link name="base">',
+    '    <visual>',
+    '      <geometry><box size="1 1 1"/></geometry>',
+    '    </visual>',
+    '    <visual name="second"/>',
+    '  </link>',
+    '  <link>',
+    '  </link>',
+    '  <joint name="a&amp;b" type="fixed">',
+    '    <parent link="base"/>',
+    '  </joint>',
+    '</robot>',
+  ].join('\n');
+
+  test('Locates root-level elements by name', () => {
+    const locations = locateElements(urdf);
+    expect(locations.get('/robot')).toEqual({ line: 3, column: 1, offset: 56 });
+    expect(locations.get("/robot/link[@name='base']")).toMatchObject({ line: 4, column: 3 });
+  });
+
+  test('Locates unnamed root-level elements by index', () => {
+    expect(locateElements(urdf).get('/robot/link[2]')).toMatchObject({ line: 10, column: 3 });
+  });
+
+  test('Locates visuals by index and other elements by tag', () => {
+    const locations = locateElements(urdf);
+    expect(locations.get("/robot/link[@name='base']/visual[1]")).toMatchObject({ line: 5 });
+    expect(locations.get("/robot/link[@name='base']/visual[2]")).toMatchObject({ line: 8 });
+    expect(locations.get("/robot/link[@name='base']/visual[1]/geometry/box")).toMatchObject({
+      line: 6,
+      column: 17,
+    });
+  });
+
+  test('Decodes entities in names', () => {
+    expect(locateElements(urdf).get("/robot/joint[@name='a&b']/parent")).toMatchObject({
+      line: 13,
+    });
+  });
+
+  test('Locates names containing quotes and slashes', () => {
+    const locations = locateElements(`<robot name="r">
+      <link name="it's/a link"/>
+      <link name='say "hi"/&apos;'><visual/></link>
+    </robot>`);
+
+    expect(locations.get(`/robot/link[@name="it's/a link"]`)).toMatchObject({ line: 2 });
+    expect(
+      findLocation(locations, `/robot/link[@name=concat('say "hi"/', "'", '')]/visual[1]/geometry`)
+    ).toMatchObject({ line: 3, column: 36 });
+  });
+
+  test('Locates repeated paths by position', () => {
+    const locations = locateElements(`<robot name="r">
+      <link name="a"/>
+      <link name="a">
+        <visual/>
+      </link>
+    </robot>`);
+
+    expect(locations.get("/robot/link[@name='a']")).toMatchObject({ line: 2 });
+    expect(locations.get("/robot/link[@name='a'][2]")).toMatchObject({ line: 3 });
+    expect(locations.get("/robot/link[@name='a'][2]/visual[1]")).toMatchObject({ line: 4 });
+  });
+
+  test('Ignores comments', () => {
+    expect(locateElements(urdf).has("/robot/link[@name='commented']")).toBe(false);
+  });
+
+  test('Falls back to the closest located ancestor', () => {
+    const locations = locateElements(urdf);
+    expect(findLocation(locations, "/robot/joint[@name='a&b']/limit")).toMatchObject({
+      line: 12,
+    });
+    expect(findLocation(locations, "/robot/link[@name='x/y']")).toMatchObject({ line: 3 });
+    expect(findLocation(new Map(), '/robot')).toBeUndefined();
+  });
+});
@@ -2,6 +2,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { URDFParseError } from '../src/errors';
 import { URDFParser } from '../src/parser/urdfParser';
 import { Robot } from '../src/types/urdf';
 // Types import removed as it's not used directly in the tests
@@ -244,6 +245,198 @@ describe('URDFParser', () => {
     });
   });
 
+  describe('Extension Blocks', () => {
+    const extensionUrdf = `
+      <robot name="test">
+        <link name="a"/>
+        <link name="b"/>
+        <joint name="j" type="revolute">
+          <parent link="a"/>
+          <child link="b"/>
+          <limit lower="-1" upper="1" effort="1" velocity="1"/>
+          <safety_controller soft_lower_limit="-0.9" soft_upper_limit="0.9" k_position="100" k_velocity="10"/>
+        </joint>
+        <ros2_control name="System" type="system">
+          <hardware>
+            <plugin>mock_components/GenericSystem</plugin>
+            <param name="calculate_dynamics">true</param>
+          </hardware>
+          <joint name="j">
+            <command_interface name="position">
+              <param name="min">-1.0</param>
+              <param name="max">1.0</param>
+            </command_interface>
+            <state_interface name="position"><param name="initial_value">0.0</param></state_interface>
+            <state_interface name="velocity"/>
+          </joint>
+          <sensor name="ft">
+            <state_interface name="force.x"/>
+            <param name="frame_id">b</param>
+          </sensor>
+        </ros2_control>
+        <gazebo reference="a">
+          <material>Gazebo/Orange</material>
+          <mu1>0.2</mu1>
+        </gazebo>
+        <gazebo>
+          <plugin filename="libgazebo_ros2_control.so" name="gazebo_ros2_control">
+            <parameters>config/controllers.yaml</parameters>
+          </plugin>
+        </gazebo>
+      </robot>
+    `;
+
+    test('Parses joint safety controllers', () => {
+      const robot = parser.parse(extensionUrdf);
+      expect(robot.joints[0].safetyController).toEqual({
+        softLowerLimit: -0.9,
+        softUpperLimit: 0.9,
+        kPosition: 100,
+        kVelocity: 10,
+      });
+    });
+
+    test('Parses ros2_control hardware, joints, sensors and params', () => {
+      const [ros2Control] = parser.parse(extensionUrdf).ros2Control!;
+
+      expect(ros2Control.name).toBe('System');
+      expect(ros2Control.type).toBe('system');
+      expect(ros2Control.hardware).toEqual({
+        plugin: 'mock_components/GenericSystem',
+        params: { calculate_dynamics: 'true' },
+      });
+      expect(ros2Control.joints).toEqual([
+        {
+          name: 'j',
+          commandInterfaces: [{ name: 'position', params: { min: '-1.0', max: '1.0' } }],
+          stateInterfaces: [
+            { name: 'position', params: { initial_value: '0.0' } },
+            { name: 'velocity', params: {} },
+          ],
+          params: {},
+        },
+      ]);
+      expect(ros2Control.sensors).toEqual([
+        {
+          name: 'ft',
+          commandInterfaces: [],
+          stateInterfaces: [{ name: 'force.x', params: {} }],
+          params: { frame_id: 'b' },
+        },
+      ]);
+      expect(ros2Control.gpios).toEqual([]);
+    });
+
+    test('Keeps gazebo blocks as raw XML', () => {
+      const robot = parser.parse(extensionUrdf);
+
+      expect(robot.gazebo).toEqual([
+        {
+          reference: 'a',
+          elements: [
+            { tag: 'material', attributes: {}, children: [], text: 'Gazebo/Orange' },
+            { tag: 'mu1', attributes: {}, children: [], text: '0.2' },
+          ],
+        },
+        {
+          elements: [
+            {
+              tag: 'plugin',
+              attributes: { filename: 'libgazebo_ros2_control.so', name: 'gazebo_ros2_control' },
+              children: [
+                {
+                  tag: 'parameters',
+                  attributes: {},
+                  children: [],
+                  text: 'config/controllers.yaml',
+                },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    test('Omits extension fields when the blocks are absent', () => {
+      expect(result.ros2Control).toBeUndefined();
+      expect(result.gazebo).toBeUndefined();
+    });
+  });
+
+  describe('Lossless Mode', () => {
+    const vendorUrdf = `
+      <robot name="test" xmlns:xacro="http://www.ros.org/wiki/xacro">
+        <!-- top comment -->
+        <link name="a" vendor:id="7">
+          <sensor name="imu" type="imu"><update_rate>100.0</update_rate></sensor>
+          <visual>
+            <geometry><capsule radius="1" length="2"/></geometry>
+            <material name="m" vendor:finish="matte"><color rgba="1 0 0 1"/></material>
+          </visual>
+        </link>
+        <link name="b"/>
+        <joint name="j" type="fixed" vendor:tag="x">
+          <parent link="a"/>
+          <child link="b"/>
+          <vendor_data>1</vendor_data>
+        </joint>
+        <transmission name="t"><type>T</type><vendor_param>2</vendor_param></transmission>
+        <vendor_block/>
+      </robot>
+    `;
+
+    test('Keeps unknown attributes, elements and comments', () => {
+      const robot = new URDFParser({ lossless: true }).parse(vendorUrdf);
+      const [a] = robot.links;
+
+      expect(robot.unknown).toEqual({
+        attributes: { 'xmlns:xacro': 'http://www.ros.org/wiki/xacro' },
+        elements: [
+          { tag: '#comment', attributes: {}, children: [], text: ' top comment ' },
+          { tag: 'vendor_block', attributes: {}, children: [] },
+        ],
+        positions: [0, 5],
+      });
+      expect(a.unknown).toEqual({
+        attributes: { 'vendor:id': '7' },
+        elements: [
+          {
+            tag: 'sensor',
+            attributes: { name: 'imu', type: 'imu' },
+            children: [{ tag: 'update_rate', attributes: {}, children: [], text: '100.0' }],
+          },
+        ],
+        positions: [0],
+      });
+      expect(a.visuals[0].unknown).toBeUndefined();
+      expect(a.visuals[0].geometry?.unknown?.elements?.[0].tag).toBe('capsule');
+      expect(a.visuals[0].material?.unknown).toEqual({ attributes: { 'vendor:finish': 'matte' } });
+      expect(robot.links[1].unknown).toBeUndefined();
+      expect(robot.joints[0].unknown).toEqual({
+        attributes: { 'vendor:tag': 'x' },
+        elements: [{ tag: 'vendor_data', attributes: {}, children: [], text: '1' }],
+        positions: [2],
+      });
+      expect(robot.transmissions[0].unknown?.elements?.map(e => e.tag)).toEqual(['vendor_param']);
+    });
+
+    test('Keeps elements aligned when unnamed links are skipped', () => {
+      const robot = new URDFParser({ lossless: true }).parse(`
+        <robot name="test">
+          <link><first/></link>
+          <link name="a"><second/></link>
+        </robot>
+      `);
+      expect(robot.links[0].unknown?.elements?.[0].tag).toBe('second');
+    });
+
+    test('Drops unknown content by default', () => {
+      const robot = parser.parse(vendorUrdf);
+      expect(robot.unknown).toBeUndefined();
+      expect(robot.links[0].unknown).toBeUndefined();
+    });
+  });
+
   describe('Material Parsing', () => {
     test('Correctly parses root-level materials', () => {
       expect(result.materials).toBeDefined();
@@ -308,6 +501,91 @@ describe('URDFParser', () => {
       expect(armTrans?.actuator?.name).toBe('arm_motor');
       expect(armTrans?.actuator?.mechanicalReduction).toBe(50);
     });
+
+    test('Parses hardware interfaces of joints and actuators', () => {
+      const wheelTrans = result.transmissions.find(t => t.name === 'wheel_trans');
+      expect(wheelTrans?.joints).toEqual([
+        {
+          name: 'base_to_right_wheel',
+          hardwareInterfaces: ['hardware_interface/VelocityJointInterface'],
+        },
+      ]);
+      expect(wheelTrans?.actuators).toEqual([
+        {
+          name: 'wheel_motor',
+          hardwareInterfaces: ['hardware_interface/VelocityJointInterface'],
+          mechanicalReduction: 10,
+        },
+      ]);
+      expect(wheelTrans?.joint).toBe(wheelTrans?.joints?.[0]);
+    });
+
+    test('Parses transmissions with multiple joints and actuators', () => {
+      const robot = parser.parse(`
+        <robot name="test">
+          <transmission name="diff">
+            <type>transmission_interface/DifferentialTransmission</type>
+            <joint name="wrist_flex">
+              <role>joint1</role>
+              <offset>0.5</offset>
+              <mechanicalReduction>2</mechanicalReduction>
+              <hardwareInterface>hardware_interface/EffortJointInterface</hardwareInterface>
+              <hardwareInterface>hardware_interface/PositionJointInterface</hardwareInterface>
+            </joint>
+            <joint name="wrist_roll">
+              <role>joint2</role>
+              <mechanicalReduction>-2</mechanicalReduction>
+            </joint>
+            <actuator name="left_motor"><role>actuator1</role><mechanicalReduction>50</mechanicalReduction></actuator>
+            <actuator name="right_motor"><role>actuator2</role><mechanicalReduction>50</mechanicalReduction></actuator>
+          </transmission>
+        </robot>
+      `);
+      const transmission = robot.transmissions[0];
+
+      expect(transmission.type).toBe('transmission_interface/DifferentialTransmission');
+      expect(transmission.joints).toEqual([
+        {
+          name: 'wrist_flex',
+          role: 'joint1',
+          offset: 0.5,
+          mechanicalReduction: 2,
+          hardwareInterfaces: [
+            'hardware_interface/EffortJointInterface',
+            'hardware_interface/PositionJointInterface',
+          ],
+        },
+        { name: 'wrist_roll', role: 'joint2', mechanicalReduction: -2 },
+      ]);
+      expect(transmission.actuators?.map(actuator => actuator.role)).toEqual([
+        'actuator1',
+        'actuator2',
+      ]);
+      expect(transmission.joint?.name).toBe('wrist_flex');
+      expect(transmission.actuator?.name).toBe('left_motor');
+    });
+
+    test('Parses the pre-ros_control transmission format', () => {
+      const robot = parser.parse(`
+        <robot name="test">
+          <transmission type="pr2_mechanism_model/SimpleTransmission" name="t">
+            <actuator name="motor"/>
+            <joint name="j"/>
+            <mechanicalReduction>1.5</mechanicalReduction>
+          </transmission>
+        </robot>
+      `);
+
+      expect(robot.transmissions[0]).toEqual({
+        name: 't',
+        type: 'pr2_mechanism_model/SimpleTransmission',
+        joint: { name: 'j' },
+        joints: [{ name: 'j' }],
+        actuator: { name: 'motor' },
+        actuators: [{ name: 'motor' }],
+        mechanicalReduction: 1.5,
+      });
+    });
   });
 
   describe('Geometry Parsing', () => {
@@ -466,4 +744,209 @@ describe('URDFParser', () => {
       expect(customParser).toBeInstanceOf(URDFParser);
     });
   });
+
+  describe('Strict Mode', () => {
+    const brokenOriginUrdf = `
+      <robot name="test">
+        <link name="a"/>
+        <link name="b"/>
+        <joint name="j" type="fixed">
+          <parent link="a"/>
+          <child link="b"/>
+          <origin xyz="1 2" rpy="0 0 0"/>
+        </joint>
+      </robot>
+    `;
+
+    test('Substitutes defaults for malformed values by default', () => {
+      const robot = parser.parse(brokenOriginUrdf);
+      expect(robot.joints[0].origin?.xyz).toEqual({ x: 0, y: 0, z: 0 });
+    });
+
+    test('Throws URDFParseError for malformed vectors', () => {
+      const strictParser = new URDFParser({ strict: true });
+      expect(() => strictParser.parse(brokenOriginUrdf)).toThrow(URDFParseError);
+      expect(() => strictParser.parse(brokenOriginUrdf)).toThrow(
+        "/robot/joint[@name='j']/origin @xyz"
+      );
+    });
+
+    test('Throws URDFParseError for malformed numbers in nested elements', () => {
+      const strictParser = new URDFParser({ strict: true });
+      const urdf = `
+        <robot name="test">
+          <link name="a">
+            <visual>
+              <geometry>
+                <cylinder radius="abc" length="1"/>
+              </geometry>
+            </visual>
+            <visual>
+              <material name="m">
+                <color rgba="1 0 0"/>
+              </material>
+            </visual>
+          </link>
+        </robot>
+      `;
+      try {
+        strictParser.parse(urdf);
+        fail('Expected URDFParseError');
+      } catch (error) {
+        const parseError = error as URDFParseError;
+        expect(parseError.element).toBe("/robot/link[@name='a']/visual[1]/geometry/cylinder");
+        expect(parseError.attribute).toBe('radius');
+        expect(parseError.value).toBe('abc');
+      }
+    });
+
+    test('Parses the sample robot without errors', () => {
+      const strictParser = new URDFParser({ strict: true });
+      expect(strictParser.parse(sampleUrdf)).toEqual(result);
+    });
+  });
+
+  describe('Source Locations', () => {
+    test('Does not track locations by default', () => {
+      expect(parser.getSourceLocation(result.links[0])).toBeUndefined();
+    });
+
+    test('Tracks locations of parsed elements', () => {
+      const trackingParser = new URDFParser({ trackLocations: true });
+      const robot = trackingParser.parse(sampleUrdf);
+      const lines = sampleUrdf.split('\n');
+      const lineOf = (element: object) => {
+        const location = trackingParser.getSourceLocation(element);
+        expect(location).toBeDefined();
+        return lines[location!.line - 1].slice(location!.column - 1);
+      };
+
+      const arm = robot.links.find(link => link.name === 'arm')!;
+      expect(lineOf(arm)).toBe('<link name="arm">');
+      expect(lineOf(arm.visuals[0])).toBe('<visual>');
+      expect(lineOf(arm.visuals[0].material!)).toBe('<material name="red"/>');
+      expect(lineOf(arm.collisions[0])).toBe('<collision>');
+      expect(lineOf(robot.joints[3])).toBe('<joint name="base_to_arm" type="revolute">');
+      expect(lineOf(robot.materials[4])).toBe('<material name="textured">');
+      expect(lineOf(robot.transmissions[1])).toBe('<transmission name="arm_trans">');
+    });
+
+    test('Attaches locations to diagnostics', () => {
+      const trackingParser = new URDFParser({ trackLocations: true, collectDiagnostics: true });
+      trackingParser.parse(`<robot name="test">
+  <link name="a"/>
+  <joint name="j" type="revolute">
+    <parent link="a"/>
+    <child link="b"/>
+  </joint>
+</robot>`);
+      expect(trackingParser.diagnostics.map(d => [d.code, d.location?.line])).toEqual([
+        ['UNKNOWN_CHILD_LINK', 5],
+        ['MISSING_JOINT_LIMIT', 3],
+      ]);
+    });
+
+    test('Locates duplicate links and joints at their own elements', () => {
+      const trackingParser = new URDFParser({ trackLocations: true, collectDiagnostics: true });
+      const robot = trackingParser.parse(`<robot name="test">
+  <link name="a"/>
+  <link name="b"/>
+  <joint name="j" type="fixed">
+    <parent link="a"/>
+    <child link="b"/>
+  </joint>
+  <link name="a"><visual><geometry><sphere radius="1"/></geometry></visual></link>
+  <joint name="j" type="fixed">
+    <parent link="a"/>
+    <child link="b"/>
+  </joint>
+</robot>`);
+
+      expect(
+        trackingParser.diagnostics
+          .filter(d => d.code.startsWith('DUPLICATE_'))
+          .map(d => [d.code, d.path, d.location?.line])
+      ).toEqual([
+        ['DUPLICATE_LINK_NAME', "/robot/link[@name='a'][2]", 8],
+        ['DUPLICATE_JOINT_NAME', "/robot/joint[@name='j'][2]", 9],
+      ]);
+      expect(trackingParser.getSourceLocation(robot.links[2].visuals[0])?.line).toBe(8);
+      expect(trackingParser.getSourceLocation(robot.joints[1])?.line).toBe(9);
+    });
+
+    test('Attaches locations to strict mode errors', () => {
+      const trackingParser = new URDFParser({ trackLocations: true, strict: true });
+      try {
+        trackingParser.parse(`<robot name="test">
+  <link name="a">
+    <inertial>
+      <mass value="heavy"/>
+    </inertial>
+  </link>
+</robot>`);
+        fail('Expected URDFParseError');
+      } catch (error) {
+        expect((error as URDFParseError).location).toMatchObject({ line: 4, column: 7 });
+      }
+    });
+  });
+
+  describe('Diagnostics', () => {
+    const invalidUrdf = `
+      <robot name="test">
+        <link name="base"/>
+        <link/>
+        <joint type="fixed">
+          <parent link="base"/>
+          <child link="base"/>
+        </joint>
+        <joint name="orphan" type="fixed">
+          <parent link="base"/>
+        </joint>
+        <joint name="arm" type="revolute">
+          <parent link="base"/>
+          <child link="missing"/>
+        </joint>
+      </robot>
+    `;
+
+    test('Logs skipped elements to the console by default', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      try {
+        parser.parse(invalidUrdf);
+        expect(warn).toHaveBeenCalledWith('Link without name found, skipping');
+        expect(warn).toHaveBeenCalledWith('Joint without name or type found, skipping');
+        expect(warn).toHaveBeenCalledWith('Joint orphan missing parent or child link, skipping');
+        expect(parser.diagnostics).toEqual([]);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    test('Collects diagnostics instead of logging when enabled', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      try {
+        const collectingParser = new URDFParser({ collectDiagnostics: true });
+        collectingParser.parse(invalidUrdf);
+
+        expect(warn).not.toHaveBeenCalled();
+        expect(collectingParser.diagnostics.map(d => [d.code, d.path])).toEqual([
+          ['MISSING_LINK_NAME', '/robot/link[2]'],
+          ['MISSING_JOINT_NAME_OR_TYPE', '/robot/joint[1]'],
+          ['MISSING_JOINT_PARENT_OR_CHILD', "/robot/joint[@name='orphan']"],
+          ['UNKNOWN_CHILD_LINK', "/robot/joint[@name='arm']/child"],
+          ['MISSING_JOINT_LIMIT', "/robot/joint[@name='arm']"],
+        ]);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    test('Resets diagnostics on each parse', () => {
+      const collectingParser = new URDFParser({ collectDiagnostics: true });
+      collectingParser.parse(invalidUrdf);
+      collectingParser.parse(sampleUrdf);
+      expect(collectingParser.diagnostics).toEqual([]);
+    });
+  });
 });
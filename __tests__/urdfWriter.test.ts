@@ -0,0 +1,272 @@
+// URDF Writer Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { URDFParser } from '../src/parser/urdfParser';
+import { Robot } from '../src/types/urdf';
+import { parseXMLElements } from '../src/utils/xml';
+import { URDFWriter } from '../src/writer/urdfWriter';
+
+describe('URDFWriter', () => {
+  const sampleUrdfPath = path.join(__dirname, '../samples/sample_robot.urdf');
+  const sampleUrdf = fs.readFileSync(sampleUrdfPath, 'utf8');
+
+  let parser: URDFParser;
+  let writer: URDFWriter;
+
+  beforeEach(() => {
+    parser = new URDFParser();
+    writer = new URDFWriter();
+  });
+
+  describe('Round Trip', () => {
+    test('Re-parsing serialized sample robot yields the same object', () => {
+      const robot = parser.parse(sampleUrdf);
+      const reparsed = parser.parse(writer.serialize(robot));
+      expect(reparsed).toEqual(robot);
+    });
+
+    test('Round trip preserves every joint type and optional joint element', () => {
+      const urdf = `
+        <robot name="all_fields">
+          <link name="a"/>
+          <link name="b"/>
+          <link name="c"/>
+          <joint name="j1" type="floating">
+            <parent link="a"/>
+            <child link="b"/>
+            <origin xyz="1e-7 -2.5 3" rpy="0.1 0.2 0.3"/>
+          </joint>
+          <joint name="j2" type="planar">
+            <parent link="b"/>
+            <child link="c"/>
+            <axis xyz="0 0 1"/>
+            <limit lower="-1" upper="1" effort="10" velocity="2"/>
+            <dynamics damping="0.3" friction="0.4"/>
+            <calibration rising="0.5" falling="0.6"/>
+            <mimic joint="j1" multiplier="-2" offset="0.25"/>
+          </joint>
+        </robot>
+      `;
+      const robot = parser.parse(urdf);
+      expect(parser.parse(writer.serialize(robot))).toEqual(robot);
+    });
+
+    test('Round trip preserves safety controllers, ros2_control and gazebo blocks', () => {
+      const urdf = `
+        <robot name="r">
+          <link name="a"/>
+          <link name="b"/>
+          <joint name="j" type="prismatic">
+            <parent link="a"/>
+            <child link="b"/>
+            <limit lower="0" upper="1" effort="1" velocity="1"/>
+            <safety_controller soft_upper_limit="0.9" k_velocity="10"/>
+          </joint>
+          <ros2_control name="System" type="system">
+            <hardware><plugin>mock_components/GenericSystem</plugin></hardware>
+            <joint name="j">
+              <command_interface name="position"><param name="min">0.0</param></command_interface>
+              <state_interface name="position"/>
+              <param name="p">1</param>
+            </joint>
+            <gpio name="io"><command_interface name="out"/></gpio>
+          </ros2_control>
+          <gazebo reference="b">
+            <sensor name="cam" type="camera">
+              <update_rate>30.0</update_rate>
+              <camera><image><width>640</width></image></camera>
+            </sensor>
+          </gazebo>
+        </robot>
+      `;
+      const robot = parser.parse(urdf);
+      const xml = writer.serialize(robot);
+
+      expect(parser.parse(xml)).toEqual(robot);
+      expect(xml).toContain('<update_rate>30.0</update_rate>');
+    });
+
+    test('Lossless round trip keeps vendor data after edits', () => {
+      const losslessParser = new URDFParser({ lossless: true });
+      const robot = losslessParser.parse(
+        sampleUrdf
+          .replace('<robot name="simple_robot">', '<robot name="simple_robot" vendor:rev="3">')
+          .replace(
+            '<link name="base_link">',
+            '<link name="base_link"><!-- vendor --><sensor name="imu"><rate>100.0</rate></sensor>'
+          )
+      );
+      robot.joints.find(joint => joint.name === 'base_to_arm')!.limit!.upper = 2;
+
+      const xml = writer.serialize(robot);
+      const reparsed = losslessParser.parse(xml);
+
+      expect(reparsed).toEqual(robot);
+      expect(xml).toContain('<robot name="simple_robot" vendor:rev="3">');
+      expect(xml).toContain('<!-- vendor -->');
+      expect(xml).toContain('<rate>100.0</rate>');
+      expect(xml).toContain('<!-- Arm transmission -->');
+    });
+
+    test('Lossless round trip keeps vendor data of nested elements', () => {
+      const losslessParser = new URDFParser({ lossless: true });
+      const urdf = `
+        <robot name="r">
+          <material name="m"><color rgba="1 0 0 1" vendor:x="1"/><texture filename="t.png" vendor:x="2"/></material>
+          <link name="a">
+            <inertial>
+              <origin xyz="0 0 0" vendor:x="3"/>
+              <mass value="1" vendor:x="4"/>
+              <inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1" vendor:x="5"/>
+            </inertial>
+            <visual><geometry><box size="1 1 1" vendor:x="6"/></geometry></visual>
+            <collision><geometry><mesh filename="a.stl" vendor:x="7"/></geometry></collision>
+          </link>
+          <link name="b"/>
+          <joint name="j" type="revolute">
+            <parent link="a" vendor:x="8"/>
+            <child link="b"/>
+            <axis xyz="0 0 1" vendor:x="9"/>
+            <limit lower="-1" upper="1" effort="1" velocity="1" vendor:x="10"/>
+            <dynamics damping="0.1" vendor:x="11"/>
+            <calibration rising="0.2" vendor:x="12"/>
+            <safety_controller k_velocity="1" vendor:x="13"/>
+          </joint>
+          <joint name="k" type="continuous">
+            <parent link="b"/>
+            <child link="a"/>
+            <mimic joint="j" vendor:x="14"/>
+          </joint>
+          <transmission name="t">
+            <joint name="j" vendor:x="15"><vendor_param>1</vendor_param></joint>
+            <actuator name="m" vendor:x="16"/>
+          </transmission>
+        </robot>
+      `;
+      const robot = losslessParser.parse(urdf);
+      const xml = writer.serialize(robot);
+
+      expect(losslessParser.parse(xml)).toEqual(robot);
+      for (let index = 1; index <= 16; index++) {
+        expect(xml).toContain(`vendor:x="${index}"`);
+      }
+      expect(xml).toContain('<vendor_param>1</vendor_param>');
+      expect(robot.joints[0].limit?.unknown).toEqual({ attributes: { 'vendor:x': '10' } });
+    });
+
+    test('Lossless round trip keeps unknown content in document order', () => {
+      const losslessParser = new URDFParser({ lossless: true });
+      const urdf = `
+        <robot name="r">
+          <!-- header -->
+          <link name="a">
+            <visual><geometry><sphere radius="1"/></geometry></visual>
+            <!-- between -->
+            <sensor name="imu"/>
+            <collision><geometry><sphere radius="1"/></geometry></collision>
+          </link>
+          <!-- child link -->
+          <link name="b"/>
+          <joint name="j" type="fixed">
+            <vendor_data>1</vendor_data>
+            <parent link="a"/>
+            <child link="b"/>
+          </joint>
+          <gazebo reference="a"><!-- plugin --><material>Gazebo/Red</material><mu1>0.2</mu1></gazebo>
+          <vendor_block/>
+        </robot>
+      `;
+      const xml = writer.serialize(losslessParser.parse(urdf));
+
+      expect(parseXMLElements(xml)).toEqual(parseXMLElements(urdf));
+      expect(xml.indexOf('<!-- header -->')).toBeLessThan(xml.indexOf('<link name="a">'));
+    });
+
+    test('Round trip preserves multi-joint transmissions', () => {
+      const urdf = `
+        <robot name="r">
+          <transmission name="diff">
+            <type>transmission_interface/DifferentialTransmission</type>
+            <joint name="a">
+              <role>joint1</role>
+              <offset>0.5</offset>
+              <hardwareInterface>hardware_interface/EffortJointInterface</hardwareInterface>
+              <hardwareInterface>hardware_interface/PositionJointInterface</hardwareInterface>
+            </joint>
+            <joint name="b"><role>joint2</role><mechanicalReduction>-1</mechanicalReduction></joint>
+            <actuator name="m1"><role>actuator1</role><mechanicalReduction>10</mechanicalReduction></actuator>
+            <actuator name="m2"><role>actuator2</role></actuator>
+          </transmission>
+          <transmission type="SimpleTransmission" name="legacy">
+            <joint name="c"/>
+            <actuator name="m3"/>
+            <mechanicalReduction>3</mechanicalReduction>
+          </transmission>
+        </robot>
+      `;
+      const robot = parser.parse(urdf);
+      expect(parser.parse(writer.serialize(robot))).toEqual(robot);
+    });
+
+    test('Round trip keeps edits to the single transmission joint and actuator', () => {
+      const robot = parser.parse(sampleUrdf);
+      const transmission = robot.transmissions[0];
+      transmission.joint = { name: 'base_to_left_wheel', mechanicalReduction: 2 };
+      transmission.actuator = { ...transmission.actuator!, name: 'left_motor' };
+
+      const reparsed = parser.parse(writer.serialize(robot)).transmissions[0];
+      expect(reparsed.joints).toEqual([{ name: 'base_to_left_wheel', mechanicalReduction: 2 }]);
+      expect(reparsed.actuator?.name).toBe('left_motor');
+      expect(reparsed.actuators).toHaveLength(1);
+    });
+
+    test('Round trip keeps reassigned transmission joint lists', () => {
+      const robot = parser.parse(sampleUrdf);
+      robot.transmissions[0].joints = [{ name: 'base_to_left_wheel' }];
+
+      const reparsed = parser.parse(writer.serialize(robot)).transmissions[0];
+      expect(reparsed.joints).toEqual([{ name: 'base_to_left_wheel' }]);
+      expect(robot.transmissions[0].joint?.name).toBe('base_to_left_wheel');
+    });
+  });
+
+  describe('Serialization', () => {
+    test('Emits XML declaration by default', () => {
+      const robot: Robot = { name: 'r', links: [], joints: [], materials: [], transmissions: [] };
+      expect(writer.serialize(robot).startsWith('<?xml version="1.0"?>')).toBe(true);
+    });
+
+    test('Omits XML declaration when disabled', () => {
+      const robot: Robot = { name: 'r', links: [], joints: [], materials: [], transmissions: [] };
+      const noDeclWriter = new URDFWriter({ xmlDeclaration: false });
+      expect(noDeclWriter.serialize(robot).startsWith('<robot')).toBe(true);
+    });
+
+    test('Serializes edited values', () => {
+      const robot = parser.parse(sampleUrdf);
+      const armJoint = robot.joints.find(joint => joint.name === 'base_to_arm');
+      armJoint!.limit!.upper = 2.5;
+      const armLink = robot.links.find(link => link.name === 'arm');
+      armLink!.visuals[0].geometry!.mesh!.filename = 'package://robot/meshes/arm.dae';
+
+      const reparsed = parser.parse(writer.serialize(robot));
+      expect(reparsed.joints.find(joint => joint.name === 'base_to_arm')?.limit?.upper).toBe(2.5);
+      expect(reparsed.links.find(link => link.name === 'arm')?.visuals[0].geometry?.mesh).toEqual({
+        filename: 'package://robot/meshes/arm.dae',
+        scale: { x: 0.1, y: 0.1, z: 0.1 },
+      });
+    });
+
+    test('Escapes special characters in names', () => {
+      const robot: Robot = {
+        name: 'a&b "quoted"',
+        links: [{ name: '<link>', visuals: [], collisions: [] }],
+        joints: [],
+        materials: [],
+        transmissions: [],
+      };
+      expect(parser.parse(writer.serialize(robot))).toEqual(robot);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 // Parsing Utilities Tests
+import { URDFParseError } from '../../src/errors';
 import {
   ensureArray,
   getAttribute,
@@ -69,6 +70,55 @@ describe('Parsing Utilities', () => {
     });
   });
 
+  describe('strict mode', () => {
+    const context = { strict: true, element: "/robot/joint[@name='j']/origin", attribute: 'xyz' };
+
+    test('parses well-formed values', () => {
+      expect(parseNumber(' 1.5 ', 0, context)).toBe(1.5);
+      expect(parseVector3('1 2 3', undefined, context)).toEqual({ x: 1, y: 2, z: 3 });
+      expect(parseRGBA('0.1 0.2 0.3 1', undefined, context)).toEqual([0.1, 0.2, 0.3, 1]);
+    });
+
+    test('uses default value for undefined input', () => {
+      expect(parseNumber(undefined, 7, context)).toBe(7);
+    });
+
+    test('throws for non-numeric strings', () => {
+      expect(() => parseNumber('abc', 0, context)).toThrow(URDFParseError);
+      expect(() => parseNumber('1abc', 0, context)).toThrow(URDFParseError);
+      expect(() => parseNumber('', 0, context)).toThrow(URDFParseError);
+    });
+
+    test('throws for wrong number of vector elements', () => {
+      expect(() => parseVector3('1 2', undefined, context)).toThrow(
+        '/robot/joint[@name=\'j\']/origin @xyz: Expected 3 space-separated numbers, got "1 2"'
+      );
+      expect(() => parseRGBA('1 0 0', undefined, context)).toThrow(URDFParseError);
+    });
+
+    test('reports element, attribute and raw value', () => {
+      try {
+        parseVector3('1 abc 3', undefined, context);
+        fail('Expected URDFParseError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(URDFParseError);
+        const parseError = error as URDFParseError;
+        expect(parseError.element).toBe("/robot/joint[@name='j']/origin");
+        expect(parseError.attribute).toBe('xyz');
+        expect(parseError.value).toBe('1 abc 3');
+        expect(parseError.message).toContain('"abc"');
+      }
+    });
+
+    test('keeps lenient behavior when strict is not set', () => {
+      expect(parseVector3('1 2', undefined, { element: 'e', attribute: 'a' })).toEqual({
+        x: 0,
+        y: 0,
+        z: 0,
+      });
+    });
+  });
+
   describe('ensureArray', () => {
     test('wraps non-array values in an array', () => {
       expect(ensureArray('item')).toEqual(['item']);
@@ -0,0 +1,122 @@
+// Transform Utilities Tests
+import {
+  axisAngleToMatrix3,
+  getTranslation,
+  invertMatrix4,
+  matrix3ToQuaternion,
+  matrix3ToRPY,
+  matrix3ToRotationVector,
+  matrix4ToOrigin,
+  multiplyMatrix4,
+  originToMatrix4,
+  quaternionToMatrix3,
+  rpyToMatrix3,
+  transformPoint,
+} from '../../src/utils/transform';
+
+describe('Transform Utilities', () => {
+  describe('rpyToMatrix3', () => {
+    test('matches composition of axis rotations Rz * Ry * Rx', () => {
+      const rpy = { x: 0.3, y: -0.7, z: 1.1 };
+      const expected = originToMatrix4({ rpy });
+      const composed = multiplyMatrix4(
+        multiplyMatrix4(
+          originToMatrix4({ rpy: { x: 0, y: 0, z: rpy.z } }),
+          originToMatrix4({ rpy: { x: 0, y: rpy.y, z: 0 } })
+        ),
+        originToMatrix4({ rpy: { x: rpy.x, y: 0, z: 0 } })
+      );
+      composed.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 12));
+    });
+
+    test('matches axis-angle rotation for a single axis', () => {
+      const fromRpy = rpyToMatrix3({ x: 0, y: 0.5, z: 0 });
+      const fromAxis = axisAngleToMatrix3({ x: 0, y: 2, z: 0 }, 0.5);
+      fromRpy.forEach((value, i) => expect(value).toBeCloseTo(fromAxis[i], 12));
+    });
+  });
+
+  describe('matrix3ToRPY', () => {
+    test('inverts rpyToMatrix3', () => {
+      const rpy = matrix3ToRPY(rpyToMatrix3({ x: 0.3, y: -0.7, z: 2.9 }));
+      expect(rpy.x).toBeCloseTo(0.3, 12);
+      expect(rpy.y).toBeCloseTo(-0.7, 12);
+      expect(rpy.z).toBeCloseTo(2.9, 12);
+    });
+
+    test('recovers the rotation at gimbal lock', () => {
+      const m = rpyToMatrix3({ x: 0.4, y: -Math.PI / 2, z: 0.1 });
+      const rpy = matrix3ToRPY(m);
+      expect(rpy.y).toBeCloseTo(-Math.PI / 2, 12);
+      expect(rpy.z).toBe(0);
+      rpyToMatrix3(rpy).forEach((value, i) => expect(value).toBeCloseTo(m[i], 12));
+    });
+  });
+
+  describe('matrix4ToOrigin', () => {
+    test('inverts originToMatrix4 and drops round-off residue', () => {
+      const origin = { xyz: { x: 1, y: -2, z: 0.5 }, rpy: { x: 0.1, y: 0.2, z: -0.3 } };
+      const result = matrix4ToOrigin(originToMatrix4(origin));
+      expect(result.xyz).toEqual(origin.xyz);
+      expect(result.rpy.x).toBeCloseTo(0.1, 12);
+      expect(result.rpy.y).toBeCloseTo(0.2, 12);
+      expect(result.rpy.z).toBeCloseTo(-0.3, 12);
+
+      const turned = multiplyMatrix4(
+        originToMatrix4({ rpy: { x: 0, y: 0, z: Math.PI / 2 } }),
+        originToMatrix4({ xyz: { x: 1, y: 0, z: 0 } })
+      );
+      expect(matrix4ToOrigin(turned).xyz).toEqual({ x: 0, y: 1, z: 0 });
+    });
+  });
+
+  describe('invertMatrix4', () => {
+    test('inverts rigid transforms', () => {
+      const m = originToMatrix4({ xyz: { x: 1, y: 2, z: 3 }, rpy: { x: 0.1, y: 0.2, z: 0.3 } });
+      const point = transformPoint(invertMatrix4(m), transformPoint(m, { x: 4, y: 5, z: 6 }));
+      expect(point.x).toBeCloseTo(4, 12);
+      expect(point.y).toBeCloseTo(5, 12);
+      expect(point.z).toBeCloseTo(6, 12);
+      expect(getTranslation(multiplyMatrix4(m, invertMatrix4(m))).x).toBeCloseTo(0, 12);
+    });
+  });
+
+  describe('matrix3ToQuaternion', () => {
+    test('converts rotation about Z', () => {
+      const q = matrix3ToQuaternion(axisAngleToMatrix3({ x: 0, y: 0, z: 1 }, Math.PI / 2));
+      expect(q.w).toBeCloseTo(Math.SQRT1_2, 12);
+      expect(q.z).toBeCloseTo(Math.SQRT1_2, 12);
+      expect(q.x).toBeCloseTo(0, 12);
+      expect(q.y).toBeCloseTo(0, 12);
+    });
+
+    test('converts half-turn rotations', () => {
+      const q = matrix3ToQuaternion(axisAngleToMatrix3({ x: 1, y: 0, z: 0 }, Math.PI));
+      expect(Math.abs(q.x)).toBeCloseTo(1, 12);
+      expect(q.w).toBeCloseTo(0, 12);
+    });
+  });
+
+  describe('quaternionToMatrix3', () => {
+    test('inverts matrix3ToQuaternion', () => {
+      const m = rpyToMatrix3({ x: 0.3, y: -0.7, z: 1.1 });
+      quaternionToMatrix3(matrix3ToQuaternion(m)).forEach((value, i) =>
+        expect(value).toBeCloseTo(m[i], 12)
+      );
+    });
+  });
+
+  describe('matrix3ToRotationVector', () => {
+    test('returns axis scaled by angle', () => {
+      const v = matrix3ToRotationVector(axisAngleToMatrix3({ x: 0, y: 1, z: 0 }, -2));
+      expect(v.x).toBeCloseTo(0, 12);
+      expect(v.y).toBeCloseTo(-2, 12);
+      expect(v.z).toBeCloseTo(0, 12);
+    });
+
+    test('returns zero for identity', () => {
+      const v = matrix3ToRotationVector(rpyToMatrix3({ x: 0, y: 0, z: 0 }));
+      expect(Math.hypot(v.x, v.y, v.z)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+// Transmission Utilities Tests
+import { Transmission } from '../../src/types/urdf';
+import {
+  linkFirstEntries,
+  transmissionActuators,
+  transmissionJoints,
+} from '../../src/utils/transmission';
+
+describe('Transmission Utilities', () => {
+  test('Uses the single entry when there is no list', () => {
+    expect(transmissionJoints({ joint: { name: 'a' } })).toEqual([{ name: 'a' }]);
+    expect(transmissionActuators({})).toEqual([]);
+  });
+
+  test('Uses the list when both are set', () => {
+    const transmission: Transmission = {
+      joint: { name: 'c' },
+      joints: [{ name: 'a' }, { name: 'b' }],
+    };
+
+    expect(transmissionJoints(transmission).map(joint => joint.name)).toEqual(['a', 'b']);
+  });
+
+  test('Derives the single entries from the lists', () => {
+    const transmission = linkFirstEntries({
+      joint: { name: 'a' },
+      joints: [{ name: 'a' }, { name: 'b' }],
+      actuator: { name: 'm1' },
+    });
+    expect(transmission.actuators).toEqual([{ name: 'm1' }]);
+
+    transmission.joint = { name: 'c' };
+    expect(transmission.joints!.map(joint => joint.name)).toEqual(['c', 'b']);
+
+    transmission.joints = [{ name: 'd' }];
+    expect(transmission.joint?.name).toBe('d');
+
+    transmission.actuator = undefined;
+    expect(transmissionActuators(transmission)).toEqual([]);
+  });
+});
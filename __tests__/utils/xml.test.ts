@@ -0,0 +1,65 @@
+// XML Utilities Tests
+import { XMLBuilder } from 'fast-xml-parser';
+
+import { buildXMLNode, childElements, parseXMLElements } from '../../src/utils/xml';
+
+describe('XML Utilities', () => {
+  describe('parseXMLElements', () => {
+    test('Keeps document order, attributes and exact text', () => {
+      const [root] = parseXMLElements(`<?xml version="1.0"?>
+        <root a="1.0">
+          <x>1.0</x>
+          <y b="&amp;"/>
+          <x>0x10</x>
+        </root>`);
+
+      expect(root).toEqual({
+        tag: 'root',
+        attributes: { a: '1.0' },
+        children: [
+          { tag: 'x', attributes: {}, children: [], text: '1.0' },
+          { tag: 'y', attributes: { b: '&' }, children: [] },
+          { tag: 'x', attributes: {}, children: [], text: '0x10' },
+        ],
+      });
+      expect(childElements(root, 'x').map(x => x.text)).toEqual(['1.0', '0x10']);
+      expect(childElements(undefined, 'x')).toEqual([]);
+    });
+
+    test('Keeps comments with their exact text', () => {
+      const [root] = parseXMLElements('<root><!-- a  b --><x> 1 </x></root>');
+
+      expect(root.children).toEqual([
+        { tag: '#comment', attributes: {}, children: [], text: ' a  b ' },
+        { tag: 'x', attributes: {}, children: [], text: '1' },
+      ]);
+    });
+  });
+
+  describe('buildXMLNode', () => {
+    test('Builds ordered XMLBuilder nodes that serialize back to the same elements', () => {
+      const [root] = parseXMLElements(
+        '<root a="1"><x>text</x><y b="2"><z/></y><x c="3">more</x></root>'
+      );
+      const built = buildXMLNode(root);
+      const xml = new XMLBuilder({
+        preserveOrder: true,
+        ignoreAttributes: false,
+        attributeNamePrefix: '@_',
+        suppressEmptyNode: true,
+      }).build([built]);
+
+      expect(built[':@']).toEqual({ '@_a': '1' });
+      expect(parseXMLElements(xml)).toEqual([root]);
+    });
+
+    test('Builds comments under the comment property', () => {
+      const [root] = parseXMLElements('<root><x/><!-- note --></root>');
+      const xml = new XMLBuilder({ preserveOrder: true, commentPropName: '#comment' }).build([
+        buildXMLNode(root),
+      ]);
+
+      expect(xml).toBe('<root><x></x><!-- note --></root>');
+    });
+  });
+});
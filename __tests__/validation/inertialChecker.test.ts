@@ -0,0 +1,143 @@
+// Inertial Checker Tests
+import { URDFParser } from '../../src/parser/urdfParser';
+import { checkInertials } from '../../src/validation/inertialChecker';
+
+function robotWith(links: string) {
+  return new URDFParser().parse(`<?xml version="1.0"?><robot name="test">${links}</robot>`);
+}
+
+// Solid 1 kg box of 0.2 x 0.2 x 0.1 m
+const boxInertia = 'ixx="0.004166667" ixy="0" ixz="0" iyy="0.004166667" iyz="0" izz="0.006666667"';
+const boxCollision = '<collision><geometry><box size="0.2 0.2 0.1"/></geometry></collision>';
+
+function link(name: string, inertial: string, collision = boxCollision) {
+  return `<link name="${name}"><inertial>${inertial}</inertial>${collision}</link>`;
+}
+
+describe('checkInertials', () => {
+  test('Accepts consistent inertials', () => {
+    const [report] = checkInertials(
+      robotWith(link('base', `<mass value="1"/><inertia ${boxInertia}/>`))
+    );
+
+    expect(report.link).toBe('base');
+    expect(report.mass).toBe(1);
+    expect(report.principalMoments![0]).toBeCloseTo(0.004166667, 9);
+    expect(report.principalMoments![2]).toBeCloseTo(0.006666667, 9);
+    expect(report.geometryRatio).toBeCloseTo(1, 6);
+    expect(report.diagnostics).toEqual([]);
+  });
+
+  test('Skips links without inertial', () => {
+    expect(checkInertials(robotWith('<link name="base"/>'))).toEqual([]);
+  });
+
+  test('Reports non-positive mass and missing inertia', () => {
+    const reports = checkInertials(
+      robotWith(
+        link('zero', `<mass value="0"/><inertia ${boxInertia}/>`) +
+          link('no_inertia', '<mass value="1"/>')
+      )
+    );
+
+    expect(reports[0].diagnostics).toEqual([
+      {
+        code: 'NON_POSITIVE_MASS',
+        severity: 'error',
+        path: "/robot/link[@name='zero']/inertial/mass",
+        message: 'Link zero has non-positive mass 0',
+      },
+    ]);
+    expect(reports[1].diagnostics.map(d => d.code)).toEqual(['MISSING_INERTIA']);
+  });
+
+  test('Reports inertia that is not positive definite', () => {
+    const [report] = checkInertials(
+      robotWith(
+        link('base', '<mass value="1"/><inertia ixx="1" ixy="2" ixz="0" iyy="1" iyz="0" izz="1"/>')
+      )
+    );
+
+    expect(report.principalMoments![0]).toBeCloseTo(-1, 9);
+    expect(report.diagnostics.map(d => [d.code, d.path])).toContainEqual([
+      'NON_POSITIVE_DEFINITE_INERTIA',
+      "/robot/link[@name='base']/inertial/inertia",
+    ]);
+  });
+
+  test('Reports principal moments violating the triangle inequality', () => {
+    const [report] = checkInertials(
+      robotWith(
+        link(
+          'base',
+          '<mass value="1"/><inertia ixx="0.001" ixy="0" ixz="0" iyy="0.001" iyz="0" izz="0.005"/>'
+        )
+      )
+    );
+
+    expect(report.diagnostics.map(d => d.code)).toContain('INERTIA_TRIANGLE_INEQUALITY');
+  });
+
+  test('Uses principal moments of rotated tensors', () => {
+    // Solid box inertia rotated 45 degrees about z
+    const [report] = checkInertials(
+      robotWith(
+        link(
+          'base',
+          '<mass value="1"/><inertia ixx="0.005" ixy="0.001" ixz="0" iyy="0.005" iyz="0" izz="0.006"/>'
+        )
+      )
+    );
+
+    expect(report.principalMoments![0]).toBeCloseTo(0.004, 9);
+    expect(report.principalMoments![1]).toBeCloseTo(0.006, 9);
+    expect(report.principalMoments![2]).toBeCloseTo(0.006, 9);
+    expect(report.diagnostics).toEqual([]);
+  });
+
+  test('Flags inertia inconsistent with the collision geometry', () => {
+    const [tooLarge, tooSmall, rotated, mesh] = checkInertials(
+      robotWith(
+        link(
+          'large',
+          '<mass value="1"/><inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1"/>'
+        ) +
+          link(
+            'small',
+            '<mass value="1"/><inertia ixx="1e-5" ixy="0" ixz="0" iyy="1e-5" iyz="0" izz="1e-5"/>'
+          ) +
+          link(
+            'rotated',
+            `<mass value="1"/><inertia ${boxInertia}/>`,
+            '<collision><origin rpy="1.5707963267948966 0 0"/><geometry><cylinder radius="0.1" length="0.1"/></geometry></collision>'
+          ) +
+          link(
+            'mesh',
+            '<mass value="1"/><inertia ixx="1" ixy="0" ixz="0" iyy="1" iyz="0" izz="1"/>',
+            '<collision><geometry><mesh filename="base.stl"/></geometry></collision>'
+          )
+      )
+    );
+
+    expect(tooLarge.geometryRatio).toBeCloseTo(200, 6);
+    expect(tooLarge.diagnostics.map(d => d.code)).toEqual(['INERTIA_GEOMETRY_MISMATCH']);
+    expect(tooSmall.diagnostics.map(d => d.code)).toEqual(['INERTIA_GEOMETRY_MISMATCH']);
+    expect(rotated.geometryRatio).toBeCloseTo(1, 6);
+    expect(mesh.geometryRatio).toBeUndefined();
+    expect(mesh.diagnostics).toEqual([]);
+  });
+
+  test('Honors the geometry ratio option', () => {
+    const robot = robotWith(
+      link(
+        'base',
+        '<mass value="1"/><inertia ixx="0.02" ixy="0" ixz="0" iyy="0.02" iyz="0" izz="0.02"/>'
+      )
+    );
+
+    expect(checkInertials(robot)[0].diagnostics).toEqual([]);
+    expect(checkInertials(robot, { geometryRatio: 2 })[0].diagnostics.map(d => d.code)).toEqual([
+      'INERTIA_GEOMETRY_MISMATCH',
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+// Validator Tests
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { URDFParser } from '../../src/parser/urdfParser';
+import { Joint, Robot } from '../../src/types/urdf';
+import { elementPath, validate } from '../../src/validation/validator';
+
+function joint(name: string, parent: string, child: string, overrides: Partial<Joint> = {}): Joint {
+  return { name, type: 'fixed', parent: { link: parent }, child: { link: child }, ...overrides };
+}
+
+function robotOf(linkNames: string[], joints: Joint[]): Robot {
+  return {
+    name: 'test',
+    links: linkNames.map(name => ({ name, visuals: [], collisions: [] })),
+    joints,
+    materials: [],
+    transmissions: [],
+  };
+}
+
+describe('validate', () => {
+  test('Returns no diagnostics for the sample robot', () => {
+    const sampleUrdfPath = path.join(__dirname, '../../samples/sample_robot.urdf');
+    const robot = new URDFParser().parse(fs.readFileSync(sampleUrdfPath, 'utf8'));
+    expect(validate(robot)).toEqual([]);
+  });
+
+  test('Reports duplicate link and joint names', () => {
+    const robot = robotOf(['a', 'b', 'a'], [joint('j', 'a', 'b'), joint('j', 'a', 'b')]);
+    const codes = validate(robot).map(d => d.code);
+    expect(codes).toContain('DUPLICATE_LINK_NAME');
+    expect(codes).toContain('DUPLICATE_JOINT_NAME');
+    expect(codes).toContain('MULTIPLE_PARENT_JOINTS');
+  });
+
+  test('Quotes names containing quotes in element paths', () => {
+    expect(elementPath('link', 'base')).toBe("/robot/link[@name='base']");
+    expect(elementPath('link', "it's")).toBe(`/robot/link[@name="it's"]`);
+    expect(elementPath('link', `a'b"c`)).toBe(`/robot/link[@name=concat('a', "'", 'b"c')]`);
+    expect(elementPath('link', 1)).toBe('/robot/link[2]');
+  });
+
+  test('Reports joints referencing missing links', () => {
+    const diagnostics = validate(robotOf(['a'], [joint('j', 'missing', 'a')]));
+    expect(diagnostics).toEqual([
+      {
+        code: 'UNKNOWN_PARENT_LINK',
+        severity: 'error',
+        path: "/robot/joint[@name='j']/parent",
+        message: 'Joint j references missing parent link missing',
+      },
+    ]);
+  });
+
+  test('Reports cycles once', () => {
+    const robot = robotOf(
+      ['root', 'a', 'b', 'c'],
+      [joint('ab', 'a', 'b'), joint('bc', 'b', 'c'), joint('ca', 'c', 'a')]
+    );
+    const cycles = validate(robot).filter(d => d.code === 'KINEMATIC_CYCLE');
+    expect(cycles.length).toBe(1);
+    expect(cycles[0].message).toContain('a');
+    expect(cycles[0].message).toContain('b');
+    expect(cycles[0].message).toContain('c');
+  });
+
+  test('Reports missing root', () => {
+    const robot = robotOf(['a', 'b'], [joint('ab', 'a', 'b'), joint('ba', 'b', 'a')]);
+    expect(validate(robot).map(d => d.code)).toContain('NO_ROOT_LINK');
+  });
+
+  test('Reports multiple roots', () => {
+    const diagnostics = validate(robotOf(['a', 'b', 'c'], [joint('ab', 'a', 'b')]));
+    expect(diagnostics.map(d => d.code)).toEqual(['MULTIPLE_ROOT_LINKS']);
+    expect(diagnostics[0].message).toBe('Robot has multiple root links: a, c');
+  });
+
+  test('Reports missing mimic targets', () => {
+    const robot = robotOf(
+      ['a', 'b'],
+      [joint('ab', 'a', 'b', { type: 'continuous', mimic: { joint: 'nope' } })]
+    );
+    expect(validate(robot).map(d => [d.code, d.path])).toEqual([
+      ['UNKNOWN_MIMIC_JOINT', "/robot/joint[@name='ab']/mimic"],
+    ]);
+  });
+
+  test('Reports revolute and prismatic joints without limits', () => {
+    const robot = robotOf(
+      ['a', 'b', 'c', 'd'],
+      [
+        joint('rev', 'a', 'b', { type: 'revolute' }),
+        joint('pri', 'a', 'c', { type: 'prismatic' }),
+        joint('con', 'a', 'd', { type: 'continuous' }),
+      ]
+    );
+    const missing = validate(robot).filter(d => d.code === 'MISSING_JOINT_LIMIT');
+    expect(missing.map(d => d.path)).toEqual([
+      "/robot/joint[@name='rev']",
+      "/robot/joint[@name='pri']",
+    ]);
+  });
+
+  test('Reports unknown joint types', () => {
+    const robot = robotOf(['a', 'b'], [joint('j', 'a', 'b', { type: 'ball' as Joint['type'] })]);
+    expect(validate(robot).map(d => d.code)).toEqual(['INVALID_JOINT_TYPE']);
+  });
+
+  test('Warns about transmissions referencing missing joints', () => {
+    const robot = robotOf(['a'], []);
+    robot.transmissions.push({ name: 't', joint: { name: 'gone' } });
+    expect(validate(robot)).toEqual([
+      {
+        code: 'UNKNOWN_TRANSMISSION_JOINT',
+        severity: 'warning',
+        path: "/robot/transmission[@name='t']/joint",
+        message: 'Transmission references missing joint gone',
+      },
+    ]);
+  });
+
+  test('Checks every joint of multi-joint transmissions', () => {
+    const robot = robotOf(['a', 'b'], [joint('j', 'a', 'b')]);
+    const joints = [{ name: 'j' }, { name: 'gone' }];
+    robot.transmissions.push({ name: 't', joint: joints[0], joints });
+    expect(validate(robot).map(d => d.path)).toEqual(["/robot/transmission[@name='t']/joint[2]"]);
+  });
+});
@@ -0,0 +1,75 @@
+// Xacro Expression Tests
+import { XacroError } from '../../src/errors';
+import {
+  evaluateExpression,
+  formatValue,
+  literalValue,
+  toCondition,
+} from '../../src/xacro/expression';
+
+describe('evaluateExpression', () => {
+  const properties: Record<string, unknown> = { width: 0.5, name: 'arm', sides: [1, 2, 3] };
+  const evaluate = (source: string) => evaluateExpression(source, name => properties[name]);
+
+  test('Follows Python operator precedence', () => {
+    expect(evaluate('1 + 2 * 3 ** 2')).toBe(19);
+    expect(evaluate('-2 ** 2')).toBe(-4);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('7 // 2')).toBe(3);
+    expect(evaluate('-7 % 3')).toBe(2);
+  });
+
+  test('Resolves properties and builtins', () => {
+    expect(evaluate('width * 2')).toBe(1);
+    expect(evaluate('pi / 2')).toBeCloseTo(Math.PI / 2);
+    expect(evaluate('math.cos(0)')).toBe(1);
+    expect(evaluate('radians(180)')).toBeCloseTo(Math.PI);
+    expect(evaluate('max(sides) + len(sides)')).toBe(6);
+  });
+
+  test('Supports strings, comparisons and conditionals', () => {
+    expect(evaluate("name + '_link'")).toBe('arm_link');
+    expect(evaluate('1 < width < 2')).toBe(false);
+    expect(evaluate("'left' if width > 0 else 'right'")).toBe('left');
+    expect(evaluate('not width and True')).toBe(false);
+  });
+
+  test('Throws for undefined names and invalid syntax', () => {
+    expect(() => evaluate('missing + 1')).toThrow(XacroError);
+    expect(() => evaluate('1 +')).toThrow(XacroError);
+    expect(() => evaluate('1 / 0')).toThrow(XacroError);
+  });
+
+  test('Ignores inherited object properties', () => {
+    const evaluate = (source: string) => evaluateExpression(source, () => undefined);
+    expect(() => evaluate('constructor')).toThrow('Undefined name: constructor');
+    expect(() => evaluate('toString')).toThrow('Undefined name: toString');
+    expect(() => evaluate('math.constructor')).toThrow('dict object has no attribute constructor');
+    expect(() => evaluate("{'a': 1}['constructor']")).toThrow(XacroError);
+    expect(evaluate("'constructor' in {'a': 1}")).toBe(false);
+    expect(evaluate("{'__proto__': 1}['__proto__']")).toBe(1);
+  });
+});
+
+describe('Value conversion', () => {
+  test('Formats values like Python', () => {
+    expect(formatValue(true)).toBe('True');
+    expect(formatValue(2)).toBe('2');
+    expect(formatValue(0.1)).toBe('0.1');
+    expect(formatValue([1, 'a'])).toBe("[1, 'a']");
+  });
+
+  test('Converts conditions', () => {
+    expect(toCondition('true')).toBe(true);
+    expect(toCondition('False')).toBe(false);
+    expect(toCondition(0)).toBe(false);
+    expect(toCondition('1')).toBe(true);
+    expect(() => toCondition('maybe')).toThrow(XacroError);
+  });
+
+  test('Converts numeric text', () => {
+    expect(literalValue('1.5')).toBe(1.5);
+    expect(literalValue('-2e3')).toBe(-2000);
+    expect(literalValue('0 0 1')).toBe('0 0 1');
+  });
+});
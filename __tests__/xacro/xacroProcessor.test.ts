@@ -0,0 +1,255 @@
+// Xacro Processor Tests
+import { XacroError } from '../../src/errors';
+import { URDFParser } from '../../src/parser/urdfParser';
+import { XacroProcessor, expandXacro } from '../../src/xacro/xacroProcessor';
+
+function xacro(body: string): string {
+  return `<?xml version="1.0"?>
+<robot name="test" xmlns:xacro="http://www.ros.org/wiki/xacro">
+${body}
+</robot>`;
+}
+
+function expand(body: string, processor = new XacroProcessor()) {
+  return new URDFParser().parse(processor.process(xacro(body)));
+}
+
+describe('XacroProcessor', () => {
+  describe('Properties and expressions', () => {
+    test('Substitutes properties in attributes and text', () => {
+      const robot = expand(`
+        <xacro:property name="width" value="0.2"/>
+        <xacro:property name="length" value="\${width * 2}"/>
+        <xacro:property name="interface" value="EffortJointInterface"/>
+        <link name="base"><visual><geometry><box size="\${length} \${width} 0.1"/></geometry></visual></link>
+        <transmission name="t"><type>\${interface}</type></transmission>`);
+
+      expect(robot.links[0].visuals[0].geometry?.box?.size).toEqual({ x: 0.4, y: 0.2, z: 0.1 });
+      expect(robot.transmissions[0].type).toBe('EffortJointInterface');
+    });
+
+    test('Evaluates properties lazily', () => {
+      const robot = expand(`
+        <xacro:property name="b" value="\${a + 1}"/>
+        <xacro:property name="a" value="1"/>
+        <link name="link_\${b}"/>`);
+
+      expect(robot.links[0].name).toBe('link_2');
+    });
+
+    test('Keeps escaped dollar signs', () => {
+      const urdf = new XacroProcessor().process(xacro('<link name="$${literal}"/>'));
+      expect(urdf).toContain('<link name="${literal}"/>');
+    });
+
+    test('Removes the xacro namespace declaration', () => {
+      const urdf = expandXacro(xacro('<link name="base"/>'));
+      expect(urdf).not.toContain('xmlns:xacro');
+      expect(urdf.startsWith('<?xml version="1.0"?>\n<robot name="test">')).toBe(true);
+    });
+
+    test('Throws for circular definitions', () => {
+      expect(() =>
+        expand(`
+          <xacro:property name="a" value="\${b}"/>
+          <xacro:property name="b" value="\${a}"/>
+          <link name="\${a}"/>`)
+      ).toThrow('Circular property definition');
+    });
+
+    test('Throws for names inherited from Object', () => {
+      expect(() => expand('<link name="${constructor}"/>')).toThrow(XacroError);
+      expect(() => expand('<link name="${constructor}"/>')).toThrow('Undefined name: constructor');
+    });
+  });
+
+  describe('Macros', () => {
+    test('Expands macros with defaults and block parameters', () => {
+      const robot = expand(`
+        <xacro:macro name="leg" params="side *origin reflect:=1 size:='0.1 0.1 0.5'">
+          <link name="\${side}_leg">
+            <visual>
+              <xacro:insert_block name="origin"/>
+              <geometry><box size="\${size}"/></geometry>
+            </visual>
+          </link>
+          <joint name="\${side}_joint" type="fixed">
+            <origin xyz="0 \${reflect * 0.2} 0"/>
+            <parent link="base"/>
+            <child link="\${side}_leg"/>
+          </joint>
+        </xacro:macro>
+        <link name="base"/>
+        <xacro:leg side="left"><origin xyz="0 0 -0.25"/></xacro:leg>
+        <xacro:leg side="right" reflect="-1"><origin xyz="0 0 -0.5"/></xacro:leg>`);
+
+      expect(robot.links.map(link => link.name)).toEqual(['base', 'left_leg', 'right_leg']);
+      expect(robot.links[1].visuals[0].origin?.xyz).toEqual({ x: 0, y: 0, z: -0.25 });
+      expect(robot.links[2].visuals[0].geometry?.box?.size).toEqual({ x: 0.1, y: 0.1, z: 0.5 });
+      expect(robot.joints[1].origin?.xyz).toEqual({ x: 0, y: -0.2, z: 0 });
+    });
+
+    test('Inserts the content of ** block parameters', () => {
+      const robot = expand(`
+        <xacro:macro name="wrap" params="name **content">
+          <link name="\${name}"><xacro:insert_block name="content"/></link>
+        </xacro:macro>
+        <xacro:wrap name="base">
+          <content>
+            <visual><geometry><sphere radius="1"/></geometry></visual>
+            <collision><geometry><sphere radius="2"/></geometry></collision>
+          </content>
+        </xacro:wrap>`);
+
+      expect(robot.links[0].visuals[0].geometry?.sphere?.radius).toBe(1);
+      expect(robot.links[0].collisions[0].geometry?.sphere?.radius).toBe(2);
+    });
+
+    test('Forwards parameters from the calling scope', () => {
+      const robot = expand(`
+        <xacro:macro name="inner" params="prefix:=^|default_">
+          <link name="\${prefix}link"/>
+        </xacro:macro>
+        <xacro:macro name="outer" params="prefix">
+          <xacro:inner/>
+        </xacro:macro>
+        <xacro:outer prefix="arm_"/>
+        <xacro:inner/>`);
+
+      expect(robot.links.map(link => link.name)).toEqual(['arm_link', 'default_link']);
+    });
+
+    test('Calls macros by computed name', () => {
+      const robot = expand(`
+        <xacro:macro name="make" params="name"><link name="\${name}"/></xacro:macro>
+        <xacro:property name="kind" value="make"/>
+        <xacro:call macro="\${kind}" name="base"/>`);
+
+      expect(robot.links[0].name).toBe('base');
+    });
+
+    test('Rejects missing and unknown parameters', () => {
+      const macro = '<xacro:macro name="m" params="a"><link name="${a}"/></xacro:macro>';
+      expect(() => expand(`${macro}<xacro:m/>`)).toThrow('Parameter a missing for macro m');
+      expect(() => expand(`${macro}<xacro:m a="1" b="2"/>`)).toThrow(
+        'Invalid parameter b for macro m'
+      );
+      expect(() => expand('<xacro:undefined_macro/>')).toThrow(XacroError);
+    });
+  });
+
+  describe('Conditionals', () => {
+    test('Includes content by condition', () => {
+      const robot = expand(`
+        <xacro:property name="use_gripper" value="true"/>
+        <xacro:if value="\${use_gripper}"><link name="gripper"/></xacro:if>
+        <xacro:unless value="\${use_gripper}"><link name="flange"/></xacro:unless>
+        <xacro:if value="\${1 > 2}"><link name="never"/></xacro:if>`);
+
+      expect(robot.links.map(link => link.name)).toEqual(['gripper']);
+    });
+
+    test('Rejects non-boolean conditions', () => {
+      expect(() => expand('<xacro:if value="maybe"><link name="x"/></xacro:if>')).toThrow(
+        XacroError
+      );
+    });
+  });
+
+  describe('Arguments', () => {
+    const body = `
+      <xacro:arg name="prefix" default="robot_"/>
+      <link name="$(arg prefix)base"/>`;
+
+    test('Uses declared defaults', () => {
+      expect(expand(body).links[0].name).toBe('robot_base');
+    });
+
+    test('Uses caller-supplied values over defaults', () => {
+      const processor = new XacroProcessor({ args: { prefix: 'left_' } });
+      expect(expand(body, processor).links[0].name).toBe('left_base');
+    });
+
+    test('Throws for undefined arguments', () => {
+      expect(() => expand('<link name="$(arg missing)"/>')).toThrow(
+        'Undefined substitution argument missing'
+      );
+    });
+
+    test('Resolves packages and environment variables', () => {
+      const processor = new XacroProcessor({
+        findPackage: name => `/opt/ros/share/${name}`,
+        env: { ROBOT: 'r2' },
+      });
+      const urdf = processor.process(
+        xacro(`
+          <link name="$(env ROBOT)_$(optenv MISSING fallback)">
+            <visual><geometry><mesh filename="$(find my_robot)/base.stl"/></geometry></visual>
+          </link>`)
+      );
+      const robot = new URDFParser().parse(urdf);
+
+      expect(robot.links[0].name).toBe('r2_fallback');
+      expect(robot.links[0].visuals[0].geometry?.mesh?.filename).toBe(
+        '/opt/ros/share/my_robot/base.stl'
+      );
+    });
+  });
+
+  describe('Includes', () => {
+    const files: Record<string, string> = {
+      'macros.xacro': xacro(`
+        <xacro:property name="radius" value="0.05"/>
+        <xacro:macro name="wheel" params="name">
+          <link name="\${name}"><collision><geometry><cylinder radius="\${radius}" length="0.02"/></geometry></collision></link>
+        </xacro:macro>`),
+    };
+    const resolveFile = jest.fn((filename: string) => {
+      if (!(filename in files)) {
+        throw new Error(`No such file: ${filename}`);
+      }
+      return files[filename];
+    });
+
+    test('Includes files through the resolver', () => {
+      const processor = new XacroProcessor({ resolveFile });
+      const robot = processor.parse(
+        xacro(`
+          <xacro:include filename="macros.xacro"/>
+          <xacro:wheel name="wheel_\${radius * 20}"/>`),
+        'robot.urdf.xacro'
+      );
+
+      expect(resolveFile).toHaveBeenCalledWith('macros.xacro', 'robot.urdf.xacro');
+      expect(robot.links[0].name).toBe('wheel_1');
+      expect(robot.links[0].collisions[0].geometry?.cylinder?.radius).toBe(0.05);
+    });
+
+    test('Scopes namespaced includes', () => {
+      const processor = new XacroProcessor({ resolveFile });
+      const robot = processor.parse(
+        xacro(`
+          <xacro:include filename="macros.xacro" ns="parts"/>
+          <xacro:parts.wheel name="wheel_\${parts.radius * 40}"/>`)
+      );
+
+      expect(robot.links[0].name).toBe('wheel_2');
+    });
+
+    test('Throws without a resolver', () => {
+      expect(() => expand('<xacro:include filename="macros.xacro"/>')).toThrow(XacroError);
+    });
+  });
+
+  describe('Elements and attributes', () => {
+    test('Creates elements and attributes with computed names', () => {
+      const robot = expand(`
+        <xacro:property name="tag" value="link"/>
+        <xacro:element xacro:name="\${tag}">
+          <xacro:attribute name="name" value="generated"/>
+        </xacro:element>`);
+
+      expect(robot.links[0].name).toBe('generated');
+    });
+  });
+});
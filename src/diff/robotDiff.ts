@@ -0,0 +1,559 @@
+import { Collision, Joint, Link, Material, Robot, Vector3, Visual } from '../types/urdf';
+import { rpyToMatrix3 } from '../utils/transform';
+
+// Kind of a change between two robots
+export type RobotChangeKind = 'added' | 'removed' | 'renamed' | 'changed';
+
+// Element a change applies to
+export type RobotElementKind = 'robot' | 'link' | 'joint' | 'material';
+
+// One change between two robots
+export interface RobotChange {
+  kind: RobotChangeKind;
+  element: RobotElementKind;
+  /**
+   * Element name in the second robot, or in the first robot for removed elements
+   */
+  name: string;
+  /**
+   * Element name in the first robot, for renamed elements
+   */
+  previousName?: string;
+  /**
+   * Changed property, e.g. `limit`, `origin` or `visual[1].geometry`
+   */
+  property?: string;
+  before?: unknown;
+  after?: unknown;
+  /**
+   * Offset of the new origin from the old one, for origin changes, with rpy
+   * offsets wrapped into [-pi, pi]
+   */
+  delta?: { xyz: Vector3; rpy: Vector3 };
+  message: string;
+}
+
+// Result of diffRobots
+export interface RobotDiff {
+  changes: RobotChange[];
+  /**
+   * One line per change, or `No changes`
+   */
+  summary: string;
+}
+
+// Options for diffRobots
+export interface RobotDiffOptions {
+  /**
+   * Largest difference between numbers that are considered equal (default: 1e-9)
+   */
+  tolerance?: number;
+}
+
+// Changed property of a matched element
+interface PropertyChange {
+  property: string;
+  before: unknown;
+  after: unknown;
+  delta?: { xyz: Vector3; rpy: Vector3 };
+  details: string[];
+}
+
+// Elements of two lists matched by name or by equal content
+interface Matching<T> {
+  pairs: [T, T][];
+  renamed: [T, T][];
+  removed: T[];
+  added: T[];
+}
+
+// Joint properties compared as a whole, in reporting order
+const JOINT_PROPERTIES = [
+  'type',
+  'parent',
+  'child',
+  'axis',
+  'limit',
+  'dynamics',
+  'calibration',
+  'mimic',
+  'safetyController',
+] as const;
+
+// Summary line prefix of each change kind
+const CHANGE_MARKS: Record<RobotChangeKind, string> = {
+  added: '+',
+  removed: '-',
+  renamed: '→',
+  changed: '~',
+};
+
+/**
+ * Compare two robots semantically
+ *
+ * Links, joints and root-level materials are matched by name. A removed link
+ * or joint whose content equals an added one is reported as renamed; joint
+ * parent, child and mimic references to renamed elements are followed, so
+ * renaming a link does not report its joints as changed. Matched elements
+ * report one change per differing property: origins, limits, dynamics,
+ * inertials, and the origin, geometry and material of each visual and
+ * collision. Transmissions and extension blocks are not compared.
+ * @param a First robot
+ * @param b Second robot
+ * @param options Numeric tolerance
+ * @returns Changes from the first robot to the second, and a readable summary
+ */
+export function diffRobots(a: Robot, b: Robot, options: RobotDiffOptions = {}): RobotDiff {
+  const tolerance = options.tolerance ?? 1e-9;
+  const changes: RobotChange[] = [];
+
+  if (a.name !== b.name) {
+    changes.push({
+      kind: 'changed',
+      element: 'robot',
+      name: b.name,
+      property: 'name',
+      before: a.name,
+      after: b.name,
+      message: `Robot renamed from ${a.name} to ${b.name}`,
+    });
+  }
+
+  // Links without content all look alike, so they are only matched by name
+  const links = matchElements(
+    a.links,
+    b.links,
+    (x, y) => hasContent(x) && compareLinks(x, y, tolerance).length === 0
+  );
+  const linkName = renameMap(links.renamed);
+  const joints = matchElements(
+    a.joints,
+    b.joints,
+    (x, y) => compareJoints(x, y, linkName, name => name, tolerance).length === 0
+  );
+  const jointName = renameMap(joints.renamed);
+  const materials = matchElements(
+    a.materials.filter(material => material.name !== undefined),
+    b.materials.filter(material => material.name !== undefined),
+    () => false
+  );
+
+  changes.push(
+    ...reportMatching('link', links, (x, y) => compareLinks(x, y, tolerance)),
+    ...reportMatching('joint', joints, (x, y) =>
+      compareJoints(x, y, linkName, jointName, tolerance)
+    ),
+    ...reportMatching('material', materials, (x, y) => compareMaterials(x, y, tolerance))
+  );
+
+  return {
+    changes,
+    summary: changes.length > 0 ? changes.map(summaryLine).join('\n') : 'No changes',
+  };
+}
+
+/**
+ * Match elements by name, then pair unmatched elements with equal content
+ * @param before Elements of the first robot
+ * @param after Elements of the second robot
+ * @param sameContent Check whether two differently named elements are equal otherwise
+ * @returns Matched, renamed, removed and added elements in document order
+ */
+function matchElements<T extends { name?: string }>(
+  before: T[],
+  after: T[],
+  sameContent: (x: T, y: T) => boolean
+): Matching<T> {
+  const afterByName = new Map<string | undefined, T>();
+  for (const element of after) {
+    if (!afterByName.has(element.name)) {
+      afterByName.set(element.name, element);
+    }
+  }
+
+  const pairs: [T, T][] = [];
+  const unmatched: T[] = [];
+  const matched = new Set<T>();
+  for (const element of before) {
+    const other = afterByName.get(element.name);
+    if (other && !matched.has(other)) {
+      pairs.push([element, other]);
+      matched.add(other);
+    } else {
+      unmatched.push(element);
+    }
+  }
+
+  const renamed: [T, T][] = [];
+  const removed: T[] = [];
+  for (const element of unmatched) {
+    const other = after.find(
+      candidate =>
+        !matched.has(candidate) &&
+        !before.some(existing => existing.name === candidate.name) &&
+        sameContent(element, candidate)
+    );
+    if (other) {
+      renamed.push([element, other]);
+      matched.add(other);
+    } else {
+      removed.push(element);
+    }
+  }
+
+  return { pairs, renamed, removed, added: after.filter(element => !matched.has(element)) };
+}
+
+/**
+ * Build a name lookup from renamed pairs
+ * @param renamed Renamed elements
+ * @returns Function mapping a name in the first robot to the second robot
+ */
+function renameMap(renamed: [{ name?: string }, { name?: string }][]): (name: string) => string {
+  const names = new Map(renamed.map(([x, y]) => [x.name!, y.name!]));
+  return name => names.get(name) ?? name;
+}
+
+/**
+ * Turn a matching into changes
+ * @param element Element kind
+ * @param matching Matched elements
+ * @param compare Property comparison of matched elements
+ * @returns Removed, added, renamed and changed elements, in that order
+ */
+function reportMatching<T extends { name?: string }>(
+  element: RobotElementKind,
+  matching: Matching<T>,
+  compare: (x: T, y: T) => PropertyChange[]
+): RobotChange[] {
+  const kind = element[0].toUpperCase() + element.slice(1);
+  const changes: RobotChange[] = [];
+
+  for (const removed of matching.removed) {
+    changes.push({
+      kind: 'removed',
+      element,
+      name: removed.name!,
+      before: removed,
+      message: `${kind} ${removed.name} removed`,
+    });
+  }
+  for (const added of matching.added) {
+    changes.push({
+      kind: 'added',
+      element,
+      name: added.name!,
+      after: added,
+      message: `${kind} ${added.name} added`,
+    });
+  }
+  for (const [x, y] of matching.renamed) {
+    changes.push({
+      kind: 'renamed',
+      element,
+      name: y.name!,
+      previousName: x.name,
+      message: `${kind} ${x.name} renamed to ${y.name}`,
+    });
+  }
+  for (const [x, y] of matching.pairs) {
+    for (const { details, ...change } of compare(x, y)) {
+      changes.push({
+        kind: 'changed',
+        element,
+        name: y.name!,
+        ...change,
+        message: `${kind} ${y.name} ${change.property} changed: ${details.join(', ')}`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the content of two links, ignoring their names
+ * @param a Link of the first robot
+ * @param b Link of the second robot
+ * @param tolerance Numeric tolerance
+ * @returns Changed properties
+ */
+function compareLinks(a: Link, b: Link, tolerance: number): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  compareProperty(changes, 'inertial', a.inertial, b.inertial, tolerance);
+
+  const elements = [
+    ['visual', a.visuals, b.visuals],
+    ['collision', a.collisions, b.collisions],
+  ] as const;
+  for (const [tag, before, after] of elements) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const property = `${tag}[${i + 1}]`;
+      const x = before[i];
+      const y = after[i];
+      if (!x || !y) {
+        compareProperty(changes, property, x, y, tolerance);
+        continue;
+      }
+      compareOrigin(changes, `${property}.origin`, x.origin, y.origin, tolerance);
+      compareProperty(changes, `${property}.geometry`, x.geometry, y.geometry, tolerance);
+      compareProperty(changes, `${property}.material`, material(x), material(y), tolerance);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the content of two joints, ignoring their names
+ * @param a Joint of the first robot
+ * @param b Joint of the second robot
+ * @param linkName Maps link names of the first robot to the second
+ * @param jointName Maps joint names of the first robot to the second
+ * @param tolerance Numeric tolerance
+ * @returns Changed properties
+ */
+function compareJoints(
+  a: Joint,
+  b: Joint,
+  linkName: (name: string) => string,
+  jointName: (name: string) => string,
+  tolerance: number
+): PropertyChange[] {
+  const mapped: Joint = {
+    ...a,
+    parent: { link: linkName(a.parent.link) },
+    child: { link: linkName(a.child.link) },
+    mimic: a.mimic && { ...a.mimic, joint: jointName(a.mimic.joint) },
+  };
+
+  const changes: PropertyChange[] = [];
+  compareOrigin(changes, 'origin', a.origin, b.origin, tolerance);
+  for (const property of JOINT_PROPERTIES) {
+    compareProperty(changes, property, mapped[property], b[property], tolerance);
+  }
+  return changes;
+}
+
+/**
+ * Compare the color and texture of two materials
+ * @param a Material of the first robot
+ * @param b Material of the second robot
+ * @param tolerance Numeric tolerance
+ * @returns Changed properties
+ */
+function compareMaterials(a: Material, b: Material, tolerance: number): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  compareProperty(changes, 'color', a.color, b.color, tolerance);
+  compareProperty(changes, 'texture', a.texture, b.texture, tolerance);
+  return changes;
+}
+
+/**
+ * Compare two origins, recording the offset between them
+ *
+ * Rotations are compared as matrices, so equivalent rpy angles such as `pi`
+ * and `-pi` are equal, and the rpy offset is wrapped into [-pi, pi].
+ * @param changes Changed properties, appended to
+ * @param property Property name
+ * @param a Origin in the first robot
+ * @param b Origin in the second robot
+ * @param tolerance Numeric tolerance
+ */
+function compareOrigin(
+  changes: PropertyChange[],
+  property: string,
+  a: { xyz?: Vector3; rpy?: Vector3 } | undefined,
+  b: { xyz?: Vector3; rpy?: Vector3 } | undefined,
+  tolerance: number
+): void {
+  const zero = { x: 0, y: 0, z: 0 };
+  const offset = (x: Vector3 = zero, y: Vector3 = zero): Vector3 => ({
+    x: y.x - x.x,
+    y: y.y - x.y,
+    z: y.z - x.z,
+  });
+  const rpy = offset(a?.rpy, b?.rpy);
+  const delta = {
+    xyz: offset(a?.xyz, b?.xyz),
+    rpy: { x: wrapAngle(rpy.x), y: wrapAngle(rpy.y), z: wrapAngle(rpy.z) },
+  };
+  const before = rpyToMatrix3(a?.rpy ?? zero);
+  const after = rpyToMatrix3(b?.rpy ?? zero);
+
+  const details: string[] = [];
+  if (Object.values(delta.xyz).some(value => Math.abs(value) > tolerance)) {
+    details.push(`xyz moved by ${formatValue(delta.xyz)}`);
+  }
+  if (before.some((value, index) => Math.abs(after[index] - value) > tolerance)) {
+    details.push(`rpy turned by ${formatValue(delta.rpy)}`);
+  }
+  if (details.length > 0) {
+    changes.push({ property, before: a, after: b, delta, details });
+  }
+}
+
+/**
+ * Wrap an angle into [-pi, pi]
+ * @param angle Angle in radians
+ * @returns Equivalent angle in [-pi, pi]
+ */
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+/**
+ * Compare a property as a whole, recording the differing leaf values
+ * @param changes Changed properties, appended to
+ * @param property Property name
+ * @param a Value in the first robot
+ * @param b Value in the second robot
+ * @param tolerance Numeric tolerance
+ */
+function compareProperty(
+  changes: PropertyChange[],
+  property: string,
+  a: unknown,
+  b: unknown,
+  tolerance: number
+): void {
+  const details: string[] = [];
+  collectDifferences(details, '', a, b, tolerance);
+  if (details.length > 0) {
+    changes.push({ property, before: a, after: b, details });
+  }
+}
+
+/**
+ * Walk two values and describe where they differ
+ *
+ * Numbers within the tolerance are equal. Unknown XML content kept in
+ * lossless mode is ignored.
+ * @param details Descriptions of differences, appended to
+ * @param path Path of the values below the compared property
+ * @param a First value
+ * @param b Second value
+ * @param tolerance Numeric tolerance
+ */
+function collectDifferences(
+  details: string[],
+  path: string,
+  a: unknown,
+  b: unknown,
+  tolerance: number
+): void {
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (Math.abs(a - b) > tolerance && !(Number.isNaN(a) && Number.isNaN(b))) {
+      details.push(describeDifference(path, a, b));
+    }
+    return;
+  }
+
+  if (isRecord(a) && isRecord(b) && !isVector(a) && !isVector(b)) {
+    const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+    for (const key of keys.filter(key => key !== 'unknown')) {
+      collectDifferences(details, path ? `${path}.${key}` : key, a[key], b[key], tolerance);
+    }
+    return;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    const before = details.length;
+    a.forEach((value, i) => collectDifferences(details, `${path}[${i}]`, value, b[i], tolerance));
+    if (details.length > before) {
+      details.splice(before, details.length - before, describeDifference(path, a, b));
+    }
+    return;
+  }
+
+  if (isVector(a) && isVector(b)) {
+    const differs = (['x', 'y', 'z'] as const).some(key => Math.abs(a[key] - b[key]) > tolerance);
+    if (differs) {
+      details.push(describeDifference(path, a, b));
+    }
+    return;
+  }
+
+  if (a !== b && JSON.stringify(a) !== JSON.stringify(b)) {
+    details.push(describeDifference(path, a, b));
+  }
+}
+
+/**
+ * Describe a differing value
+ * @param path Path of the value, empty for the property itself
+ * @param a First value
+ * @param b Second value
+ * @returns Description such as `upper 1.57 → 2`
+ */
+function describeDifference(path: string, a: unknown, b: unknown): string {
+  const change = `${formatValue(a)} → ${formatValue(b)}`;
+  return path ? `${path} ${change}` : change;
+}
+
+/**
+ * Format a value for messages
+ * @param value Value
+ * @returns Readable text
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return 'none';
+  }
+  if (isVector(value)) {
+    return `(${value.x}, ${value.y}, ${value.z})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.join(' ')}]`;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Format a change as a summary line
+ * @param change Change
+ * @returns Message prefixed with +, -, → or ~
+ */
+function summaryLine(change: RobotChange): string {
+  return `${CHANGE_MARKS[change.kind]} ${change.message}`;
+}
+
+/**
+ * Get the material of a visual
+ * @param element Visual or collision element
+ * @returns Material, or undefined for collisions
+ */
+function material(element: Visual | Collision): Material | undefined {
+  return 'material' in element ? element.material : undefined;
+}
+
+/**
+ * Check whether a link has an inertial, visual or collision
+ * @param link Link object
+ * @returns True for links with content
+ */
+function hasContent(link: Link): boolean {
+  return link.inertial !== undefined || link.visuals.length > 0 || link.collisions.length > 0;
+}
+
+/**
+ * Check whether a value is a plain object
+ * @param value Value
+ * @returns True for non-array objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a 3D vector
+ * @param value Value
+ * @returns True for objects with exactly the numeric keys x, y and z
+ */
+function isVector(value: unknown): value is Vector3 {
+  return (
+    isRecord(value) &&
+    Object.keys(value).length === 3 &&
+    ['x', 'y', 'z'].every(key => typeof value[key] === 'number')
+  );
+}
@@ -0,0 +1,176 @@
+import { Matrix3 } from '../types/math';
+import { Collision, Geometry, Inertial, Link, Robot, Visual } from '../types/urdf';
+import { originToMatrix4 } from '../utils/transform';
+
+import {
+  MassProperties,
+  combineMassProperties,
+  matrix3ToInertia,
+  transformMassProperties,
+} from './massProperties';
+
+/**
+ * Options for inertial generation
+ */
+export interface InertialGenerationOptions {
+  /**
+   * Density in kg/m^3, used to compute the mass of each shape
+   */
+  density?: number;
+  /**
+   * Total mass of a link in kg, distributed over its shapes by volume (takes precedence over density)
+   */
+  mass?: number;
+  /**
+   * Geometry to use; `collision` falls back to visuals when a link has no
+   * primitive collision shapes (default: collision)
+   */
+  source?: 'collision' | 'visual';
+}
+
+/**
+ * Compute the volume of a primitive geometry
+ * @param geometry Geometry object
+ * @returns Volume in m^3, or undefined for meshes and missing geometry
+ */
+export function computeGeometryVolume(geometry?: Geometry): number | undefined {
+  if (geometry?.box?.size) {
+    const { x, y, z } = geometry.box.size;
+    return x * y * z;
+  }
+  if (geometry?.cylinder) {
+    const { radius = 0, length = 0 } = geometry.cylinder;
+    return Math.PI * radius * radius * length;
+  }
+  if (geometry?.sphere) {
+    const radius = geometry.sphere.radius ?? 0;
+    return (4 / 3) * Math.PI * radius ** 3;
+  }
+  return undefined;
+}
+
+/**
+ * Compute the inertia tensor of a solid primitive about its center
+ * @param geometry Geometry object (cylinders are aligned with the z axis)
+ * @param mass Mass of the shape
+ * @returns Row-major 3x3 inertia matrix in the geometry frame, or undefined
+ * for meshes and missing geometry
+ */
+export function computeGeometryInertia(
+  geometry: Geometry | undefined,
+  mass: number
+): Matrix3 | undefined {
+  if (geometry?.box?.size) {
+    const { x, y, z } = geometry.box.size;
+    return diagonal(
+      (mass * (y * y + z * z)) / 12,
+      (mass * (x * x + z * z)) / 12,
+      (mass * (x * x + y * y)) / 12
+    );
+  }
+  if (geometry?.cylinder) {
+    const { radius = 0, length = 0 } = geometry.cylinder;
+    const transverse = (mass * (3 * radius * radius + length * length)) / 12;
+    return diagonal(transverse, transverse, (mass * radius * radius) / 2);
+  }
+  if (geometry?.sphere) {
+    const radius = geometry.sphere.radius ?? 0;
+    const moment = (2 / 5) * mass * radius * radius;
+    return diagonal(moment, moment, moment);
+  }
+  return undefined;
+}
+
+/**
+ * Generate inertial properties of a link from its primitive geometry
+ *
+ * Boxes, cylinders and spheres are treated as solid bodies of uniform density
+ * placed at their `origin`; meshes are ignored. The inertia tensor is expressed
+ * along the link axes at the combined center of mass.
+ * @param link Link object
+ * @param options Density or mass, and the geometry to use
+ * @returns Inertial, or undefined if the link has no primitive geometry with volume
+ */
+export function generateInertial(
+  link: Link,
+  options: InertialGenerationOptions
+): Inertial | undefined {
+  if (options.mass === undefined && options.density === undefined) {
+    throw new Error('Either density or mass is required to generate inertials');
+  }
+
+  let shapes = primitiveShapes(options.source === 'visual' ? link.visuals : link.collisions);
+  if (shapes.length === 0 && options.source !== 'visual') {
+    shapes = primitiveShapes(link.visuals);
+  }
+
+  const totalVolume = shapes.reduce((sum, shape) => sum + shape.volume, 0);
+  if (totalVolume <= 0) {
+    return undefined;
+  }
+  const density = options.mass !== undefined ? options.mass / totalVolume : options.density!;
+
+  const parts: MassProperties[] = shapes.map(({ element, volume }) => {
+    const mass = density * volume;
+    return transformMassProperties(
+      {
+        mass,
+        centerOfMass: { x: 0, y: 0, z: 0 },
+        inertia: computeGeometryInertia(element.geometry, mass)!,
+      },
+      originToMatrix4(element.origin)
+    );
+  });
+  const combined = combineMassProperties(parts);
+
+  return {
+    origin: { xyz: combined.centerOfMass, rpy: { x: 0, y: 0, z: 0 } },
+    mass: { value: combined.mass },
+    inertia: matrix3ToInertia(combined.inertia),
+  };
+}
+
+/**
+ * Generate inertials for every link that has none
+ * @param robot Robot object, modified in place
+ * @param options Density or mass per link, and the geometry to use
+ * @returns Names of the links that received an inertial
+ */
+export function fillMissingInertials(robot: Robot, options: InertialGenerationOptions): string[] {
+  const filled: string[] = [];
+  for (const link of robot.links) {
+    if (link.inertial) {
+      continue;
+    }
+    const inertial = generateInertial(link, options);
+    if (inertial) {
+      link.inertial = inertial;
+      filled.push(link.name);
+    }
+  }
+  return filled;
+}
+
+/**
+ * Select primitive shapes with positive volume
+ * @param elements Visual or collision elements
+ * @returns Elements with their volumes
+ */
+function primitiveShapes(
+  elements: (Visual | Collision)[]
+): { element: Visual | Collision; volume: number }[] {
+  return elements
+    .map(element => ({ element, volume: computeGeometryVolume(element.geometry) ?? 0 }))
+    .filter(shape => shape.volume > 0);
+}
+
+/**
+ * Build a diagonal 3x3 matrix
+ * @param xx First diagonal element
+ * @param yy Second diagonal element
+ * @param zz Third diagonal element
+ * @returns Row-major 3x3 matrix
+ */
+function diagonal(xx: number, yy: number, zz: number): Matrix3 {
+  return [xx, 0, 0, 0, yy, 0, 0, 0, zz];
+}
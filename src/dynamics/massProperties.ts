@@ -0,0 +1,229 @@
+import {
+  ForwardKinematicsOptions,
+  JointPositions,
+  computeLinkTransforms,
+} from '../kinematics/forwardKinematics';
+import { RobotModel } from '../kinematics/kinematicTree';
+import { Matrix3, Matrix4 } from '../types/math';
+import { Inertial, Robot, Vector3 } from '../types/urdf';
+import {
+  getRotation,
+  invertMatrix4,
+  multiplyMatrix3,
+  multiplyMatrix4,
+  originToMatrix4,
+  transformPoint,
+  transposeMatrix3,
+} from '../utils/transform';
+
+// Inertia tensor components as written in URDF
+export type InertiaTensor = NonNullable<Inertial['inertia']>;
+
+// Mass, center of mass and inertia of a body expressed in some frame
+export interface MassProperties {
+  mass: number;
+  /**
+   * Center of mass in the reference frame
+   */
+  centerOfMass: Vector3;
+  /**
+   * Row-major 3x3 inertia tensor about the center of mass, along the reference frame axes
+   */
+  inertia: Matrix3;
+}
+
+/**
+ * Convert URDF inertia components to a symmetric 3x3 matrix
+ * @param inertia Inertia tensor components (default: zero)
+ * @returns Row-major 3x3 inertia matrix
+ */
+export function inertiaToMatrix3(inertia?: InertiaTensor): Matrix3 {
+  if (!inertia) {
+    return new Array(9).fill(0);
+  }
+  const { ixx, ixy, ixz, iyy, iyz, izz } = inertia;
+  return [ixx, ixy, ixz, ixy, iyy, iyz, ixz, iyz, izz];
+}
+
+/**
+ * Convert a symmetric 3x3 matrix to URDF inertia components
+ * @param m Row-major 3x3 inertia matrix
+ * @returns Inertia tensor components (upper triangle)
+ */
+export function matrix3ToInertia(m: Matrix3): InertiaTensor {
+  return { ixx: m[0], ixy: m[1], ixz: m[2], iyy: m[4], iyz: m[5], izz: m[8] };
+}
+
+/**
+ * Compute principal moments of inertia (eigenvalues of the inertia tensor)
+ * @param m Row-major symmetric 3x3 inertia matrix
+ * @returns Principal moments in ascending order
+ */
+export function computePrincipalMoments(m: Matrix3): [number, number, number] {
+  const offDiagonal = m[1] * m[1] + m[2] * m[2] + m[5] * m[5];
+  if (offDiagonal === 0) {
+    return [m[0], m[4], m[8]].sort((a, b) => a - b) as [number, number, number];
+  }
+
+  // Closed-form eigenvalues of a symmetric 3x3 matrix
+  const q = (m[0] + m[4] + m[8]) / 3;
+  const p = Math.sqrt(((m[0] - q) ** 2 + (m[4] - q) ** 2 + (m[8] - q) ** 2 + 2 * offDiagonal) / 6);
+  const b = m.map((value, index) => (value - (index % 4 === 0 ? q : 0)) / p);
+  const halfDeterminant =
+    (b[0] * (b[4] * b[8] - b[5] * b[7]) -
+      b[1] * (b[3] * b[8] - b[5] * b[6]) +
+      b[2] * (b[3] * b[7] - b[4] * b[6])) /
+    2;
+  const phi = Math.acos(Math.min(1, Math.max(-1, halfDeterminant))) / 3;
+
+  const largest = q + 2 * p * Math.cos(phi);
+  const smallest = q + 2 * p * Math.cos(phi + (2 * Math.PI) / 3);
+  return [smallest, 3 * q - largest - smallest, largest];
+}
+
+/**
+ * Get the mass properties of a link in the link frame
+ *
+ * The inertia tensor is rotated from the inertial frame (`Inertial.origin.rpy`)
+ * into the link frame.
+ * @param inertial Inertial properties of the link
+ * @returns Mass properties in the link frame
+ */
+export function computeInertialMassProperties(inertial: Inertial): MassProperties {
+  return transformMassProperties(
+    {
+      mass: inertial.mass?.value ?? 0,
+      centerOfMass: { x: 0, y: 0, z: 0 },
+      inertia: inertiaToMatrix3(inertial.inertia),
+    },
+    originToMatrix4(inertial.origin)
+  );
+}
+
+/**
+ * Express mass properties in another frame
+ * @param properties Mass properties in the source frame
+ * @param transform Transform from the source frame to the target frame
+ * @returns Mass properties in the target frame
+ */
+export function transformMassProperties(
+  properties: MassProperties,
+  transform: Matrix4
+): MassProperties {
+  const rotation = getRotation(transform);
+  return {
+    mass: properties.mass,
+    centerOfMass: transformPoint(transform, properties.centerOfMass),
+    inertia: multiplyMatrix3(
+      multiplyMatrix3(rotation, properties.inertia),
+      transposeMatrix3(rotation)
+    ),
+  };
+}
+
+/**
+ * Combine bodies expressed in the same frame into one rigid body
+ *
+ * Each inertia tensor is moved to the combined center of mass with the
+ * parallel-axis theorem.
+ * @param parts Mass properties of the bodies
+ * @returns Combined mass properties (center of mass at the origin when massless)
+ */
+export function combineMassProperties(parts: MassProperties[]): MassProperties {
+  const mass = parts.reduce((sum, part) => sum + part.mass, 0);
+  const centerOfMass = { x: 0, y: 0, z: 0 };
+  if (mass > 0) {
+    for (const part of parts) {
+      centerOfMass.x += (part.mass * part.centerOfMass.x) / mass;
+      centerOfMass.y += (part.mass * part.centerOfMass.y) / mass;
+      centerOfMass.z += (part.mass * part.centerOfMass.z) / mass;
+    }
+  }
+
+  const inertia: Matrix3 = new Array(9).fill(0);
+  for (const part of parts) {
+    const d = [
+      part.centerOfMass.x - centerOfMass.x,
+      part.centerOfMass.y - centerOfMass.y,
+      part.centerOfMass.z - centerOfMass.z,
+    ];
+    const squared = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        const shift = (row === col ? squared : 0) - d[row] * d[col];
+        inertia[row * 3 + col] += part.inertia[row * 3 + col] + part.mass * shift;
+      }
+    }
+  }
+
+  return { mass, centerOfMass, inertia };
+}
+
+/**
+ * Compute the total mass of a robot
+ * @param robot Robot object
+ * @returns Sum of link masses
+ */
+export function computeTotalMass(robot: Robot): number {
+  return robot.links.reduce((sum, link) => sum + (link.inertial?.mass?.value ?? 0), 0);
+}
+
+/**
+ * Compute the whole-body center of mass
+ * @param robot Robot object
+ * @param positions Joint positions keyed by joint name (missing joints are at zero)
+ * @param options Forward kinematics options
+ * @returns Center of mass in the world frame (origin when the robot has no mass)
+ */
+export function computeCenterOfMass(
+  robot: Robot,
+  positions: JointPositions = {},
+  options: ForwardKinematicsOptions = {}
+): Vector3 {
+  const transforms = computeLinkTransforms(robot, positions, options);
+  const parts = robot.links
+    .filter(link => link.inertial && transforms[link.name])
+    .map(link =>
+      transformMassProperties(computeInertialMassProperties(link.inertial!), transforms[link.name])
+    );
+  return combineMassProperties(parts).centerOfMass;
+}
+
+/**
+ * Compute the composite mass properties of a subtree
+ * @param robot Robot object
+ * @param subtreeRoot Link whose subtree (including itself) is combined
+ * @param positions Joint positions keyed by joint name (missing joints are at zero)
+ * @param frame Link whose frame the result is expressed in (default: subtreeRoot)
+ * @returns Mass properties of the subtree in the given frame
+ */
+export function computeCompositeInertia(
+  robot: Robot,
+  subtreeRoot: string,
+  positions: JointPositions = {},
+  frame: string = subtreeRoot
+): MassProperties {
+  const model = new RobotModel(robot);
+  const transforms = computeLinkTransforms(robot, positions);
+  for (const name of [subtreeRoot, frame]) {
+    if (!model.hasLink(name) || !transforms[name]) {
+      throw new Error(`Unknown link: ${name}`);
+    }
+  }
+
+  const toFrame = invertMatrix4(transforms[frame]);
+  const parts: MassProperties[] = [];
+  for (const name of model.dfs(subtreeRoot)) {
+    const inertial = model.getLink(name)?.inertial;
+    if (inertial && transforms[name]) {
+      parts.push(
+        transformMassProperties(
+          computeInertialMassProperties(inertial),
+          multiplyMatrix4(toFrame, transforms[name])
+        )
+      );
+    }
+  }
+
+  return combineMassProperties(parts);
+}
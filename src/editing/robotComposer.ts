@@ -0,0 +1,182 @@
+import { RobotModel } from '../kinematics/kinematicTree';
+import { sameAppearance } from '../materials/materialResolver';
+import { Joint, Robot, Vector3 } from '../types/urdf';
+import { linkFirstEntries, transmissionActuators, transmissionJoints } from '../utils/transmission';
+
+// Options for attach
+export interface AttachOptions {
+  /**
+   * Prefix added to the names of the tool's links, joints, materials,
+   * transmissions, actuators and `<ros2_control>` blocks (default: none)
+   */
+  prefix?: string;
+  /**
+   * Name of the fixed joint connecting the tool (default: `<parentLink>_to_<tool root>`)
+   */
+  jointName?: string;
+}
+
+/**
+ * Attach a robot onto a link of another robot with a fixed joint
+ *
+ * The tool's names are prefixed, together with every reference to them.
+ * Root-level materials of the tool with the same name, color and texture as a
+ * base material are not copied, and the tool's visuals use the base material
+ * instead. Neither robot is modified.
+ * @param base Robot to attach to
+ * @param tool Robot to attach, such as a gripper or sensor
+ * @param parentLink Link of the base robot that the tool's root link is attached to
+ * @param origin Pose of the tool's root link relative to the parent link
+ * @param options Name prefix and joint name
+ * @returns Combined robot, named after the base robot
+ * @throws Error if the tool does not have a single root link, or a name is
+ * defined twice after prefixing
+ */
+export function attach(
+  base: Robot,
+  tool: Robot,
+  parentLink: string,
+  origin: { xyz?: Vector3; rpy?: Vector3 } = {},
+  options: AttachOptions = {}
+): Robot {
+  const prefix = options.prefix ?? '';
+  if (!new RobotModel(base).hasLink(parentLink)) {
+    throw new Error(`Unknown link: ${parentLink}`);
+  }
+  const toolRoots = new RobotModel(tool).roots;
+  if (toolRoots.length !== 1) {
+    throw new Error(`Tool robot must have a single root link, found ${toolRoots.length}`);
+  }
+
+  const shared = new Set(
+    tool.materials
+      .filter(material =>
+        base.materials.some(
+          other => other.name === material.name && sameAppearance(other, material)
+        )
+      )
+      .map(material => material.name)
+  );
+  const rename = (name: string) => prefix + name;
+  const renameMaterial = (name: string) => (shared.has(name) ? name : prefix + name);
+
+  const result = cloneRobot(base);
+  const added = prefixRobot(cloneRobot(tool), rename, renameMaterial);
+  const joint: Joint = {
+    name: options.jointName ?? `${parentLink}_to_${rename(toolRoots[0])}`,
+    type: 'fixed',
+    origin: JSON.parse(JSON.stringify(origin)),
+    parent: { link: parentLink },
+    child: { link: rename(toolRoots[0]) },
+  };
+
+  checkUnique('Link', base.links, added.links);
+  checkUnique('Joint', base.joints, [joint, ...added.joints]);
+  checkUnique('Transmission', base.transmissions, added.transmissions);
+  checkUnique(
+    'Material',
+    base.materials,
+    added.materials.filter(material => !shared.has(material.name!))
+  );
+
+  result.links.push(...added.links);
+  result.joints.push(joint, ...added.joints);
+  result.materials.push(...added.materials.filter(material => !shared.has(material.name!)));
+  result.transmissions.push(...added.transmissions);
+  if (added.ros2Control) {
+    result.ros2Control = [...(result.ros2Control ?? []), ...added.ros2Control];
+  }
+  if (added.gazebo) {
+    result.gazebo = [...(result.gazebo ?? []), ...added.gazebo];
+  }
+  return result;
+}
+
+/**
+ * Rename the elements of a robot and every reference to them
+ * @param robot Robot object, modified in place
+ * @param rename Mapping for link, joint, transmission, actuator and ros2_control names
+ * @param renameMaterial Mapping for material names
+ * @returns The robot
+ */
+function prefixRobot(
+  robot: Robot,
+  rename: (name: string) => string,
+  renameMaterial: (name: string) => string
+): Robot {
+  for (const link of robot.links) {
+    link.name = rename(link.name);
+    for (const visual of link.visuals) {
+      if (visual.material?.name !== undefined) {
+        visual.material.name = renameMaterial(visual.material.name);
+      }
+    }
+  }
+  for (const joint of robot.joints) {
+    joint.name = rename(joint.name);
+    joint.parent.link = rename(joint.parent.link);
+    joint.child.link = rename(joint.child.link);
+    if (joint.mimic) {
+      joint.mimic.joint = rename(joint.mimic.joint);
+    }
+  }
+  for (const material of robot.materials) {
+    if (material.name !== undefined) {
+      material.name = renameMaterial(material.name);
+    }
+  }
+  for (const transmission of robot.transmissions) {
+    if (transmission.name !== undefined) {
+      transmission.name = rename(transmission.name);
+    }
+    for (const joint of transmissionJoints(transmission)) {
+      joint.name = rename(joint.name);
+    }
+    for (const actuator of transmissionActuators(transmission)) {
+      actuator.name = rename(actuator.name);
+    }
+  }
+  for (const block of robot.ros2Control ?? []) {
+    block.name = rename(block.name);
+    for (const joint of block.joints) {
+      joint.name = rename(joint.name);
+    }
+  }
+  for (const block of robot.gazebo ?? []) {
+    if (block.reference !== undefined) {
+      block.reference = rename(block.reference);
+    }
+  }
+  return robot;
+}
+
+/**
+ * Check that added elements do not reuse names of existing ones
+ * @param kind Element kind for the error message
+ * @param existing Existing elements
+ * @param added Added elements
+ */
+function checkUnique(
+  kind: string,
+  existing: { name?: string }[],
+  added: { name?: string }[]
+): void {
+  const names = new Set(existing.map(element => element.name));
+  for (const element of added) {
+    if (element.name !== undefined && names.has(element.name)) {
+      throw new Error(`${kind} ${element.name} is already defined; use a different prefix`);
+    }
+    names.add(element.name);
+  }
+}
+
+/**
+ * Deep copy a robot
+ * @param robot Robot object
+ * @returns Copy sharing no objects with the original
+ */
+function cloneRobot(robot: Robot): Robot {
+  const copy = structuredClone(robot);
+  copy.transmissions.forEach(linkFirstEntries);
+  return copy;
+}
@@ -0,0 +1,575 @@
+import {
+  combineMassProperties,
+  computeInertialMassProperties,
+  matrix3ToInertia,
+  transformMassProperties,
+} from '../dynamics/massProperties';
+import { computeLinkTransforms } from '../kinematics/forwardKinematics';
+import { RobotModel } from '../kinematics/kinematicTree';
+import { Matrix4 } from '../types/math';
+import {
+  GazeboExtension,
+  Inertial,
+  Joint,
+  Link,
+  Robot,
+  Transmission,
+  Vector3,
+} from '../types/urdf';
+import {
+  identityMatrix4,
+  invertMatrix4,
+  matrix4ToOrigin,
+  multiplyMatrix4,
+  originToMatrix4,
+} from '../utils/transform';
+import { transmissionJoints } from '../utils/transmission';
+
+// Options for reparent
+export interface ReparentOptions {
+  /**
+   * Keep the link where it is at the zero configuration by recomputing the
+   * joint origin relative to the new parent (default: true). When false the
+   * joint origin is kept as is.
+   */
+  keepPose?: boolean;
+}
+
+// Options for insertFixedFrame
+export interface FixedFrameOptions {
+  /**
+   * Origin of the frame relative to the parent link
+   */
+  origin?: { xyz?: Vector3; rpy?: Vector3 };
+  /**
+   * Name of the fixed joint (default: `<frame>_joint`)
+   */
+  jointName?: string;
+}
+
+// Options for lumpFixedJoints
+export interface LumpOptions {
+  /**
+   * Links kept as separate frames even when attached by a fixed joint, such
+   * as `tool0` or camera optical frames
+   */
+  keepFrames?: string[];
+}
+
+/**
+ * Rename a link
+ *
+ * Joint parent and child references and `<gazebo>` blocks referencing the
+ * link are updated. The robot is modified in place.
+ * @param robot Robot object
+ * @param name Current link name
+ * @param newName New link name
+ */
+export function renameLink(robot: Robot, name: string, newName: string): void {
+  const model = new RobotModel(robot);
+  if (!model.hasLink(name)) {
+    throw new Error(`Unknown link: ${name}`);
+  }
+  if (name === newName) {
+    return;
+  }
+  if (model.hasLink(newName)) {
+    throw new Error(`Link ${newName} already exists`);
+  }
+
+  for (const link of robot.links) {
+    if (link.name === name) {
+      link.name = newName;
+    }
+  }
+  for (const joint of robot.joints) {
+    if (joint.parent.link === name) {
+      joint.parent.link = newName;
+    }
+    if (joint.child.link === name) {
+      joint.child.link = newName;
+    }
+  }
+  renameGazeboReferences(robot, name, newName);
+}
+
+/**
+ * Rename a joint
+ *
+ * Mimic references, transmission joints, `<ros2_control>` joints and
+ * `<gazebo>` blocks referencing the joint are updated. The robot is modified
+ * in place.
+ * @param robot Robot object
+ * @param name Current joint name
+ * @param newName New joint name
+ */
+export function renameJoint(robot: Robot, name: string, newName: string): void {
+  if (!robot.joints.some(joint => joint.name === name)) {
+    throw new Error(`Unknown joint: ${name}`);
+  }
+  if (name === newName) {
+    return;
+  }
+  if (robot.joints.some(joint => joint.name === newName)) {
+    throw new Error(`Joint ${newName} already exists`);
+  }
+
+  for (const joint of robot.joints) {
+    if (joint.name === name) {
+      joint.name = newName;
+    }
+    if (joint.mimic?.joint === name) {
+      joint.mimic.joint = newName;
+    }
+  }
+  for (const transmission of robot.transmissions) {
+    for (const joint of transmissionJoints(transmission)) {
+      if (joint.name === name) {
+        joint.name = newName;
+      }
+    }
+  }
+  for (const block of robot.ros2Control ?? []) {
+    for (const joint of block.joints) {
+      if (joint.name === name) {
+        joint.name = newName;
+      }
+    }
+  }
+  renameGazeboReferences(robot, name, newName);
+}
+
+/**
+ * Remove a link together with every link below it
+ *
+ * The joints of the subtree, including the joint attaching it to its parent,
+ * are removed along with transmission joints, `<ros2_control>` joints and
+ * `<gazebo>` blocks that reference removed links or joints. Transmissions left
+ * without joints are removed. The robot is modified in place.
+ * @param robot Robot object
+ * @param link Name of the subtree's top link
+ * @throws Error if the link is a root, or a remaining joint mimics a removed one
+ */
+export function removeSubtree(robot: Robot, link: string): void {
+  const model = new RobotModel(robot);
+  if (!model.hasLink(link)) {
+    throw new Error(`Unknown link: ${link}`);
+  }
+  if (model.getParentJoint(link) === undefined) {
+    throw new Error(`Cannot remove root link ${link}`);
+  }
+
+  const links = new Set(model.dfs(link));
+  const removed = (joint: Joint) => links.has(joint.child.link) || links.has(joint.parent.link);
+  const joints = new Set(robot.joints.filter(removed).map(joint => joint.name));
+
+  for (const joint of robot.joints) {
+    if (!removed(joint) && joint.mimic && joints.has(joint.mimic.joint)) {
+      throw new Error(`Joint ${joint.name} mimics ${joint.mimic.joint}, which would be removed`);
+    }
+  }
+
+  robot.links = robot.links.filter(other => !links.has(other.name));
+  robot.joints = robot.joints.filter(joint => !removed(joint));
+  robot.transmissions = robot.transmissions.filter(transmission =>
+    removeTransmissionJoints(transmission, joints)
+  );
+  for (const block of robot.ros2Control ?? []) {
+    block.joints = block.joints.filter(joint => !joints.has(joint.name));
+  }
+  if (robot.gazebo) {
+    robot.gazebo = robot.gazebo.filter(
+      block =>
+        block.reference === undefined ||
+        (!links.has(block.reference) && !joints.has(block.reference))
+    );
+  }
+}
+
+/**
+ * Move a link, with its subtree, under another parent link
+ *
+ * The joint attaching the link to its current parent is kept and attached to
+ * the new parent.
+ * @param robot Robot object
+ * @param link Link to move
+ * @param parent New parent link
+ * @param options Reparent options
+ * @throws Error if the link is a root, or the new parent is in the link's subtree
+ */
+export function reparent(
+  robot: Robot,
+  link: string,
+  parent: string,
+  options: ReparentOptions = {}
+): void {
+  const model = new RobotModel(robot);
+  for (const name of [link, parent]) {
+    if (!model.hasLink(name)) {
+      throw new Error(`Unknown link: ${name}`);
+    }
+  }
+  const joint = model.getParentJoint(link);
+  if (!joint) {
+    throw new Error(`Link ${link} has no parent joint`);
+  }
+  if ([...model.dfs(link)].includes(parent)) {
+    throw new Error(`Cannot move link ${link} under its own subtree link ${parent}`);
+  }
+
+  if (options.keepPose ?? true) {
+    const transforms = computeLinkTransforms(robot);
+    const jointFrame = multiplyMatrix4(
+      transforms[joint.parent.link],
+      originToMatrix4(joint.origin)
+    );
+    joint.origin = matrix4ToOrigin(multiplyMatrix4(invertMatrix4(transforms[parent]), jointFrame));
+  }
+  joint.parent.link = parent;
+}
+
+/**
+ * Add an empty link attached to a parent link by a fixed joint
+ *
+ * Useful for tool and sensor frames such as `tool0`.
+ * @param robot Robot object
+ * @param parent Parent link
+ * @param frame Name of the new link
+ * @param options Origin and joint name
+ * @returns The new joint
+ */
+export function insertFixedFrame(
+  robot: Robot,
+  parent: string,
+  frame: string,
+  options: FixedFrameOptions = {}
+): Joint {
+  const model = new RobotModel(robot);
+  const jointName = options.jointName ?? `${frame}_joint`;
+  if (!model.hasLink(parent)) {
+    throw new Error(`Unknown link: ${parent}`);
+  }
+  if (model.hasLink(frame)) {
+    throw new Error(`Link ${frame} already exists`);
+  }
+  if (robot.joints.some(joint => joint.name === jointName)) {
+    throw new Error(`Joint ${jointName} already exists`);
+  }
+
+  const joint: Joint = {
+    name: jointName,
+    type: 'fixed',
+    parent: { link: parent },
+    child: { link: frame },
+  };
+  if (options.origin) {
+    joint.origin = {
+      xyz: options.origin.xyz && { ...options.origin.xyz },
+      rpy: options.origin.rpy && { ...options.origin.rpy },
+    };
+  }
+
+  robot.links.push({ name: frame, visuals: [], collisions: [] });
+  robot.joints.push(joint);
+  return joint;
+}
+
+/**
+ * Merge the child links of fixed joints into their parent links
+ *
+ * For each joint, in order, the child link's visuals and collisions are
+ * re-expressed in the parent link frame and appended to the parent link's,
+ * the inertials are combined, and joints of the child link are attached to
+ * the parent link with composed origins. `<gazebo>` blocks referencing the
+ * child link are moved to the parent link, with the joint origin composed into
+ * the `<pose>` of their `<sensor>` elements (other content, such as plugin
+ * frame parameters, is moved unchanged), and those referencing the joint are
+ * removed. The joint and the child link are then removed.
+ * @param robot Robot object
+ * @param joints Names of the fixed joints to merge
+ * @throws Error if a joint is not fixed, or is referenced by a mimic joint,
+ * transmission or `<ros2_control>` block
+ */
+export function mergeFixedJoints(robot: Robot, joints: string[]): void {
+  const merged = [...new Set(joints)].map(name => {
+    const joint = robot.joints.find(other => other.name === name);
+    if (!joint) {
+      throw new Error(`Unknown joint: ${name}`);
+    }
+    if (joint.type !== 'fixed') {
+      throw new Error(`Joint ${name} is not fixed`);
+    }
+    const reference = findJointReference(robot, name);
+    if (reference) {
+      throw new Error(`Joint ${name} is referenced by ${reference}`);
+    }
+    return joint;
+  });
+
+  for (const joint of merged) {
+    mergeFixedJoint(robot, joint);
+  }
+}
+
+/**
+ * Merge every fixed joint into its parent link, leaving the reduced model
+ *
+ * Each fixed joint is merged as by mergeFixedJoints, so chains of fixed joints
+ * collapse into the nearest ancestor attached by a moving joint (or the root).
+ * Joints whose child link is listed in `keepFrames`, and joints referenced by
+ * a mimic joint, transmission or `<ros2_control>` block, are kept. So are
+ * joints below a root link that has no inertial, visual or collision, such as
+ * a `base_footprint` frame, or that is named `world`, so the robot keeps its
+ * root frame. The robot is modified in place.
+ * @param robot Robot object
+ * @param options Frames to keep
+ * @returns Names of the links merged into their parents
+ */
+export function lumpFixedJoints(robot: Robot, options: LumpOptions = {}): string[] {
+  const keep = new Set(options.keepFrames);
+  const merged: string[] = [];
+
+  // Merging moves content into parents and re-parents joints, so the joints to
+  // merge are picked one at a time
+  for (;;) {
+    const joint = robot.joints.find(
+      other =>
+        other.type === 'fixed' &&
+        !keep.has(other.child.link) &&
+        findJointReference(robot, other.name) === undefined &&
+        canAbsorb(robot, other.parent.link)
+    );
+    if (!joint) {
+      return merged;
+    }
+    mergeFixedJoint(robot, joint);
+    merged.push(joint.child.link);
+  }
+}
+
+/**
+ * Check whether lumpFixedJoints may merge child links into a link
+ * @param robot Robot object
+ * @param name Link name
+ * @returns False for root links without content or named `world`
+ */
+function canAbsorb(robot: Robot, name: string): boolean {
+  const link = robot.links.find(other => other.name === name);
+  if (!link) {
+    return false;
+  }
+  if (robot.joints.some(joint => joint.child.link === name)) {
+    return true;
+  }
+  return (
+    name !== 'world' &&
+    (link.inertial !== undefined || link.visuals.length > 0 || link.collisions.length > 0)
+  );
+}
+
+/**
+ * Merge the child link of a fixed joint into its parent link
+ *
+ * Merged visuals and collisions named like an element of the parent get a
+ * numeric suffix.
+ * @param robot Robot object
+ * @param joint Fixed joint
+ */
+function mergeFixedJoint(robot: Robot, joint: Joint): void {
+  const parent = robot.links.find(link => link.name === joint.parent.link);
+  const child = robot.links.find(link => link.name === joint.child.link);
+  const transform = originToMatrix4(joint.origin);
+
+  if (parent && child) {
+    for (const visual of child.visuals) {
+      parent.visuals.push({
+        ...visual,
+        ...uniqueName(visual.name, parent.visuals),
+        origin: composeOrigin(transform, visual.origin),
+      });
+    }
+    for (const collision of child.collisions) {
+      parent.collisions.push({
+        ...collision,
+        ...uniqueName(collision.name, parent.collisions),
+        origin: composeOrigin(transform, collision.origin),
+      });
+    }
+    parent.inertial = mergeInertials(parent, child, transform);
+  }
+
+  for (const other of robot.joints) {
+    if (other !== joint && other.parent.link === joint.child.link) {
+      other.parent.link = joint.parent.link;
+      other.origin = composeOrigin(transform, other.origin);
+    }
+  }
+
+  robot.joints = robot.joints.filter(other => other !== joint);
+  robot.links = robot.links.filter(link => link !== child);
+  if (robot.gazebo) {
+    robot.gazebo = robot.gazebo.filter(block => block.reference !== joint.name);
+    for (const block of robot.gazebo) {
+      if (block.reference === joint.child.link) {
+        moveSensorPoses(block, transform);
+      }
+    }
+  }
+  renameGazeboReferences(robot, joint.child.link, joint.parent.link);
+}
+
+/**
+ * Express the sensor poses of a `<gazebo>` block in the frame a transform maps to
+ *
+ * Sensors without a `<pose>` get one; poses relative to another frame, and
+ * poses that are not six numbers, are left unchanged.
+ * @param block Gazebo block, modified in place
+ * @param transform Transform from the block's link frame to the new link frame
+ */
+function moveSensorPoses(block: GazeboExtension, transform: Matrix4): void {
+  const identity = identityMatrix4();
+  if (transform.every((value, index) => value === identity[index])) {
+    return;
+  }
+
+  for (const sensor of block.elements.filter(element => element.tag === 'sensor')) {
+    const pose = sensor.children.find(element => element.tag === 'pose');
+    if (pose?.attributes.relative_to !== undefined) {
+      continue;
+    }
+    const values = (pose?.text ?? '0 0 0 0 0 0').trim().split(/\s+/).map(Number);
+    if (values.length !== 6 || values.some(value => !Number.isFinite(value))) {
+      continue;
+    }
+
+    const [x, y, z, roll, pitch, yaw] = values;
+    const origin = composeOrigin(transform, {
+      xyz: { x, y, z },
+      rpy: { x: roll, y: pitch, z: yaw },
+    });
+    const text = [origin.xyz, origin.rpy]
+      .flatMap(vector => [vector.x, vector.y, vector.z])
+      .map(value => Number(value.toPrecision(15)))
+      .join(' ');
+    if (pose) {
+      pose.text = text;
+    } else {
+      sensor.children.unshift({ tag: 'pose', attributes: {}, children: [], text });
+    }
+  }
+}
+
+/**
+ * Pick a name for an element merged into a list of named elements
+ * @param name Element name
+ * @param siblings Elements already in the list
+ * @returns Object with a name not used by the siblings, empty for unnamed elements
+ */
+function uniqueName(name: string | undefined, siblings: { name?: string }[]): { name?: string } {
+  if (name === undefined) {
+    return {};
+  }
+  const taken = new Set(siblings.map(sibling => sibling.name));
+  let unique = name;
+  for (let suffix = 2; taken.has(unique); suffix++) {
+    unique = `${name}_${suffix}`;
+  }
+  return { name: unique };
+}
+
+/**
+ * Combine the inertials of a parent link and a child link rigidly attached to it
+ * @param parent Parent link
+ * @param child Child link
+ * @param transform Transform from the child link frame to the parent link frame
+ * @returns Combined inertial in the parent link frame
+ */
+function mergeInertials(parent: Link, child: Link, transform: Matrix4): Inertial | undefined {
+  if (!child.inertial) {
+    return parent.inertial;
+  }
+
+  const parts = [transformMassProperties(computeInertialMassProperties(child.inertial), transform)];
+  if (parent.inertial) {
+    parts.unshift(computeInertialMassProperties(parent.inertial));
+  }
+  const combined = combineMassProperties(parts);
+
+  return {
+    origin: { xyz: combined.centerOfMass, rpy: { x: 0, y: 0, z: 0 } },
+    mass: { value: combined.mass },
+    inertia: matrix3ToInertia(combined.inertia),
+  };
+}
+
+/**
+ * Express an origin in the frame a transform maps to
+ * @param transform Transform applied before the origin
+ * @param origin Origin with optional xyz and rpy
+ * @returns Composed origin
+ */
+function composeOrigin(
+  transform: Matrix4,
+  origin?: { xyz?: Vector3; rpy?: Vector3 }
+): { xyz: Vector3; rpy: Vector3 } {
+  return matrix4ToOrigin(multiplyMatrix4(transform, originToMatrix4(origin)));
+}
+
+/**
+ * Remove transmission joint entries
+ * @param transmission Transmission object, modified in place
+ * @param joints Names of removed joints
+ * @returns False if the transmission drove joints and none remain
+ */
+function removeTransmissionJoints(transmission: Transmission, joints: Set<string>): boolean {
+  const entries = transmissionJoints(transmission);
+  if (entries.length === 0) {
+    return true;
+  }
+
+  const remaining = entries.filter(joint => !joints.has(joint.name));
+  if (transmission.joints) {
+    transmission.joints = remaining;
+  } else if (remaining.length === 0) {
+    delete transmission.joint;
+  }
+  return remaining.length > 0;
+}
+
+/**
+ * Find an element referencing a joint by name
+ * @param robot Robot object
+ * @param name Joint name
+ * @returns Description of the first reference, or undefined if there is none
+ */
+function findJointReference(robot: Robot, name: string): string | undefined {
+  const mimic = robot.joints.find(joint => joint.mimic?.joint === name);
+  if (mimic) {
+    return `mimic joint ${mimic.name}`;
+  }
+  const transmission = robot.transmissions.find(other =>
+    transmissionJoints(other).some(joint => joint.name === name)
+  );
+  if (transmission) {
+    return `transmission ${transmission.name ?? '(unnamed)'}`;
+  }
+  const block = robot.ros2Control?.find(other => other.joints.some(joint => joint.name === name));
+  if (block) {
+    return `ros2_control ${block.name}`;
+  }
+  return undefined;
+}
+
+/**
+ * Point `<gazebo>` blocks referencing a name to another name
+ * @param robot Robot object
+ * @param name Referenced link or joint name
+ * @param newName New reference
+ */
+function renameGazeboReferences(robot: Robot, name: string, newName: string): void {
+  for (const block of robot.gazebo ?? []) {
+    if (block.reference === name) {
+      block.reference = newName;
+    }
+  }
+}
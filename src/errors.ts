@@ -0,0 +1,57 @@
+/**
+ * Error classes
+ */
+
+import { SourceLocation } from './types/diagnostics';
+
+/**
+ * Error raised in strict parsing mode for malformed attribute values
+ */
+export class URDFParseError extends Error {
+  /**
+   * Path to the offending element, e.g. `/robot/joint[@name='elbow']/origin`
+   */
+  readonly element?: string;
+  /**
+   * Name of the offending attribute, or undefined for element text
+   */
+  readonly attribute?: string;
+  /**
+   * Raw value found in the source
+   */
+  readonly value: string;
+  /**
+   * Location of the offending element when the parser tracks locations
+   */
+  location?: SourceLocation;
+
+  /**
+   * Constructor
+   * @param message Error message
+   * @param value Raw value
+   * @param element Element path
+   * @param attribute Attribute name
+   */
+  constructor(message: string, value: string, element?: string, attribute?: string) {
+    const location = [element, attribute && `@${attribute}`].filter(Boolean).join(' ');
+    super(location ? `${location}: ${message}` : message);
+    this.name = 'URDFParseError';
+    this.value = value;
+    this.element = element;
+    this.attribute = attribute;
+  }
+}
+
+/**
+ * Error raised while expanding xacro
+ */
+export class XacroError extends Error {
+  /**
+   * Constructor
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'XacroError';
+  }
+}
@@ -5,9 +5,134 @@
 
 // Parser
 export { URDFParser, URDFParserOptions } from './parser/urdfParser';
+export { SDFParser, SDFParserOptions } from './parser/sdfParser';
+export { findLocation, locateElements } from './parser/sourceLocator';
+
+// Errors
+export { URDFParseError, XacroError } from './errors';
+
+// Xacro
+export {
+  XacroFileResolver,
+  XacroOptions,
+  XacroProcessor,
+  expandXacro,
+} from './xacro/xacroProcessor';
+
+// Writer
+export { URDFWriter, URDFWriterOptions } from './writer/urdfWriter';
+export { SDFConversion, SDFWriter, SDFWriterOptions } from './writer/sdfWriter';
+export { MJCFConversion, MJCFWriter, MJCFWriterOptions } from './writer/mjcfWriter';
+export {
+  GLTFConversion,
+  GLTFDocument,
+  GLTFNode,
+  GLTFWriter,
+  GLTFWriterOptions,
+} from './writer/gltfWriter';
+
+// Kinematics
+export {
+  ForwardKinematicsOptions,
+  JointPositions,
+  JointValue,
+  computeJointMotion,
+  computeJointTransform,
+  computeLinkPoses,
+  computeLinkTransforms,
+  resolveJointPositions,
+} from './kinematics/forwardKinematics';
+export { Jacobian, JacobianOptions, computeJacobian } from './kinematics/jacobian';
+export { IKOptions, IKResult, IKTarget, solveIK } from './kinematics/inverseKinematics';
+export { RobotModel, buildKinematicTree } from './kinematics/kinematicTree';
+
+// Materials
+export { resolveMaterials } from './materials/materialResolver';
+
+// Resources
+export {
+  ResolvedResource,
+  ResourceResolution,
+  ResourceResolver,
+  ResourceResolverOptions,
+} from './resources/resourceResolver';
+
+// Dynamics
+export {
+  InertiaTensor,
+  MassProperties,
+  combineMassProperties,
+  computeCenterOfMass,
+  computeCompositeInertia,
+  computeInertialMassProperties,
+  computePrincipalMoments,
+  computeTotalMass,
+  inertiaToMatrix3,
+  matrix3ToInertia,
+  transformMassProperties,
+} from './dynamics/massProperties';
+export {
+  InertialGenerationOptions,
+  computeGeometryInertia,
+  computeGeometryVolume,
+  fillMissingInertials,
+  generateInertial,
+} from './dynamics/inertialGenerator';
+
+// Editing
+export {
+  FixedFrameOptions,
+  LumpOptions,
+  ReparentOptions,
+  insertFixedFrame,
+  lumpFixedJoints,
+  mergeFixedJoints,
+  removeSubtree,
+  renameJoint,
+  renameLink,
+  reparent,
+} from './editing/robotEditor';
+export { AttachOptions, attach } from './editing/robotComposer';
+
+// Diff
+export {
+  RobotChange,
+  RobotChangeKind,
+  RobotDiff,
+  RobotDiffOptions,
+  RobotElementKind,
+  diffRobots,
+} from './diff/robotDiff';
+
+// Validation
+export { validate } from './validation/validator';
+export { InertialCheckOptions, InertialReport, checkInertials } from './validation/inertialChecker';
 
 // Type definitions
+export * from './types/diagnostics';
+export * from './types/math';
 export * from './types/urdf';
 
 // Utility functions
-export { parseVector3, parseNumber, parseRGBA, ensureArray, getAttribute } from './utils/parsing';
+export {
+  ParseContext,
+  parseVector3,
+  parseNumber,
+  parseRGBA,
+  ensureArray,
+  getAttribute,
+} from './utils/parsing';
+export {
+  identityMatrix4,
+  invertMatrix4,
+  matrix4ToOrigin,
+  matrix4ToPose,
+  multiplyMatrix4,
+  matrix3ToRPY,
+  matrix3ToRotationVector,
+  originToMatrix4,
+  quaternionToMatrix3,
+  rpyToMatrix3,
+  transformPoint,
+} from './utils/transform';
+export { linkFirstEntries, transmissionActuators, transmissionJoints } from './utils/transmission';
@@ -0,0 +1,201 @@
+import { Matrix4, Pose } from '../types/math';
+import { Joint, Robot, Vector3 } from '../types/urdf';
+import {
+  axisAngleToMatrix3,
+  composeMatrix4,
+  crossVector3,
+  dotVector3,
+  identityMatrix4,
+  matrix4ToPose,
+  multiplyMatrix4,
+  normalizeVector3,
+  originToMatrix4,
+  rpyToMatrix3,
+  scaleVector3,
+  subtractVector3,
+  translationMatrix4,
+} from '../utils/transform';
+
+import { RobotModel } from './kinematicTree';
+
+/**
+ * Joint position value
+ *
+ * Single-DOF joints (revolute, continuous, prismatic) take a number.
+ * Planar joints take `[x, y, theta]` in the plane normal to the joint axis.
+ * Floating joints take `[x, y, z, roll, pitch, yaw]`.
+ */
+export type JointValue = number | number[];
+
+/**
+ * Joint positions keyed by joint name
+ */
+export type JointPositions = Record<string, JointValue>;
+
+/**
+ * Options for forward kinematics
+ */
+export interface ForwardKinematicsOptions {
+  /**
+   * World transform of the root link(s) (default: identity)
+   */
+  rootTransform?: Matrix4;
+}
+
+// Default joint axis as defined by the URDF specification
+const DEFAULT_AXIS: Vector3 = { x: 1, y: 0, z: 0 };
+
+/**
+ * Resolve joint positions, applying mimic relations
+ * @param robot Robot object
+ * @param positions Joint positions of independent joints
+ * @returns Joint positions of every joint, with mimic joints filled in
+ */
+export function resolveJointPositions(robot: Robot, positions: JointPositions): JointPositions {
+  const jointsByName = new Map(robot.joints.map(joint => [joint.name, joint]));
+  const resolved: JointPositions = {};
+
+  const resolve = (joint: Joint, visiting: Set<string>): JointValue => {
+    if (resolved[joint.name] !== undefined) {
+      return resolved[joint.name];
+    }
+
+    let value: JointValue = positions[joint.name] ?? 0;
+    const mimicked = joint.mimic ? jointsByName.get(joint.mimic.joint) : undefined;
+
+    if (joint.mimic && mimicked && !visiting.has(mimicked.name)) {
+      visiting.add(joint.name);
+      const source = resolve(mimicked, visiting);
+      visiting.delete(joint.name);
+
+      const multiplier = joint.mimic.multiplier ?? 1;
+      const offset = joint.mimic.offset ?? 0;
+      value = typeof source === 'number' ? source * multiplier + offset : value;
+    }
+
+    resolved[joint.name] = value;
+    return value;
+  };
+
+  for (const joint of robot.joints) {
+    resolve(joint, new Set());
+  }
+
+  return resolved;
+}
+
+/**
+ * Compute the motion transform of a joint (without its origin)
+ * @param joint Joint object
+ * @param value Joint position
+ * @returns 4x4 transform of the child frame relative to the joint frame
+ */
+export function computeJointMotion(joint: Joint, value: JointValue = 0): Matrix4 {
+  const axis = normalizeVector3(joint.axis?.xyz ?? DEFAULT_AXIS);
+  const values = typeof value === 'number' ? [value] : value;
+  const at = (index: number): number => values[index] ?? 0;
+
+  switch (joint.type) {
+    case 'revolute':
+    case 'continuous':
+      return composeMatrix4(axisAngleToMatrix3(axis, at(0)), { x: 0, y: 0, z: 0 });
+    case 'prismatic':
+      return translationMatrix4(scaleVector3(axis, at(0)));
+    case 'planar': {
+      const [u, v] = planeBasis(axis);
+      const translation = {
+        x: u.x * at(0) + v.x * at(1),
+        y: u.y * at(0) + v.y * at(1),
+        z: u.z * at(0) + v.z * at(1),
+      };
+      return composeMatrix4(axisAngleToMatrix3(axis, at(2)), translation);
+    }
+    case 'floating':
+      return composeMatrix4(rpyToMatrix3({ x: at(3), y: at(4), z: at(5) }), {
+        x: at(0),
+        y: at(1),
+        z: at(2),
+      });
+    default:
+      return identityMatrix4();
+  }
+}
+
+/**
+ * Compute the transform of a joint's child link relative to its parent link
+ * @param joint Joint object
+ * @param value Joint position
+ * @returns 4x4 transform origin * motion
+ */
+export function computeJointTransform(joint: Joint, value: JointValue = 0): Matrix4 {
+  return multiplyMatrix4(originToMatrix4(joint.origin), computeJointMotion(joint, value));
+}
+
+/**
+ * Compute world transforms of every link
+ * @param robot Robot object
+ * @param positions Joint positions keyed by joint name (missing joints are at zero)
+ * @param options Forward kinematics options
+ * @returns 4x4 world transform keyed by link name
+ */
+export function computeLinkTransforms(
+  robot: Robot,
+  positions: JointPositions = {},
+  options: ForwardKinematicsOptions = {}
+): Record<string, Matrix4> {
+  const resolved = resolveJointPositions(robot, positions);
+  const rootTransform = options.rootTransform ?? identityMatrix4();
+
+  const model = new RobotModel(robot);
+  const transforms: Record<string, Matrix4> = {};
+
+  for (const link of model.bfs()) {
+    const joint = model.getParentJoint(link);
+    if (!joint) {
+      transforms[link] = rootTransform;
+      continue;
+    }
+
+    const parentTransform = transforms[joint.parent.link];
+    if (parentTransform !== undefined) {
+      transforms[link] = multiplyMatrix4(
+        parentTransform,
+        computeJointTransform(joint, resolved[joint.name])
+      );
+    }
+  }
+
+  return transforms;
+}
+
+/**
+ * Compute world poses (position + quaternion) of every link
+ * @param robot Robot object
+ * @param positions Joint positions keyed by joint name (missing joints are at zero)
+ * @param options Forward kinematics options
+ * @returns Pose keyed by link name
+ */
+export function computeLinkPoses(
+  robot: Robot,
+  positions: JointPositions = {},
+  options: ForwardKinematicsOptions = {}
+): Record<string, Pose> {
+  const transforms = computeLinkTransforms(robot, positions, options);
+  const poses: Record<string, Pose> = {};
+  for (const [name, transform] of Object.entries(transforms)) {
+    poses[name] = matrix4ToPose(transform);
+  }
+  return poses;
+}
+
+/**
+ * Compute two orthonormal vectors spanning the plane normal to an axis
+ * @param axis Unit normal
+ * @returns Basis vectors [u, v] with u × v = axis
+ */
+function planeBasis(axis: Vector3): [Vector3, Vector3] {
+  const reference = Math.abs(axis.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  const projected = subtractVector3(reference, scaleVector3(axis, dotVector3(axis, reference)));
+  const u = normalizeVector3(projected);
+  return [u, crossVector3(axis, u)];
+}
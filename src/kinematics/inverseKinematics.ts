@@ -0,0 +1,307 @@
+import { Quaternion } from '../types/math';
+import { Robot, Vector3 } from '../types/urdf';
+import {
+  getRotation,
+  getTranslation,
+  invertMatrix4,
+  matrix3ToRotationVector,
+  multiplyMatrix3,
+  multiplyMatrix4,
+  quaternionToMatrix3,
+  subtractVector3,
+  transposeMatrix3,
+} from '../utils/transform';
+
+import { JointPositions, computeLinkTransforms } from './forwardKinematics';
+import { computeJacobian, findDriver } from './jacobian';
+import { RobotModel } from './kinematicTree';
+
+/**
+ * Target pose of the tip link, expressed in the base link frame
+ */
+export interface IKTarget {
+  position: Vector3;
+  /**
+   * Target orientation; position-only when omitted
+   */
+  quaternion?: Quaternion;
+}
+
+/**
+ * Options for inverse kinematics
+ */
+export interface IKOptions {
+  /**
+   * Starting joint positions, also used for joints outside the chain (default: zero)
+   */
+  initialPositions?: JointPositions;
+  /**
+   * Maximum number of iterations (default: 100)
+   */
+  maxIterations?: number;
+  /**
+   * Accepted position error in meters (default: 1e-6)
+   */
+  positionTolerance?: number;
+  /**
+   * Accepted orientation error in radians (default: 1e-6)
+   */
+  orientationTolerance?: number;
+  /**
+   * Damping factor of the least squares step (default: 0.01)
+   */
+  damping?: number;
+}
+
+/**
+ * Result of inverse kinematics
+ */
+export interface IKResult {
+  /**
+   * Whether the target was reached within tolerance
+   */
+  converged: boolean;
+  /**
+   * Initial positions updated with the solved positions of the chain joints
+   */
+  positions: JointPositions;
+  iterations: number;
+  /**
+   * Remaining distance between the tip and the target position
+   */
+  positionError: number;
+  /**
+   * Remaining rotation angle between the tip and the target orientation (0 for position-only targets)
+   */
+  orientationError: number;
+  /**
+   * Why the solver did not search, e.g. a driving joint whose mimic joints
+   * cannot all stay within their limits
+   */
+  reason?: string;
+}
+
+/**
+ * Positions a joint may take
+ */
+interface PositionRange {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Solve inverse kinematics of the chain between two links with damped least squares
+ *
+ * Revolute, continuous and prismatic joints on the chain are solved; mimic
+ * joints move with the joint they mimic, which is solved in their place.
+ * Revolute and prismatic positions are kept within their limits, and driving
+ * joints are kept where the joints mimicking them stay within theirs; when no
+ * such position exists, the result reports the reason without solving. Planar
+ * and floating joints keep their initial positions.
+ * @param robot Robot object
+ * @param baseLink Link whose frame the target is expressed in
+ * @param tipLink Link to move to the target
+ * @param target Target pose of the tip link
+ * @param options Solver options
+ * @returns Solved positions and convergence report
+ */
+export function solveIK(
+  robot: Robot,
+  baseLink: string,
+  tipLink: string,
+  target: IKTarget,
+  options: IKOptions = {}
+): IKResult {
+  const maxIterations = options.maxIterations ?? 100;
+  const positionTolerance = options.positionTolerance ?? 1e-6;
+  const orientationTolerance = options.orientationTolerance ?? 1e-6;
+  const damping = options.damping ?? 0.01;
+
+  const model = new RobotModel(robot);
+  for (const link of [baseLink, tipLink]) {
+    if (!model.hasLink(link)) {
+      throw new Error(`Unknown link: ${link}`);
+    }
+  }
+
+  const ranges = computePositionRanges(robot, model);
+  const reason = checkPositionRanges(model, baseLink, tipLink, ranges);
+  const positions: JointPositions = { ...options.initialPositions };
+  const targetRotation = target.quaternion ? quaternionToMatrix3(target.quaternion) : undefined;
+
+  let iterations = 0;
+  let positionError = Infinity;
+  let orientationError = 0;
+
+  for (;;) {
+    const transforms = computeLinkTransforms(robot, positions);
+    const tip = multiplyMatrix4(invertMatrix4(transforms[baseLink]), transforms[tipLink]);
+
+    const positionDelta = subtractVector3(target.position, getTranslation(tip));
+    const error = [positionDelta.x, positionDelta.y, positionDelta.z];
+    positionError = Math.hypot(...error);
+
+    if (targetRotation) {
+      const rotationDelta = matrix3ToRotationVector(
+        multiplyMatrix3(targetRotation, transposeMatrix3(getRotation(tip)))
+      );
+      error.push(rotationDelta.x, rotationDelta.y, rotationDelta.z);
+      orientationError = Math.hypot(rotationDelta.x, rotationDelta.y, rotationDelta.z);
+    }
+
+    if (reason) {
+      return { converged: false, positions, iterations, positionError, orientationError, reason };
+    }
+
+    const converged =
+      positionError <= positionTolerance && orientationError <= orientationTolerance;
+    const jacobian = converged
+      ? undefined
+      : computeJacobian(robot, tipLink, positions, { baseLink });
+    if (!jacobian || jacobian.joints.length === 0 || iterations >= maxIterations) {
+      return { converged, positions, iterations, positionError, orientationError };
+    }
+    iterations++;
+
+    const step = dampedLeastSquares(jacobian.matrix.slice(0, error.length), error, damping);
+    jacobian.joints.forEach((name, index) => {
+      const value = positions[name];
+      const current = typeof value === 'number' ? value : 0;
+      positions[name] = clampToRange(ranges.get(name), current + step[index]);
+    });
+  }
+}
+
+/**
+ * Compute a damped least squares step J^T (J J^T + damping^2 I)^-1 e
+ * @param jacobian Jacobian rows
+ * @param error Error vector
+ * @param damping Damping factor
+ * @returns Step for each column
+ */
+function dampedLeastSquares(jacobian: number[][], error: number[], damping: number): number[] {
+  const rows = jacobian.length;
+  const columns = jacobian[0].length;
+
+  const system = jacobian.map((rowA, i) =>
+    jacobian.map(
+      (rowB, j) =>
+        rowA.reduce((sum, value, k) => sum + value * rowB[k], 0) + (i === j ? damping * damping : 0)
+    )
+  );
+  const weights = solveLinearSystem(system, error);
+
+  return Array.from({ length: columns }, (_, column) => {
+    let sum = 0;
+    for (let row = 0; row < rows; row++) {
+      sum += jacobian[row][column] * weights[row];
+    }
+    return sum;
+  });
+}
+
+/**
+ * Solve a square linear system with Gaussian elimination and partial pivoting
+ * @param matrix Coefficient rows
+ * @param vector Right-hand side
+ * @returns Solution
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) {
+        pivot = row;
+      }
+    }
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = a[row][column] / a[column][column];
+      for (let k = column; k <= n; k++) {
+        a[row][k] -= factor * a[column][k];
+      }
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Compute the positions of each driving joint that keep it and every joint
+ * mimicking it within the limits of revolute and prismatic joints
+ * @param robot Robot object
+ * @param model Robot model
+ * @returns Allowed range keyed by driving joint name; unlimited joints are omitted
+ */
+function computePositionRanges(robot: Robot, model: RobotModel): Map<string, PositionRange> {
+  const ranges = new Map<string, PositionRange>();
+
+  for (const joint of robot.joints) {
+    if (joint.type === 'continuous' || !joint.limit) {
+      continue;
+    }
+    const { driver, multiplier, offset } = findDriver(model, joint);
+    if (multiplier === 0) {
+      continue;
+    }
+
+    const lower = ((joint.limit.lower ?? -Infinity) - offset) / multiplier;
+    const upper = ((joint.limit.upper ?? Infinity) - offset) / multiplier;
+    const range = ranges.get(driver.name) ?? { lower: -Infinity, upper: Infinity };
+    ranges.set(driver.name, {
+      lower: Math.max(range.lower, Math.min(lower, upper)),
+      upper: Math.min(range.upper, Math.max(lower, upper)),
+    });
+  }
+
+  return ranges;
+}
+
+/**
+ * Find a driving joint of the chain whose allowed range is empty
+ * @param model Robot model
+ * @param baseLink First link of the chain
+ * @param tipLink Last link of the chain
+ * @param ranges Ranges from computePositionRanges
+ * @returns Reason the chain cannot be solved, or undefined if every range is satisfiable
+ */
+function checkPositionRanges(
+  model: RobotModel,
+  baseLink: string,
+  tipLink: string,
+  ranges: Map<string, PositionRange>
+): string | undefined {
+  for (const joint of model.getChain(baseLink, tipLink)) {
+    const { driver } = findDriver(model, joint);
+    const range = ranges.get(driver.name);
+    if (range && range.lower > range.upper) {
+      return `Joint ${driver.name} cannot keep the joints mimicking it within their limits`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Clamp a joint position to its allowed range
+ * @param range Range from computePositionRanges, or undefined for unlimited joints
+ * @param value Joint position
+ * @returns Position within the range
+ */
+function clampToRange(range: PositionRange | undefined, value: number): number {
+  if (!range) {
+    return value;
+  }
+  return Math.min(range.upper, Math.max(range.lower, value));
+}
@@ -0,0 +1,154 @@
+import { Joint, Robot, Vector3 } from '../types/urdf';
+import {
+  crossVector3,
+  getRotation,
+  getTranslation,
+  identityMatrix4,
+  invertMatrix4,
+  multiplyMatrix4,
+  normalizeVector3,
+  rotateVector,
+  subtractVector3,
+} from '../utils/transform';
+
+import {
+  ForwardKinematicsOptions,
+  JointPositions,
+  computeLinkTransforms,
+} from './forwardKinematics';
+import { RobotModel } from './kinematicTree';
+
+/**
+ * Options for Jacobian computation
+ */
+export interface JacobianOptions extends ForwardKinematicsOptions {
+  /**
+   * Link whose frame the Jacobian is expressed in; only joints between this
+   * link and the target link contribute (default: the world frame and every
+   * joint between the root and the target link)
+   */
+  baseLink?: string;
+}
+
+/**
+ * Geometric Jacobian of a link
+ */
+export interface Jacobian {
+  /**
+   * Name of the independent joint driving each column
+   */
+  joints: string[];
+  /**
+   * 6 rows (linear velocity x, y, z of the link origin, then angular velocity
+   * x, y, z) with one column per joint
+   */
+  matrix: number[][];
+}
+
+// Joint types with a Jacobian column
+const ACTUATED_TYPES: ReadonlyArray<Joint['type']> = ['revolute', 'continuous', 'prismatic'];
+
+// Default joint axis as defined by the URDF specification
+const DEFAULT_AXIS: Vector3 = { x: 1, y: 0, z: 0 };
+
+/**
+ * Compute the geometric Jacobian of a link
+ *
+ * Revolute and continuous joints contribute angular columns and prismatic
+ * joints linear columns; fixed, planar and floating joints are skipped. Mimic
+ * joints are folded into the column of the joint they mimic, scaled by their
+ * multiplier. Joints between the base link and the closest common ancestor
+ * move the base rather than the link, so their columns are negated.
+ * @param robot Robot object
+ * @param link Link name
+ * @param positions Joint positions keyed by joint name (missing joints are at zero)
+ * @param options Jacobian options
+ * @returns Jacobian with one column per independent joint, in chain order
+ */
+export function computeJacobian(
+  robot: Robot,
+  link: string,
+  positions: JointPositions = {},
+  options: JacobianOptions = {}
+): Jacobian {
+  const model = new RobotModel(robot);
+  if (!model.hasLink(link)) {
+    throw new Error(`Unknown link: ${link}`);
+  }
+  const ancestors = model.getAncestors(link);
+  const baseLink = options.baseLink ?? ancestors[ancestors.length - 1];
+  const baseAncestors = new Set(model.getAncestors(baseLink));
+
+  const transforms = computeLinkTransforms(robot, positions, options);
+  const toBase =
+    options.baseLink !== undefined ? invertMatrix4(transforms[baseLink]) : identityMatrix4();
+  const linkPosition = getTranslation(multiplyMatrix4(toBase, transforms[link]));
+
+  const joints: string[] = [];
+  const columns: number[][] = [];
+
+  for (const joint of model.getChain(baseLink, link)) {
+    if (!ACTUATED_TYPES.includes(joint.type)) {
+      continue;
+    }
+
+    const { driver, multiplier } = findDriver(model, joint);
+    let index = joints.indexOf(driver.name);
+    if (index === -1) {
+      index = joints.push(driver.name) - 1;
+      columns.push(new Array(6).fill(0));
+    }
+
+    // The child frame shares its origin and axis with the moving joint frame
+    const frame = multiplyMatrix4(toBase, transforms[joint.child.link]);
+    const axis = rotateVector(
+      getRotation(frame),
+      normalizeVector3(joint.axis?.xyz ?? DEFAULT_AXIS)
+    );
+    const scale = baseAncestors.has(joint.child.link) ? -multiplier : multiplier;
+
+    const linear =
+      joint.type === 'prismatic'
+        ? axis
+        : crossVector3(axis, subtractVector3(linkPosition, getTranslation(frame)));
+    const angular = joint.type === 'prismatic' ? { x: 0, y: 0, z: 0 } : axis;
+
+    [linear.x, linear.y, linear.z, angular.x, angular.y, angular.z].forEach((value, row) => {
+      columns[index][row] += scale * value;
+    });
+  }
+
+  return {
+    joints,
+    matrix: Array.from({ length: 6 }, (_, row) => columns.map(column => column[row])),
+  };
+}
+
+/**
+ * Follow mimic relations to the independent joint driving a joint
+ * @param model Robot model
+ * @param joint Joint object
+ * @returns Driving joint, with the joint's position equal to `multiplier * driver + offset`
+ */
+export function findDriver(
+  model: RobotModel,
+  joint: Joint
+): { driver: Joint; multiplier: number; offset: number } {
+  let driver = joint;
+  let multiplier = 1;
+  let offset = 0;
+  const visited = new Set([joint.name]);
+
+  while (driver.mimic) {
+    const mimicked = model.getJoint(driver.mimic.joint);
+    if (!mimicked || visited.has(mimicked.name)) {
+      break;
+    }
+    offset += multiplier * (driver.mimic.offset ?? 0);
+    multiplier *= driver.mimic.multiplier ?? 1;
+    visited.add(mimicked.name);
+    driver = mimicked;
+  }
+
+  return { driver, multiplier, offset };
+}
@@ -0,0 +1,252 @@
+import { Joint, Link, Robot } from '../types/urdf';
+
+/**
+ * Kinematic tree built from the parent/child links of a robot's joints
+ */
+export class RobotModel {
+  readonly robot: Robot;
+  /**
+   * Names of links that are not the child of any joint, in declaration order
+   */
+  readonly roots: string[];
+
+  private links = new Map<string, Link>();
+  private joints = new Map<string, Joint>();
+  private parentJoints = new Map<string, Joint>();
+  private childJoints = new Map<string, Joint[]>();
+  private linkNames: string[] = [];
+
+  /**
+   * Constructor
+   * @param robot Robot object
+   */
+  constructor(robot: Robot) {
+    this.robot = robot;
+
+    for (const link of robot.links) {
+      if (!this.links.has(link.name)) {
+        this.links.set(link.name, link);
+      }
+      this.addLinkName(link.name);
+    }
+
+    for (const joint of robot.joints) {
+      if (!this.joints.has(joint.name)) {
+        this.joints.set(joint.name, joint);
+      }
+      this.addLinkName(joint.parent.link);
+      this.addLinkName(joint.child.link);
+
+      if (!this.parentJoints.has(joint.child.link)) {
+        this.parentJoints.set(joint.child.link, joint);
+      }
+      this.childJoints.get(joint.parent.link)!.push(joint);
+    }
+
+    this.roots = this.linkNames.filter(name => !this.parentJoints.has(name));
+  }
+
+  /**
+   * Root link of the tree
+   * @returns Name of the first root link
+   */
+  get root(): string {
+    if (this.roots.length === 0) {
+      throw new Error('Robot has no root link');
+    }
+    return this.roots[0];
+  }
+
+  /**
+   * Get link by name
+   * @param name Link name
+   * @returns Link object, or undefined if the link is only referenced by joints
+   */
+  getLink(name: string): Link | undefined {
+    return this.links.get(name);
+  }
+
+  /**
+   * Get joint by name
+   * @param name Joint name
+   * @returns Joint object
+   */
+  getJoint(name: string): Joint | undefined {
+    return this.joints.get(name);
+  }
+
+  /**
+   * Check whether a link is part of the tree
+   * @param name Link name
+   * @returns True if the link is declared or referenced by a joint
+   */
+  hasLink(name: string): boolean {
+    return this.childJoints.has(name);
+  }
+
+  /**
+   * Get the joint connecting a link to its parent
+   * @param link Link name
+   * @returns Parent joint, or undefined for root links
+   */
+  getParentJoint(link: string): Joint | undefined {
+    return this.parentJoints.get(link);
+  }
+
+  /**
+   * Get the parent link of a link
+   * @param link Link name
+   * @returns Parent link name, or undefined for root links
+   */
+  getParentLink(link: string): string | undefined {
+    return this.parentJoints.get(link)?.parent.link;
+  }
+
+  /**
+   * Get the joints connecting a link to its children
+   * @param link Link name
+   * @returns Child joints in declaration order
+   */
+  getChildJoints(link: string): Joint[] {
+    return this.childJoints.get(link) ?? [];
+  }
+
+  /**
+   * Get the child links of a link
+   * @param link Link name
+   * @returns Child link names in declaration order
+   */
+  getChildLinks(link: string): string[] {
+    return this.getChildJoints(link).map(joint => joint.child.link);
+  }
+
+  /**
+   * Get the links from a link up to its root
+   * @param link Link name
+   * @returns Link names starting with the given link and ending with its root
+   */
+  getAncestors(link: string): string[] {
+    const ancestors = [link];
+    const visited = new Set(ancestors);
+    let parent = this.getParentLink(link);
+    while (parent !== undefined && !visited.has(parent)) {
+      ancestors.push(parent);
+      visited.add(parent);
+      parent = this.getParentLink(parent);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Get the number of joints between a link and its root
+   * @param link Link name
+   * @returns Depth (0 for root links)
+   */
+  getDepth(link: string): number {
+    return this.getAncestors(link).length - 1;
+  }
+
+  /**
+   * Get the joints along the path between two links
+   *
+   * The path climbs from `fromLink` to the closest common ancestor and then
+   * descends to `toLink`, so joints on the climbing part are traversed from
+   * child to parent.
+   * @param fromLink Start link name
+   * @param toLink End link name
+   * @returns Joints in traversal order
+   */
+  getChain(fromLink: string, toLink: string): Joint[] {
+    for (const link of [fromLink, toLink]) {
+      if (!this.hasLink(link)) {
+        throw new Error(`Unknown link: ${link}`);
+      }
+    }
+
+    const fromAncestors = this.getAncestors(fromLink);
+    const toAncestors = this.getAncestors(toLink);
+    const common = fromAncestors.find(link => toAncestors.includes(link));
+    if (common === undefined) {
+      throw new Error(`Links ${fromLink} and ${toLink} are not connected`);
+    }
+
+    const up = fromAncestors
+      .slice(0, fromAncestors.indexOf(common))
+      .map(link => this.getParentJoint(link)!);
+    const down = toAncestors
+      .slice(0, toAncestors.indexOf(common))
+      .map(link => this.getParentJoint(link)!)
+      .reverse();
+
+    return [...up, ...down];
+  }
+
+  /**
+   * Get links without children
+   * @returns Leaf link names in declaration order
+   */
+  getLeafLinks(): string[] {
+    return this.linkNames.filter(name => this.getChildJoints(name).length === 0);
+  }
+
+  /**
+   * Iterate over links depth-first (pre-order)
+   * @param start Start link name (default: every root in order)
+   * @returns Iterator of link names
+   */
+  *dfs(start?: string): Generator<string> {
+    const visited = new Set<string>();
+    const stack = start !== undefined ? [start] : [...this.roots].reverse();
+
+    while (stack.length > 0) {
+      const link = stack.pop()!;
+      if (visited.has(link)) {
+        continue;
+      }
+      visited.add(link);
+      yield link;
+      stack.push(...[...this.getChildLinks(link)].reverse());
+    }
+  }
+
+  /**
+   * Iterate over links breadth-first
+   * @param start Start link name (default: every root in order)
+   * @returns Iterator of link names
+   */
+  *bfs(start?: string): Generator<string> {
+    const queue = start !== undefined ? [start] : [...this.roots];
+    const visited = new Set(queue);
+
+    while (queue.length > 0) {
+      const link = queue.shift()!;
+      yield link;
+      for (const child of this.getChildLinks(link)) {
+        if (!visited.has(child)) {
+          visited.add(child);
+          queue.push(child);
+        }
+      }
+    }
+  }
+
+  /**
+   * Register a link name in declaration order
+   * @param name Link name
+   */
+  private addLinkName(name: string): void {
+    if (!this.childJoints.has(name)) {
+      this.childJoints.set(name, []);
+      this.linkNames.push(name);
+    }
+  }
+}
+
+/**
+ * Build kinematic tree of a robot
+ * @param robot Robot object
+ * @returns Robot model
+ */
+export function buildKinematicTree(robot: Robot): RobotModel {
+  return new RobotModel(robot);
+}
@@ -0,0 +1,107 @@
+import { Diagnostic } from '../types/diagnostics';
+import { Material, Robot } from '../types/urdf';
+import { elementPath } from '../validation/validator';
+
+/**
+ * Resolve named material references to their definitions
+ *
+ * A visual material that only has a name takes the color and texture of the
+ * material defined under that name. Root-level materials are registered
+ * first, followed by named materials defined inline in visuals, in document
+ * order; the first definition of a name wins. The robot is modified in place.
+ * @param robot Robot object
+ * @returns UNDEFINED_MATERIAL diagnostics for references to unknown names, and
+ * CONFLICTING_MATERIAL diagnostics for names defined more than once with different content
+ */
+export function resolveMaterials(robot: Robot): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const definitions = new Map<string, Material>();
+
+  /**
+   * Register a material definition, flagging conflicts with an earlier one
+   * @param material Material with color or texture
+   * @param path Path to the material element
+   */
+  const define = (material: Material, path: string): void => {
+    const name = material.name!;
+    const existing = definitions.get(name);
+    if (!existing) {
+      definitions.set(name, material);
+    } else if (!sameAppearance(existing, material)) {
+      diagnostics.push({
+        code: 'CONFLICTING_MATERIAL',
+        severity: 'warning',
+        path,
+        message: `Material ${name} is defined more than once with different colors or textures`,
+      });
+    }
+  };
+
+  for (const material of robot.materials) {
+    if (material.name !== undefined && hasAppearance(material)) {
+      define(material, elementPath('material', material.name));
+    }
+  }
+
+  const references: { material: Material; path: string }[] = [];
+  for (const link of robot.links) {
+    link.visuals.forEach((visual, index) => {
+      const material = visual.material;
+      if (material?.name === undefined) {
+        return;
+      }
+      const path = `${elementPath('link', link.name)}/visual[${index + 1}]/material`;
+      if (hasAppearance(material)) {
+        define(material, path);
+      } else {
+        references.push({ material, path });
+      }
+    });
+  }
+
+  for (const { material, path } of references) {
+    const definition = definitions.get(material.name!);
+    if (!definition) {
+      diagnostics.push({
+        code: 'UNDEFINED_MATERIAL',
+        severity: 'error',
+        path,
+        message: `Material ${material.name} is not defined`,
+      });
+      continue;
+    }
+    if (definition.color) {
+      const rgba = definition.color.rgba;
+      material.color = rgba ? { rgba: [...rgba] } : {};
+    }
+    if (definition.texture) {
+      material.texture = { ...definition.texture };
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check whether a material defines a color or texture
+ * @param material Material object
+ * @returns True if the material has a color or texture
+ */
+function hasAppearance(material: Material): boolean {
+  return material.color !== undefined || material.texture !== undefined;
+}
+
+/**
+ * Compare the color and texture of two materials
+ * @param a Material object
+ * @param b Material object
+ * @returns True if both have the same color and texture
+ */
+export function sameAppearance(a: Material, b: Material): boolean {
+  const colorA = a.color?.rgba;
+  const colorB = b.color?.rgba;
+  const sameColor =
+    colorA === colorB ||
+    (colorA !== undefined && colorB !== undefined && colorA.every((c, i) => c === colorB[i]));
+  return sameColor && a.texture?.filename === b.texture?.filename;
+}
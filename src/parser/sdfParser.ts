@@ -0,0 +1,890 @@
+import { XMLParser } from 'fast-xml-parser';
+
+import { URDFParseError } from '../errors';
+import { Diagnostic } from '../types/diagnostics';
+import { Matrix4 } from '../types/math';
+import {
+  Collision,
+  Geometry,
+  Inertial,
+  Joint,
+  Link,
+  Material,
+  Robot,
+  Vector3,
+  Visual,
+} from '../types/urdf';
+import {
+  ParseContext,
+  ensureArray,
+  getAttribute,
+  parseNumber,
+  parseRGBA,
+  parseVector3,
+} from '../utils/parsing';
+import {
+  composeMatrix4,
+  getRotation,
+  identityMatrix4,
+  invertMatrix4,
+  matrix4ToOrigin,
+  multiplyMatrix4,
+  originToMatrix4,
+  quaternionToMatrix3,
+  rotateVector,
+  transposeMatrix3,
+} from '../utils/transform';
+import { nameSelector, validate } from '../validation/validator';
+
+/**
+ * Options for SDF parser
+ */
+export interface SDFParserOptions {
+  /**
+   * Options for XML parser
+   */
+  xmlParserOptions?: any;
+  /**
+   * Collect diagnostics in `SDFParser.diagnostics` instead of logging them to
+   * the console, and validate the parsed robot
+   */
+  collectDiagnostics?: boolean;
+  /**
+   * Throw URDFParseError for malformed numeric and vector values instead of
+   * substituting default values
+   */
+  strict?: boolean;
+}
+
+// Frame that can be referenced by `relative_to`, with its pose in another frame
+interface FrameDefinition {
+  pose: Matrix4;
+  relativeTo: string;
+  path: string;
+}
+
+// Joint types that map directly to URDF
+const JOINT_TYPES: ReadonlyArray<Joint['type']> = ['revolute', 'continuous', 'prismatic', 'fixed'];
+
+// Frames that coincide with the model frame
+const MODEL_FRAMES = new Set(['__model__', 'world']);
+
+// Link name URDF uses for the world frame
+const WORLD = 'world';
+
+/**
+ * SDF (SDFormat) Parser class
+ *
+ * Reads the first model of an SDF document into the same `Robot` structure
+ * `URDFParser` produces. Poses, including `relative_to` references to links,
+ * joints and explicit frames, are resolved in the model frame and converted
+ * to URDF joint origins; each link frame is placed at its parent joint frame,
+ * root links at the model frame, and their inertials, visuals and collisions
+ * are re-expressed accordingly.
+ * Joints closing kinematic loops, nested models, plugins and joint types
+ * without a URDF equivalent are reported as diagnostics.
+ */
+export class SDFParser {
+  private parser: XMLParser;
+  private options: SDFParserOptions;
+
+  /**
+   * Diagnostics collected by the last call to `parse` when `collectDiagnostics` is enabled
+   */
+  diagnostics: Diagnostic[] = [];
+
+  private frames = new Map<string, FrameDefinition>();
+  private framePoses = new Map<string, Matrix4>();
+
+  /**
+   * Constructor
+   * @param options Parser options
+   */
+  constructor(options: SDFParserOptions = {}) {
+    this.options = options;
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      parseTagValue: false,
+      ...options.xmlParserOptions,
+    });
+  }
+
+  /**
+   * Parse SDF text
+   * @param text SDF text
+   * @returns Robot built from the first model
+   */
+  parse(text: string): Robot {
+    this.diagnostics = [];
+    this.frames = new Map();
+    this.framePoses = new Map();
+
+    const robot = this.processSDF(this.parser.parse(text));
+
+    if (this.options.collectDiagnostics) {
+      this.diagnostics.push(...validate(robot));
+    }
+
+    return robot;
+  }
+
+  /**
+   * Report a problem found while parsing
+   * @param diagnostic Diagnostic
+   */
+  private report(diagnostic: Diagnostic): void {
+    if (this.options.collectDiagnostics) {
+      this.diagnostics.push(diagnostic);
+    } else {
+      console.warn(diagnostic.message);
+    }
+  }
+
+  /**
+   * Generate robot from parsed object
+   * @param parsed Parsed object
+   * @returns Robot object
+   */
+  private processSDF(parsed: any): Robot {
+    if (!parsed.sdf) {
+      throw new Error('Invalid SDF: Missing sdf element');
+    }
+
+    const models = ensureArray(parsed.sdf.model);
+    if (models.length === 0) {
+      throw new Error('Invalid SDF: Missing model element');
+    }
+    for (const [index, model] of models.slice(1).entries()) {
+      this.report({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `/sdf/model${nameSelector(getAttribute(model, 'name') ?? String(index + 2))}`,
+        message: 'Only the first model of an SDF document is imported',
+      });
+    }
+
+    return this.processModel(models[0], getAttribute(parsed.sdf, 'version'));
+  }
+
+  /**
+   * Process model element
+   * @param model Model data
+   * @param version SDF version
+   * @returns Robot object
+   */
+  private processModel(model: any, version: string | undefined): Robot {
+    const name = getAttribute(model, 'name') || '';
+    const path = `/sdf/model${nameSelector(name)}`;
+
+    for (const [index, nested] of ensureArray<any>(model.model).entries()) {
+      this.report({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/model${nameSelector(getAttribute(nested, 'name') ?? String(index + 1))}`,
+        message: 'Nested models are not supported and are skipped',
+      });
+    }
+    for (const [index, include] of ensureArray<any>(model.include).entries()) {
+      this.report({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/include[${index + 1}]`,
+        message: `Included model ${textOf(include.uri) ?? ''} is not supported and is skipped`,
+      });
+    }
+    this.reportPlugins(model, path);
+
+    const linkData = ensureArray<any>(model.link).filter((link, index) => {
+      if (getAttribute(link, 'name')) {
+        return true;
+      }
+      this.report({
+        code: 'MISSING_LINK_NAME',
+        severity: 'warning',
+        path: `${path}/link[${index + 1}]`,
+        message: 'Link without name found, skipping',
+      });
+      return false;
+    });
+    const jointData = ensureArray<any>(model.joint).filter((joint, index) =>
+      this.checkJoint(joint, index, path)
+    );
+
+    this.defineFrames(model, linkData, jointData, path);
+    for (const [frameName, frame] of this.frames) {
+      this.resolveFrame(frameName, frame.path);
+    }
+
+    // Keep the first joint reaching each link and drop joints that close loops
+    const parentOf = new Map<string, string>();
+    const treeJoints = jointData.filter(joint => {
+      const parent = textOf(joint.parent)!;
+      const child = textOf(joint.child)!;
+      let ancestor: string | undefined = parent;
+      while (ancestor !== undefined && ancestor !== child) {
+        ancestor = parentOf.get(ancestor);
+      }
+      if (parentOf.has(child) || ancestor === child) {
+        this.report({
+          code: 'CLOSED_LOOP',
+          severity: 'warning',
+          path: `${path}/joint${nameSelector(getAttribute(joint, 'name') ?? '')}`,
+          message: `Joint ${getAttribute(joint, 'name')} closes a kinematic loop and is skipped`,
+        });
+        return false;
+      }
+      parentOf.set(child, parent);
+      return true;
+    });
+
+    // URDF places each link frame at the frame of its parent joint, and root links at the model frame
+    const urdfFrames = new Map<string, Matrix4>();
+    for (const joint of treeJoints) {
+      const name = getAttribute(joint, 'name')!;
+      urdfFrames.set(textOf(joint.child)!, this.resolveFrame(name, this.frames.get(name)!.path));
+    }
+    const urdfFrame = (link: string): Matrix4 => urdfFrames.get(link) ?? identityMatrix4();
+
+    const links = linkData.map(link => this.processLink(link, urdfFrame, path));
+    const joints = treeJoints.map(joint => this.processJoint(joint, urdfFrame, version, path));
+
+    if (
+      joints.some(joint => joint.parent.link === WORLD) &&
+      !links.some(link => link.name === WORLD)
+    ) {
+      links.unshift({ name: WORLD, visuals: [], collisions: [] });
+    }
+
+    return { name, links, joints, materials: [], transmissions: [] };
+  }
+
+  /**
+   * Check that a joint has a name, type, parent and child
+   * @param joint Joint data
+   * @param index Zero-based index among the model's joints
+   * @param modelPath Path to the model element
+   * @returns True if the joint can be processed
+   */
+  private checkJoint(joint: any, index: number, modelPath: string): boolean {
+    const name = getAttribute(joint, 'name');
+    const type = getAttribute(joint, 'type');
+    if (!name || !type) {
+      this.report({
+        code: 'MISSING_JOINT_NAME_OR_TYPE',
+        severity: 'warning',
+        path: `${modelPath}/joint${name ? nameSelector(name) : `[${index + 1}]`}`,
+        message: 'Joint without name or type found, skipping',
+      });
+      return false;
+    }
+    if (!textOf(joint.parent) || !textOf(joint.child)) {
+      this.report({
+        code: 'MISSING_JOINT_PARENT_OR_CHILD',
+        severity: 'warning',
+        path: `${modelPath}/joint${nameSelector(name)}`,
+        message: `Joint ${name} missing parent or child link, skipping`,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Register the links, joints and explicit frames of a model for `relative_to` resolution
+   * @param model Model data
+   * @param links Link data
+   * @param joints Joint data
+   * @param modelPath Path to the model element
+   */
+  private defineFrames(model: any, links: any[], joints: any[], modelPath: string): void {
+    const define = (name: string, pose: any, defaultFrame: string, path: string) => {
+      if (!this.frames.has(name)) {
+        this.frames.set(name, {
+          pose: this.processPose(pose, `${path}/pose`),
+          relativeTo: getAttribute(pose, 'relative_to') ?? defaultFrame,
+          path,
+        });
+      }
+    };
+
+    for (const link of links) {
+      const name = getAttribute(link, 'name')!;
+      define(name, link.pose, '__model__', `${modelPath}/link${nameSelector(name)}`);
+    }
+    for (const joint of joints) {
+      const name = getAttribute(joint, 'name')!;
+      define(name, joint.pose, textOf(joint.child)!, `${modelPath}/joint${nameSelector(name)}`);
+    }
+    for (const [index, frame] of ensureArray<any>(model.frame).entries()) {
+      const name = getAttribute(frame, 'name');
+      if (name) {
+        const attachedTo = getAttribute(frame, 'attached_to') ?? '__model__';
+        define(name, frame.pose, attachedTo, `${modelPath}/frame${nameSelector(name)}`);
+      } else {
+        this.report({
+          code: 'UNSUPPORTED_ELEMENT',
+          severity: 'warning',
+          path: `${modelPath}/frame[${index + 1}]`,
+          message: 'Frame without name found, skipping',
+        });
+      }
+    }
+  }
+
+  /**
+   * Resolve the pose of a frame in the model frame
+   * @param name Link, joint or frame name
+   * @param path Path to the element referencing the frame, for diagnostics
+   * @param visiting Frames being resolved, used to detect cycles
+   * @returns Transform from the frame to the model frame (identity when unresolvable)
+   */
+  private resolveFrame(name: string, path: string, visiting = new Set<string>()): Matrix4 {
+    if (MODEL_FRAMES.has(name)) {
+      return identityMatrix4();
+    }
+    const cached = this.framePoses.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const frame = this.frames.get(name);
+    if (!frame || visiting.has(name)) {
+      this.report({
+        code: 'UNKNOWN_FRAME',
+        severity: 'error',
+        path,
+        message: frame
+          ? `Pose of frame ${name} is defined in a cycle; using the model frame`
+          : `Unknown frame ${name}; using the model frame`,
+      });
+      return identityMatrix4();
+    }
+
+    visiting.add(name);
+    const parent = this.resolveFrame(frame.relativeTo, `${frame.path}/pose`, visiting);
+    const pose = multiplyMatrix4(parent, frame.pose);
+    this.framePoses.set(name, pose);
+    return pose;
+  }
+
+  /**
+   * Compute the pose of an element in a target frame
+   * @param poseData Pose data of the element
+   * @param defaultFrame Frame the pose is relative to when `relative_to` is absent
+   * @param target Frame the result is expressed in
+   * @param path Path to the pose element
+   * @returns Transform from the element frame to the target frame
+   */
+  private poseIn(poseData: any, defaultFrame: string, target: Matrix4, path: string): Matrix4 {
+    const pose = this.processPose(poseData, path);
+    const relativeTo = getAttribute(poseData, 'relative_to') ?? defaultFrame;
+    return multiplyMatrix4(
+      invertMatrix4(target),
+      multiplyMatrix4(this.resolveFrame(relativeTo, path), pose)
+    );
+  }
+
+  /**
+   * Process link element
+   * @param linkData Link data
+   * @param urdfFrame Pose of the URDF frame of a link in the model frame
+   * @param modelPath Path to the model element
+   * @returns Processed link object
+   */
+  private processLink(
+    linkData: any,
+    urdfFrame: (link: string) => Matrix4,
+    modelPath: string
+  ): Link {
+    const name = getAttribute(linkData, 'name')!;
+    const path = `${modelPath}/link${nameSelector(name)}`;
+    const frame = urdfFrame(name);
+    const link: Link = { name, visuals: [], collisions: [] };
+
+    this.reportPlugins(linkData, path);
+
+    if (linkData.inertial) {
+      link.inertial = this.processInertial(linkData.inertial, name, frame, `${path}/inertial`);
+    }
+
+    for (const [index, visualData] of ensureArray<any>(linkData.visual).entries()) {
+      const visual = this.processVisual(visualData, name, frame, `${path}/visual[${index + 1}]`);
+      if (visual) {
+        link.visuals.push(visual);
+      }
+    }
+
+    for (const [index, collisionData] of ensureArray<any>(linkData.collision).entries()) {
+      const collision = this.processCollision(
+        collisionData,
+        name,
+        frame,
+        `${path}/collision[${index + 1}]`
+      );
+      if (collision) {
+        link.collisions.push(collision);
+      }
+    }
+
+    return link;
+  }
+
+  /**
+   * Process inertial element
+   * @param inertialData Inertial data
+   * @param link Link name
+   * @param frame Pose of the URDF link frame in the model frame
+   * @param path Element path
+   * @returns Processed inertial object
+   */
+  private processInertial(inertialData: any, link: string, frame: Matrix4, path: string): Inertial {
+    const inertial: Inertial = {};
+
+    const origin = toOrigin(this.poseIn(inertialData.pose, link, frame, `${path}/pose`));
+    if (origin) {
+      inertial.origin = origin;
+    }
+
+    inertial.mass = { value: this.numberValue(inertialData.mass, `${path}/mass`, 1) };
+
+    const inertia = inertialData.inertia ?? {};
+    const inertiaPath = `${path}/inertia`;
+    inertial.inertia = {
+      ixx: this.numberValue(inertia.ixx, `${inertiaPath}/ixx`, 1),
+      ixy: this.numberValue(inertia.ixy, `${inertiaPath}/ixy`),
+      ixz: this.numberValue(inertia.ixz, `${inertiaPath}/ixz`),
+      iyy: this.numberValue(inertia.iyy, `${inertiaPath}/iyy`, 1),
+      iyz: this.numberValue(inertia.iyz, `${inertiaPath}/iyz`),
+      izz: this.numberValue(inertia.izz, `${inertiaPath}/izz`, 1),
+    };
+
+    return inertial;
+  }
+
+  /**
+   * Process visual element
+   * @param visualData Visual data
+   * @param link Link name
+   * @param frame Pose of the URDF link frame in the model frame
+   * @param path Element path
+   * @returns Processed visual object, or undefined if its geometry is not supported
+   */
+  private processVisual(
+    visualData: any,
+    link: string,
+    frame: Matrix4,
+    path: string
+  ): Visual | undefined {
+    const geometry = this.processGeometry(visualData.geometry, `${path}/geometry`);
+    if (!geometry) {
+      return undefined;
+    }
+
+    const visual: Visual = {};
+    const name = getAttribute(visualData, 'name');
+    if (name) {
+      visual.name = name;
+    }
+    const origin = toOrigin(this.poseIn(visualData.pose, link, frame, `${path}/pose`));
+    if (origin) {
+      visual.origin = origin;
+    }
+    visual.geometry = geometry;
+    if (visualData.material) {
+      const material = this.processMaterial(visualData.material, `${path}/material`);
+      if (material) {
+        visual.material = material;
+      }
+    }
+
+    return visual;
+  }
+
+  /**
+   * Process collision element
+   * @param collisionData Collision data
+   * @param link Link name
+   * @param frame Pose of the URDF link frame in the model frame
+   * @param path Element path
+   * @returns Processed collision object, or undefined if its geometry is not supported
+   */
+  private processCollision(
+    collisionData: any,
+    link: string,
+    frame: Matrix4,
+    path: string
+  ): Collision | undefined {
+    const geometry = this.processGeometry(collisionData.geometry, `${path}/geometry`);
+    if (!geometry) {
+      return undefined;
+    }
+
+    const collision: Collision = {};
+    const name = getAttribute(collisionData, 'name');
+    if (name) {
+      collision.name = name;
+    }
+    const origin = toOrigin(this.poseIn(collisionData.pose, link, frame, `${path}/pose`));
+    if (origin) {
+      collision.origin = origin;
+    }
+    collision.geometry = geometry;
+
+    return collision;
+  }
+
+  /**
+   * Process geometry element
+   * @param geometryData Geometry data
+   * @param path Element path
+   * @returns Processed geometry object, or undefined for shapes URDF lacks
+   */
+  private processGeometry(geometryData: any, path: string): Geometry | undefined {
+    if (geometryData?.box) {
+      return { box: { size: this.vector3Value(geometryData.box.size, `${path}/box/size`) } };
+    }
+    if (geometryData?.cylinder) {
+      return {
+        cylinder: {
+          radius: this.numberValue(geometryData.cylinder.radius, `${path}/cylinder/radius`),
+          length: this.numberValue(geometryData.cylinder.length, `${path}/cylinder/length`),
+        },
+      };
+    }
+    if (geometryData?.sphere) {
+      return {
+        sphere: { radius: this.numberValue(geometryData.sphere.radius, `${path}/sphere/radius`) },
+      };
+    }
+    if (geometryData?.mesh) {
+      const geometry: Geometry = { mesh: { filename: textOf(geometryData.mesh.uri) } };
+      if (geometryData.mesh.scale !== undefined) {
+        geometry.mesh!.scale = this.vector3Value(geometryData.mesh.scale, `${path}/mesh/scale`, {
+          x: 1,
+          y: 1,
+          z: 1,
+        });
+      }
+      return geometry;
+    }
+
+    const shapes = typeof geometryData === 'object' ? Object.keys(geometryData) : [];
+    this.report({
+      code: 'UNSUPPORTED_ELEMENT',
+      severity: 'warning',
+      path,
+      message: `Geometry ${shapes.join(', ') || '(empty)'} has no URDF equivalent; element is skipped`,
+    });
+    return undefined;
+  }
+
+  /**
+   * Process material element
+   * @param materialData Material data
+   * @param path Element path
+   * @returns Processed material object, or undefined without color or texture
+   */
+  private processMaterial(materialData: any, path: string): Material | undefined {
+    const material: Material = {};
+
+    const color = materialData.diffuse ?? materialData.ambient;
+    if (color !== undefined) {
+      material.color = {
+        rgba: parseRGBA(textOf(color), undefined, this.context(`${path}/diffuse`)),
+      };
+    }
+
+    const pbr = materialData.pbr?.metal ?? materialData.pbr?.specular;
+    const albedoMap = textOf(pbr?.albedo_map);
+    if (albedoMap !== undefined) {
+      material.texture = { filename: albedoMap };
+    }
+
+    if (!material.color && !material.texture) {
+      if (materialData.script) {
+        this.report({
+          code: 'UNSUPPORTED_ELEMENT',
+          severity: 'warning',
+          path: `${path}/script`,
+          message: `Material script ${textOf(materialData.script.name) ?? ''} has no URDF equivalent`,
+        });
+      }
+      return undefined;
+    }
+
+    return material;
+  }
+
+  /**
+   * Process joint element
+   * @param jointData Joint data
+   * @param urdfFrame Pose of the URDF frame of a link in the model frame
+   * @param version SDF version
+   * @param modelPath Path to the model element
+   * @returns Processed joint object
+   */
+  private processJoint(
+    jointData: any,
+    urdfFrame: (link: string) => Matrix4,
+    version: string | undefined,
+    modelPath: string
+  ): Joint {
+    const name = getAttribute(jointData, 'name')!;
+    const path = `${modelPath}/joint${nameSelector(name)}`;
+    const parent = textOf(jointData.parent)!;
+    const child = textOf(jointData.child)!;
+    const sdfType = getAttribute(jointData, 'type')!;
+    // A missing axis takes the SDF defaults, including xyz 0 0 1
+    const axisData = jointData.axis ?? {};
+
+    this.reportPlugins(jointData, path);
+
+    let type = sdfType as Joint['type'];
+    if (!JOINT_TYPES.includes(type)) {
+      this.report({
+        code: 'UNSUPPORTED_JOINT_TYPE',
+        severity: 'warning',
+        path,
+        message: `URDF has no ${sdfType} joint; joint ${name} is converted to a fixed joint`,
+      });
+      type = 'fixed';
+    } else if (
+      type === 'revolute' &&
+      (axisData.limit?.lower === undefined || axisData.limit?.upper === undefined)
+    ) {
+      // SDF revolute joints without position limits rotate freely
+      type = 'continuous';
+    }
+
+    const joint: Joint = { name, type, parent: { link: parent }, child: { link: child } };
+
+    const jointFrame = urdfFrame(child);
+    const origin = toOrigin(multiplyMatrix4(invertMatrix4(urdfFrame(parent)), jointFrame));
+    if (origin) {
+      joint.origin = origin;
+    }
+
+    if (type === 'fixed') {
+      return joint;
+    }
+
+    // Express the axis in the joint frame, which is the URDF child link frame
+    const xyz = this.vector3Value(axisData.xyz, `${path}/axis/xyz`, { x: 0, y: 0, z: 1 });
+    const expressedIn = getAttribute(axisData.xyz, 'expressed_in');
+    const useParentModelFrame =
+      isBefore17(version) && isTrue(textOf(axisData.use_parent_model_frame));
+    const axisFrame =
+      expressedIn !== undefined
+        ? getRotation(this.resolveFrame(expressedIn, `${path}/axis/xyz`))
+        : useParentModelFrame
+          ? undefined
+          : getRotation(jointFrame);
+    const axis = axisFrame ? rotateVector(axisFrame, xyz) : xyz;
+    joint.axis = {
+      xyz: snapVector3(rotateVector(transposeMatrix3(getRotation(jointFrame)), axis)),
+    };
+
+    if (axisData.limit) {
+      const limitPath = `${path}/axis/limit`;
+      const keys =
+        type === 'continuous' ? ['effort', 'velocity'] : ['lower', 'upper', 'effort', 'velocity'];
+      const limit: Record<string, number> = {};
+      for (const key of keys) {
+        if (axisData.limit[key] !== undefined) {
+          limit[key] = this.numberValue(axisData.limit[key], `${limitPath}/${key}`);
+        }
+      }
+      if (Object.keys(limit).length > 0) {
+        joint.limit = limit;
+      }
+    }
+
+    if (axisData.dynamics) {
+      const dynamicsPath = `${path}/axis/dynamics`;
+      joint.dynamics = {};
+      if (axisData.dynamics.damping !== undefined) {
+        joint.dynamics.damping = this.numberValue(
+          axisData.dynamics.damping,
+          `${dynamicsPath}/damping`
+        );
+      }
+      if (axisData.dynamics.friction !== undefined) {
+        joint.dynamics.friction = this.numberValue(
+          axisData.dynamics.friction,
+          `${dynamicsPath}/friction`
+        );
+      }
+    }
+
+    const mimicJoint = getAttribute(axisData.mimic, 'joint');
+    if (mimicJoint) {
+      const mimicPath = `${path}/axis/mimic`;
+      joint.mimic = {
+        joint: mimicJoint,
+        multiplier: this.numberValue(axisData.mimic.multiplier, `${mimicPath}/multiplier`, 1),
+        offset: this.numberValue(axisData.mimic.offset, `${mimicPath}/offset`, 0),
+      };
+    }
+
+    return joint;
+  }
+
+  /**
+   * Report plugins of an element as unsupported
+   * @param element Model, link or joint data
+   * @param path Element path
+   */
+  private reportPlugins(element: any, path: string): void {
+    for (const [index, plugin] of ensureArray<any>(element.plugin).entries()) {
+      const name = getAttribute(plugin, 'name');
+      this.report({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/plugin${name ? nameSelector(name) : `[${index + 1}]`}`,
+        message: `Plugin ${name ?? getAttribute(plugin, 'filename') ?? ''} is not supported and is skipped`,
+      });
+    }
+  }
+
+  /**
+   * Process pose element
+   * @param poseData Pose data
+   * @param path Element path
+   * @returns Transform from the posed frame to the frame it is relative to
+   */
+  private processPose(poseData: any, path: string): Matrix4 {
+    const text = textOf(poseData);
+    if (text === undefined || text.trim() === '') {
+      return identityMatrix4();
+    }
+
+    const quaternion = getAttribute(poseData, 'rotation_format') === 'quat_xyzw';
+    const values = this.numberList(text, quaternion ? 7 : 6, path);
+    if (!values) {
+      return identityMatrix4();
+    }
+
+    const [x, y, z, ...rotation] = values;
+    const translation = { x, y, z };
+    if (quaternion) {
+      const [qx, qy, qz, qw] = rotation;
+      return composeMatrix4(quaternionToMatrix3({ x: qx, y: qy, z: qz, w: qw }), translation);
+    }
+
+    const scale = isTrue(getAttribute(poseData, 'degrees')) ? Math.PI / 180 : 1;
+    const rpy = { x: rotation[0] * scale, y: rotation[1] * scale, z: rotation[2] * scale };
+    return originToMatrix4({ xyz: translation, rpy });
+  }
+
+  /**
+   * Parse a space-separated list of numbers
+   * @param text Element text
+   * @param count Expected number of values
+   * @param path Element path
+   * @returns Numbers, or undefined if the count does not match
+   */
+  private numberList(text: string, count: number, path: string): number[] | undefined {
+    const parts = text.trim().split(/\s+/);
+    if (parts.length !== count) {
+      if (this.options.strict) {
+        throw new URDFParseError(
+          `Expected ${count} space-separated numbers, got "${text}"`,
+          text,
+          path
+        );
+      }
+      return undefined;
+    }
+    return parts.map(part => parseNumber(part, 0, this.context(path)));
+  }
+
+  /**
+   * Parse numeric element text
+   * @param element XML element
+   * @param path Element path
+   * @param defaultValue Default value
+   * @returns Number
+   */
+  private numberValue(element: any, path: string, defaultValue: number = 0): number {
+    return parseNumber(textOf(element), defaultValue, this.context(path));
+  }
+
+  /**
+   * Parse Vector3 element text
+   * @param element XML element
+   * @param path Element path
+   * @param defaultValue Default value
+   * @returns Vector3 object
+   */
+  private vector3Value(element: any, path: string, defaultValue?: Vector3): Vector3 {
+    return parseVector3(textOf(element), defaultValue, this.context(path));
+  }
+
+  /**
+   * Create parse context for element text
+   * @param path Element path
+   * @returns Parse context
+   */
+  private context(path: string): ParseContext {
+    return { strict: this.options.strict, element: path };
+  }
+}
+
+/**
+ * Get the text content of an XML element
+ * @param element XML element
+ * @returns Text content, or undefined if the element is missing or empty
+ */
+function textOf(element: any): string | undefined {
+  if (element === undefined || element === null) {
+    return undefined;
+  }
+  if (typeof element === 'object') {
+    return element['#text'] !== undefined ? String(element['#text']) : undefined;
+  }
+  return String(element);
+}
+
+/**
+ * Convert transform to URDF origin
+ * @param m 4x4 transform
+ * @returns Origin, or undefined for the identity transform
+ */
+function toOrigin(m: Matrix4): { xyz: Vector3; rpy: Vector3 } | undefined {
+  const origin = matrix4ToOrigin(m);
+  const { xyz, rpy } = origin;
+  return [xyz.x, xyz.y, xyz.z, rpy.x, rpy.y, rpy.z].every(value => value === 0)
+    ? undefined
+    : origin;
+}
+
+/**
+ * Drop round-off residue from a computed vector
+ * @param v Vector
+ * @returns Vector with components below 1e-12 in magnitude set to zero
+ */
+function snapVector3(v: Vector3): Vector3 {
+  const snap = (value: number) => (Math.abs(value) < 1e-12 ? 0 : value);
+  return { x: snap(v.x), y: snap(v.y), z: snap(v.z) };
+}
+
+/**
+ * Parse an SDF boolean
+ * @param text Text content or attribute value
+ * @returns True for `true` and `1`
+ */
+function isTrue(text: string | undefined): boolean {
+  const value = text?.trim();
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Check whether an SDF version precedes 1.7, where axes could be expressed in the model frame
+ * @param version Value of the `version` attribute
+ * @returns True for versions before 1.7
+ */
+function isBefore17(version: string | undefined): boolean {
+  const [major, minor] = (version ?? '').split('.').map(Number);
+  return major < 1 || (major === 1 && minor < 7);
+}
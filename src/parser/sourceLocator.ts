@@ -0,0 +1,263 @@
+import { SourceLocation } from '../types/diagnostics';
+import { nameSelector } from '../validation/validator';
+
+// Tags that may repeat under the same parent and are addressed by index
+const INDEXED_TAGS = new Set(['visual', 'collision']);
+
+// Predefined XML entities
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+interface OpenElement {
+  path: string;
+  tagCounts: Map<string, number>;
+}
+
+interface StartTag {
+  name: string;
+  attributes: Record<string, string>;
+  selfClosing: boolean;
+  end: number;
+}
+
+/**
+ * Locate the start tag of every element in URDF text
+ *
+ * Elements are keyed by the same paths used in diagnostics: children of
+ * `<robot>` are addressed by name (`/robot/link[@name='base']`) or by 1-based
+ * index when unnamed (`/robot/link[2]`), `<visual>` and `<collision>` by
+ * index, and other elements by tag only. When several elements share a path,
+ * the first keeps it and later ones get a positional suffix, so the second
+ * `<link name="base">` is keyed `/robot/link[@name='base'][2]`.
+ * @param text URDF text
+ * @returns Source location keyed by element path
+ */
+export function locateElements(text: string): Map<string, SourceLocation> {
+  const locations = new Map<string, SourceLocation>();
+  const occurrences = new Map<string, number>();
+  const lineStarts = computeLineStarts(text);
+  const stack: OpenElement[] = [{ path: '', tagCounts: new Map() }];
+  let position = 0;
+
+  while ((position = text.indexOf('<', position)) !== -1) {
+    if (text.startsWith('<!--', position)) {
+      position = skipPast(text, '-->', position);
+    } else if (text.startsWith('<![CDATA[', position)) {
+      position = skipPast(text, ']]>', position);
+    } else if (text.startsWith('<?', position)) {
+      position = skipPast(text, '?>', position);
+    } else if (text.startsWith('<!', position)) {
+      position = skipDeclaration(text, position);
+    } else if (text.startsWith('</', position)) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+      position = skipPast(text, '>', position);
+    } else {
+      const tag = readStartTag(text, position);
+      const parent = stack[stack.length - 1];
+      const count = (parent.tagCounts.get(tag.name) ?? 0) + 1;
+      parent.tagCounts.set(tag.name, count);
+
+      const basePath = `${parent.path}/${tag.name}${pathSuffix(parent.path, tag, count)}`;
+      const occurrence = (occurrences.get(basePath) ?? 0) + 1;
+      occurrences.set(basePath, occurrence);
+
+      const path = occurrence > 1 ? `${basePath}[${occurrence}]` : basePath;
+      locations.set(path, toLocation(position, lineStarts));
+      if (!tag.selfClosing) {
+        stack.push({ path, tagCounts: new Map() });
+      }
+      position = tag.end;
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Find the location of an element path, falling back to its closest located ancestor
+ * @param locations Locations returned by locateElements
+ * @param path Element path
+ * @returns Source location
+ */
+export function findLocation(
+  locations: Map<string, SourceLocation>,
+  path: string
+): SourceLocation | undefined {
+  let current = path;
+  while (current !== '') {
+    const location = locations.get(current);
+    if (location) {
+      return location;
+    }
+    current = current.slice(0, lastSeparator(current));
+  }
+  return undefined;
+}
+
+/**
+ * Build path suffix of an element
+ * @param parentPath Path of the parent element
+ * @param tag Parsed start tag
+ * @param count 1-based index among siblings with the same tag
+ * @returns Suffix such as `[@name='base']`, `[2]` or an empty string
+ */
+function pathSuffix(parentPath: string, tag: StartTag, count: number): string {
+  if (parentPath === '/robot') {
+    const name = tag.attributes['name'];
+    return name ? nameSelector(name) : `[${count}]`;
+  }
+  return INDEXED_TAGS.has(tag.name) ? `[${count}]` : '';
+}
+
+/**
+ * Read a start tag
+ * @param text XML text
+ * @param start Offset of `<`
+ * @returns Tag name, attributes and offset after `>`
+ */
+function readStartTag(text: string, start: number): StartTag {
+  const attributes: Record<string, string> = {};
+  const nameMatch = /^<([^\s/>]+)/.exec(text.slice(start, start + 256));
+  const name = nameMatch ? nameMatch[1] : '';
+  let position = start + 1 + name.length;
+
+  while (position < text.length) {
+    const char = text[position];
+    if (char === '>') {
+      return { name, attributes, selfClosing: false, end: position + 1 };
+    }
+    if (char === '/' && text[position + 1] === '>') {
+      return { name, attributes, selfClosing: true, end: position + 2 };
+    }
+
+    const attribute = /^([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/.exec(
+      text.slice(position, position + 4096)
+    );
+    if (attribute) {
+      attributes[attribute[1]] = decodeEntities(attribute[3] ?? attribute[4]);
+      position += attribute[0].length;
+    } else {
+      position++;
+    }
+  }
+
+  return { name, attributes, selfClosing: true, end: text.length };
+}
+
+/**
+ * Skip a `<!DOCTYPE ...>` declaration, including an internal subset
+ * @param text XML text
+ * @param start Offset of `<!`
+ * @returns Offset after the declaration
+ */
+function skipDeclaration(text: string, start: number): number {
+  let depth = 0;
+  for (let position = start + 2; position < text.length; position++) {
+    if (text[position] === '[') {
+      depth++;
+    } else if (text[position] === ']') {
+      depth--;
+    } else if (text[position] === '>' && depth <= 0) {
+      return position + 1;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Skip past a terminator
+ * @param text XML text
+ * @param terminator Terminating string
+ * @param start Offset to search from
+ * @returns Offset after the terminator, or the end of the text
+ */
+function skipPast(text: string, terminator: string, start: number): number {
+  const index = text.indexOf(terminator, start);
+  return index === -1 ? text.length : index + terminator.length;
+}
+
+/**
+ * Decode predefined and numeric character entities
+ * @param value Raw attribute value
+ * @returns Decoded value
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Compute offsets of line starts
+ * @param text Text
+ * @returns Offset of the first character of every line
+ */
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Convert offset to line and column
+ * @param offset 0-based character offset
+ * @param lineStarts Offsets of line starts
+ * @returns Source location
+ */
+function toLocation(offset: number, lineStarts: number[]): SourceLocation {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+}
+
+/**
+ * Find the separator before the last path segment, ignoring slashes inside
+ * brackets and quoted names
+ * @param path Element path
+ * @returns Index of the separating slash
+ */
+function lastSeparator(path: string): number {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (quote !== undefined) {
+      if (path[i] === quote) {
+        quote = undefined;
+      }
+    } else if (path[i] === "'" || path[i] === '"') {
+      quote = path[i];
+    } else if (path[i] === ']') {
+      depth++;
+    } else if (path[i] === '[') {
+      depth--;
+    } else if (path[i] === '/' && depth === 0) {
+      return i;
+    }
+  }
+  return 0;
+}
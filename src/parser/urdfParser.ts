@@ -1,17 +1,65 @@
-import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { XMLParser } from 'fast-xml-parser';
 
+import { URDFParseError } from '../errors';
+import { resolveMaterials } from '../materials/materialResolver';
+import { ResourceResolver, ResourceResolverOptions } from '../resources/resourceResolver';
+import { Diagnostic, SourceLocation } from '../types/diagnostics';
 import {
   Collision,
+  GazeboExtension,
   Geometry,
   Inertial,
   Joint,
   Link,
   Material,
+  ROS2Control,
+  ROS2ControlComponent,
+  ROS2ControlHardware,
+  ROS2ControlInterface,
   Robot,
   Transmission,
+  TransmissionActuator,
+  TransmissionJoint,
+  UnknownXML,
+  Vector3,
   Visual,
+  XMLElement,
 } from '../types/urdf';
-import { ensureArray, getAttribute, parseNumber, parseRGBA, parseVector3 } from '../utils/parsing';
+import {
+  ParseContext,
+  ensureArray,
+  getAttribute,
+  parseNumber,
+  parseRGBA,
+  parseVector3,
+} from '../utils/parsing';
+import { linkFirstEntries } from '../utils/transmission';
+import { childElements, parseXMLElements } from '../utils/xml';
+import { countOccurrence, elementPath, validate } from '../validation/validator';
+
+import { findLocation, locateElements } from './sourceLocator';
+
+// Child tags of <robot> the parser recognizes
+const ROBOT_CHILDREN = ['link', 'joint', 'material', 'transmission', 'ros2_control', 'gazebo'];
+
+// Child tags of <joint> the parser recognizes
+const JOINT_CHILDREN = [
+  'origin',
+  'parent',
+  'child',
+  'axis',
+  'limit',
+  'dynamics',
+  'calibration',
+  'mimic',
+  'safety_controller',
+];
+
+// Attributes of <inertia>
+const INERTIA_ATTRIBUTES = ['ixx', 'ixy', 'ixz', 'iyy', 'iyz', 'izz'];
+
+// Child tags of transmission <joint> and <actuator> elements the parser recognizes
+const TRANSMISSION_INTERFACE_CHILDREN = ['role', 'hardwareInterface', 'mechanicalReduction'];
 
 /**
  * Options for URDF parser
@@ -25,6 +73,39 @@ export interface URDFParserOptions {
    * Options for XML parser
    */
   xmlParserOptions?: any;
+  /**
+   * Collect diagnostics in `URDFParser.diagnostics` instead of logging skipped
+   * elements to the console, and validate the parsed robot
+   */
+  collectDiagnostics?: boolean;
+  /**
+   * Throw URDFParseError for malformed numeric and vector attributes
+   * instead of substituting default values
+   */
+  strict?: boolean;
+  /**
+   * Record the source location of every link, joint, visual, collision,
+   * material and transmission, retrievable with `getSourceLocation`
+   */
+  trackLocations?: boolean;
+  /**
+   * Rewrite mesh and texture URIs to resolved paths; `basePath` is used when
+   * the resolver options have no base path of their own. URIs that cannot be
+   * resolved are kept and reported as diagnostics
+   */
+  resolveResources?: ResourceResolverOptions;
+  /**
+   * Fill in the color and texture of visual materials that only reference a
+   * named material, reporting undefined and conflicting material names as diagnostics
+   */
+  resolveMaterials?: boolean;
+  /**
+   * Keep attributes, child elements and comments the parser does not recognize
+   * in the `unknown` field of the typed element that contains them, from the
+   * robot down to origins, limits, shapes, colors and transmission joints, so
+   * that `URDFWriter` can write them back
+   */
+  lossless?: boolean;
 }
 
 /**
@@ -32,9 +113,20 @@ export interface URDFParserOptions {
  */
 export class URDFParser {
   private parser: XMLParser;
-  private builder: XMLBuilder;
   private options: URDFParserOptions;
 
+  /**
+   * Diagnostics collected by the last call to `parse` when `collectDiagnostics` is enabled
+   */
+  diagnostics: Diagnostic[] = [];
+
+  /**
+   * Source locations of elements parsed by the last call to `parse` when `trackLocations` is enabled
+   */
+  sourceLocations = new WeakMap<object, SourceLocation>();
+
+  private locations?: Map<string, SourceLocation>;
+
   /**
    * Constructor
    * @param options Parser options
@@ -53,10 +145,6 @@ export class URDFParser {
       ...defaultXmlOptions,
       ...options.xmlParserOptions,
     });
-    this.builder = new XMLBuilder({
-      ...defaultXmlOptions,
-      ...options.xmlParserOptions,
-    });
   }
 
   /**
@@ -65,53 +153,171 @@ export class URDFParser {
    * @returns Parsed URDF object
    */
   parse(text: string): Robot {
+    this.diagnostics = [];
+    this.sourceLocations = new WeakMap();
+    this.locations = this.options.trackLocations ? locateElements(text) : undefined;
+
     const parsed = this.parser.parse(text);
-    return this.processURDF(parsed);
+    let robot: Robot;
+    try {
+      robot = this.processURDF(parsed, text);
+    } catch (error) {
+      if (error instanceof URDFParseError && error.element !== undefined) {
+        error.location = this.locate(error.element);
+      }
+      throw error;
+    }
+
+    if (this.options.resolveMaterials) {
+      resolveMaterials(robot).forEach(d => this.report(d));
+    }
+
+    if (this.options.resolveResources) {
+      const resolver = new ResourceResolver({
+        basePath: this.options.basePath,
+        ...this.options.resolveResources,
+      });
+      resolver.resolveRobot(robot, true).diagnostics.forEach(d => this.report(d));
+    }
+
+    if (this.options.collectDiagnostics) {
+      this.diagnostics.push(...validate(robot).map(d => this.withLocation(d)));
+    }
+
+    return robot;
+  }
+
+  /**
+   * Get the source location of a parsed element
+   * @param element Link, joint, visual, collision, material or transmission returned by `parse`
+   * @returns Location of the element's start tag, or undefined if not tracked
+   */
+  getSourceLocation(element: object): SourceLocation | undefined {
+    return this.sourceLocations.get(element);
+  }
+
+  /**
+   * Report a problem found while parsing
+   * @param diagnostic Diagnostic
+   */
+  private report(diagnostic: Diagnostic): void {
+    if (this.options.collectDiagnostics) {
+      this.diagnostics.push(this.withLocation(diagnostic));
+    } else {
+      console.warn(diagnostic.message);
+    }
+  }
+
+  /**
+   * Attach source location to a diagnostic when locations are tracked
+   * @param diagnostic Diagnostic
+   * @returns Diagnostic with location
+   */
+  private withLocation(diagnostic: Diagnostic): Diagnostic {
+    const location = this.locate(diagnostic.path);
+    return location ? { ...diagnostic, location } : diagnostic;
+  }
+
+  /**
+   * Find source location of an element path
+   * @param path Element path
+   * @returns Source location, or undefined if not tracked
+   */
+  private locate(path: string): SourceLocation | undefined {
+    return this.locations ? findLocation(this.locations, path) : undefined;
+  }
+
+  /**
+   * Record source location of a parsed element
+   * @param element Parsed element
+   * @param path Element path
+   * @returns The element
+   */
+  private track<T extends object>(element: T, path: string): T {
+    const location = this.locate(path);
+    if (location) {
+      this.sourceLocations.set(element, location);
+    }
+    return element;
   }
 
   /**
    * Generate URDF from parsed object
    * @param parsed Parsed object
+   * @param text URDF text, parsed again in document order for raw blocks
    * @returns URDF object
    */
-  private processURDF(parsed: any): Robot {
+  private processURDF(parsed: any, text: string): Robot {
     if (!parsed.robot) {
       throw new Error('Invalid URDF: Missing robot element');
     }
 
     const robot = parsed.robot;
 
-    // Process elements, ensuring they are always arrays
-    const links = this.processLinks(robot.link || []);
-    const joints = this.processJoints(robot.joint || []);
-    const materials = this.processMaterials(robot.material || []);
-    const transmissions = this.processTransmissions(robot.transmission || []);
+    // ros2_control and gazebo blocks, and unknown content in lossless mode, are
+    // read from a raw tree of the document to keep their order and exact text
+    const root =
+      this.options.lossless || robot.ros2_control !== undefined || robot.gazebo !== undefined
+        ? parseXMLElements(text).find(element => element.tag === 'robot')
+        : undefined;
+    const raw = this.options.lossless ? root : undefined;
 
-    return {
+    // Process elements, ensuring they are always arrays
+    const links = this.processLinks(robot.link || [], childElements(raw, 'link'));
+    const joints = this.processJoints(robot.joint || [], childElements(raw, 'joint'));
+    const materials = this.processMaterials(robot.material || [], childElements(raw, 'material'));
+    const transmissions = this.processTransmissions(
+      robot.transmission || [],
+      childElements(raw, 'transmission')
+    );
+
+    const result: Robot = {
       name: getAttribute(robot, 'name') || '',
       links: links,
       joints: joints,
       materials: materials,
       transmissions: transmissions,
     };
+
+    if (root) {
+      const ros2Control = this.processROS2Controls(childElements(root, 'ros2_control'));
+      if (ros2Control.length > 0) {
+        result.ros2Control = ros2Control;
+      }
+      const gazebo = this.processGazeboExtensions(childElements(root, 'gazebo'));
+      if (gazebo.length > 0) {
+        result.gazebo = gazebo;
+      }
+    }
+
+    return this.keepUnknown(result, raw, ['name'], ROBOT_CHILDREN);
   }
 
   /**
    * Process links
    * @param linkData Link data
+   * @param rawLinks Raw link elements in lossless mode
    * @returns Processed link array
    */
-  private processLinks(linkData: any): Link[] {
+  private processLinks(linkData: any, rawLinks: XMLElement[]): Link[] {
     const links: Link[] = [];
     const linkArray = ensureArray(linkData);
+    const occurrences = new Map<string, number>();
 
-    for (const link of linkArray) {
+    for (const [index, link] of linkArray.entries()) {
       const name = getAttribute(link, 'name');
       if (!name) {
-        console.warn('Link without name found, skipping');
+        this.report({
+          code: 'MISSING_LINK_NAME',
+          severity: 'warning',
+          path: elementPath('link', index),
+          message: 'Link without name found, skipping',
+        });
         continue;
       }
 
+      const path = elementPath('link', name, countOccurrence(occurrences, name));
+      const raw = rawLinks[index];
       const processedLink: Link = {
         name,
         visuals: [], // Initialize with empty array
@@ -120,20 +326,33 @@ export class URDFParser {
 
       // Process inertial element
       if (link.inertial) {
-        processedLink.inertial = this.processInertial(link.inertial);
+        processedLink.inertial = this.processInertial(
+          link.inertial,
+          `${path}/inertial`,
+          childElements(raw, 'inertial')[0]
+        );
       }
 
       // Process visual element
       if (link.visual) {
-        processedLink.visuals = ensureArray(link.visual).map(v => this.processVisual(v));
+        processedLink.visuals = ensureArray(link.visual).map((v, i) =>
+          this.processVisual(v, `${path}/visual[${i + 1}]`, childElements(raw, 'visual')[i])
+        );
       }
 
       // Process collision element
       if (link.collision) {
-        processedLink.collisions = ensureArray(link.collision).map(c => this.processCollision(c));
+        processedLink.collisions = ensureArray(link.collision).map((c, i) =>
+          this.processCollision(
+            c,
+            `${path}/collision[${i + 1}]`,
+            childElements(raw, 'collision')[i]
+          )
+        );
       }
 
-      links.push(processedLink);
+      this.keepUnknown(processedLink, raw, ['name'], ['inertial', 'visual', 'collision']);
+      links.push(this.track(processedLink, path));
     }
 
     return links;
@@ -142,52 +361,76 @@ export class URDFParser {
   /**
    * Process inertial element
    * @param inertialData Inertial data
+   * @param path Element path
+   * @param raw Raw inertial element in lossless mode
    * @returns Processed inertial object
    */
-  private processInertial(inertialData: any): Inertial {
+  private processInertial(inertialData: any, path: string, raw?: XMLElement): Inertial {
     const inertial: Inertial = {};
 
     // Process origin
     if (inertialData.origin) {
-      inertial.origin = {};
-
-      if (getAttribute(inertialData.origin, 'xyz')) {
-        inertial.origin.xyz = parseVector3(getAttribute(inertialData.origin, 'xyz'));
-      }
-
-      if (getAttribute(inertialData.origin, 'rpy')) {
-        inertial.origin.rpy = parseVector3(getAttribute(inertialData.origin, 'rpy'));
-      }
+      inertial.origin = this.processOrigin(inertialData.origin, `${path}/origin`, raw);
     }
 
     // Process mass
     if (inertialData.mass) {
       inertial.mass = {
-        value: parseNumber(getAttribute(inertialData.mass, 'value'), 0),
+        value: this.numberAttribute(inertialData.mass, 'value', `${path}/mass`),
       };
+      this.keepUnknownChild(inertial.mass, raw, 'mass', ['value']);
     }
 
     // Process inertia tensor
     if (inertialData.inertia) {
+      const inertiaPath = `${path}/inertia`;
       inertial.inertia = {
-        ixx: parseNumber(getAttribute(inertialData.inertia, 'ixx'), 0),
-        ixy: parseNumber(getAttribute(inertialData.inertia, 'ixy'), 0),
-        ixz: parseNumber(getAttribute(inertialData.inertia, 'ixz'), 0),
-        iyy: parseNumber(getAttribute(inertialData.inertia, 'iyy'), 0),
-        iyz: parseNumber(getAttribute(inertialData.inertia, 'iyz'), 0),
-        izz: parseNumber(getAttribute(inertialData.inertia, 'izz'), 0),
+        ixx: this.numberAttribute(inertialData.inertia, 'ixx', inertiaPath),
+        ixy: this.numberAttribute(inertialData.inertia, 'ixy', inertiaPath),
+        ixz: this.numberAttribute(inertialData.inertia, 'ixz', inertiaPath),
+        iyy: this.numberAttribute(inertialData.inertia, 'iyy', inertiaPath),
+        iyz: this.numberAttribute(inertialData.inertia, 'iyz', inertiaPath),
+        izz: this.numberAttribute(inertialData.inertia, 'izz', inertiaPath),
       };
+      this.keepUnknownChild(inertial.inertia, raw, 'inertia', INERTIA_ATTRIBUTES);
     }
 
-    return inertial;
+    return this.keepUnknown(inertial, raw, [], ['origin', 'mass', 'inertia']);
+  }
+
+  /**
+   * Process origin element
+   * @param originData Origin data
+   * @param path Element path
+   * @param parent Raw element containing the origin in lossless mode
+   * @returns Processed origin object
+   */
+  private processOrigin(
+    originData: any,
+    path: string,
+    parent?: XMLElement
+  ): { xyz?: Vector3; rpy?: Vector3; unknown?: UnknownXML } {
+    const origin: { xyz?: Vector3; rpy?: Vector3; unknown?: UnknownXML } = {};
+
+    if (getAttribute(originData, 'xyz')) {
+      origin.xyz = this.vector3Attribute(originData, 'xyz', path);
+    }
+
+    if (getAttribute(originData, 'rpy')) {
+      origin.rpy = this.vector3Attribute(originData, 'rpy', path);
+    }
+
+    return this.keepUnknownChild(origin, parent, 'origin', ['xyz', 'rpy']);
   }
 
   /**
    * Process visual element
    * @param visualData Visual data
+   * @param path Element path
+   * @param raw Raw visual element in lossless mode
    * @returns Processed visual object
    */
-  private processVisual(visualData: any): Visual {
+  private processVisual(visualData: any, path: string, raw?: XMLElement): Visual {
     const visual: Visual = {};
 
     // Process name
@@ -198,36 +441,39 @@ export class URDFParser {
 
     // Process origin
     if (visualData.origin) {
-      visual.origin = {};
-
-      if (getAttribute(visualData.origin, 'xyz')) {
-        visual.origin.xyz = parseVector3(getAttribute(visualData.origin, 'xyz'));
-      }
-
-      if (getAttribute(visualData.origin, 'rpy')) {
-        visual.origin.rpy = parseVector3(getAttribute(visualData.origin, 'rpy'));
-      }
+      visual.origin = this.processOrigin(visualData.origin, `${path}/origin`, raw);
     }
 
     // Process geometry
     if (visualData.geometry) {
-      visual.geometry = this.processGeometry(visualData.geometry);
+      visual.geometry = this.processGeometry(
+        visualData.geometry,
+        `${path}/geometry`,
+        childElements(raw, 'geometry')[0]
+      );
     }
 
     // Process material
     if (visualData.material) {
-      visual.material = this.processMaterial(visualData.material);
+      visual.material = this.processMaterial(
+        visualData.material,
+        `${path}/material`,
+        childElements(raw, 'material')[0]
+      );
     }
 
-    return visual;
+    this.keepUnknown(visual, raw, ['name'], ['origin', 'geometry', 'material']);
+    return this.track(visual, path);
   }
 
   /**
    * Process collision element
    * @param collisionData Collision data
+   * @param path Element path
+   * @param raw Raw collision element in lossless mode
    * @returns Processed collision object
    */
-  private processCollision(collisionData: any): Collision {
+  private processCollision(collisionData: any, path: string, raw?: XMLElement): Collision {
     const collision: Collision = {};
 
     // Process name
@@ -238,53 +484,55 @@ export class URDFParser {
 
     // Process origin
     if (collisionData.origin) {
-      collision.origin = {};
-
-      if (getAttribute(collisionData.origin, 'xyz')) {
-        collision.origin.xyz = parseVector3(getAttribute(collisionData.origin, 'xyz'));
-      }
-
-      if (getAttribute(collisionData.origin, 'rpy')) {
-        collision.origin.rpy = parseVector3(getAttribute(collisionData.origin, 'rpy'));
-      }
+      collision.origin = this.processOrigin(collisionData.origin, `${path}/origin`, raw);
     }
 
     // Process geometry
     if (collisionData.geometry) {
-      collision.geometry = this.processGeometry(collisionData.geometry);
+      collision.geometry = this.processGeometry(
+        collisionData.geometry,
+        `${path}/geometry`,
+        childElements(raw, 'geometry')[0]
+      );
     }
 
-    return collision;
+    this.keepUnknown(collision, raw, ['name'], ['origin', 'geometry']);
+    return this.track(collision, path);
   }
 
   /**
    * Process geometry
    * @param geometryData Geometry data
+   * @param path Element path
+   * @param raw Raw geometry element in lossless mode
    * @returns Processed geometry object
    */
-  private processGeometry(geometryData: any): Geometry {
+  private processGeometry(geometryData: any, path: string, raw?: XMLElement): Geometry {
     const geometry: Geometry = {};
 
     // Process box
     if (geometryData.box) {
       geometry.box = {
-        size: parseVector3(getAttribute(geometryData.box, 'size')),
+        size: this.vector3Attribute(geometryData.box, 'size', `${path}/box`),
       };
+      this.keepUnknownChild(geometry.box, raw, 'box', ['size']);
     }
 
     // Process cylinder
     if (geometryData.cylinder) {
       geometry.cylinder = {
-        radius: parseNumber(getAttribute(geometryData.cylinder, 'radius')),
-        length: parseNumber(getAttribute(geometryData.cylinder, 'length')),
+        radius: this.numberAttribute(geometryData.cylinder, 'radius', `${path}/cylinder`),
+        length: this.numberAttribute(geometryData.cylinder, 'length', `${path}/cylinder`),
       };
+      this.keepUnknownChild(geometry.cylinder, raw, 'cylinder', ['radius', 'length']);
     }
 
     // Process sphere
     if (geometryData.sphere) {
       geometry.sphere = {
-        radius: parseNumber(getAttribute(geometryData.sphere, 'radius')),
+        radius: this.numberAttribute(geometryData.sphere, 'radius', `${path}/sphere`),
       };
+      this.keepUnknownChild(geometry.sphere, raw, 'sphere', ['radius']);
     }
 
     // Process mesh
@@ -295,19 +543,26 @@ export class URDFParser {
 
       const scale = getAttribute(geometryData.mesh, 'scale');
       if (scale) {
-        geometry.mesh.scale = parseVector3(scale, { x: 1, y: 1, z: 1 });
+        geometry.mesh.scale = this.vector3Attribute(geometryData.mesh, 'scale', `${path}/mesh`, {
+          x: 1,
+          y: 1,
+          z: 1,
+        });
       }
+      this.keepUnknownChild(geometry.mesh, raw, 'mesh', ['filename', 'scale']);
     }
 
-    return geometry;
+    return this.keepUnknown(geometry, raw, [], ['box', 'cylinder', 'sphere', 'mesh']);
   }
 
   /**
    * Process material
    * @param materialData Material data
+   * @param path Element path
+   * @param raw Raw material element in lossless mode
    * @returns Processed material object
    */
-  private processMaterial(materialData: any): Material {
+  private processMaterial(materialData: any, path: string, raw?: XMLElement): Material {
     const material: Material = {};
 
     // Process name
@@ -319,8 +574,13 @@ export class URDFParser {
     // Process color
     if (materialData.color) {
       material.color = {
-        rgba: parseRGBA(getAttribute(materialData.color, 'rgba')),
+        rgba: parseRGBA(
+          getAttribute(materialData.color, 'rgba'),
+          undefined,
+          this.context(`${path}/color`, 'rgba')
+        ),
       };
+      this.keepUnknownChild(material.color, raw, 'color', ['rgba']);
     }
 
     // Process texture
@@ -328,29 +588,40 @@ export class URDFParser {
       material.texture = {
         filename: getAttribute(materialData.texture, 'filename'),
       };
+      this.keepUnknownChild(material.texture, raw, 'texture', ['filename']);
     }
 
-    return material;
+    this.keepUnknown(material, raw, ['name'], ['color', 'texture']);
+    return this.track(material, path);
   }
 
   /**
    * Process joints
    * @param jointData Joint data
+   * @param rawJoints Raw joint elements in lossless mode
    * @returns Processed joint array
    */
-  private processJoints(jointData: any): Joint[] {
+  private processJoints(jointData: any, rawJoints: XMLElement[]): Joint[] {
     const joints: Joint[] = [];
     const jointArray = ensureArray(jointData);
+    const occurrences = new Map<string, number>();
 
-    for (const joint of jointArray) {
+    for (const [index, joint] of jointArray.entries()) {
       const name = getAttribute(joint, 'name');
       const type = getAttribute(joint, 'type');
 
       if (!name || !type) {
-        console.warn('Joint without name or type found, skipping');
+        this.report({
+          code: 'MISSING_JOINT_NAME_OR_TYPE',
+          severity: 'warning',
+          path: elementPath('joint', name ?? index),
+          message: 'Joint without name or type found, skipping',
+        });
         continue;
       }
 
+      const path = elementPath('joint', name, countOccurrence(occurrences, name));
+
       // Validate parent and child links
       if (
         !joint.parent ||
@@ -358,10 +629,16 @@ export class URDFParser {
         !getAttribute(joint.parent, 'link') ||
         !getAttribute(joint.child, 'link')
       ) {
-        console.warn(`Joint ${name} missing parent or child link, skipping`);
+        this.report({
+          code: 'MISSING_JOINT_PARENT_OR_CHILD',
+          severity: 'warning',
+          path,
+          message: `Joint ${name} missing parent or child link, skipping`,
+        });
         continue;
       }
 
+      const raw = rawJoints[index];
       const processedJoint: Joint = {
         name,
         type: type as any,
@@ -372,66 +649,107 @@ export class URDFParser {
           link: getAttribute(joint.child, 'link')!,
         },
       };
+      this.keepUnknownChild(processedJoint.parent, raw, 'parent', ['link']);
+      this.keepUnknownChild(processedJoint.child, raw, 'child', ['link']);
 
       // Process origin
       if (joint.origin) {
-        processedJoint.origin = {};
-
-        if (getAttribute(joint.origin, 'xyz')) {
-          processedJoint.origin.xyz = parseVector3(getAttribute(joint.origin, 'xyz'));
-        }
-
-        if (getAttribute(joint.origin, 'rpy')) {
-          processedJoint.origin.rpy = parseVector3(getAttribute(joint.origin, 'rpy'));
-        }
+        processedJoint.origin = this.processOrigin(joint.origin, `${path}/origin`, raw);
       }
 
       // Process axis
       if (joint.axis) {
         processedJoint.axis = {
-          xyz: parseVector3(getAttribute(joint.axis, 'xyz'), { x: 1, y: 0, z: 0 }),
+          xyz: this.vector3Attribute(joint.axis, 'xyz', `${path}/axis`, { x: 1, y: 0, z: 0 }),
         };
+        this.keepUnknownChild(processedJoint.axis, raw, 'axis', ['xyz']);
       }
 
       // Process limits
       if (joint.limit) {
+        const limitPath = `${path}/limit`;
         processedJoint.limit = {
-          lower: parseNumber(getAttribute(joint.limit, 'lower')),
-          upper: parseNumber(getAttribute(joint.limit, 'upper')),
-          effort: parseNumber(getAttribute(joint.limit, 'effort')),
-          velocity: parseNumber(getAttribute(joint.limit, 'velocity')),
+          lower: this.numberAttribute(joint.limit, 'lower', limitPath),
+          upper: this.numberAttribute(joint.limit, 'upper', limitPath),
+          effort: this.numberAttribute(joint.limit, 'effort', limitPath),
+          velocity: this.numberAttribute(joint.limit, 'velocity', limitPath),
         };
+        this.keepUnknownChild(processedJoint.limit, raw, 'limit', [
+          'lower',
+          'upper',
+          'effort',
+          'velocity',
+        ]);
       }
 
       // Process dynamics
       if (joint.dynamics) {
+        const dynamicsPath = `${path}/dynamics`;
         processedJoint.dynamics = {
-          damping: parseNumber(getAttribute(joint.dynamics, 'damping')),
-          friction: parseNumber(getAttribute(joint.dynamics, 'friction')),
+          damping: this.numberAttribute(joint.dynamics, 'damping', dynamicsPath),
+          friction: this.numberAttribute(joint.dynamics, 'friction', dynamicsPath),
         };
+        this.keepUnknownChild(processedJoint.dynamics, raw, 'dynamics', ['damping', 'friction']);
       }
 
       // Process calibration
       if (joint.calibration) {
+        const calibrationPath = `${path}/calibration`;
         processedJoint.calibration = {
-          rising: parseNumber(getAttribute(joint.calibration, 'rising')),
-          falling: parseNumber(getAttribute(joint.calibration, 'falling')),
+          rising: this.numberAttribute(joint.calibration, 'rising', calibrationPath),
+          falling: this.numberAttribute(joint.calibration, 'falling', calibrationPath),
         };
+        this.keepUnknownChild(processedJoint.calibration, raw, 'calibration', [
+          'rising',
+          'falling',
+        ]);
       }
 
       // Process mimic
       if (joint.mimic) {
         const mimicJoint = getAttribute(joint.mimic, 'joint');
         if (mimicJoint) {
+          const mimicPath = `${path}/mimic`;
           processedJoint.mimic = {
             joint: mimicJoint,
-            multiplier: parseNumber(getAttribute(joint.mimic, 'multiplier'), 1),
-            offset: parseNumber(getAttribute(joint.mimic, 'offset'), 0),
+            multiplier: this.numberAttribute(joint.mimic, 'multiplier', mimicPath, 1),
+            offset: this.numberAttribute(joint.mimic, 'offset', mimicPath, 0),
           };
+          this.keepUnknownChild(processedJoint.mimic, raw, 'mimic', [
+            'joint',
+            'multiplier',
+            'offset',
+          ]);
         }
       }
 
-      joints.push(processedJoint);
+      // Process safety_controller
+      if (joint.safety_controller) {
+        const safetyPath = `${path}/safety_controller`;
+        processedJoint.safetyController = {
+          softLowerLimit: this.numberAttribute(
+            joint.safety_controller,
+            'soft_lower_limit',
+            safetyPath
+          ),
+          softUpperLimit: this.numberAttribute(
+            joint.safety_controller,
+            'soft_upper_limit',
+            safetyPath
+          ),
+          kPosition: this.numberAttribute(joint.safety_controller, 'k_position', safetyPath),
+          kVelocity: this.numberAttribute(joint.safety_controller, 'k_velocity', safetyPath),
+        };
+        this.keepUnknownChild(processedJoint.safetyController, raw, 'safety_controller', [
+          'soft_lower_limit',
+          'soft_upper_limit',
+          'k_position',
+          'k_velocity',
+        ]);
+      }
+
+      this.keepUnknown(processedJoint, raw, ['name', 'type'], JOINT_CHILDREN);
+      joints.push(this.track(processedJoint, path));
     }
 
     return joints;
@@ -440,14 +758,16 @@ export class URDFParser {
   /**
    * Process materials (root level)
    * @param materialData Material data
+   * @param rawMaterials Raw material elements in lossless mode
    * @returns Processed material array
    */
-  private processMaterials(materialData: any): Material[] {
+  private processMaterials(materialData: any, rawMaterials: XMLElement[]): Material[] {
     const materials: Material[] = [];
     const materialArray = ensureArray(materialData);
 
-    for (const material of materialArray) {
-      materials.push(this.processMaterial(material));
+    for (const [index, material] of materialArray.entries()) {
+      const path = elementPath('material', getAttribute(material, 'name') ?? index);
+      materials.push(this.processMaterial(material, path, rawMaterials[index]));
     }
 
     return materials;
@@ -456,13 +776,17 @@ export class URDFParser {
   /**
    * Process transmissions
    * @param transmissionData Transmission data
+   * @param rawTransmissions Raw transmission elements in lossless mode
    * @returns Processed transmission array
    */
-  private processTransmissions(transmissionData: any): Transmission[] {
+  private processTransmissions(
+    transmissionData: any,
+    rawTransmissions: XMLElement[]
+  ): Transmission[] {
     const transmissions: Transmission[] = [];
     const transmissionArray = ensureArray(transmissionData);
 
-    for (const transmission of transmissionArray) {
+    for (const [index, transmission] of transmissionArray.entries()) {
       const processedTransmission: Transmission = {};
 
       // Process name
@@ -470,61 +794,350 @@ export class URDFParser {
       if (name) {
         processedTransmission.name = name;
       }
+      const path = elementPath('transmission', name ?? index);
 
-      // Process type (type is a element, not an attribute)
-      if (transmission.type) {
-        // If type is an object with inner text content
-        if (typeof transmission.type === 'object' && transmission.type['#text']) {
-          processedTransmission.type = transmission.type['#text'];
-        }
-        // If type is directly a string
-        else if (typeof transmission.type === 'string') {
-          processedTransmission.type = transmission.type;
-        }
-        // For XML parser that extracts text content differently
-        else {
-          processedTransmission.type = transmission.type.toString();
-        }
+      // Process type (an element, or an attribute in the pre-ros_control format)
+      const type = this.textValue(transmission.type) ?? getAttribute(transmission, 'type');
+      if (type !== undefined) {
+        processedTransmission.type = type;
       }
 
-      // Process joint
-      if (transmission.joint) {
-        processedTransmission.joint = {
-          name: getAttribute(transmission.joint, 'name') || '',
-        };
+      // Process joints and actuators; joint and actuator are derived from the first of each
+      const rawTransmission = rawTransmissions[index];
+      const joints = ensureArray(transmission.joint).map((joint, i) =>
+        this.keepUnknown(
+          this.processTransmissionJoint(joint, `${path}/joint[${i + 1}]`),
+          childElements(rawTransmission, 'joint')[i],
+          ['name'],
+          [...TRANSMISSION_INTERFACE_CHILDREN, 'offset']
+        )
+      );
+      if (joints.length > 0) {
+        processedTransmission.joints = joints;
       }
+      const actuators = ensureArray(transmission.actuator).map((actuator, i) =>
+        this.keepUnknown(
+          this.processTransmissionActuator(actuator, `${path}/actuator[${i + 1}]`),
+          childElements(rawTransmission, 'actuator')[i],
+          ['name'],
+          TRANSMISSION_INTERFACE_CHILDREN
+        )
+      );
+      if (actuators.length > 0) {
+        processedTransmission.actuators = actuators;
+      }
+      linkFirstEntries(processedTransmission);
+
+      // Process mechanicalReduction directly under transmission (pre-ros_control format)
+      const reduction = this.textValue(transmission.mechanicalReduction);
+      if (reduction !== undefined) {
+        processedTransmission.mechanicalReduction = parseNumber(
+          reduction,
+          undefined,
+          this.context(`${path}/mechanicalReduction`)
+        );
+      }
+      this.keepUnknown(
+        processedTransmission,
+        rawTransmission,
+        ['name', 'type'],
+        ['type', 'joint', 'actuator', 'mechanicalReduction']
+      );
+      transmissions.push(this.track(processedTransmission, path));
+    }
 
-      // Process actuator
-      if (transmission.actuator) {
-        processedTransmission.actuator = {
-          name: getAttribute(transmission.actuator, 'name') || '',
-        };
+    return transmissions;
+  }
 
-        // Process mechanicalReduction (element, not attribute)
-        if (transmission.actuator.mechanicalReduction) {
-          // If mechanicalReduction is an object with inner text content
-          if (
-            typeof transmission.actuator.mechanicalReduction === 'object' &&
-            transmission.actuator.mechanicalReduction['#text']
-          ) {
-            processedTransmission.actuator.mechanicalReduction = parseNumber(
-              transmission.actuator.mechanicalReduction['#text']
-            );
-          }
-          // If mechanicalReduction is directly a string or number
-          else if (
-            typeof transmission.actuator.mechanicalReduction === 'string' ||
-            typeof transmission.actuator.mechanicalReduction === 'number'
-          ) {
-            processedTransmission.actuator.mechanicalReduction = parseNumber(
-              transmission.actuator.mechanicalReduction.toString()
-            );
-          }
-        }
+  /**
+   * Keep unrecognized attributes, child elements and comments of an element
+   * @param element Processed element
+   * @param raw Raw element, only given in lossless mode
+   * @param attributes Attributes the parser recognizes
+   * @param children Child tags the parser recognizes
+   * @returns The element
+   */
+  private keepUnknown<T extends { unknown?: UnknownXML }>(
+    element: T,
+    raw: XMLElement | undefined,
+    attributes: string[],
+    children: string[]
+  ): T {
+    if (!raw) {
+      return element;
+    }
+
+    const unknown: UnknownXML = {};
+    const unknownAttributes = Object.entries(raw.attributes).filter(
+      ([name]) => !attributes.includes(name)
+    );
+    if (unknownAttributes.length > 0) {
+      unknown.attributes = Object.fromEntries(unknownAttributes);
+    }
+    const unknownElements = raw.children.filter(child => !children.includes(child.tag));
+    if (unknownElements.length > 0) {
+      unknown.elements = unknownElements;
+      unknown.positions = unknownElements.map(child => raw.children.indexOf(child));
+    }
+
+    if (unknown.attributes || unknown.elements) {
+      element.unknown = unknown;
+    }
+    return element;
+  }
+
+  /**
+   * Keep unrecognized attributes, child elements and comments of the first child
+   * element with a tag
+   * @param element Processed child element
+   * @param parent Raw parent element, only given in lossless mode
+   * @param tag Child tag
+   * @param attributes Attributes the parser recognizes
+   * @returns The element
+   */
+  private keepUnknownChild<T extends { unknown?: UnknownXML }>(
+    element: T,
+    parent: XMLElement | undefined,
+    tag: string,
+    attributes: string[]
+  ): T {
+    return this.keepUnknown(element, childElements(parent, tag)[0], attributes, []);
+  }
+
+  /**
+   * Process ros2_control blocks
+   * @param elements Raw ros2_control elements
+   * @returns Processed ros2_control array
+   */
+  private processROS2Controls(elements: XMLElement[]): ROS2Control[] {
+    return elements.map((element, index) => {
+      const [hardware] = childElements(element, 'hardware');
+      const processed: ROS2Control = {
+        name: element.attributes.name ?? '',
+        type: element.attributes.type ?? '',
+        ...(hardware ? { hardware: this.processROS2ControlHardware(hardware) } : {}),
+        joints: childElements(element, 'joint').map(child =>
+          this.processROS2ControlComponent(child)
+        ),
+        sensors: childElements(element, 'sensor').map(child =>
+          this.processROS2ControlComponent(child)
+        ),
+        gpios: childElements(element, 'gpio').map(child => this.processROS2ControlComponent(child)),
+      };
+
+      return this.track(processed, elementPath('ros2_control', element.attributes.name ?? index));
+    });
+  }
+
+  /**
+   * Process hardware of a ros2_control block
+   * @param element Raw hardware element
+   * @returns Processed hardware
+   */
+  private processROS2ControlHardware(element: XMLElement): ROS2ControlHardware {
+    const hardware: ROS2ControlHardware = { params: this.processParams(element) };
+    const plugin = childElements(element, 'plugin')[0]?.text;
+    if (plugin !== undefined) {
+      hardware.plugin = plugin;
+    }
+    return hardware;
+  }
+
+  /**
+   * Process joint, sensor or GPIO of a ros2_control block
+   * @param element Raw component element
+   * @returns Processed component
+   */
+  private processROS2ControlComponent(element: XMLElement): ROS2ControlComponent {
+    return {
+      name: element.attributes.name ?? '',
+      commandInterfaces: childElements(element, 'command_interface').map(child =>
+        this.processROS2ControlInterface(child)
+      ),
+      stateInterfaces: childElements(element, 'state_interface').map(child =>
+        this.processROS2ControlInterface(child)
+      ),
+      params: this.processParams(element),
+    };
+  }
+
+  /**
+   * Process command or state interface of a ros2_control component
+   * @param element Raw interface element
+   * @returns Processed interface
+   */
+  private processROS2ControlInterface(element: XMLElement): ROS2ControlInterface {
+    return {
+      name: element.attributes.name ?? '',
+      params: this.processParams(element),
+    };
+  }
+
+  /**
+   * Collect the `<param name="...">value</param>` children of an element
+   * @param element Raw element
+   * @returns Parameter values keyed by name
+   */
+  private processParams(element: XMLElement): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const param of childElements(element, 'param')) {
+      if (param.attributes.name !== undefined) {
+        params[param.attributes.name] = param.text ?? '';
       }
-      transmissions.push(processedTransmission);
     }
+    return params;
+  }
 
-    return transmissions;
+  /**
+   * Process gazebo blocks
+   * @param elements Raw gazebo elements
+   * @returns Processed gazebo extensions, keeping the children as raw XML
+   */
+  private processGazeboExtensions(elements: XMLElement[]): GazeboExtension[] {
+    return elements.map((element, index) => {
+      const processed: GazeboExtension = { elements: element.children };
+      if (element.attributes.reference !== undefined) {
+        processed.reference = element.attributes.reference;
+      }
+      return this.track(processed, elementPath('gazebo', index));
+    });
+  }
+
+  /**
+   * Process transmission joint
+   * @param joint Joint data
+   * @param path Element path
+   * @returns Processed transmission joint
+   */
+  private processTransmissionJoint(joint: any, path: string): TransmissionJoint {
+    const processed: TransmissionJoint = {
+      name: getAttribute(joint, 'name') || '',
+      ...this.processTransmissionInterface(joint, path),
+    };
+
+    const offset = this.textValue(joint.offset);
+    if (offset !== undefined) {
+      processed.offset = parseNumber(offset, undefined, this.context(`${path}/offset`));
+    }
+
+    return processed;
+  }
+
+  /**
+   * Process transmission actuator
+   * @param actuator Actuator data
+   * @param path Element path
+   * @returns Processed transmission actuator
+   */
+  private processTransmissionActuator(actuator: any, path: string): TransmissionActuator {
+    return {
+      name: getAttribute(actuator, 'name') || '',
+      ...this.processTransmissionInterface(actuator, path),
+    };
+  }
+
+  /**
+   * Process the child elements shared by transmission joints and actuators
+   * @param element Joint or actuator data
+   * @param path Element path
+   * @returns Role, hardware interfaces and mechanical reduction, where present
+   */
+  private processTransmissionInterface(
+    element: any,
+    path: string
+  ): Omit<TransmissionActuator, 'name'> {
+    const processed: Omit<TransmissionActuator, 'name'> = {};
+
+    const role = this.textValue(element.role);
+    if (role !== undefined) {
+      processed.role = role;
+    }
+
+    const hardwareInterfaces = ensureArray(element.hardwareInterface)
+      .map(hardwareInterface => this.textValue(hardwareInterface))
+      .filter((hardwareInterface): hardwareInterface is string => hardwareInterface !== undefined);
+    if (hardwareInterfaces.length > 0) {
+      processed.hardwareInterfaces = hardwareInterfaces;
+    }
+
+    const reduction = this.textValue(element.mechanicalReduction);
+    if (reduction !== undefined) {
+      processed.mechanicalReduction = parseNumber(
+        reduction,
+        undefined,
+        this.context(`${path}/mechanicalReduction`)
+      );
+    }
+
+    return processed;
+  }
+
+  /**
+   * Get the text content of an element
+   * @param element Element data, either its text or an object with inner text content
+   * @returns Trimmed text, or undefined if the element is missing or empty
+   */
+  private textValue(element: any): string | undefined {
+    if (element === undefined || element === null) {
+      return undefined;
+    }
+    const text = typeof element === 'object' ? element['#text'] : element;
+    if (text === undefined || text === null) {
+      return undefined;
+    }
+    const trimmed = text.toString().trim();
+    return trimmed === '' ? undefined : trimmed;
+  }
+
+  /**
+   * Parse numeric attribute
+   * @param element XML element
+   * @param attribute Attribute name
+   * @param path Element path
+   * @param defaultValue Default value
+   * @returns Number
+   */
+  private numberAttribute(
+    element: any,
+    attribute: string,
+    path: string,
+    defaultValue: number = 0
+  ): number {
+    return parseNumber(
+      getAttribute(element, attribute),
+      defaultValue,
+      this.context(path, attribute)
+    );
+  }
+
+  /**
+   * Parse Vector3 attribute
+   * @param element XML element
+   * @param attribute Attribute name
+   * @param path Element path
+   * @param defaultValue Default value
+   * @returns Vector3 object
+   */
+  private vector3Attribute(
+    element: any,
+    attribute: string,
+    path: string,
+    defaultValue?: Vector3
+  ): Vector3 {
+    return parseVector3(
+      getAttribute(element, attribute),
+      defaultValue,
+      this.context(path, attribute)
+    );
+  }
+
+  /**
+   * Create parse context for an element value
+   * @param path Element path
+   * @param attribute Attribute name, or undefined for element text
+   * @returns Parse context
+   */
+  private context(path: string, attribute?: string): ParseContext {
+    return { strict: this.options.strict, element: path, attribute };
   }
 }
@@ -0,0 +1,283 @@
+import { Diagnostic } from '../types/diagnostics';
+import { Collision, Material, Robot, Visual } from '../types/urdf';
+import { elementPath } from '../validation/validator';
+
+// Matches URIs with a scheme such as `package://` or `https://`
+const SCHEME_PATTERN = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//;
+
+/**
+ * Options for resource resolver
+ */
+export interface ResourceResolverOptions {
+  /**
+   * Directory (or URL) that relative paths are resolved against, usually the directory of the URDF file
+   */
+  basePath?: string;
+  /**
+   * Directories of ROS packages keyed by package name, used for `package://` URIs
+   */
+  packages?: Record<string, string>;
+  /**
+   * Directories containing packages, searched in order like `ROS_PACKAGE_PATH`
+   * for packages missing from `packages`
+   */
+  packagePaths?: string[];
+  /**
+   * Check whether a package directory exists; required for searching `packagePaths`
+   */
+  exists?: (path: string) => boolean;
+}
+
+/**
+ * Resource referenced by a robot
+ */
+export interface ResolvedResource {
+  kind: 'mesh' | 'texture';
+  /**
+   * URI as written in the URDF
+   */
+  uri: string;
+  /**
+   * XPath-like path to the referencing element
+   */
+  path: string;
+  /**
+   * Resolved path or URL, undefined if the URI could not be resolved
+   */
+  resolved?: string;
+}
+
+/**
+ * Result of resolving the resources of a robot
+ */
+export interface ResourceResolution {
+  resources: ResolvedResource[];
+  /**
+   * UNRESOLVED_RESOURCE diagnostics for URIs that could not be resolved
+   */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Resource Resolver class
+ *
+ * Resolves mesh and texture URIs (`package://`, `file://`, absolute and
+ * relative paths) to file paths or URLs. Resolution is purely textual, so
+ * the resolver works without filesystem access except for the optional
+ * `exists` check used to search package paths.
+ */
+export class ResourceResolver {
+  private options: ResourceResolverOptions;
+
+  /**
+   * Constructor
+   * @param options Resolver options
+   */
+  constructor(options: ResourceResolverOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Resolve a resource URI
+   * @param uri URI such as `package://robot/meshes/base.stl`, `file:///meshes/base.stl` or `meshes/base.stl`
+   * @returns Resolved path or URL, or undefined if it cannot be resolved
+   */
+  resolve(uri: string): string | undefined {
+    const scheme = SCHEME_PATTERN.exec(uri)?.[1].toLowerCase();
+
+    if (scheme === 'package') {
+      return this.resolvePackage(uri.slice('package://'.length));
+    }
+    if (scheme === 'file') {
+      return this.resolveFileUri(uri.slice('file://'.length));
+    }
+    if (scheme === 'http' || scheme === 'https') {
+      return uri;
+    }
+    if (scheme !== undefined) {
+      return undefined;
+    }
+    return this.resolvePath(uri);
+  }
+
+  /**
+   * Resolve every mesh and texture URI of a robot
+   * @param robot Robot object
+   * @param rewrite Replace resolved URIs in the robot with their resolved paths
+   * @returns Resolved resources and diagnostics for unresolved ones
+   */
+  resolveRobot(robot: Robot, rewrite = false): ResourceResolution {
+    const resources: ResolvedResource[] = [];
+    const diagnostics: Diagnostic[] = [];
+
+    /**
+     * Resolve one reference and record the result
+     * @param kind Resource kind
+     * @param uri URI as written in the URDF
+     * @param path Path to the referencing element
+     * @param update Store the resolved path in the robot
+     */
+    const visit = (
+      kind: ResolvedResource['kind'],
+      uri: string,
+      path: string,
+      update: (resolved: string) => void
+    ): void => {
+      const resolved = this.resolve(uri);
+      resources.push({ kind, uri, path, resolved });
+
+      if (resolved === undefined) {
+        diagnostics.push({
+          code: 'UNRESOLVED_RESOURCE',
+          severity: 'warning',
+          path,
+          message: `Cannot resolve ${kind} ${uri}`,
+        });
+      } else if (rewrite) {
+        update(resolved);
+      }
+    };
+
+    /**
+     * Visit the texture of a material
+     * @param material Material object
+     * @param path Path to the material element
+     */
+    const visitMaterial = (material: Material | undefined, path: string): void => {
+      const texture = material?.texture;
+      if (texture?.filename) {
+        visit('texture', texture.filename, `${path}/texture`, resolved => {
+          texture.filename = resolved;
+        });
+      }
+    };
+
+    robot.materials.forEach((material, index) => {
+      visitMaterial(material, elementPath('material', material.name ?? index));
+    });
+
+    /**
+     * Visit the mesh of a visual or collision
+     * @param element Visual or collision object
+     * @param path Path to the visual or collision element
+     */
+    const visitMesh = (element: Visual | Collision, path: string): void => {
+      const mesh = element.geometry?.mesh;
+      if (mesh?.filename) {
+        visit('mesh', mesh.filename, `${path}/geometry/mesh`, resolved => {
+          mesh.filename = resolved;
+        });
+      }
+    };
+
+    for (const link of robot.links) {
+      const linkPath = elementPath('link', link.name);
+      link.visuals.forEach((visual, index) => {
+        const path = `${linkPath}/visual[${index + 1}]`;
+        visitMesh(visual, path);
+        visitMaterial(visual.material, `${path}/material`);
+      });
+      link.collisions.forEach((collision, index) => {
+        visitMesh(collision, `${linkPath}/collision[${index + 1}]`);
+      });
+    }
+
+    return { resources, diagnostics };
+  }
+
+  /**
+   * Resolve the part of a `package://` URI after the scheme
+   * @param location Package name followed by the path inside the package
+   * @returns Resolved path, or undefined if the package is unknown
+   */
+  private resolvePackage(location: string): string | undefined {
+    const slash = location.indexOf('/');
+    const name = slash === -1 ? location : location.slice(0, slash);
+    const rest = slash === -1 ? '' : location.slice(slash + 1);
+
+    const directory = this.options.packages?.[name] ?? this.findPackage(name);
+    if (directory === undefined) {
+      return undefined;
+    }
+    return rest === '' ? directory : joinPath(directory, rest);
+  }
+
+  /**
+   * Search package paths for a package directory
+   * @param name Package name
+   * @returns Package directory, or undefined if not found
+   */
+  private findPackage(name: string): string | undefined {
+    const { exists, packagePaths = [] } = this.options;
+    if (!exists) {
+      return undefined;
+    }
+    return packagePaths.map(root => joinPath(root, name)).find(directory => exists(directory));
+  }
+
+  /**
+   * Resolve the part of a `file://` URI after the scheme
+   * @param rest Host and path, such as `/opt/meshes/base.stl` or `localhost/opt/meshes/base.stl`
+   * @returns Local path, or undefined for files on other hosts
+   */
+  private resolveFileUri(rest: string): string | undefined {
+    const slash = rest.indexOf('/');
+    const host = slash === -1 ? rest : rest.slice(0, slash);
+    if (slash === -1 || (host !== '' && host.toLowerCase() !== 'localhost')) {
+      return undefined;
+    }
+    return this.resolvePath(decodeURIComponent(rest.slice(slash)));
+  }
+
+  /**
+   * Resolve an absolute or relative path
+   * @param path Path
+   * @returns Normalized path, or undefined for a relative path without base path
+   */
+  private resolvePath(path: string): string | undefined {
+    if (path.startsWith('/')) {
+      return normalizePath(path);
+    }
+    if (this.options.basePath === undefined) {
+      return undefined;
+    }
+    return joinPath(this.options.basePath, path);
+  }
+}
+
+/**
+ * Join a relative path to a directory path or URL
+ * @param base Directory path or URL
+ * @param relative Relative path
+ * @returns Joined path
+ */
+function joinPath(base: string, relative: string): string {
+  if (SCHEME_PATTERN.test(base)) {
+    return new URL(relative, base.endsWith('/') ? base : `${base}/`).href;
+  }
+  return normalizePath(`${base}/${relative}`);
+}
+
+/**
+ * Remove `.` and `..` segments and duplicate slashes from a path
+ * @param path Path
+ * @returns Normalized path
+ */
+function normalizePath(path: string): string {
+  const absolute = path.startsWith('/');
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else if (segment !== '..' || !absolute) {
+      segments.push(segment);
+    }
+  }
+
+  const joined = segments.join('/');
+  return absolute ? `/${joined}` : joined || '.';
+}
@@ -0,0 +1,67 @@
+/**
+ * Diagnostic type definitions
+ */
+
+// Diagnostic severity
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// Diagnostic code
+export type DiagnosticCode =
+  | 'MISSING_LINK_NAME'
+  | 'MISSING_JOINT_NAME_OR_TYPE'
+  | 'MISSING_JOINT_PARENT_OR_CHILD'
+  | 'INVALID_JOINT_TYPE'
+  | 'DUPLICATE_LINK_NAME'
+  | 'DUPLICATE_JOINT_NAME'
+  | 'UNKNOWN_PARENT_LINK'
+  | 'UNKNOWN_CHILD_LINK'
+  | 'MULTIPLE_PARENT_JOINTS'
+  | 'KINEMATIC_CYCLE'
+  | 'NO_ROOT_LINK'
+  | 'MULTIPLE_ROOT_LINKS'
+  | 'UNKNOWN_MIMIC_JOINT'
+  | 'MISSING_JOINT_LIMIT'
+  | 'UNKNOWN_TRANSMISSION_JOINT'
+  | 'UNRESOLVED_RESOURCE'
+  | 'UNDEFINED_MATERIAL'
+  | 'CONFLICTING_MATERIAL'
+  | 'NON_POSITIVE_MASS'
+  | 'MISSING_INERTIA'
+  | 'NON_POSITIVE_DEFINITE_INERTIA'
+  | 'INERTIA_TRIANGLE_INEQUALITY'
+  | 'INERTIA_GEOMETRY_MISMATCH'
+  | 'UNSUPPORTED_JOINT_TYPE'
+  | 'UNSUPPORTED_ELEMENT'
+  | 'CLOSED_LOOP'
+  | 'UNKNOWN_FRAME';
+
+// Position of an element's start tag in the source text
+export interface SourceLocation {
+  /**
+   * 1-based line number
+   */
+  line: number;
+  /**
+   * 1-based column number
+   */
+  column: number;
+  /**
+   * 0-based character offset
+   */
+  offset: number;
+}
+
+// Problem found while parsing or validating a robot
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  /**
+   * XPath-like path to the offending element, e.g. `/robot/joint[@name='elbow']/limit`
+   */
+  path: string;
+  message: string;
+  /**
+   * Location of the offending element when the parser tracks locations
+   */
+  location?: SourceLocation;
+}
@@ -0,0 +1,25 @@
+/**
+ * Math type definitions
+ */
+
+import { Vector3 } from './urdf';
+
+// Unit quaternion (x, y, z, w)
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+// 3x3 matrix stored in row-major order
+export type Matrix3 = number[];
+
+// 4x4 homogeneous transform stored in row-major order
+export type Matrix4 = number[];
+
+// Position and orientation
+export interface Pose {
+  position: Vector3;
+  quaternion: Quaternion;
+}
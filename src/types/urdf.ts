@@ -14,9 +14,11 @@ export interface Inertial {
   origin?: {
     xyz?: Vector3;
     rpy?: Vector3;
+    unknown?: UnknownXML;
   };
   mass?: {
     value: number;
+    unknown?: UnknownXML;
   };
   inertia?: {
     ixx: number;
@@ -25,7 +27,9 @@ export interface Inertial {
     iyy: number;
     iyz: number;
     izz: number;
+    unknown?: UnknownXML;
   };
+  unknown?: UnknownXML;
 }
 
 // Visual element
@@ -34,9 +38,11 @@ export interface Visual {
   origin?: {
     xyz?: Vector3;
     rpy?: Vector3;
+    unknown?: UnknownXML;
   };
   geometry?: Geometry;
   material?: Material;
+  unknown?: UnknownXML;
 }
 
 // Collision element
@@ -45,26 +51,33 @@ export interface Collision {
   origin?: {
     xyz?: Vector3;
     rpy?: Vector3;
+    unknown?: UnknownXML;
   };
   geometry?: Geometry;
+  unknown?: UnknownXML;
 }
 
 // Geometry
 export interface Geometry {
   box?: {
     size?: Vector3;
+    unknown?: UnknownXML;
   };
   cylinder?: {
     radius?: number;
     length?: number;
+    unknown?: UnknownXML;
   };
   sphere?: {
     radius?: number;
+    unknown?: UnknownXML;
   };
   mesh?: {
     filename?: string;
     scale?: Vector3;
+    unknown?: UnknownXML;
   };
+  unknown?: UnknownXML;
 }
 
 // Material
@@ -72,10 +85,13 @@ export interface Material {
   name?: string;
   color?: {
     rgba?: [number, number, number, number];
+    unknown?: UnknownXML;
   };
   texture?: {
     filename?: string;
+    unknown?: UnknownXML;
   };
+  unknown?: UnknownXML;
 }
 
 // Link
@@ -84,6 +100,7 @@ export interface Link {
   inertial?: Inertial;
   visuals: Visual[];
   collisions: Collision[];
+  unknown?: UnknownXML;
 }
 
 // Joint limits
@@ -92,18 +109,21 @@ export interface JointLimit {
   upper?: number;
   effort?: number;
   velocity?: number;
+  unknown?: UnknownXML;
 }
 
 // Joint dynamics
 export interface JointDynamics {
   damping?: number;
   friction?: number;
+  unknown?: UnknownXML;
 }
 
 // Calibration
 export interface Calibration {
   rising?: number;
   falling?: number;
+  unknown?: UnknownXML;
 }
 
 // Mimic
@@ -111,6 +131,16 @@ export interface Mimic {
   joint: string;
   multiplier?: number;
   offset?: number;
+  unknown?: UnknownXML;
+}
+
+// Safety controller
+export interface SafetyController {
+  softLowerLimit?: number;
+  softUpperLimit?: number;
+  kPosition?: number;
+  kVelocity?: number;
+  unknown?: UnknownXML;
 }
 
 // Joint
@@ -120,33 +150,108 @@ export interface Joint {
   origin?: {
     xyz?: Vector3;
     rpy?: Vector3;
+    unknown?: UnknownXML;
   };
   parent: {
     link: string;
+    unknown?: UnknownXML;
   };
   child: {
     link: string;
+    unknown?: UnknownXML;
   };
   axis?: {
     xyz?: Vector3;
+    unknown?: UnknownXML;
   };
   limit?: JointLimit;
   dynamics?: JointDynamics;
   calibration?: Calibration;
   mimic?: Mimic;
+  safetyController?: SafetyController;
+  unknown?: UnknownXML;
+}
+
+// Joint driven by a transmission
+export interface TransmissionJoint {
+  name: string;
+  role?: string;
+  hardwareInterfaces?: string[];
+  mechanicalReduction?: number;
+  offset?: number;
+  unknown?: UnknownXML;
+}
+
+// Actuator driving a transmission
+export interface TransmissionActuator {
+  name: string;
+  role?: string;
+  hardwareInterfaces?: string[]; // Deprecated in ros_control, still found in older files
+  mechanicalReduction?: number;
+  unknown?: UnknownXML;
 }
 
 // Transmission
 export interface Transmission {
   name?: string;
-  type?: string;
-  joint?: {
-    name: string;
-  };
-  actuator?: {
-    name: string;
-    mechanicalReduction?: number;
-  };
+  type?: string; // From the <type> element, or the type attribute of the pre-ros_control format
+  joint?: TransmissionJoint; // First of joints; parsed transmissions derive it from joints, so assigning it replaces joints[0]
+  actuator?: TransmissionActuator; // First of actuators, derived like joint
+  joints?: TransmissionJoint[]; // Source of truth when set; joint is only used without it
+  actuators?: TransmissionActuator[]; // Source of truth when set, like joints
+  mechanicalReduction?: number; // <mechanicalReduction> directly under <transmission> (pre-ros_control format)
+  unknown?: UnknownXML;
+}
+
+// Raw XML element, kept for content without a typed model. Comments have the tag '#comment'
+export interface XMLElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  text?: string;
+}
+
+// Attributes and child elements the parser does not recognize, kept in lossless mode
+export interface UnknownXML {
+  attributes?: Record<string, string>;
+  elements?: XMLElement[]; // In document order, including comments
+  positions?: number[]; // Index of each element among all children of the original element
+}
+
+// Command or state interface of a ros2_control component
+export interface ROS2ControlInterface {
+  name: string;
+  params: Record<string, string>;
+}
+
+// Joint, sensor or GPIO of a ros2_control block
+export interface ROS2ControlComponent {
+  name: string;
+  commandInterfaces: ROS2ControlInterface[];
+  stateInterfaces: ROS2ControlInterface[];
+  params: Record<string, string>;
+}
+
+// Hardware plugin of a ros2_control block
+export interface ROS2ControlHardware {
+  plugin?: string;
+  params: Record<string, string>;
+}
+
+// <ros2_control> block
+export interface ROS2Control {
+  name: string;
+  type: string; // system, actuator or sensor
+  hardware?: ROS2ControlHardware;
+  joints: ROS2ControlComponent[];
+  sensors: ROS2ControlComponent[];
+  gpios: ROS2ControlComponent[];
+}
+
+// <gazebo> block, kept as raw XML
+export interface GazeboExtension {
+  reference?: string; // Link or joint the block applies to; undefined for robot-level blocks
+  elements: XMLElement[];
 }
 
 // Root element <robot> in URDF, represented as Robot interface for better usability
@@ -156,4 +261,7 @@ export interface Robot {
   joints: Joint[]; // Changed from Joint | Joint[] to Joint[] (undefined の可能性をなくしました)
   transmissions: Transmission[]; // Changed from Transmission | Transmission[] to Transmission[] (undefined の可能性をなくしました)
   materials: Material[]; // Changed from Material | Material[] to Material[] (undefined の可能性をなくしました)
+  ros2Control?: ROS2Control[];
+  gazebo?: GazeboExtension[];
+  unknown?: UnknownXML;
 }
@@ -1,15 +1,46 @@
+import { URDFParseError } from '../errors';
 import { Vector3 } from '../types/urdf';
 
+/**
+ * Context of a value being parsed, used for strict mode errors
+ */
+export interface ParseContext {
+  /**
+   * Throw URDFParseError for malformed values instead of using defaults
+   */
+  strict?: boolean;
+  /**
+   * Path to the element holding the value
+   */
+  element?: string;
+  /**
+   * Name of the attribute holding the value
+   */
+  attribute?: string;
+}
+
 /**
  * Convert string to number
  * @param value String to convert
  * @param defaultValue Default value
+ * @param context Parse context
  * @returns Number
  */
-export function parseNumber(value: string | undefined, defaultValue: number = 0): number {
+export function parseNumber(
+  value: string | undefined,
+  defaultValue: number = 0,
+  context?: ParseContext
+): number {
   if (value === undefined) {
     return defaultValue;
   }
+  if (context?.strict) {
+    const num = value.trim() === '' ? NaN : Number(value);
+    if (!Number.isFinite(num)) {
+      throw malformed(`Expected a number, got "${value}"`, value, context);
+    }
+    return num;
+  }
   const num = parseFloat(value);
   return isNaN(num) ? defaultValue : num;
 }
@@ -18,11 +49,13 @@ export function parseNumber(value: string | undefined, defaultValue: number = 0)
  * Convert space-separated string to Vector3
  * @param value Space-separated string "x y z"
  * @param defaultValue Default value
+ * @param context Parse context
  * @returns Vector3 object
  */
 export function parseVector3(
   value: string | undefined,
-  defaultValue: Vector3 = { x: 0, y: 0, z: 0 }
+  defaultValue: Vector3 = { x: 0, y: 0, z: 0 },
+  context?: ParseContext
 ): Vector3 {
   if (value === undefined) {
     return defaultValue;
@@ -30,13 +63,16 @@ export function parseVector3(
 
   const parts = value.trim().split(/\s+/);
   if (parts.length !== 3) {
+    if (context?.strict) {
+      throw malformed(`Expected 3 space-separated numbers, got "${value}"`, value, context);
+    }
     return defaultValue;
   }
 
   return {
-    x: parseNumber(parts[0], defaultValue.x),
-    y: parseNumber(parts[1], defaultValue.y),
-    z: parseNumber(parts[2], defaultValue.z),
+    x: parseElement(parts[0], defaultValue.x, value, context),
+    y: parseElement(parts[1], defaultValue.y, value, context),
+    z: parseElement(parts[2], defaultValue.z, value, context),
   };
 }
 
@@ -44,11 +80,13 @@ export function parseVector3(
  * Convert RGBA color string to array
  * @param value Space-separated string "r g b a"
  * @param defaultValue Default value
+ * @param context Parse context
  * @returns Array of [r, g, b, a]
  */
 export function parseRGBA(
   value: string | undefined,
-  defaultValue: [number, number, number, number] = [0, 0, 0, 1]
+  defaultValue: [number, number, number, number] = [0, 0, 0, 1],
+  context?: ParseContext
 ): [number, number, number, number] {
   if (value === undefined) {
     return defaultValue;
@@ -56,14 +94,17 @@ export function parseRGBA(
 
   const parts = value.trim().split(/\s+/);
   if (parts.length !== 4) {
+    if (context?.strict) {
+      throw malformed(`Expected 4 space-separated numbers, got "${value}"`, value, context);
+    }
     return defaultValue;
   }
 
   return [
-    parseNumber(parts[0], defaultValue[0]),
-    parseNumber(parts[1], defaultValue[1]),
-    parseNumber(parts[2], defaultValue[2]),
-    parseNumber(parts[3], defaultValue[3]),
+    parseElement(parts[0], defaultValue[0], value, context),
+    parseElement(parts[1], defaultValue[1], value, context),
+    parseElement(parts[2], defaultValue[2], value, context),
+    parseElement(parts[3], defaultValue[3], value, context),
   ];
 }
 
@@ -91,3 +132,35 @@ export function getAttribute(obj: any, attributeName: string): string | undefine
   }
   return obj['@_' + attributeName];
 }
+
+/**
+ * Parse one element of a space-separated list
+ * @param part Element string
+ * @param defaultValue Default value
+ * @param value Whole raw value, reported in strict mode errors
+ * @param context Parse context
+ * @returns Number
+ */
+function parseElement(
+  part: string,
+  defaultValue: number,
+  value: string,
+  context?: ParseContext
+): number {
+  try {
+    return parseNumber(part, defaultValue, context);
+  } catch {
+    throw malformed(`Expected a number but found "${part}" in "${value}"`, value, context!);
+  }
+}
+
+/**
+ * Create strict mode error for a malformed value
+ * @param message Error message
+ * @param value Raw value
+ * @param context Parse context
+ * @returns URDFParseError
+ */
+function malformed(message: string, value: string, context: ParseContext): URDFParseError {
+  return new URDFParseError(message, value, context.element, context.attribute);
+}
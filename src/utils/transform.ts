@@ -0,0 +1,384 @@
+import { Matrix3, Matrix4, Pose, Quaternion } from '../types/math';
+import { Vector3 } from '../types/urdf';
+
+/**
+ * Create 4x4 identity matrix
+ * @returns Identity matrix
+ */
+export function identityMatrix4(): Matrix4 {
+  return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+}
+
+/**
+ * Multiply two 4x4 matrices
+ * @param a Left matrix
+ * @param b Right matrix
+ * @returns Product a * b
+ */
+export function multiplyMatrix4(a: Matrix4, b: Matrix4): Matrix4 {
+  const result: Matrix4 = new Array(16).fill(0);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 4; col++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[row * 4 + k] * b[k * 4 + col];
+      }
+      result[row * 4 + col] = sum;
+    }
+  }
+  return result;
+}
+
+/**
+ * Invert a rigid transform (rotation + translation)
+ * @param m Rigid transform
+ * @returns Inverse transform
+ */
+export function invertMatrix4(m: Matrix4): Matrix4 {
+  const rotation = transposeMatrix3(getRotation(m));
+  const translation = rotateVector(rotation, getTranslation(m));
+  return composeMatrix4(rotation, { x: -translation.x, y: -translation.y, z: -translation.z });
+}
+
+/**
+ * Build transform from rotation and translation
+ * @param rotation 3x3 rotation matrix
+ * @param translation Translation vector
+ * @returns 4x4 transform
+ */
+export function composeMatrix4(rotation: Matrix3, translation: Vector3): Matrix4 {
+  return [
+    rotation[0],
+    rotation[1],
+    rotation[2],
+    translation.x,
+    rotation[3],
+    rotation[4],
+    rotation[5],
+    translation.y,
+    rotation[6],
+    rotation[7],
+    rotation[8],
+    translation.z,
+    0,
+    0,
+    0,
+    1,
+  ];
+}
+
+/**
+ * Build pure translation transform
+ * @param translation Translation vector
+ * @returns 4x4 transform
+ */
+export function translationMatrix4(translation: Vector3): Matrix4 {
+  return composeMatrix4(identityMatrix3(), translation);
+}
+
+/**
+ * Extract translation part of a transform
+ * @param m 4x4 transform
+ * @returns Translation vector
+ */
+export function getTranslation(m: Matrix4): Vector3 {
+  return { x: m[3], y: m[7], z: m[11] };
+}
+
+/**
+ * Extract rotation part of a transform
+ * @param m 4x4 transform
+ * @returns 3x3 rotation matrix
+ */
+export function getRotation(m: Matrix4): Matrix3 {
+  return [m[0], m[1], m[2], m[4], m[5], m[6], m[8], m[9], m[10]];
+}
+
+/**
+ * Transform a point by a 4x4 matrix
+ * @param m 4x4 transform
+ * @param point Point
+ * @returns Transformed point
+ */
+export function transformPoint(m: Matrix4, point: Vector3): Vector3 {
+  return addVector3(rotateVector(getRotation(m), point), getTranslation(m));
+}
+
+/**
+ * Create 3x3 identity matrix
+ * @returns Identity matrix
+ */
+export function identityMatrix3(): Matrix3 {
+  return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+}
+
+/**
+ * Multiply two 3x3 matrices
+ * @param a Left matrix
+ * @param b Right matrix
+ * @returns Product a * b
+ */
+export function multiplyMatrix3(a: Matrix3, b: Matrix3): Matrix3 {
+  const result: Matrix3 = new Array(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      let sum = 0;
+      for (let k = 0; k < 3; k++) {
+        sum += a[row * 3 + k] * b[k * 3 + col];
+      }
+      result[row * 3 + col] = sum;
+    }
+  }
+  return result;
+}
+
+/**
+ * Transpose a 3x3 matrix
+ * @param m 3x3 matrix
+ * @returns Transposed matrix
+ */
+export function transposeMatrix3(m: Matrix3): Matrix3 {
+  return [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]];
+}
+
+/**
+ * Multiply a 3x3 matrix by a vector
+ * @param m 3x3 matrix
+ * @param v Vector
+ * @returns Product m * v
+ */
+export function rotateVector(m: Matrix3, v: Vector3): Vector3 {
+  return {
+    x: m[0] * v.x + m[1] * v.y + m[2] * v.z,
+    y: m[3] * v.x + m[4] * v.y + m[5] * v.z,
+    z: m[6] * v.x + m[7] * v.y + m[8] * v.z,
+  };
+}
+
+/**
+ * Convert URDF roll-pitch-yaw (fixed axes X, Y, Z) to rotation matrix
+ * @param rpy Roll, pitch and yaw in radians
+ * @returns 3x3 rotation matrix Rz(yaw) * Ry(pitch) * Rx(roll)
+ */
+export function rpyToMatrix3(rpy: Vector3): Matrix3 {
+  const cr = Math.cos(rpy.x);
+  const sr = Math.sin(rpy.x);
+  const cp = Math.cos(rpy.y);
+  const sp = Math.sin(rpy.y);
+  const cy = Math.cos(rpy.z);
+  const sy = Math.sin(rpy.z);
+
+  return [
+    cy * cp,
+    cy * sp * sr - sy * cr,
+    cy * sp * cr + sy * sr,
+    sy * cp,
+    sy * sp * sr + cy * cr,
+    sy * sp * cr - cy * sr,
+    -sp,
+    cp * sr,
+    cp * cr,
+  ];
+}
+
+/**
+ * Convert rotation matrix to URDF roll-pitch-yaw (fixed axes X, Y, Z)
+ * @param m 3x3 rotation matrix
+ * @returns Roll, pitch and yaw in radians, with pitch in [-pi/2, pi/2] and
+ * yaw set to zero at gimbal lock
+ */
+export function matrix3ToRPY(m: Matrix3): Vector3 {
+  const pitch = Math.asin(Math.min(1, Math.max(-1, -m[6])));
+  if (Math.abs(m[6]) < 1 - 1e-12) {
+    return { x: Math.atan2(m[7], m[8]), y: pitch, z: Math.atan2(m[3], m[0]) };
+  }
+  return { x: Math.atan2(-m[5], m[4]), y: pitch, z: 0 };
+}
+
+/**
+ * Build rotation matrix from axis and angle
+ * @param axis Rotation axis (normalized internally)
+ * @param angle Angle in radians
+ * @returns 3x3 rotation matrix
+ */
+export function axisAngleToMatrix3(axis: Vector3, angle: number): Matrix3 {
+  const { x, y, z } = normalizeVector3(axis);
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+
+  return [
+    t * x * x + c,
+    t * x * y - s * z,
+    t * x * z + s * y,
+    t * x * y + s * z,
+    t * y * y + c,
+    t * y * z - s * x,
+    t * x * z - s * y,
+    t * y * z + s * x,
+    t * z * z + c,
+  ];
+}
+
+/**
+ * Convert rotation matrix to quaternion
+ * @param m 3x3 rotation matrix
+ * @returns Unit quaternion
+ */
+export function matrix3ToQuaternion(m: Matrix3): Quaternion {
+  const trace = m[0] + m[4] + m[8];
+
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return { w: s / 4, x: (m[7] - m[5]) / s, y: (m[2] - m[6]) / s, z: (m[3] - m[1]) / s };
+  }
+  if (m[0] > m[4] && m[0] > m[8]) {
+    const s = Math.sqrt(1 + m[0] - m[4] - m[8]) * 2;
+    return { w: (m[7] - m[5]) / s, x: s / 4, y: (m[1] + m[3]) / s, z: (m[2] + m[6]) / s };
+  }
+  if (m[4] > m[8]) {
+    const s = Math.sqrt(1 + m[4] - m[0] - m[8]) * 2;
+    return { w: (m[2] - m[6]) / s, x: (m[1] + m[3]) / s, y: s / 4, z: (m[5] + m[7]) / s };
+  }
+  const s = Math.sqrt(1 + m[8] - m[0] - m[4]) * 2;
+  return { w: (m[3] - m[1]) / s, x: (m[2] + m[6]) / s, y: (m[5] + m[7]) / s, z: s / 4 };
+}
+
+/**
+ * Convert quaternion to rotation matrix
+ * @param q Unit quaternion
+ * @returns 3x3 rotation matrix
+ */
+export function quaternionToMatrix3(q: Quaternion): Matrix3 {
+  const { x, y, z, w } = q;
+  return [
+    1 - 2 * (y * y + z * z),
+    2 * (x * y - z * w),
+    2 * (x * z + y * w),
+    2 * (x * y + z * w),
+    1 - 2 * (x * x + z * z),
+    2 * (y * z - x * w),
+    2 * (x * z - y * w),
+    2 * (y * z + x * w),
+    1 - 2 * (x * x + y * y),
+  ];
+}
+
+/**
+ * Convert rotation matrix to rotation vector (axis scaled by angle)
+ * @param m 3x3 rotation matrix
+ * @returns Rotation vector with angle in [0, pi]
+ */
+export function matrix3ToRotationVector(m: Matrix3): Vector3 {
+  const q = matrix3ToQuaternion(m);
+  const sign = q.w < 0 ? -1 : 1;
+  const v = { x: q.x * sign, y: q.y * sign, z: q.z * sign };
+  const s = Math.sqrt(dotVector3(v, v));
+  if (s < 1e-12) {
+    return scaleVector3(v, 2);
+  }
+  return scaleVector3(v, (2 * Math.atan2(s, q.w * sign)) / s);
+}
+
+/**
+ * Convert URDF origin to transform
+ * @param origin Origin with optional xyz and rpy
+ * @returns 4x4 transform
+ */
+export function originToMatrix4(origin?: { xyz?: Vector3; rpy?: Vector3 }): Matrix4 {
+  const rotation = origin?.rpy ? rpyToMatrix3(origin.rpy) : identityMatrix3();
+  return composeMatrix4(rotation, origin?.xyz ?? { x: 0, y: 0, z: 0 });
+}
+
+/**
+ * Convert transform to URDF origin
+ *
+ * Components smaller than 1e-12 in magnitude are set to zero to drop the
+ * round-off residue of composed transforms.
+ * @param m 4x4 transform
+ * @returns Origin with xyz and rpy
+ */
+export function matrix4ToOrigin(m: Matrix4): { xyz: Vector3; rpy: Vector3 } {
+  const snap = (v: Vector3): Vector3 => ({
+    x: Math.abs(v.x) < 1e-12 ? 0 : v.x,
+    y: Math.abs(v.y) < 1e-12 ? 0 : v.y,
+    z: Math.abs(v.z) < 1e-12 ? 0 : v.z,
+  });
+  return { xyz: snap(getTranslation(m)), rpy: snap(matrix3ToRPY(getRotation(m))) };
+}
+
+/**
+ * Convert transform to position and quaternion
+ * @param m 4x4 transform
+ * @returns Pose
+ */
+export function matrix4ToPose(m: Matrix4): Pose {
+  return {
+    position: getTranslation(m),
+    quaternion: matrix3ToQuaternion(getRotation(m)),
+  };
+}
+
+/**
+ * Add two vectors
+ * @param a First vector
+ * @param b Second vector
+ * @returns Sum a + b
+ */
+export function addVector3(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+/**
+ * Subtract two vectors
+ * @param a First vector
+ * @param b Second vector
+ * @returns Difference a - b
+ */
+export function subtractVector3(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/**
+ * Scale a vector
+ * @param v Vector
+ * @param s Scale factor
+ * @returns Scaled vector
+ */
+export function scaleVector3(v: Vector3, s: number): Vector3 {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+/**
+ * Dot product of two vectors
+ * @param a First vector
+ * @param b Second vector
+ * @returns a · b
+ */
+export function dotVector3(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Cross product of two vectors
+ * @param a First vector
+ * @param b Second vector
+ * @returns a × b
+ */
+export function crossVector3(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+/**
+ * Normalize a vector
+ * @param v Vector
+ * @returns Unit vector, or the input unchanged if its length is zero
+ */
+export function normalizeVector3(v: Vector3): Vector3 {
+  const length = Math.sqrt(dotVector3(v, v));
+  return length === 0 ? { ...v } : scaleVector3(v, 1 / length);
+}
@@ -0,0 +1,84 @@
+import { Transmission, TransmissionActuator, TransmissionJoint } from '../types/urdf';
+
+/**
+ * Get the joints driven by a transmission
+ *
+ * `joints` is the source of truth; `joint` is only used for transmissions
+ * without a `joints` list.
+ * @param transmission Transmission object
+ * @returns Joint entries in document order
+ */
+export function transmissionJoints(transmission: Transmission): TransmissionJoint[] {
+  return entries(transmission.joint, transmission.joints);
+}
+
+/**
+ * Get the actuators driving a transmission
+ *
+ * `actuators` is the source of truth, as in transmissionJoints.
+ * @param transmission Transmission object
+ * @returns Actuator entries in document order
+ */
+export function transmissionActuators(transmission: Transmission): TransmissionActuator[] {
+  return entries(transmission.actuator, transmission.actuators);
+}
+
+/**
+ * Derive `joint` and `actuator` from the first entries of `joints` and `actuators`
+ *
+ * Both become accessors: reading returns the first entry, and assigning
+ * replaces it (creating the list if needed), or removes it when assigning
+ * undefined. Existing single entries without a list are moved into one.
+ * @param transmission Transmission object, modified in place
+ * @returns The transmission
+ */
+export function linkFirstEntries(transmission: Transmission): Transmission {
+  linkFirst(transmission, 'joint', 'joints');
+  linkFirst(transmission, 'actuator', 'actuators');
+  return transmission;
+}
+
+/**
+ * Get the entries of a list, falling back to a single entry
+ * @param single Single entry
+ * @param list Entry list
+ * @returns Copy of the list, or the single entry when there is no list
+ */
+function entries<T>(single: T | undefined, list: T[] | undefined): T[] {
+  if (list) {
+    return [...list];
+  }
+  return single !== undefined ? [single] : [];
+}
+
+/**
+ * Define a single-entry property as an accessor of the first list entry
+ * @param transmission Transmission object, modified in place
+ * @param single Single-entry property name
+ * @param list List property name
+ */
+function linkFirst(
+  transmission: Transmission,
+  single: 'joint' | 'actuator',
+  list: 'joints' | 'actuators'
+): void {
+  const target = transmission as Record<string, unknown>;
+  const value = target[single];
+  if (value !== undefined && target[list] === undefined) {
+    target[list] = [value];
+  }
+
+  Object.defineProperty(transmission, single, {
+    configurable: true,
+    enumerable: true,
+    get: () => (target[list] as unknown[] | undefined)?.[0],
+    set: (entry: unknown) => {
+      const current = target[list] as unknown[] | undefined;
+      if (entry === undefined && current === undefined) {
+        return;
+      }
+      const rest = current?.slice(1) ?? [];
+      target[list] = entry === undefined ? rest : [entry, ...rest];
+    },
+  });
+}
@@ -0,0 +1,99 @@
+import { XMLParser } from 'fast-xml-parser';
+
+import { XMLElement } from '../types/urdf';
+
+// Tag of comments in raw elements, also the XMLBuilder comment property
+export const COMMENT = '#comment';
+
+// Parser keeping document order and the exact attribute and text values
+const rawParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  preserveOrder: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+  commentPropName: COMMENT,
+});
+
+/**
+ * Parse XML text into raw elements
+ * @param text XML text
+ * @returns Top-level elements in document order, without the XML declaration
+ */
+export function parseXMLElements(text: string): XMLElement[] {
+  return toXMLElements(rawParser.parse(text));
+}
+
+/**
+ * Find the children of an element with a given tag
+ * @param element Parent element
+ * @param tag Child tag
+ * @returns Matching children in document order
+ */
+export function childElements(element: XMLElement | undefined, tag: string): XMLElement[] {
+  return element ? element.children.filter(child => child.tag === tag) : [];
+}
+
+/**
+ * Convert a raw element to a node of an XMLBuilder configured with `preserveOrder`
+ *
+ * Attributes are prefixed with `@_` and text comes before the children.
+ * Comments are emitted under the `#comment` key, which the builder must be
+ * configured to recognize with `commentPropName`.
+ * @param element Raw element or comment
+ * @returns Ordered XML node
+ */
+export function buildXMLNode(element: XMLElement): any {
+  if (element.tag === COMMENT) {
+    return { [COMMENT]: [{ '#text': element.text ?? '' }] };
+  }
+
+  const children: any[] = element.text !== undefined ? [{ '#text': element.text }] : [];
+  children.push(...element.children.map(buildXMLNode));
+
+  const node: any = { [element.tag]: children };
+  const attributes = Object.entries(element.attributes);
+  if (attributes.length > 0) {
+    node[':@'] = Object.fromEntries(attributes.map(([name, value]) => [`@_${name}`, value]));
+  }
+  return node;
+}
+
+/**
+ * Convert ordered parser output to raw elements
+ * @param nodes Nodes produced with `preserveOrder`
+ * @returns Elements and comments, skipping processing instructions and text
+ */
+function toXMLElements(nodes: any[]): XMLElement[] {
+  const elements: XMLElement[] = [];
+
+  for (const node of nodes) {
+    const tag = Object.keys(node).find(key => key !== ':@');
+    if (tag === undefined || tag === '#text' || tag.startsWith('?')) {
+      continue;
+    }
+
+    const text = node[tag]
+      .filter((child: any) => '#text' in child)
+      .map((child: any) => String(child['#text']))
+      .join('');
+
+    if (tag === COMMENT) {
+      elements.push({ tag, attributes: {}, children: [], text });
+      continue;
+    }
+
+    const element: XMLElement = {
+      tag,
+      attributes: { ...node[':@'] },
+      children: toXMLElements(node[tag]),
+    };
+    if (text.trim() !== '') {
+      element.text = text.trim();
+    }
+    elements.push(element);
+  }
+
+  return elements;
+}
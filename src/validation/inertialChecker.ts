@@ -0,0 +1,184 @@
+import { computePrincipalMoments, inertiaToMatrix3 } from '../dynamics/massProperties';
+import { Diagnostic } from '../types/diagnostics';
+import { Collision, Link, Robot, Vector3 } from '../types/urdf';
+import { getRotation, originToMatrix4, transformPoint } from '../utils/transform';
+
+import { elementPath } from './validator';
+
+/**
+ * Options for inertial checks
+ */
+export interface InertialCheckOptions {
+  /**
+   * Relative tolerance for the positive-definiteness and triangle inequality checks (default: 1e-9)
+   */
+  tolerance?: number;
+  /**
+   * Largest accepted factor between the inertia of a link and the inertia of a
+   * solid box filling its collision bounding box with the same mass (default: 10)
+   */
+  geometryRatio?: number;
+}
+
+/**
+ * Result of checking the inertial of one link
+ */
+export interface InertialReport {
+  link: string;
+  mass?: number;
+  /**
+   * Principal moments of inertia in ascending order
+   */
+  principalMoments?: [number, number, number];
+  /**
+   * Ratio of the inertia trace to that of a solid box filling the collision
+   * bounding box, when the collision geometry consists of primitives
+   */
+  geometryRatio?: number;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Check the physical plausibility of link inertials
+ *
+ * Verifies that the mass is positive, that the inertia tensor is positive
+ * definite and its principal moments satisfy the triangle inequality, and
+ * that the inertia is consistent with the size of the collision geometry.
+ * @param robot Robot object
+ * @param options Check options
+ * @returns Report for every link with an inertial
+ */
+export function checkInertials(robot: Robot, options: InertialCheckOptions = {}): InertialReport[] {
+  return robot.links.filter(link => link.inertial).map(link => checkInertial(link, options));
+}
+
+/**
+ * Check the inertial of a link
+ * @param link Link with an inertial
+ * @param options Check options
+ * @returns Report for the link
+ */
+function checkInertial(link: Link, options: InertialCheckOptions): InertialReport {
+  const tolerance = options.tolerance ?? 1e-9;
+  const maxRatio = options.geometryRatio ?? 10;
+  const inertial = link.inertial!;
+  const path = `${elementPath('link', link.name)}/inertial`;
+  const report: InertialReport = { link: link.name, mass: inertial.mass?.value, diagnostics: [] };
+
+  if (report.mass === undefined || !(report.mass > 0)) {
+    report.diagnostics.push({
+      code: 'NON_POSITIVE_MASS',
+      severity: 'error',
+      path: `${path}/mass`,
+      message: `Link ${link.name} has non-positive mass ${report.mass ?? 0}`,
+    });
+  }
+
+  if (!inertial.inertia) {
+    report.diagnostics.push({
+      code: 'MISSING_INERTIA',
+      severity: 'warning',
+      path,
+      message: `Link ${link.name} has no inertia tensor`,
+    });
+    return report;
+  }
+
+  const moments = computePrincipalMoments(inertiaToMatrix3(inertial.inertia));
+  report.principalMoments = moments;
+  const [smallest, middle, largest] = moments;
+  const scale = Math.max(Math.abs(largest), Number.MIN_VALUE);
+
+  if (smallest <= tolerance * scale) {
+    report.diagnostics.push({
+      code: 'NON_POSITIVE_DEFINITE_INERTIA',
+      severity: 'error',
+      path: `${path}/inertia`,
+      message: `Inertia of link ${link.name} is not positive definite (principal moments ${moments.join(', ')})`,
+    });
+  } else if (largest > (smallest + middle) * (1 + tolerance)) {
+    report.diagnostics.push({
+      code: 'INERTIA_TRIANGLE_INEQUALITY',
+      severity: 'error',
+      path: `${path}/inertia`,
+      message: `Principal moments of link ${link.name} violate the triangle inequality: ${largest} > ${smallest} + ${middle}`,
+    });
+  }
+
+  const size = collisionSize(link.collisions);
+  if (size && report.mass !== undefined && report.mass > 0) {
+    const trace = smallest + middle + largest;
+    const boxTrace = (report.mass * (size.x ** 2 + size.y ** 2 + size.z ** 2)) / 6;
+    if (boxTrace > 0) {
+      report.geometryRatio = trace / boxTrace;
+      if (report.geometryRatio > maxRatio || report.geometryRatio < 1 / maxRatio) {
+        report.diagnostics.push({
+          code: 'INERTIA_GEOMETRY_MISMATCH',
+          severity: 'warning',
+          path: `${path}/inertia`,
+          message: `Inertia of link ${link.name} is ${report.geometryRatio.toPrecision(3)} times that of a solid box filling its collision geometry`,
+        });
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Compute the size of the axis-aligned bounding box of primitive collision geometry
+ * @param collisions Collision elements of a link
+ * @returns Bounding box size in the link frame, or undefined if there is no
+ * collision geometry or it includes meshes
+ */
+function collisionSize(collisions: Collision[]): Vector3 | undefined {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+  for (const collision of collisions) {
+    const halfExtents = primitiveHalfExtents(collision);
+    if (!halfExtents) {
+      return undefined;
+    }
+
+    const transform = originToMatrix4(collision.origin);
+    const rotation = getRotation(transform);
+    const center = transformPoint(transform, { x: 0, y: 0, z: 0 });
+    const axes = ['x', 'y', 'z'] as const;
+    axes.forEach((axis, row) => {
+      const extent =
+        Math.abs(rotation[row * 3]) * halfExtents.x +
+        Math.abs(rotation[row * 3 + 1]) * halfExtents.y +
+        Math.abs(rotation[row * 3 + 2]) * halfExtents.z;
+      min[axis] = Math.min(min[axis], center[axis] - extent);
+      max[axis] = Math.max(max[axis], center[axis] + extent);
+    });
+  }
+
+  if (collisions.length === 0) {
+    return undefined;
+  }
+  return { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z };
+}
+
+/**
+ * Get the half extents of a primitive geometry in its own frame
+ * @param collision Collision element
+ * @returns Half extents, or undefined for meshes and missing geometry
+ */
+function primitiveHalfExtents(collision: Collision): Vector3 | undefined {
+  const geometry = collision.geometry;
+  if (geometry?.box?.size) {
+    const { x, y, z } = geometry.box.size;
+    return { x: x / 2, y: y / 2, z: z / 2 };
+  }
+  if (geometry?.cylinder) {
+    const radius = geometry.cylinder.radius ?? 0;
+    return { x: radius, y: radius, z: (geometry.cylinder.length ?? 0) / 2 };
+  }
+  if (geometry?.sphere) {
+    const radius = geometry.sphere.radius ?? 0;
+    return { x: radius, y: radius, z: radius };
+  }
+  return undefined;
+}
@@ -0,0 +1,271 @@
+import { RobotModel } from '../kinematics/kinematicTree';
+import { Diagnostic } from '../types/diagnostics';
+import { Joint, Robot } from '../types/urdf';
+import { transmissionJoints } from '../utils/transmission';
+
+// Joint types defined by the URDF specification
+const JOINT_TYPES: ReadonlyArray<Joint['type']> = [
+  'revolute',
+  'continuous',
+  'prismatic',
+  'fixed',
+  'floating',
+  'planar',
+];
+
+/**
+ * Build XPath-like path to a root-level element
+ * @param tag Element tag name
+ * @param key Element name, or zero-based index among siblings with the same tag
+ * @param occurrence 1-based occurrence among elements with the same name
+ * @returns Path such as `/robot/link[@name='base']`, `/robot/link[@name='base'][2]` or `/robot/link[2]`
+ */
+export function elementPath(tag: string, key: string | number, occurrence = 1): string {
+  if (typeof key === 'number') {
+    return `/robot/${tag}[${key + 1}]`;
+  }
+  const path = `/robot/${tag}${nameSelector(key)}`;
+  return occurrence > 1 ? `${path}[${occurrence}]` : path;
+}
+
+/**
+ * Count another occurrence of a name
+ * @param occurrences Occurrences counted so far, updated in place
+ * @param name Element name
+ * @returns 1-based occurrence of this element
+ */
+export function countOccurrence(occurrences: Map<string, number>, name: string): number {
+  const occurrence = (occurrences.get(name) ?? 0) + 1;
+  occurrences.set(name, occurrence);
+  return occurrence;
+}
+
+/**
+ * Build the name predicate of an element path
+ *
+ * The name is quoted with single quotes, with double quotes when it contains
+ * a single quote, and with XPath `concat()` when it contains both.
+ * @param name Element name
+ * @returns Predicate such as `[@name='base']`
+ */
+export function nameSelector(name: string): string {
+  if (!name.includes("'")) {
+    return `[@name='${name}']`;
+  }
+  if (!name.includes('"')) {
+    return `[@name="${name}"]`;
+  }
+  return `[@name=concat('${name.split("'").join(`', "'", '`)}')]`;
+}
+
+/**
+ * Validate the structure of a robot
+ * @param robot Robot object
+ * @returns Diagnostics, empty if the robot is valid
+ */
+export function validate(robot: Robot): Diagnostic[] {
+  return [
+    ...validateLinks(robot),
+    ...validateJoints(robot),
+    ...validateTree(robot),
+    ...validateTransmissions(robot),
+  ];
+}
+
+/**
+ * Check link names are unique
+ * @param robot Robot object
+ * @returns Diagnostics
+ */
+function validateLinks(robot: Robot): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const occurrences = new Map<string, number>();
+
+  for (const link of robot.links) {
+    const occurrence = countOccurrence(occurrences, link.name);
+    if (occurrence > 1) {
+      diagnostics.push({
+        code: 'DUPLICATE_LINK_NAME',
+        severity: 'error',
+        path: elementPath('link', link.name, occurrence),
+        message: `Link name ${link.name} is defined more than once`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check joint names, types, link references, mimic targets and limits
+ * @param robot Robot object
+ * @returns Diagnostics
+ */
+function validateJoints(robot: Robot): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const linkNames = new Set(robot.links.map(link => link.name));
+  const jointNames = new Set(robot.joints.map(joint => joint.name));
+  const occurrences = new Map<string, number>();
+  const childJoints = new Map<string, string>();
+
+  for (const joint of robot.joints) {
+    const occurrence = countOccurrence(occurrences, joint.name);
+    const path = elementPath('joint', joint.name, occurrence);
+
+    if (occurrence > 1) {
+      diagnostics.push({
+        code: 'DUPLICATE_JOINT_NAME',
+        severity: 'error',
+        path,
+        message: `Joint name ${joint.name} is defined more than once`,
+      });
+    }
+
+    if (!JOINT_TYPES.includes(joint.type)) {
+      diagnostics.push({
+        code: 'INVALID_JOINT_TYPE',
+        severity: 'error',
+        path,
+        message: `Joint ${joint.name} has unknown type ${joint.type}`,
+      });
+    }
+
+    if (!linkNames.has(joint.parent.link)) {
+      diagnostics.push({
+        code: 'UNKNOWN_PARENT_LINK',
+        severity: 'error',
+        path: `${path}/parent`,
+        message: `Joint ${joint.name} references missing parent link ${joint.parent.link}`,
+      });
+    }
+
+    if (!linkNames.has(joint.child.link)) {
+      diagnostics.push({
+        code: 'UNKNOWN_CHILD_LINK',
+        severity: 'error',
+        path: `${path}/child`,
+        message: `Joint ${joint.name} references missing child link ${joint.child.link}`,
+      });
+    }
+
+    const otherParent = childJoints.get(joint.child.link);
+    if (otherParent !== undefined) {
+      diagnostics.push({
+        code: 'MULTIPLE_PARENT_JOINTS',
+        severity: 'error',
+        path: `${path}/child`,
+        message: `Link ${joint.child.link} is the child of both ${otherParent} and ${joint.name}`,
+      });
+    } else {
+      childJoints.set(joint.child.link, joint.name);
+    }
+
+    if (joint.mimic && !jointNames.has(joint.mimic.joint)) {
+      diagnostics.push({
+        code: 'UNKNOWN_MIMIC_JOINT',
+        severity: 'error',
+        path: `${path}/mimic`,
+        message: `Joint ${joint.name} mimics missing joint ${joint.mimic.joint}`,
+      });
+    }
+
+    if ((joint.type === 'revolute' || joint.type === 'prismatic') && !joint.limit) {
+      diagnostics.push({
+        code: 'MISSING_JOINT_LIMIT',
+        severity: 'error',
+        path,
+        message: `Joint ${joint.name} of type ${joint.type} requires a <limit> element`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check the joints form a single tree
+ * @param robot Robot object
+ * @returns Diagnostics
+ */
+function validateTree(robot: Robot): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  if (robot.links.length === 0) {
+    return diagnostics;
+  }
+
+  const model = new RobotModel(robot);
+  const reported = new Set<string>();
+
+  for (const link of robot.links) {
+    const ancestors = model.getAncestors(link.name);
+    const last = ancestors[ancestors.length - 1];
+    const parentOfLast = model.getParentLink(last);
+
+    // getAncestors stops early only when it meets a link it has already visited
+    if (parentOfLast === undefined) {
+      continue;
+    }
+    const cycle = ancestors.slice(ancestors.indexOf(parentOfLast));
+    const key = [...cycle].sort().join('\n');
+    if (reported.has(key)) {
+      continue;
+    }
+    reported.add(key);
+
+    const joint = model.getParentJoint(parentOfLast)!;
+    diagnostics.push({
+      code: 'KINEMATIC_CYCLE',
+      severity: 'error',
+      path: elementPath('joint', joint.name),
+      message: `Joints form a cycle through links ${cycle.join(', ')}`,
+    });
+  }
+
+  // Links that are only referenced by joints are reported as unknown links instead
+  const roots = model.roots.filter(name => model.getLink(name) !== undefined);
+  if (model.roots.length === 0) {
+    diagnostics.push({
+      code: 'NO_ROOT_LINK',
+      severity: 'error',
+      path: '/robot',
+      message: 'Robot has no root link',
+    });
+  } else if (roots.length > 1) {
+    diagnostics.push({
+      code: 'MULTIPLE_ROOT_LINKS',
+      severity: 'error',
+      path: '/robot',
+      message: `Robot has multiple root links: ${roots.join(', ')}`,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check transmissions reference existing joints
+ * @param robot Robot object
+ * @returns Diagnostics
+ */
+function validateTransmissions(robot: Robot): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const jointNames = new Set(robot.joints.map(joint => joint.name));
+
+  robot.transmissions.forEach((transmission, index) => {
+    const path = elementPath('transmission', transmission.name ?? index);
+    const joints = transmissionJoints(transmission);
+
+    joints.forEach((joint, i) => {
+      if (!jointNames.has(joint.name)) {
+        diagnostics.push({
+          code: 'UNKNOWN_TRANSMISSION_JOINT',
+          severity: 'warning',
+          path: joints.length > 1 ? `${path}/joint[${i + 1}]` : `${path}/joint`,
+          message: `Transmission references missing joint ${joint.name}`,
+        });
+      }
+    });
+  });
+
+  return diagnostics;
+}
@@ -0,0 +1,674 @@
+import { RobotModel } from '../kinematics/kinematicTree';
+import { Diagnostic } from '../types/diagnostics';
+import { Geometry, Link, Material, Robot, Vector3, Visual } from '../types/urdf';
+import { matrix3ToQuaternion, rpyToMatrix3 } from '../utils/transform';
+import { elementPath } from '../validation/validator';
+
+/**
+ * Options for glTF writer
+ */
+export interface GLTFWriterOptions {
+  /**
+   * Number of segments around cylinders and spheres (default: 32)
+   */
+  segments?: number;
+  /**
+   * Rotate the Z-up robot into the Y-up glTF convention with a root node (default: true)
+   */
+  yUp?: boolean;
+  /**
+   * JSON indentation used by serialize (default: none)
+   */
+  space?: string | number;
+}
+
+/**
+ * glTF node
+ */
+export interface GLTFNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  translation?: [number, number, number];
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+  extras?: Record<string, unknown>;
+}
+
+/**
+ * glTF 2.0 document with embedded buffers
+ *
+ * Top-level arrays other than scenes and nodes are omitted when empty, as the
+ * glTF schema requires them to have at least one item.
+ */
+export interface GLTFDocument {
+  asset: { version: string; generator?: string };
+  scene: number;
+  scenes: { name?: string; nodes: number[] }[];
+  nodes: GLTFNode[];
+  meshes?: any[];
+  materials?: any[];
+  accessors?: any[];
+  bufferViews?: any[];
+  buffers?: { byteLength: number; uri?: string }[];
+}
+
+/**
+ * Result of converting a robot to glTF
+ */
+export interface GLTFConversion {
+  /**
+   * glTF document
+   */
+  gltf: GLTFDocument;
+  /**
+   * Parts of the robot that could not be represented in glTF, with paths into the URDF
+   */
+  diagnostics: Diagnostic[];
+}
+
+// Triangle mesh with per-vertex normals
+interface Tessellation {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+}
+
+// Accessor indices of a tessellated shape
+interface ShapeAccessors {
+  position: number;
+  normal: number;
+  indices: number;
+}
+
+// State shared by the build methods during one conversion
+interface ConversionContext {
+  model: RobotModel;
+  materials: Map<string, Material>;
+  gltf: Required<GLTFDocument>;
+  /**
+   * Binary chunks of the buffer, each padded to four bytes
+   */
+  chunks: Uint8Array[];
+  byteLength: number;
+  /**
+   * Accessors keyed by shape parameters, shared by equal shapes
+   */
+  shapes: Map<string, ShapeAccessors>;
+  /**
+   * Mesh index keyed by shape and material
+   */
+  meshes: Map<string, number>;
+  /**
+   * Material index keyed by color
+   */
+  colors: Map<string, number>;
+  diagnostics: Diagnostic[];
+}
+
+// glTF constants
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const TRIANGLES = 4;
+
+// Top-level arrays that must not be empty when present
+const OPTIONAL_ARRAYS = ['meshes', 'materials', 'accessors', 'bufferViews', 'buffers'] as const;
+
+// Rotation of -90 degrees about X, taking URDF Z-up to glTF Y-up
+const Z_UP_TO_Y_UP: [number, number, number, number] = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * glTF Writer class
+ *
+ * Builds a glTF 2.0 scene for previewing a robot at zero joint positions. Each
+ * link becomes a node placed at its parent joint origin, so the node hierarchy
+ * mirrors the kinematic tree. Box, cylinder and sphere visuals are tessellated
+ * into a single embedded buffer, with visual colors as PBR base colors. Mesh
+ * geometry is not exported: mesh visuals become empty nodes whose `extras.uri`
+ * holds the mesh file name, for the viewer to load. Collisions are not exported.
+ */
+export class GLTFWriter {
+  private options: GLTFWriterOptions;
+
+  /**
+   * Constructor
+   * @param options Writer options
+   */
+  constructor(options: GLTFWriterOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Serialize robot to glTF JSON text
+   * @param robot Robot object
+   * @returns glTF JSON text
+   */
+  serialize(robot: Robot): string {
+    return JSON.stringify(this.convert(robot).gltf, null, this.options.space);
+  }
+
+  /**
+   * Convert robot to a glTF document, reporting what cannot be represented
+   * @param robot Robot object
+   * @returns glTF document and diagnostics
+   */
+  convert(robot: Robot): GLTFConversion {
+    const context: ConversionContext = {
+      model: new RobotModel(robot),
+      materials: new Map(
+        robot.materials
+          .filter(material => material.name !== undefined)
+          .map(material => [material.name!, material])
+      ),
+      gltf: {
+        asset: { version: '2.0', generator: 'urdf-parser' },
+        scene: 0,
+        scenes: [],
+        nodes: [],
+        meshes: [],
+        materials: [],
+        accessors: [],
+        bufferViews: [],
+        buffers: [],
+      },
+      chunks: [],
+      byteLength: 0,
+      shapes: new Map(),
+      meshes: new Map(),
+      colors: new Map(),
+      diagnostics: [],
+    };
+    let roots = context.model.roots.map(root => this.buildLinkNode(root, undefined, context));
+    if (this.options.yUp !== false) {
+      roots = [addNode(context, { name: robot.name, rotation: Z_UP_TO_Y_UP, children: roots })];
+    }
+    context.gltf.scenes.push({ name: robot.name, nodes: roots });
+
+    if (context.byteLength > 0) {
+      context.gltf.buffers.push({
+        byteLength: context.byteLength,
+        uri: `data:application/octet-stream;base64,${toBase64(concatChunks(context))}`,
+      });
+    }
+
+    const gltf: GLTFDocument = { ...context.gltf };
+    for (const key of OPTIONAL_ARRAYS) {
+      if (gltf[key]!.length === 0) {
+        delete gltf[key];
+      }
+    }
+
+    return { gltf, diagnostics: context.diagnostics };
+  }
+
+  /**
+   * Build node for a link and its subtree
+   * @param name Link name
+   * @param joint Name of the joint attaching the link to its parent
+   * @param context Conversion context
+   * @returns Node index
+   */
+  private buildLinkNode(
+    name: string,
+    joint: string | undefined,
+    context: ConversionContext
+  ): number {
+    const { model } = context;
+    const link = model.getLink(name);
+    const parentJoint = joint !== undefined ? model.getJoint(joint) : undefined;
+
+    const children = [
+      ...(link?.visuals ?? [])
+        .map((visual, index) => this.buildVisualNode(link!, visual, index, context))
+        .filter((index): index is number => index !== undefined),
+      ...model
+        .getChildJoints(name)
+        .filter(child => model.getParentJoint(child.child.link) === child)
+        .map(child => this.buildLinkNode(child.child.link, child.name, context)),
+    ];
+
+    const node: GLTFNode = { name, ...buildTransform(parentJoint?.origin) };
+    if (children.length > 0) {
+      node.children = children;
+    }
+    if (parentJoint) {
+      node.extras = { joint: parentJoint.name, type: parentJoint.type };
+    }
+    return addNode(context, node);
+  }
+
+  /**
+   * Build node for a visual
+   * @param link Link owning the visual
+   * @param visual Visual object
+   * @param index Index of the visual in the link
+   * @param context Conversion context
+   * @returns Node index, or undefined if the visual has no geometry
+   */
+  private buildVisualNode(
+    link: Link,
+    visual: Visual,
+    index: number,
+    context: ConversionContext
+  ): number | undefined {
+    const path = `${elementPath('link', link.name)}/visual[${index + 1}]`;
+    const node: GLTFNode = {
+      name: visual.name ?? `${link.name}_visual_${index}`,
+      ...buildTransform(visual.origin),
+    };
+
+    const mesh = visual.geometry?.mesh;
+    if (mesh?.filename !== undefined) {
+      if (mesh.scale) {
+        node.scale = [mesh.scale.x, mesh.scale.y, mesh.scale.z];
+      }
+      node.extras = { uri: mesh.filename };
+      return addNode(context, node);
+    }
+
+    const key = visual.geometry ? shapeKey(visual.geometry) : undefined;
+    if (key === undefined) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path,
+        message: 'Visual without box, cylinder, sphere or mesh geometry is omitted',
+      });
+      return undefined;
+    }
+
+    node.mesh = this.buildMesh(visual, key, `${path}/material`, context);
+    return addNode(context, node);
+  }
+
+  /**
+   * Get or create the mesh for a primitive shape and visual material
+   * @param visual Visual object with box, cylinder or sphere geometry
+   * @param key Shape key
+   * @param path Path to the material element
+   * @param context Conversion context
+   * @returns Mesh index
+   */
+  private buildMesh(visual: Visual, key: string, path: string, context: ConversionContext): number {
+    const material = this.buildMaterial(visual, path, context);
+    const meshKey = `${key}|${material ?? ''}`;
+    const existing = context.meshes.get(meshKey);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    let accessors = context.shapes.get(key);
+    if (!accessors) {
+      accessors = writeTessellation(context, this.tessellate(visual.geometry!));
+      context.shapes.set(key, accessors);
+    }
+
+    const primitive: any = {
+      attributes: { POSITION: accessors.position, NORMAL: accessors.normal },
+      indices: accessors.indices,
+      mode: TRIANGLES,
+    };
+    if (material !== undefined) {
+      primitive.material = material;
+    }
+
+    context.gltf.meshes.push({ primitives: [primitive] });
+    context.meshes.set(meshKey, context.gltf.meshes.length - 1);
+    return context.gltf.meshes.length - 1;
+  }
+
+  /**
+   * Tessellate a primitive geometry
+   * @param geometry Geometry with a box, cylinder or sphere
+   * @returns Triangle mesh
+   */
+  private tessellate(geometry: Geometry): Tessellation {
+    const segments = Math.max(3, Math.floor(this.options.segments ?? 32));
+
+    if (geometry.box) {
+      return tessellateBox(geometry.box.size ?? { x: 0, y: 0, z: 0 });
+    }
+    if (geometry.cylinder) {
+      const { radius = 0, length = 0 } = geometry.cylinder;
+      return tessellateCylinder(radius, length, segments);
+    }
+    return tessellateSphere(geometry.sphere?.radius ?? 0, segments);
+  }
+
+  /**
+   * Get or create the material for the color of a visual, looking up name-only
+   * references in the root-level materials
+   * @param visual Visual object
+   * @param path Path to the material element
+   * @param context Conversion context
+   * @returns Material index, or undefined if the visual has no color
+   */
+  private buildMaterial(
+    visual: Visual,
+    path: string,
+    context: ConversionContext
+  ): number | undefined {
+    const material = visual.material;
+    if (!material) {
+      return undefined;
+    }
+
+    const defined = material.name !== undefined ? context.materials.get(material.name) : undefined;
+    if (material.texture?.filename ?? defined?.texture?.filename) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/texture`,
+        message: 'Textures are not exported to glTF; only the material color is used',
+      });
+    }
+
+    const rgba = material.color?.rgba ?? defined?.color?.rgba;
+    if (!rgba) {
+      return undefined;
+    }
+
+    const key = rgba.join(' ');
+    const existing = context.colors.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const element: any = {
+      pbrMetallicRoughness: { baseColorFactor: [...rgba], metallicFactor: 0 },
+    };
+    if (material.name !== undefined) {
+      element.name = material.name;
+    }
+    if (rgba[3] < 1) {
+      element.alphaMode = 'BLEND';
+    }
+    context.gltf.materials.push(element);
+    context.colors.set(key, context.gltf.materials.length - 1);
+    return context.gltf.materials.length - 1;
+  }
+}
+
+/**
+ * Append a node to the document
+ * @param context Conversion context
+ * @param node glTF node
+ * @returns Node index
+ */
+function addNode(context: ConversionContext, node: GLTFNode): number {
+  context.gltf.nodes.push(node);
+  return context.gltf.nodes.length - 1;
+}
+
+/**
+ * Build translation and rotation of a node from a URDF origin
+ * @param origin Origin with optional xyz and rpy
+ * @returns Node properties, omitting the identity parts
+ */
+function buildTransform(origin?: { xyz?: Vector3; rpy?: Vector3 }): Partial<GLTFNode> {
+  const transform: Partial<GLTFNode> = {};
+  const { xyz, rpy } = origin ?? {};
+
+  if (xyz && (xyz.x !== 0 || xyz.y !== 0 || xyz.z !== 0)) {
+    transform.translation = [xyz.x, xyz.y, xyz.z];
+  }
+  if (rpy && (rpy.x !== 0 || rpy.y !== 0 || rpy.z !== 0)) {
+    const q = matrix3ToQuaternion(rpyToMatrix3(rpy));
+    transform.rotation = [q.x, q.y, q.z, q.w].map(value =>
+      Math.abs(value) < 1e-12 ? 0 : value
+    ) as [number, number, number, number];
+  }
+
+  return transform;
+}
+
+/**
+ * Build a key identifying a primitive shape
+ * @param geometry Geometry object
+ * @returns Key, or undefined if the geometry is not a box, cylinder or sphere
+ */
+function shapeKey(geometry: Geometry): string | undefined {
+  if (geometry.box) {
+    const { x, y, z } = geometry.box.size ?? { x: 0, y: 0, z: 0 };
+    return `box ${x} ${y} ${z}`;
+  }
+  if (geometry.cylinder) {
+    return `cylinder ${geometry.cylinder.radius ?? 0} ${geometry.cylinder.length ?? 0}`;
+  }
+  if (geometry.sphere) {
+    return `sphere ${geometry.sphere.radius ?? 0}`;
+  }
+  return undefined;
+}
+
+/**
+ * Tessellate a box centered at the origin
+ * @param size Box dimensions
+ * @returns Triangle mesh with four vertices per face
+ */
+function tessellateBox(size: Vector3): Tessellation {
+  const half = [size.x / 2, size.y / 2, size.z / 2];
+  const mesh: Tessellation = { positions: [], normals: [], indices: [] };
+
+  for (let axis = 0; axis < 3; axis++) {
+    for (const sign of [1, -1]) {
+      const u = (axis + 1) % 3;
+      const v = (axis + 2) % 3;
+      const base = mesh.positions.length / 3;
+
+      for (const [su, sv] of [
+        [-1, -1],
+        [1, -1],
+        [1, 1],
+        [-1, 1],
+      ]) {
+        const position = [0, 0, 0];
+        const normal = [0, 0, 0];
+        position[axis] = sign * half[axis];
+        position[u] = su * half[u];
+        position[v] = sv * half[v];
+        normal[axis] = sign;
+        mesh.positions.push(...position);
+        mesh.normals.push(...normal);
+      }
+
+      // Counter-clockwise when seen from outside
+      mesh.indices.push(
+        ...(sign > 0 ? [0, 1, 2, 0, 2, 3] : [0, 2, 1, 0, 3, 2]).map(index => base + index)
+      );
+    }
+  }
+
+  return mesh;
+}
+
+/**
+ * Tessellate a cylinder along the Z axis, centered at the origin
+ * @param radius Cylinder radius
+ * @param length Cylinder length
+ * @param segments Number of segments around the axis
+ * @returns Triangle mesh with separate side and cap vertices
+ */
+function tessellateCylinder(radius: number, length: number, segments: number): Tessellation {
+  const half = length / 2;
+  const mesh: Tessellation = { positions: [], normals: [], indices: [] };
+
+  for (let i = 0; i <= segments; i++) {
+    const theta = (2 * Math.PI * i) / segments;
+    const [c, s] = [Math.cos(theta), Math.sin(theta)];
+    mesh.positions.push(radius * c, radius * s, -half, radius * c, radius * s, half);
+    mesh.normals.push(c, s, 0, c, s, 0);
+  }
+  for (let i = 0; i < segments; i++) {
+    const [b0, t0, b1, t1] = [2 * i, 2 * i + 1, 2 * i + 2, 2 * i + 3];
+    mesh.indices.push(b0, b1, t1, b0, t1, t0);
+  }
+
+  for (const sign of [1, -1]) {
+    const center = mesh.positions.length / 3;
+    mesh.positions.push(0, 0, sign * half);
+    mesh.normals.push(0, 0, sign);
+    for (let i = 0; i <= segments; i++) {
+      const theta = (2 * Math.PI * i) / segments;
+      mesh.positions.push(radius * Math.cos(theta), radius * Math.sin(theta), sign * half);
+      mesh.normals.push(0, 0, sign);
+    }
+    for (let i = 0; i < segments; i++) {
+      const [a, b] = [center + 1 + i, center + 2 + i];
+      mesh.indices.push(...(sign > 0 ? [center, a, b] : [center, b, a]));
+    }
+  }
+
+  return mesh;
+}
+
+/**
+ * Tessellate a sphere centered at the origin as a latitude-longitude grid
+ * @param radius Sphere radius
+ * @param segments Number of segments around the Z axis; half as many rings are used
+ * @returns Triangle mesh
+ */
+function tessellateSphere(radius: number, segments: number): Tessellation {
+  const rings = Math.max(2, Math.floor(segments / 2));
+  const mesh: Tessellation = { positions: [], normals: [], indices: [] };
+
+  for (let j = 0; j <= rings; j++) {
+    const phi = (Math.PI * j) / rings;
+    for (let i = 0; i <= segments; i++) {
+      const theta = (2 * Math.PI * i) / segments;
+      const normal = [
+        Math.sin(phi) * Math.cos(theta),
+        Math.sin(phi) * Math.sin(theta),
+        Math.cos(phi),
+      ];
+      mesh.positions.push(...normal.map(value => radius * value));
+      mesh.normals.push(...normal);
+    }
+  }
+
+  for (let j = 0; j < rings; j++) {
+    for (let i = 0; i < segments; i++) {
+      const a = j * (segments + 1) + i;
+      const b = a + segments + 1;
+      // Skip the degenerate triangles at the poles
+      if (j > 0) {
+        mesh.indices.push(a, b, a + 1);
+      }
+      if (j < rings - 1) {
+        mesh.indices.push(a + 1, b, b + 1);
+      }
+    }
+  }
+
+  return mesh;
+}
+
+/**
+ * Write a tessellated shape to the buffer
+ * @param context Conversion context
+ * @param mesh Triangle mesh
+ * @returns Accessor indices for positions, normals and indices
+ */
+function writeTessellation(context: ConversionContext, mesh: Tessellation): ShapeAccessors {
+  const count = mesh.positions.length / 3;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < mesh.positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], Math.fround(mesh.positions[i]));
+    max[i % 3] = Math.max(max[i % 3], Math.fround(mesh.positions[i]));
+  }
+
+  const wide = count > 0xffff;
+  const indices = wide ? new Uint32Array(mesh.indices) : new Uint16Array(mesh.indices);
+
+  return {
+    position: addAccessor(context, new Float32Array(mesh.positions), ARRAY_BUFFER, {
+      componentType: FLOAT,
+      count,
+      type: 'VEC3',
+      min,
+      max,
+    }),
+    normal: addAccessor(context, new Float32Array(mesh.normals), ARRAY_BUFFER, {
+      componentType: FLOAT,
+      count,
+      type: 'VEC3',
+    }),
+    indices: addAccessor(context, indices, ELEMENT_ARRAY_BUFFER, {
+      componentType: wide ? UNSIGNED_INT : UNSIGNED_SHORT,
+      count: mesh.indices.length,
+      type: 'SCALAR',
+    }),
+  };
+}
+
+/**
+ * Append data to the buffer with its own buffer view and accessor
+ * @param context Conversion context
+ * @param data Typed array
+ * @param target Buffer view target
+ * @param accessor Accessor properties other than the buffer view
+ * @returns Accessor index
+ */
+function addAccessor(
+  context: ConversionContext,
+  data: Float32Array | Uint16Array | Uint32Array,
+  target: number,
+  accessor: any
+): number {
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  const { gltf } = context;
+
+  gltf.bufferViews.push({
+    buffer: 0,
+    byteOffset: context.byteLength,
+    byteLength: bytes.length,
+    target,
+  });
+  gltf.accessors.push({ bufferView: gltf.bufferViews.length - 1, ...accessor });
+
+  // Keep every buffer view four-byte aligned
+  const padded = new Uint8Array(Math.ceil(bytes.length / 4) * 4);
+  padded.set(bytes);
+  context.chunks.push(padded);
+  context.byteLength += padded.length;
+
+  return gltf.accessors.length - 1;
+}
+
+/**
+ * Concatenate the buffer chunks
+ * @param context Conversion context
+ * @returns Buffer contents
+ */
+function concatChunks(context: ConversionContext): Uint8Array {
+  const buffer = new Uint8Array(context.byteLength);
+  let offset = 0;
+  for (const chunk of context.chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return buffer;
+}
+
+/**
+ * Encode bytes as base64
+ * @param bytes Bytes
+ * @returns Base64 text
+ */
+function toBase64(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const [a, b = 0, c = 0] = [bytes[i], bytes[i + 1], bytes[i + 2]];
+    const triple = (a << 16) | (b << 8) | c;
+    text += BASE64[(triple >> 18) & 63] + BASE64[(triple >> 12) & 63];
+    text += i + 1 < bytes.length ? BASE64[(triple >> 6) & 63] : '=';
+    text += i + 2 < bytes.length ? BASE64[triple & 63] : '=';
+  }
+  return text;
+}
@@ -0,0 +1,624 @@
+import { XMLBuilder } from 'fast-xml-parser';
+
+import { computeInertialMassProperties } from '../dynamics/massProperties';
+import { RobotModel } from '../kinematics/kinematicTree';
+import { Diagnostic } from '../types/diagnostics';
+import { Collision, Inertial, Joint, Link, Material, Robot, Vector3, Visual } from '../types/urdf';
+import { matrix3ToQuaternion, rpyToMatrix3 } from '../utils/transform';
+import { elementPath } from '../validation/validator';
+
+/**
+ * Options for MJCF writer
+ */
+export interface MJCFWriterOptions {
+  /**
+   * Emit the `<?xml version="1.0"?>` declaration (default: true)
+   */
+  xmlDeclaration?: boolean;
+  /**
+   * Indentation string (default: two spaces)
+   */
+  indentBy?: string;
+  /**
+   * Give top-level bodies of root links a `<freejoint/>`; otherwise they are
+   * welded to the world (default: false)
+   */
+  floatingBase?: boolean;
+  /**
+   * Options for XML builder
+   */
+  xmlBuilderOptions?: any;
+}
+
+/**
+ * Result of converting a robot to MJCF
+ */
+export interface MJCFConversion {
+  /**
+   * MJCF text
+   */
+  xml: string;
+  /**
+   * Parts of the robot that could not be represented in MJCF, with paths into the URDF
+   */
+  diagnostics: Diagnostic[];
+}
+
+// State shared by the build methods during one conversion
+interface ConversionContext {
+  model: RobotModel;
+  materials: Map<string, Material>;
+  /**
+   * Mesh asset name keyed by file name and scale
+   */
+  meshes: Map<string, string>;
+  meshAssets: any[];
+  /**
+   * Names of joints emitted as hinge or slide joints
+   */
+  joints: Set<string>;
+  /**
+   * Names given to geoms so far, which MuJoCo requires to be unique in the model
+   */
+  geoms: Set<string>;
+  diagnostics: Diagnostic[];
+}
+
+// Mesh formats MuJoCo can load
+const MESH_EXTENSIONS = ['.stl', '.obj', '.msh'];
+
+// Default joint axis as defined by the URDF specification
+const DEFAULT_AXIS: Vector3 = { x: 1, y: 0, z: 0 };
+
+// Geom groups, following the visual/collision split common in MuJoCo models
+const VISUAL_GROUP = '2';
+const COLLISION_GROUP = '3';
+
+// Link name URDF uses for the world frame
+const WORLD = 'world';
+
+// URIs with a scheme, which MuJoCo cannot load as mesh files
+const URI_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//;
+
+/**
+ * MJCF (MuJoCo XML) Writer class
+ *
+ * Builds nested `<body>` elements from the joint tree, with each body placed
+ * at its parent joint origin. Revolute and continuous joints become hinges,
+ * prismatic joints slides, floating joints of top-level bodies free joints and
+ * fixed joints weld the bodies together. Root links are welded to the world
+ * unless the `floatingBase` option gives them a free joint. Inertials with
+ * zero mass or inertia are omitted, as MuJoCo rejects them. Visual geoms are put in group 2 and
+ * excluded from collisions and mass computation; collision geoms are put in
+ * group 3. Mimic joints become `<equality><joint>` constraints. Effort and
+ * velocity limits have no MJCF joint equivalent and are not written.
+ */
+export class MJCFWriter {
+  private builder: XMLBuilder;
+  private options: MJCFWriterOptions;
+
+  /**
+   * Constructor
+   * @param options Writer options
+   */
+  constructor(options: MJCFWriterOptions = {}) {
+    this.options = options;
+    this.builder = new XMLBuilder({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      indentBy: options.indentBy ?? '  ',
+      suppressEmptyNode: true,
+      suppressBooleanAttributes: false,
+      ...options.xmlBuilderOptions,
+    });
+  }
+
+  /**
+   * Serialize robot to MJCF text
+   * @param robot Robot object
+   * @returns MJCF text
+   */
+  serialize(robot: Robot): string {
+    return this.convert(robot).xml;
+  }
+
+  /**
+   * Convert robot to MJCF text, reporting what cannot be represented
+   * @param robot Robot object
+   * @returns MJCF text and diagnostics
+   */
+  convert(robot: Robot): MJCFConversion {
+    const context: ConversionContext = {
+      model: new RobotModel(robot),
+      materials: new Map(
+        robot.materials
+          .filter(material => material.name !== undefined)
+          .map(material => [material.name!, material])
+      ),
+      meshes: new Map(),
+      meshAssets: [],
+      joints: new Set(),
+      geoms: new Set(),
+      diagnostics: [],
+    };
+
+    const worldbody = this.buildWorldBody(context);
+    const equality = this.buildEquality(robot, context);
+
+    const mujoco: any = { '@_model': robot.name, compiler: { '@_angle': 'radian' } };
+    if (context.meshAssets.length > 0) {
+      mujoco.asset = { mesh: context.meshAssets };
+    }
+    mujoco.worldbody = worldbody;
+    if (equality.length > 0) {
+      mujoco.equality = { joint: equality };
+    }
+
+    const xml = this.builder.build({ mujoco });
+    const declared = this.options.xmlDeclaration === false ? xml : `<?xml version="1.0"?>\n${xml}`;
+
+    return { xml: declared, diagnostics: context.diagnostics };
+  }
+
+  /**
+   * Build worldbody element
+   * @param context Conversion context
+   * @returns XML object for the worldbody element
+   */
+  private buildWorldBody(context: ConversionContext): any {
+    const { model } = context;
+    const bodies: any[] = [];
+
+    for (const root of model.roots) {
+      const link = model.getLink(root);
+      if (link && isWorldLink(link)) {
+        // Bodies attached to the world link are top-level bodies
+        for (const joint of this.treeJoints(root, context)) {
+          bodies.push(this.buildBody(joint.child.link, joint, true, context));
+        }
+      } else {
+        bodies.push(this.buildBody(root, undefined, true, context));
+      }
+    }
+
+    return bodies.length > 0 ? { body: bodies } : {};
+  }
+
+  /**
+   * Get the joints that attach child bodies to a link
+   * @param link Link name
+   * @param context Conversion context
+   * @returns Child joints that are the first parent joint of their child link
+   */
+  private treeJoints(link: string, context: ConversionContext): Joint[] {
+    return context.model
+      .getChildJoints(link)
+      .filter(joint => context.model.getParentJoint(joint.child.link) === joint);
+  }
+
+  /**
+   * Build body element for a link and its subtree
+   * @param name Link name
+   * @param joint Joint attaching the link to its parent body
+   * @param topLevel Whether the body is a direct child of the worldbody
+   * @param context Conversion context
+   * @returns XML object for the body element
+   */
+  private buildBody(
+    name: string,
+    joint: Joint | undefined,
+    topLevel: boolean,
+    context: ConversionContext
+  ): any {
+    const link = context.model.getLink(name);
+    const body: any = { '@_name': name, ...buildPose(joint?.origin) };
+
+    if (link?.inertial) {
+      const inertial = this.buildInertial(link.inertial, name, context);
+      if (inertial) {
+        body.inertial = inertial;
+      }
+    } else if (link) {
+      context.diagnostics.push({
+        code: 'MISSING_INERTIA',
+        severity: 'warning',
+        path: elementPath('link', name),
+        message: `Link ${name} has no inertial; MuJoCo infers its inertia from the collision geoms`,
+      });
+    }
+
+    if (joint) {
+      Object.assign(body, this.buildJoint(joint, topLevel, context));
+    } else if (this.options.floatingBase) {
+      body.freejoint = {};
+    }
+
+    const geoms = [
+      ...(link?.visuals ?? []).map((visual, index) =>
+        this.buildGeom(visual, `${elementPath('link', name)}/visual[${index + 1}]`, true, context)
+      ),
+      ...(link?.collisions ?? []).map((collision, index) =>
+        this.buildGeom(
+          collision,
+          `${elementPath('link', name)}/collision[${index + 1}]`,
+          false,
+          context
+        )
+      ),
+    ].filter(geom => geom !== undefined);
+    if (geoms.length > 0) {
+      body.geom = geoms;
+    }
+
+    const children = this.treeJoints(name, context).map(child =>
+      this.buildBody(child.child.link, child, false, context)
+    );
+    if (children.length > 0) {
+      body.body = children;
+    }
+
+    return body;
+  }
+
+  /**
+   * Build inertial element, reporting mass properties MuJoCo rejects
+   * @param inertial Inertial object
+   * @param link Link name
+   * @param context Conversion context
+   * @returns XML object for the inertial element, with the inertia along the body
+   * axes, or undefined if the mass or a diagonal inertia element is not positive
+   */
+  private buildInertial(inertial: Inertial, link: string, context: ConversionContext): any {
+    const { mass, centerOfMass, inertia } = computeInertialMassProperties(inertial);
+    const [ixx, ixy, ixz, , iyy, iyz, , , izz] = inertia;
+    const path = `${elementPath('link', link)}/inertial`;
+
+    if (mass <= 0) {
+      context.diagnostics.push({
+        code: 'NON_POSITIVE_MASS',
+        severity: 'warning',
+        path: `${path}/mass`,
+        message: `Link ${link} has mass ${mass}; the inertial is omitted and MuJoCo infers it from the collision geoms`,
+      });
+      return undefined;
+    }
+    if (ixx <= 0 || iyy <= 0 || izz <= 0) {
+      context.diagnostics.push({
+        code: 'NON_POSITIVE_DEFINITE_INERTIA',
+        severity: 'warning',
+        path: `${path}/inertia`,
+        message: `Link ${link} has zero inertia; the inertial is omitted and MuJoCo infers it from the collision geoms`,
+      });
+      return undefined;
+    }
+
+    const element: any = { '@_pos': formatVector3(centerOfMass), '@_mass': formatNumber(mass) };
+    if (ixy === 0 && ixz === 0 && iyz === 0) {
+      element['@_diaginertia'] = [ixx, iyy, izz].map(formatNumber).join(' ');
+    } else {
+      element['@_fullinertia'] = [ixx, iyy, izz, ixy, ixz, iyz].map(formatNumber).join(' ');
+    }
+
+    return element;
+  }
+
+  /**
+   * Build joint element
+   * @param joint Joint object
+   * @param topLevel Whether the child body is a direct child of the worldbody
+   * @param context Conversion context
+   * @returns Body children for the joint (empty for fixed joints)
+   */
+  private buildJoint(joint: Joint, topLevel: boolean, context: ConversionContext): any {
+    const path = elementPath('joint', joint.name);
+
+    if (joint.type === 'floating' && topLevel) {
+      return { freejoint: { '@_name': joint.name } };
+    }
+    if (joint.type === 'floating' || joint.type === 'planar') {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_JOINT_TYPE',
+        severity: 'warning',
+        path,
+        message:
+          joint.type === 'floating'
+            ? `MuJoCo only allows free joints on top-level bodies; joint ${joint.name} is fixed`
+            : `MuJoCo has no planar joint; joint ${joint.name} is fixed`,
+      });
+      return {};
+    }
+    if (joint.type === 'fixed') {
+      return {};
+    }
+
+    const element: any = {
+      '@_name': joint.name,
+      '@_type': joint.type === 'prismatic' ? 'slide' : 'hinge',
+      '@_axis': formatVector3(joint.axis?.xyz ?? DEFAULT_AXIS),
+    };
+
+    const { lower, upper } = joint.limit ?? {};
+    if (joint.type !== 'continuous' && lower !== undefined && upper !== undefined) {
+      element['@_limited'] = 'true';
+      element['@_range'] = `${formatNumber(lower)} ${formatNumber(upper)}`;
+    }
+    if (joint.dynamics?.damping !== undefined) {
+      element['@_damping'] = formatNumber(joint.dynamics.damping);
+    }
+    if (joint.dynamics?.friction !== undefined) {
+      element['@_frictionloss'] = formatNumber(joint.dynamics.friction);
+    }
+
+    context.joints.add(joint.name);
+    return { joint: element };
+  }
+
+  /**
+   * Build geom element from a visual or collision
+   * @param element Visual or collision object
+   * @param path Path to the visual or collision element
+   * @param visual Whether the element is a visual
+   * @param context Conversion context
+   * @returns XML object for the geom element, or undefined if the geometry cannot be represented
+   */
+  private buildGeom(
+    element: Visual | Collision,
+    path: string,
+    visual: boolean,
+    context: ConversionContext
+  ): any | undefined {
+    const shape = this.buildShape(element, path, context);
+    if (!shape) {
+      return undefined;
+    }
+
+    const geom: any = {};
+    if (element.name !== undefined) {
+      geom['@_name'] = uniqueName(element.name, context.geoms);
+    }
+    Object.assign(geom, shape, buildPose(element.origin));
+
+    if (visual) {
+      const rgba = this.visualColor(element as Visual, `${path}/material`, context);
+      if (rgba) {
+        geom['@_rgba'] = rgba.map(formatNumber).join(' ');
+      }
+      geom['@_contype'] = '0';
+      geom['@_conaffinity'] = '0';
+      geom['@_density'] = '0';
+      geom['@_group'] = VISUAL_GROUP;
+    } else {
+      geom['@_group'] = COLLISION_GROUP;
+    }
+
+    return geom;
+  }
+
+  /**
+   * Build the type and size attributes of a geom
+   * @param element Visual or collision object
+   * @param path Path to the visual or collision element
+   * @param context Conversion context
+   * @returns Geom attributes, or undefined if the geometry cannot be represented
+   */
+  private buildShape(
+    element: Visual | Collision,
+    path: string,
+    context: ConversionContext
+  ): any | undefined {
+    const geometry = element.geometry;
+
+    if (geometry?.box?.size) {
+      const { x, y, z } = geometry.box.size;
+      return { '@_type': 'box', '@_size': formatVector3({ x: x / 2, y: y / 2, z: z / 2 }) };
+    }
+    if (geometry?.cylinder) {
+      const { radius = 0, length = 0 } = geometry.cylinder;
+      return {
+        '@_type': 'cylinder',
+        '@_size': `${formatNumber(radius)} ${formatNumber(length / 2)}`,
+      };
+    }
+    if (geometry?.sphere) {
+      return { '@_type': 'sphere', '@_size': formatNumber(geometry.sphere.radius ?? 0) };
+    }
+
+    const filename = geometry?.mesh?.filename;
+    if (filename !== undefined) {
+      const extension = filename.slice(filename.lastIndexOf('.')).toLowerCase();
+      if (MESH_EXTENSIONS.includes(extension)) {
+        if (URI_PATTERN.test(filename)) {
+          context.diagnostics.push({
+            code: 'UNRESOLVED_RESOURCE',
+            severity: 'warning',
+            path: `${path}/geometry/mesh`,
+            message: `MuJoCo cannot load mesh URI ${filename}; resolve it to a file path with ResourceResolver before converting`,
+          });
+        }
+        return {
+          '@_type': 'mesh',
+          '@_mesh': this.meshAsset(filename, geometry!.mesh!.scale, context),
+        };
+      }
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/geometry/mesh`,
+        message: `MuJoCo cannot load mesh ${filename}; only STL, OBJ and MSH files are supported`,
+      });
+      return undefined;
+    }
+
+    context.diagnostics.push({
+      code: 'UNSUPPORTED_ELEMENT',
+      severity: 'warning',
+      path,
+      message: 'MJCF requires a geometry; element without one is omitted',
+    });
+    return undefined;
+  }
+
+  /**
+   * Get or create the mesh asset for a mesh file
+   * @param filename Mesh file name
+   * @param scale Mesh scale
+   * @param context Conversion context
+   * @returns Asset name
+   */
+  private meshAsset(
+    filename: string,
+    scale: Vector3 | undefined,
+    context: ConversionContext
+  ): string {
+    const key = scale ? `${filename} ${formatVector3(scale)}` : filename;
+    const existing = context.meshes.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const base = filename.slice(filename.lastIndexOf('/') + 1).replace(/\.[^.]*$/, '');
+    const name = uniqueName(base, new Set(context.meshes.values()));
+
+    const asset: any = { '@_name': name, '@_file': filename };
+    if (scale) {
+      asset['@_scale'] = formatVector3(scale);
+    }
+    context.meshes.set(key, name);
+    context.meshAssets.push(asset);
+    return name;
+  }
+
+  /**
+   * Get the color of a visual, looking up name-only references in the root-level materials
+   * @param visual Visual object
+   * @param path Path to the material element
+   * @param context Conversion context
+   * @returns RGBA color, or undefined if the visual has none
+   */
+  private visualColor(
+    visual: Visual,
+    path: string,
+    context: ConversionContext
+  ): [number, number, number, number] | undefined {
+    const material = visual.material;
+    if (!material) {
+      return undefined;
+    }
+
+    const defined = material.name !== undefined ? context.materials.get(material.name) : undefined;
+    if (material.texture?.filename ?? defined?.texture?.filename) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/texture`,
+        message: 'Textures are not exported to MJCF; only the material color is used',
+      });
+    }
+    return material.color?.rgba ?? defined?.color?.rgba;
+  }
+
+  /**
+   * Build equality constraints for mimic joints
+   * @param robot Robot object
+   * @param context Conversion context
+   * @returns XML objects for `<equality><joint>` elements
+   */
+  private buildEquality(robot: Robot, context: ConversionContext): any[] {
+    const constraints: any[] = [];
+
+    for (const joint of robot.joints) {
+      if (!joint.mimic) {
+        continue;
+      }
+      if (!context.joints.has(joint.name) || !context.joints.has(joint.mimic.joint)) {
+        context.diagnostics.push({
+          code: 'UNSUPPORTED_ELEMENT',
+          severity: 'warning',
+          path: `${elementPath('joint', joint.name)}/mimic`,
+          message: `Mimic relation between ${joint.name} and ${joint.mimic.joint} needs two hinge or slide joints and is omitted`,
+        });
+        continue;
+      }
+
+      // joint1 = offset + multiplier * joint2
+      const { offset = 0, multiplier = 1 } = joint.mimic;
+      constraints.push({
+        '@_joint1': joint.name,
+        '@_joint2': joint.mimic.joint,
+        '@_polycoef': [offset, multiplier, 0, 0, 0].map(formatNumber).join(' '),
+      });
+    }
+
+    return constraints;
+  }
+}
+
+/**
+ * Check whether a link is the URDF convention for the world frame
+ * @param link Root link
+ * @returns True for an empty link named `world`, whose children become top-level bodies
+ */
+function isWorldLink(link: Link): boolean {
+  return (
+    link.name === WORLD &&
+    !link.inertial &&
+    link.visuals.length === 0 &&
+    link.collisions.length === 0
+  );
+}
+
+/**
+ * Reserve a name that is not taken yet
+ * @param name Preferred name
+ * @param taken Names already used, extended with the returned name
+ * @returns The name, or the name with the first free numeric suffix
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  let unique = name;
+  for (let suffix = 1; taken.has(unique); suffix++) {
+    unique = `${name}_${suffix}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+/**
+ * Build pos and quat attributes from a URDF origin
+ * @param origin Origin with optional xyz and rpy
+ * @returns Attributes, omitting the identity parts
+ */
+function buildPose(origin?: { xyz?: Vector3; rpy?: Vector3 }): any {
+  const attributes: any = {};
+  const { xyz, rpy } = origin ?? {};
+
+  if (xyz && (xyz.x !== 0 || xyz.y !== 0 || xyz.z !== 0)) {
+    attributes['@_pos'] = formatVector3(xyz);
+  }
+  if (rpy && (rpy.x !== 0 || rpy.y !== 0 || rpy.z !== 0)) {
+    const q = matrix3ToQuaternion(rpyToMatrix3(rpy));
+    attributes['@_quat'] = [q.w, q.x, q.y, q.z]
+      .map(value => formatNumber(Math.abs(value) < 1e-12 ? 0 : value))
+      .join(' ');
+  }
+
+  return attributes;
+}
+
+/**
+ * Format number as MJCF attribute value
+ * @param value Number
+ * @returns String representation that parses back to the same number
+ */
+function formatNumber(value: number): string {
+  return String(value);
+}
+
+/**
+ * Format Vector3 as space-separated string
+ * @param value Vector3 object
+ * @returns String "x y z"
+ */
+function formatVector3(value: Vector3): string {
+  return `${formatNumber(value.x)} ${formatNumber(value.y)} ${formatNumber(value.z)}`;
+}
@@ -0,0 +1,575 @@
+import { XMLBuilder } from 'fast-xml-parser';
+
+import { computeLinkTransforms } from '../kinematics/forwardKinematics';
+import { Diagnostic } from '../types/diagnostics';
+import { Matrix4 } from '../types/math';
+import {
+  Collision,
+  Geometry,
+  Inertial,
+  Joint,
+  Link,
+  Material,
+  Robot,
+  Vector3,
+  Visual,
+} from '../types/urdf';
+import { matrix4ToOrigin } from '../utils/transform';
+import { elementPath } from '../validation/validator';
+
+/**
+ * Options for SDF writer
+ */
+export interface SDFWriterOptions {
+  /**
+   * Value of the `version` attribute of the `<sdf>` element; the pose
+   * semantics of the output require 1.7 or later (default: '1.7')
+   */
+  version?: string;
+  /**
+   * Emit the `<?xml version="1.0"?>` declaration (default: true)
+   */
+  xmlDeclaration?: boolean;
+  /**
+   * Indentation string (default: two spaces)
+   */
+  indentBy?: string;
+  /**
+   * Options for XML builder
+   */
+  xmlBuilderOptions?: any;
+}
+
+/**
+ * Result of converting a robot to SDF
+ */
+export interface SDFConversion {
+  /**
+   * SDF text
+   */
+  xml: string;
+  /**
+   * Parts of the robot that could not be represented in SDF, with paths into the URDF
+   */
+  diagnostics: Diagnostic[];
+}
+
+// State shared by the build methods during one conversion
+interface ConversionContext {
+  robot: Robot;
+  materials: Map<string, Material>;
+  diagnostics: Diagnostic[];
+}
+
+// Joint types with a single axis in SDF
+const AXIS_JOINT_TYPES: ReadonlyArray<Joint['type']> = ['revolute', 'continuous', 'prismatic'];
+
+// Default joint axis as defined by the URDF specification
+const DEFAULT_AXIS: Vector3 = { x: 1, y: 0, z: 0 };
+
+// Name reserved by SDF for the world frame, used by URDF for a fixed world link
+const WORLD = 'world';
+
+/**
+ * SDF (SDFormat) Writer class
+ *
+ * Writes a robot as a single SDF model. Link poses are computed at zero joint
+ * positions and expressed in the model frame; each joint frame coincides with
+ * its child link frame, so joint axes keep their URDF values. Elements SDF has
+ * no equivalent for are reported as diagnostics.
+ */
+export class SDFWriter {
+  private builder: XMLBuilder;
+  private options: SDFWriterOptions;
+
+  /**
+   * Constructor
+   * @param options Writer options
+   */
+  constructor(options: SDFWriterOptions = {}) {
+    this.options = options;
+    this.builder = new XMLBuilder({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      indentBy: options.indentBy ?? '  ',
+      suppressEmptyNode: true,
+      ...options.xmlBuilderOptions,
+    });
+  }
+
+  /**
+   * Serialize robot to SDF text
+   * @param robot Robot object
+   * @returns SDF text
+   */
+  serialize(robot: Robot): string {
+    return this.convert(robot).xml;
+  }
+
+  /**
+   * Convert robot to SDF text, reporting what cannot be represented
+   * @param robot Robot object
+   * @returns SDF text and diagnostics
+   */
+  convert(robot: Robot): SDFConversion {
+    const context: ConversionContext = {
+      robot,
+      materials: new Map(
+        robot.materials
+          .filter(material => material.name !== undefined)
+          .map(material => [material.name!, material])
+      ),
+      diagnostics: [],
+    };
+
+    const xml = this.builder.build({
+      sdf: {
+        '@_version': this.options.version ?? '1.7',
+        model: this.buildModel(context),
+      },
+    });
+    const declared = this.options.xmlDeclaration === false ? xml : `<?xml version="1.0"?>\n${xml}`;
+
+    return { xml: declared, diagnostics: context.diagnostics };
+  }
+
+  /**
+   * Build model element
+   * @param context Conversion context
+   * @returns XML object for the model element
+   */
+  private buildModel(context: ConversionContext): any {
+    const { robot, diagnostics } = context;
+    const element: any = { '@_name': robot.name };
+    const transforms = computeLinkTransforms(robot);
+    const childLinks = new Set(robot.joints.map(joint => joint.child.link));
+
+    const links = robot.links.filter(link => !isWorldLink(link, childLinks));
+    if (links.length > 0) {
+      element.link = links.map(link => this.buildLink(link, transforms[link.name], context));
+    }
+
+    const joints = robot.joints
+      .map(joint => this.buildJoint(joint, context))
+      .filter(joint => joint !== undefined);
+    if (joints.length > 0) {
+      element.joint = joints;
+    }
+
+    robot.transmissions.forEach((transmission, index) => {
+      diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: elementPath('transmission', transmission.name ?? index),
+        message: `Transmission ${transmission.name ?? index + 1} has no SDF equivalent and is omitted`,
+      });
+    });
+    robot.ros2Control?.forEach(control => {
+      diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: elementPath('ros2_control', control.name),
+        message: `ros2_control ${control.name} has no SDF equivalent and is omitted`,
+      });
+    });
+    robot.gazebo?.forEach((gazebo, index) => {
+      diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: elementPath('gazebo', index),
+        message: `Gazebo extension${gazebo.reference !== undefined ? ` for ${gazebo.reference}` : ''} is not merged into the model and is omitted`,
+      });
+    });
+
+    return element;
+  }
+
+  /**
+   * Build link element
+   * @param link Link object
+   * @param transform Link transform in the model frame at zero joint positions
+   * @param context Conversion context
+   * @returns XML object for the link element
+   */
+  private buildLink(link: Link, transform: Matrix4 | undefined, context: ConversionContext): any {
+    const path = elementPath('link', link.name);
+    const element: any = { '@_name': link.name };
+
+    if (transform) {
+      element.pose = formatOrigin(matrix4ToOrigin(transform));
+    }
+
+    if (!link.inertial?.mass || !link.inertial.inertia) {
+      context.diagnostics.push({
+        code: 'MISSING_INERTIA',
+        severity: 'warning',
+        path: link.inertial ? `${path}/inertial` : path,
+        message: `Link ${link.name} has no complete inertial; SDF defaults to a mass of 1 and unit inertia`,
+      });
+    }
+    if (link.inertial) {
+      element.inertial = this.buildInertial(link.inertial);
+    }
+
+    const visualNames = uniqueNames(link.visuals, `${link.name}_visual`);
+    const visuals = link.visuals
+      .map((visual, index) => this.buildVisual(visual, link, index, visualNames[index], context))
+      .filter(visual => visual !== undefined);
+    if (visuals.length > 0) {
+      element.visual = visuals;
+    }
+
+    const collisionNames = uniqueNames(link.collisions, `${link.name}_collision`);
+    const collisions = link.collisions
+      .map((collision, index) =>
+        this.buildCollision(collision, link, index, collisionNames[index], context)
+      )
+      .filter(collision => collision !== undefined);
+    if (collisions.length > 0) {
+      element.collision = collisions;
+    }
+
+    return element;
+  }
+
+  /**
+   * Build inertial element
+   * @param inertial Inertial object
+   * @returns XML object for the inertial element
+   */
+  private buildInertial(inertial: Inertial): any {
+    const element: any = {};
+
+    if (inertial.origin) {
+      element.pose = formatOrigin(inertial.origin);
+    }
+    if (inertial.mass) {
+      element.mass = formatNumber(inertial.mass.value);
+    }
+    if (inertial.inertia) {
+      const { ixx, ixy, ixz, iyy, iyz, izz } = inertial.inertia;
+      element.inertia = {
+        ixx: formatNumber(ixx),
+        ixy: formatNumber(ixy),
+        ixz: formatNumber(ixz),
+        iyy: formatNumber(iyy),
+        iyz: formatNumber(iyz),
+        izz: formatNumber(izz),
+      };
+    }
+
+    return element;
+  }
+
+  /**
+   * Build visual element
+   * @param visual Visual object
+   * @param link Link the visual belongs to
+   * @param index Zero-based index among the link's visuals
+   * @param name Name of the visual element, unique within the link
+   * @param context Conversion context
+   * @returns XML object for the visual element, or undefined if it has no geometry
+   */
+  private buildVisual(
+    visual: Visual,
+    link: Link,
+    index: number,
+    name: string,
+    context: ConversionContext
+  ): any | undefined {
+    const path = `${elementPath('link', link.name)}/visual[${index + 1}]`;
+    const geometry = this.buildShape(visual.geometry, path, context);
+    if (!geometry) {
+      return undefined;
+    }
+
+    const element: any = { '@_name': name };
+    if (visual.origin) {
+      element.pose = formatOrigin(visual.origin);
+    }
+    element.geometry = geometry;
+    if (visual.material) {
+      const material = this.buildMaterial(visual.material, `${path}/material`, context);
+      if (material) {
+        element.material = material;
+      }
+    }
+
+    return element;
+  }
+
+  /**
+   * Build collision element
+   * @param collision Collision object
+   * @param link Link the collision belongs to
+   * @param index Zero-based index among the link's collisions
+   * @param name Name of the collision element, unique within the link
+   * @param context Conversion context
+   * @returns XML object for the collision element, or undefined if it has no geometry
+   */
+  private buildCollision(
+    collision: Collision,
+    link: Link,
+    index: number,
+    name: string,
+    context: ConversionContext
+  ): any | undefined {
+    const path = `${elementPath('link', link.name)}/collision[${index + 1}]`;
+    const geometry = this.buildShape(collision.geometry, path, context);
+    if (!geometry) {
+      return undefined;
+    }
+
+    const element: any = { '@_name': name };
+    if (collision.origin) {
+      element.pose = formatOrigin(collision.origin);
+    }
+    element.geometry = geometry;
+
+    return element;
+  }
+
+  /**
+   * Build geometry element, reporting missing geometry
+   * @param geometry Geometry object
+   * @param path Path to the visual or collision element
+   * @param context Conversion context
+   * @returns XML object for the geometry element, or undefined if there is no shape
+   */
+  private buildShape(
+    geometry: Geometry | undefined,
+    path: string,
+    context: ConversionContext
+  ): any | undefined {
+    const element = geometry ? this.buildGeometry(geometry) : {};
+    if (Object.keys(element).length === 0) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path,
+        message: 'SDF requires a geometry; element without one is omitted',
+      });
+      return undefined;
+    }
+    return element;
+  }
+
+  /**
+   * Build geometry element
+   * @param geometry Geometry object
+   * @returns XML object for the geometry element
+   */
+  private buildGeometry(geometry: Geometry): any {
+    const element: any = {};
+
+    if (geometry.box?.size) {
+      element.box = { size: formatVector3(geometry.box.size) };
+    } else if (geometry.cylinder) {
+      element.cylinder = {
+        radius: formatNumber(geometry.cylinder.radius ?? 0),
+        length: formatNumber(geometry.cylinder.length ?? 0),
+      };
+    } else if (geometry.sphere) {
+      element.sphere = { radius: formatNumber(geometry.sphere.radius ?? 0) };
+    } else if (geometry.mesh?.filename !== undefined) {
+      element.mesh = { uri: geometry.mesh.filename };
+      if (geometry.mesh.scale) {
+        element.mesh.scale = formatVector3(geometry.mesh.scale);
+      }
+    }
+
+    return element;
+  }
+
+  /**
+   * Build material element, looking up name-only references in the root-level materials
+   * @param material Material object
+   * @param path Path to the material element
+   * @param context Conversion context
+   * @returns XML object for the material element, or undefined if the material
+   * has neither color nor texture
+   */
+  private buildMaterial(material: Material, path: string, context: ConversionContext): any {
+    const defined = material.name !== undefined ? context.materials.get(material.name) : undefined;
+    const rgba = material.color?.rgba ?? defined?.color?.rgba;
+    const texture = material.texture?.filename ?? defined?.texture?.filename;
+
+    if (!rgba && texture === undefined) {
+      context.diagnostics.push({
+        code: 'UNDEFINED_MATERIAL',
+        severity: 'warning',
+        path,
+        message: `${material.name !== undefined ? `Material ${material.name}` : 'Material'} has no color or texture and is omitted`,
+      });
+      return undefined;
+    }
+
+    const element: any = {};
+    if (rgba) {
+      const color = rgba.map(formatNumber).join(' ');
+      element.ambient = color;
+      element.diffuse = color;
+    }
+    if (texture !== undefined) {
+      element.pbr = { metal: { albedo_map: texture } };
+    }
+
+    return element;
+  }
+
+  /**
+   * Build joint element
+   * @param joint Joint object
+   * @param context Conversion context
+   * @returns XML object for the joint element, or undefined for joint types SDF lacks
+   */
+  private buildJoint(joint: Joint, context: ConversionContext): any | undefined {
+    const path = elementPath('joint', joint.name);
+
+    if (joint.type === 'floating' || joint.type === 'planar') {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_JOINT_TYPE',
+        severity: 'warning',
+        path,
+        message: `SDF has no ${joint.type} joint; joint ${joint.name} is omitted and link ${joint.child.link} moves freely`,
+      });
+      return undefined;
+    }
+
+    const element: any = {
+      '@_name': joint.name,
+      '@_type': joint.type,
+      parent: joint.parent.link,
+      child: joint.child.link,
+    };
+
+    if (AXIS_JOINT_TYPES.includes(joint.type)) {
+      element.axis = { xyz: formatVector3(joint.axis?.xyz ?? DEFAULT_AXIS) };
+
+      const limitKeys: ('lower' | 'upper' | 'effort' | 'velocity')[] =
+        joint.type === 'continuous'
+          ? ['effort', 'velocity']
+          : ['lower', 'upper', 'effort', 'velocity'];
+      const limit = joint.limit ? buildChildren(joint.limit, limitKeys) : {};
+      if (Object.keys(limit).length > 0) {
+        element.axis.limit = limit;
+      }
+
+      const dynamics = joint.dynamics ? buildChildren(joint.dynamics, ['damping', 'friction']) : {};
+      if (Object.keys(dynamics).length > 0) {
+        element.axis.dynamics = dynamics;
+      }
+    }
+
+    if (joint.calibration) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/calibration`,
+        message: `Calibration of joint ${joint.name} has no SDF equivalent and is omitted`,
+      });
+    }
+    if (joint.safetyController) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/safety_controller`,
+        message: `Safety controller of joint ${joint.name} has no SDF equivalent and is omitted`,
+      });
+    }
+    if (joint.mimic) {
+      context.diagnostics.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        severity: 'warning',
+        path: `${path}/mimic`,
+        message: `Joint ${joint.name} mimics ${joint.mimic.joint}; SDF 1.7 has no mimic constraint and the joint is independent`,
+      });
+    }
+
+    return element;
+  }
+}
+
+/**
+ * Check whether a link is the URDF convention for the world frame
+ * @param link Link object
+ * @param childLinks Names of links that are the child of a joint
+ * @returns True for an empty root link named `world`, which SDF provides implicitly
+ */
+function isWorldLink(link: Link, childLinks: Set<string>): boolean {
+  return (
+    link.name === WORLD &&
+    !childLinks.has(link.name) &&
+    !link.inertial &&
+    link.visuals.length === 0 &&
+    link.collisions.length === 0
+  );
+}
+
+/**
+ * Name visuals or collisions of a link, generating names for unnamed ones
+ * @param elements Visuals or collisions of a link
+ * @param prefix Prefix of generated names, such as `base_visual`
+ * @returns Names by index; generated names do not clash with explicit or other generated ones
+ */
+function uniqueNames(elements: { name?: string }[], prefix: string): string[] {
+  const taken = new Set(elements.map(element => element.name).filter(name => name !== undefined));
+
+  return elements.map((element, index) => {
+    if (element.name !== undefined) {
+      return element.name;
+    }
+    let name = `${prefix}_${index}`;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${prefix}_${index}_${suffix}`;
+    }
+    taken.add(name);
+    return name;
+  });
+}
+
+/**
+ * Format number as SDF value
+ * @param value Number
+ * @returns String representation that parses back to the same number
+ */
+function formatNumber(value: number): string {
+  return String(value);
+}
+
+/**
+ * Format Vector3 as space-separated string
+ * @param value Vector3 object
+ * @returns String "x y z"
+ */
+function formatVector3(value: Vector3): string {
+  return `${formatNumber(value.x)} ${formatNumber(value.y)} ${formatNumber(value.z)}`;
+}
+
+/**
+ * Format URDF origin as SDF pose
+ * @param origin Origin with optional xyz and rpy
+ * @returns String "x y z roll pitch yaw"
+ */
+function formatOrigin(origin: { xyz?: Vector3; rpy?: Vector3 }): string {
+  const zero = { x: 0, y: 0, z: 0 };
+  return `${formatVector3(origin.xyz ?? zero)} ${formatVector3(origin.rpy ?? zero)}`;
+}
+
+/**
+ * Build child elements from the numeric fields of an object, skipping undefined ones
+ * @param source Source object
+ * @param keys Keys to emit, in order
+ * @returns XML object with one child element per key
+ */
+function buildChildren<T extends object>(source: T, keys: (keyof T & string)[]): any {
+  const children: any = {};
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'number') {
+      children[key] = formatNumber(value);
+    }
+  }
+  return children;
+}
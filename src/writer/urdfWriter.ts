@@ -0,0 +1,649 @@
+import { XMLBuilder } from 'fast-xml-parser';
+
+import {
+  Collision,
+  GazeboExtension,
+  Geometry,
+  Inertial,
+  Joint,
+  Link,
+  Material,
+  ROS2Control,
+  ROS2ControlComponent,
+  Robot,
+  Transmission,
+  TransmissionActuator,
+  UnknownXML,
+  Vector3,
+  Visual,
+} from '../types/urdf';
+import { transmissionActuators, transmissionJoints } from '../utils/transmission';
+import { COMMENT, buildXMLNode } from '../utils/xml';
+
+// Key of the unknown content in XML objects, written back at its original positions
+const UNKNOWN_CONTENT = Symbol('unknown');
+
+/**
+ * Options for URDF writer
+ */
+export interface URDFWriterOptions {
+  /**
+   * Emit the `<?xml version="1.0"?>` declaration (default: true)
+   */
+  xmlDeclaration?: boolean;
+  /**
+   * Indentation string (default: two spaces)
+   */
+  indentBy?: string;
+  /**
+   * Options for XML builder
+   */
+  xmlBuilderOptions?: any;
+}
+
+/**
+ * URDF Writer class
+ */
+export class URDFWriter {
+  private builder: XMLBuilder;
+  private options: URDFWriterOptions;
+
+  /**
+   * Constructor
+   * @param options Writer options
+   */
+  constructor(options: URDFWriterOptions = {}) {
+    this.options = options;
+    this.builder = new XMLBuilder({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      indentBy: options.indentBy ?? '  ',
+      suppressEmptyNode: true,
+      commentPropName: COMMENT,
+      ...options.xmlBuilderOptions,
+      preserveOrder: true,
+    });
+  }
+
+  /**
+   * Serialize robot to URDF text
+   * @param robot Robot object
+   * @returns URDF text
+   */
+  serialize(robot: Robot): string {
+    // The order-preserving builder starts formatted output with the line break
+    // other builders end it with
+    const built: string = this.builder.build([toOrderedNode('robot', this.buildRobot(robot))]);
+    const xml = built.startsWith('\n') ? `${built.slice(1)}\n` : built;
+    if (this.options.xmlDeclaration === false) {
+      return xml;
+    }
+    return `<?xml version="1.0"?>\n${xml}`;
+  }
+
+  /**
+   * Build robot element
+   * @param robot Robot object
+   * @returns XML object for the robot element
+   */
+  private buildRobot(robot: Robot): any {
+    const element: any = { '@_name': robot.name };
+
+    if (robot.materials.length > 0) {
+      element.material = robot.materials.map(m => this.buildMaterial(m));
+    }
+    if (robot.links.length > 0) {
+      element.link = robot.links.map(l => this.buildLink(l));
+    }
+    if (robot.joints.length > 0) {
+      element.joint = robot.joints.map(j => this.buildJoint(j));
+    }
+    if (robot.transmissions.length > 0) {
+      element.transmission = robot.transmissions.map(t => this.buildTransmission(t));
+    }
+    if (robot.ros2Control && robot.ros2Control.length > 0) {
+      element.ros2_control = robot.ros2Control.map(r => this.buildROS2Control(r));
+    }
+    if (robot.gazebo && robot.gazebo.length > 0) {
+      element.gazebo = robot.gazebo.map(g => this.buildGazebo(g));
+    }
+
+    Object.assign(element, buildUnknown(robot.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build link element
+   * @param link Link object
+   * @returns XML object for the link element
+   */
+  private buildLink(link: Link): any {
+    const element: any = { '@_name': link.name };
+
+    if (link.inertial) {
+      element.inertial = this.buildInertial(link.inertial);
+    }
+    if (link.visuals.length > 0) {
+      element.visual = link.visuals.map(v => this.buildVisual(v));
+    }
+    if (link.collisions.length > 0) {
+      element.collision = link.collisions.map(c => this.buildCollision(c));
+    }
+
+    Object.assign(element, buildUnknown(link.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build inertial element
+   * @param inertial Inertial object
+   * @returns XML object for the inertial element
+   */
+  private buildInertial(inertial: Inertial): any {
+    const element: any = {};
+
+    if (inertial.origin) {
+      element.origin = this.buildOrigin(inertial.origin);
+    }
+    if (inertial.mass) {
+      element.mass = {
+        '@_value': formatNumber(inertial.mass.value),
+        ...buildUnknown(inertial.mass.unknown),
+      };
+    }
+    if (inertial.inertia) {
+      const { ixx, ixy, ixz, iyy, iyz, izz } = inertial.inertia;
+      element.inertia = {
+        '@_ixx': formatNumber(ixx),
+        '@_ixy': formatNumber(ixy),
+        '@_ixz': formatNumber(ixz),
+        '@_iyy': formatNumber(iyy),
+        '@_iyz': formatNumber(iyz),
+        '@_izz': formatNumber(izz),
+        ...buildUnknown(inertial.inertia.unknown),
+      };
+    }
+
+    Object.assign(element, buildUnknown(inertial.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build visual element
+   * @param visual Visual object
+   * @returns XML object for the visual element
+   */
+  private buildVisual(visual: Visual): any {
+    const element: any = {};
+
+    if (visual.name !== undefined) {
+      element['@_name'] = visual.name;
+    }
+    if (visual.origin) {
+      element.origin = this.buildOrigin(visual.origin);
+    }
+    if (visual.geometry) {
+      element.geometry = this.buildGeometry(visual.geometry);
+    }
+    if (visual.material) {
+      element.material = this.buildMaterial(visual.material);
+    }
+
+    Object.assign(element, buildUnknown(visual.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build collision element
+   * @param collision Collision object
+   * @returns XML object for the collision element
+   */
+  private buildCollision(collision: Collision): any {
+    const element: any = {};
+
+    if (collision.name !== undefined) {
+      element['@_name'] = collision.name;
+    }
+    if (collision.origin) {
+      element.origin = this.buildOrigin(collision.origin);
+    }
+    if (collision.geometry) {
+      element.geometry = this.buildGeometry(collision.geometry);
+    }
+
+    Object.assign(element, buildUnknown(collision.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build origin element
+   * @param origin Origin object
+   * @returns XML object for the origin element
+   */
+  private buildOrigin(origin: { xyz?: Vector3; rpy?: Vector3; unknown?: UnknownXML }): any {
+    const element: any = {};
+
+    if (origin.xyz) {
+      element['@_xyz'] = formatVector3(origin.xyz);
+    }
+    if (origin.rpy) {
+      element['@_rpy'] = formatVector3(origin.rpy);
+    }
+
+    Object.assign(element, buildUnknown(origin.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build geometry element
+   * @param geometry Geometry object
+   * @returns XML object for the geometry element
+   */
+  private buildGeometry(geometry: Geometry): any {
+    const element: any = {};
+
+    if (geometry.box) {
+      element.box = {};
+      if (geometry.box.size) {
+        element.box['@_size'] = formatVector3(geometry.box.size);
+      }
+      Object.assign(element.box, buildUnknown(geometry.box.unknown));
+    }
+
+    if (geometry.cylinder) {
+      element.cylinder = {};
+      if (geometry.cylinder.radius !== undefined) {
+        element.cylinder['@_radius'] = formatNumber(geometry.cylinder.radius);
+      }
+      if (geometry.cylinder.length !== undefined) {
+        element.cylinder['@_length'] = formatNumber(geometry.cylinder.length);
+      }
+      Object.assign(element.cylinder, buildUnknown(geometry.cylinder.unknown));
+    }
+
+    if (geometry.sphere) {
+      element.sphere = {};
+      if (geometry.sphere.radius !== undefined) {
+        element.sphere['@_radius'] = formatNumber(geometry.sphere.radius);
+      }
+      Object.assign(element.sphere, buildUnknown(geometry.sphere.unknown));
+    }
+
+    if (geometry.mesh) {
+      element.mesh = {};
+      if (geometry.mesh.filename !== undefined) {
+        element.mesh['@_filename'] = geometry.mesh.filename;
+      }
+      if (geometry.mesh.scale) {
+        element.mesh['@_scale'] = formatVector3(geometry.mesh.scale);
+      }
+      Object.assign(element.mesh, buildUnknown(geometry.mesh.unknown));
+    }
+
+    Object.assign(element, buildUnknown(geometry.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build material element
+   * @param material Material object
+   * @returns XML object for the material element
+   */
+  private buildMaterial(material: Material): any {
+    const element: any = {};
+
+    if (material.name !== undefined) {
+      element['@_name'] = material.name;
+    }
+    if (material.color) {
+      element.color = {};
+      if (material.color.rgba) {
+        element.color['@_rgba'] = material.color.rgba.map(formatNumber).join(' ');
+      }
+      Object.assign(element.color, buildUnknown(material.color.unknown));
+    }
+    if (material.texture) {
+      element.texture = {};
+      if (material.texture.filename !== undefined) {
+        element.texture['@_filename'] = material.texture.filename;
+      }
+      Object.assign(element.texture, buildUnknown(material.texture.unknown));
+    }
+
+    Object.assign(element, buildUnknown(material.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build joint element
+   * @param joint Joint object
+   * @returns XML object for the joint element
+   */
+  private buildJoint(joint: Joint): any {
+    const element: any = {
+      '@_name': joint.name,
+      '@_type': joint.type,
+    };
+
+    if (joint.origin) {
+      element.origin = this.buildOrigin(joint.origin);
+    }
+    element.parent = { '@_link': joint.parent.link, ...buildUnknown(joint.parent.unknown) };
+    element.child = { '@_link': joint.child.link, ...buildUnknown(joint.child.unknown) };
+
+    if (joint.axis) {
+      element.axis = {};
+      if (joint.axis.xyz) {
+        element.axis['@_xyz'] = formatVector3(joint.axis.xyz);
+      }
+      Object.assign(element.axis, buildUnknown(joint.axis.unknown));
+    }
+
+    if (joint.limit) {
+      element.limit = {
+        ...buildAttributes(joint.limit, ['lower', 'upper', 'effort', 'velocity']),
+        ...buildUnknown(joint.limit.unknown),
+      };
+    }
+
+    if (joint.dynamics) {
+      element.dynamics = {
+        ...buildAttributes(joint.dynamics, ['damping', 'friction']),
+        ...buildUnknown(joint.dynamics.unknown),
+      };
+    }
+
+    if (joint.calibration) {
+      element.calibration = {
+        ...buildAttributes(joint.calibration, ['rising', 'falling']),
+        ...buildUnknown(joint.calibration.unknown),
+      };
+    }
+
+    if (joint.mimic) {
+      element.mimic = {
+        '@_joint': joint.mimic.joint,
+        ...buildAttributes(joint.mimic, ['multiplier', 'offset']),
+        ...buildUnknown(joint.mimic.unknown),
+      };
+    }
+
+    if (joint.safetyController) {
+      const { softLowerLimit, softUpperLimit, kPosition, kVelocity } = joint.safetyController;
+      element.safety_controller = {
+        ...buildAttributes(
+          {
+            soft_lower_limit: softLowerLimit,
+            soft_upper_limit: softUpperLimit,
+            k_position: kPosition,
+            k_velocity: kVelocity,
+          },
+          ['soft_lower_limit', 'soft_upper_limit', 'k_position', 'k_velocity']
+        ),
+        ...buildUnknown(joint.safetyController.unknown),
+      };
+    }
+
+    Object.assign(element, buildUnknown(joint.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build transmission element
+   * @param transmission Transmission object
+   * @returns XML object for the transmission element
+   */
+  private buildTransmission(transmission: Transmission): any {
+    const element: any = {};
+
+    if (transmission.name !== undefined) {
+      element['@_name'] = transmission.name;
+    }
+    if (transmission.type !== undefined) {
+      element.type = transmission.type;
+    }
+    const joints = transmissionJoints(transmission);
+    if (joints.length > 0) {
+      element.joint = joints.map(joint => {
+        const jointElement = this.buildTransmissionInterface(joint);
+        if (joint.offset !== undefined) {
+          jointElement.offset = formatNumber(joint.offset);
+        }
+        return Object.assign(jointElement, buildUnknown(joint.unknown));
+      });
+    }
+    const actuators = transmissionActuators(transmission);
+    if (actuators.length > 0) {
+      element.actuator = actuators.map(actuator =>
+        Object.assign(this.buildTransmissionInterface(actuator), buildUnknown(actuator.unknown))
+      );
+    }
+    if (transmission.mechanicalReduction !== undefined) {
+      element.mechanicalReduction = formatNumber(transmission.mechanicalReduction);
+    }
+
+    Object.assign(element, buildUnknown(transmission.unknown));
+
+    return element;
+  }
+
+  /**
+   * Build ros2_control element
+   * @param ros2Control ros2_control block
+   * @returns XML object for the ros2_control element
+   */
+  private buildROS2Control(ros2Control: ROS2Control): any {
+    const element: any = { '@_name': ros2Control.name, '@_type': ros2Control.type };
+
+    if (ros2Control.hardware) {
+      element.hardware = {};
+      if (ros2Control.hardware.plugin !== undefined) {
+        element.hardware.plugin = ros2Control.hardware.plugin;
+      }
+      Object.assign(element.hardware, buildParams(ros2Control.hardware.params));
+    }
+    for (const [tag, components] of [
+      ['joint', ros2Control.joints],
+      ['sensor', ros2Control.sensors],
+      ['gpio', ros2Control.gpios],
+    ] as const) {
+      if (components.length > 0) {
+        element[tag] = components.map(c => this.buildROS2ControlComponent(c));
+      }
+    }
+
+    return element;
+  }
+
+  /**
+   * Build joint, sensor or GPIO element of a ros2_control block
+   * @param component ros2_control component
+   * @returns XML object for the component element
+   */
+  private buildROS2ControlComponent(component: ROS2ControlComponent): any {
+    const element: any = { '@_name': component.name };
+
+    if (component.commandInterfaces.length > 0) {
+      element.command_interface = component.commandInterfaces.map(i => ({
+        '@_name': i.name,
+        ...buildParams(i.params),
+      }));
+    }
+    if (component.stateInterfaces.length > 0) {
+      element.state_interface = component.stateInterfaces.map(i => ({
+        '@_name': i.name,
+        ...buildParams(i.params),
+      }));
+    }
+    Object.assign(element, buildParams(component.params));
+
+    return element;
+  }
+
+  /**
+   * Build gazebo element
+   * @param gazebo Gazebo extension
+   * @returns XML object for the gazebo element
+   */
+  private buildGazebo(gazebo: GazeboExtension): any {
+    const element: any = { [UNKNOWN_CONTENT]: { elements: gazebo.elements } };
+
+    if (gazebo.reference !== undefined) {
+      element['@_reference'] = gazebo.reference;
+    }
+
+    return element;
+  }
+
+  /**
+   * Build transmission joint or actuator element
+   * @param source Transmission joint or actuator
+   * @returns XML object with name, role, hardware interfaces and mechanical reduction
+   */
+  private buildTransmissionInterface(source: TransmissionActuator): any {
+    const element: any = { '@_name': source.name };
+
+    if (source.role !== undefined) {
+      element.role = source.role;
+    }
+    if (source.hardwareInterfaces && source.hardwareInterfaces.length > 0) {
+      element.hardwareInterface = source.hardwareInterfaces;
+    }
+    if (source.mechanicalReduction !== undefined) {
+      element.mechanicalReduction = formatNumber(source.mechanicalReduction);
+    }
+
+    return element;
+  }
+}
+
+/**
+ * Format number as URDF attribute value
+ * @param value Number
+ * @returns String representation that parses back to the same number
+ */
+function formatNumber(value: number): string {
+  return String(value);
+}
+
+/**
+ * Format Vector3 as space-separated string
+ * @param value Vector3 object
+ * @returns String "x y z"
+ */
+function formatVector3(value: Vector3): string {
+  return `${formatNumber(value.x)} ${formatNumber(value.y)} ${formatNumber(value.z)}`;
+}
+
+/**
+ * Build attributes and child elements kept by lossless parsing
+ *
+ * The attributes become XML object entries; the child elements are kept
+ * under a symbol key and inserted at their positions by toOrderedNode.
+ * @param unknown Unknown content of an element
+ * @returns XML object entries, empty if there is no unknown content
+ */
+function buildUnknown(unknown?: UnknownXML): any {
+  const entries: any = {};
+  for (const [name, value] of Object.entries(unknown?.attributes ?? {})) {
+    entries['@_' + name] = value;
+  }
+  if (unknown?.elements) {
+    entries[UNKNOWN_CONTENT] = unknown;
+  }
+  return entries;
+}
+
+/**
+ * Convert an XML object to a node of the order-preserving builder
+ * @param tag Element tag
+ * @param value XML object, or the text of an element without attributes
+ * @returns Ordered XML node
+ */
+function toOrderedNode(tag: string, value: any): any {
+  if (typeof value !== 'object') {
+    return { [tag]: value === '' ? [] : [{ '#text': value }] };
+  }
+
+  const node: any = {};
+  const attributes: any = {};
+  const children: any[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (key.startsWith('@_')) {
+      attributes[key] = child;
+    } else if (key === '#text') {
+      children.push({ '#text': child });
+    } else {
+      for (const item of Array.isArray(child) ? child : [child]) {
+        children.push(toOrderedNode(key, item));
+      }
+    }
+  }
+
+  node[tag] = insertUnknown(children, value[UNKNOWN_CONTENT]);
+  if (Object.keys(attributes).length > 0) {
+    node[':@'] = attributes;
+  }
+  return node;
+}
+
+/**
+ * Insert unknown child elements between the known children
+ * @param known Ordered nodes of the known children
+ * @param unknown Unknown content; elements without a position are appended
+ * @returns Ordered child nodes
+ */
+function insertUnknown(known: any[], unknown?: UnknownXML): any[] {
+  const merged: any[] = [];
+  let next = 0;
+
+  (unknown?.elements ?? []).forEach((element, index) => {
+    const position = unknown?.positions?.[index] ?? Infinity;
+    while (next < known.length && merged.length < position) {
+      merged.push(known[next++]);
+    }
+    merged.push(buildXMLNode(element));
+  });
+
+  return [...merged, ...known.slice(next)];
+}
+
+/**
+ * Build param children
+ * @param params Parameter values keyed by name
+ * @returns XML object with the param elements, empty if there are none
+ */
+function buildParams(params: Record<string, string>): any {
+  const entries = Object.entries(params);
+  if (entries.length === 0) {
+    return {};
+  }
+  return { param: entries.map(([name, value]) => ({ '@_name': name, '#text': value })) };
+}
+
+/**
+ * Build attributes from the numeric fields of an object, skipping undefined ones
+ * @param source Source object
+ * @param keys Keys to emit, in order
+ * @returns XML attribute object
+ */
+function buildAttributes<T extends object>(source: T, keys: (keyof T & string)[]): any {
+  const attributes: any = {};
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'number') {
+      attributes['@_' + key] = formatNumber(value);
+    }
+  }
+  return attributes;
+}
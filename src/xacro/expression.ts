@@ -0,0 +1,931 @@
+import { XacroError } from '../errors';
+
+/**
+ * Resolve a name used in an expression
+ * @param name Identifier
+ * @returns Value, or undefined if the name is not defined
+ */
+export type NameResolver = (name: string) => unknown;
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string }
+  | { kind: 'end' };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; op: string; operand: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'compare'; ops: string[]; operands: Node[] }
+  | { type: 'logical'; op: 'and' | 'or'; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+  | { type: 'call'; callee: Node; args: Node[] }
+  | { type: 'member'; object: Node; property: string }
+  | { type: 'index'; object: Node; index: Node }
+  | { type: 'list'; elements: Node[] }
+  | { type: 'dict'; entries: [Node, Node][] };
+
+const OPERATORS = [
+  '**',
+  '//',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  '.',
+  ':',
+];
+
+const KEYWORDS: Record<string, unknown> = { True: true, False: false, None: null };
+
+// Python math module functions and constants available in expressions
+const MATH: Record<string, unknown> = {
+  pi: Math.PI,
+  e: Math.E,
+  inf: Infinity,
+  nan: NaN,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  sqrt: (x: number) => {
+    if (x < 0) {
+      throw new XacroError('math domain error');
+    }
+    return Math.sqrt(x);
+  },
+  exp: Math.exp,
+  log: (x: number, base?: number) =>
+    base === undefined ? Math.log(x) : Math.log(x) / Math.log(base),
+  log10: Math.log10,
+  pow: Math.pow,
+  fabs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  radians: (x: number) => (x * Math.PI) / 180,
+  degrees: (x: number) => (x * 180) / Math.PI,
+  hypot: Math.hypot,
+  copysign: (x: number, y: number) => Math.sign(y || 1 / y) * Math.abs(x),
+  fmod: (x: number, y: number) => x % y,
+  isnan: Number.isNaN,
+};
+
+// Builtins available without the math prefix, matching xacro's global symbols
+const BUILTINS: Record<string, unknown> = {
+  ...MATH,
+  math: MATH,
+  abs: Math.abs,
+  min: (...values: unknown[]) => pickExtreme(values, (a, b) => a < b),
+  max: (...values: unknown[]) => pickExtreme(values, (a, b) => a > b),
+  round: (x: number, digits = 0) => roundHalfEven(x, digits),
+  int: (x: unknown) => toInt(x),
+  float: (x: unknown) => toFloat(x),
+  str: (x: unknown) => formatValue(x),
+  bool: (x: unknown) => isTruthy(x),
+  len: (x: unknown) => {
+    if (typeof x === 'string' || Array.isArray(x)) {
+      return x.length;
+    }
+    if (isDict(x)) {
+      return Object.keys(x).length;
+    }
+    throw new XacroError(`object of type ${typeName(x)} has no len()`);
+  },
+  list: (x: unknown) => (typeof x === 'string' ? [...x] : Array.isArray(x) ? [...x] : []),
+  range: (start: number, stop?: number, step = 1) => {
+    const [from, to] = stop === undefined ? [0, start] : [start, stop];
+    const result: number[] = [];
+    for (let i = from; step > 0 ? i < to : i > to; i += step) {
+      result.push(i);
+    }
+    return result;
+  },
+  sum: (values: number[]) => values.reduce((a, b) => a + b, 0),
+};
+
+/**
+ * Evaluate a Python-like xacro expression
+ * @param source Expression text
+ * @param resolve Resolver for property names
+ * @returns Value of the expression
+ */
+export function evaluateExpression(source: string, resolve: NameResolver): unknown {
+  const parser = new ExpressionParser(tokenize(source), source);
+  const node = parser.parseTop();
+  return evaluate(node, resolve);
+}
+
+/**
+ * Format a value the way xacro substitutes it into text
+ * @param value Value
+ * @returns String representation
+ */
+export function formatValue(value: unknown): string {
+  if (value === true) {
+    return 'True';
+  }
+  if (value === false) {
+    return 'False';
+  }
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return 'nan';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? 'inf' : '-inf';
+    }
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => (typeof v === 'string' ? `'${v}'` : formatValue(v))).join(', ')}]`;
+  }
+  return String(value);
+}
+
+/**
+ * Interpret a value as a boolean condition like xacro:if does
+ * @param value Value
+ * @returns Boolean
+ */
+export function toCondition(value: unknown): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return value !== 0;
+  }
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    if (text === 'true') {
+      return true;
+    }
+    if (text === 'false') {
+      return false;
+    }
+    const num = Number(text);
+    if (text !== '' && !Number.isNaN(num)) {
+      return num !== 0;
+    }
+  }
+  throw new XacroError(`Invalid boolean value: ${formatValue(value)}`);
+}
+
+/**
+ * Convert property text to a number if it looks like one
+ * @param text Property text
+ * @returns Number or the original text
+ */
+export function literalValue(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed !== '' && /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return text;
+}
+
+/**
+ * Split expression text into tokens
+ * @param source Expression text
+ * @returns Tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(position));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]) });
+      position += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position));
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0] });
+      position += name[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === '\\' && position + 1 < source.length) {
+          const escaped = source[position + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          position += 2;
+        } else {
+          value += source[position++];
+        }
+      }
+      if (position >= source.length) {
+        throw new XacroError(`Unterminated string in expression: ${source}`);
+      }
+      position++;
+      tokens.push({ kind: 'string', value });
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, position));
+    if (!op) {
+      throw new XacroError(`Unexpected character "${char}" in expression: ${source}`);
+    }
+    tokens.push({ kind: 'op', value: op });
+    position += op.length;
+  }
+
+  tokens.push({ kind: 'end' });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser following Python operator precedence
+ */
+class ExpressionParser {
+  private position = 0;
+
+  /**
+   * Constructor
+   * @param tokens Tokens
+   * @param source Expression text, for error messages
+   */
+  constructor(
+    private tokens: Token[],
+    private source: string
+  ) {}
+
+  /**
+   * Parse a complete expression
+   * @returns Expression tree
+   */
+  parseTop(): Node {
+    const node = this.parseConditional();
+    if (this.peek().kind !== 'end') {
+      throw this.error('Unexpected token');
+    }
+    return node;
+  }
+
+  /**
+   * Parse `a if cond else b`
+   */
+  private parseConditional(): Node {
+    const consequent = this.parseOr();
+    if (this.acceptName('if')) {
+      const test = this.parseOr();
+      this.expectName('else');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return consequent;
+  }
+
+  /**
+   * Parse `or` chain
+   */
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.acceptName('or')) {
+      left = { type: 'logical', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  /**
+   * Parse `and` chain
+   */
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.acceptName('and')) {
+      left = { type: 'logical', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  /**
+   * Parse `not` prefix
+   */
+  private parseNot(): Node {
+    if (this.acceptName('not')) {
+      return { type: 'unary', op: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  /**
+   * Parse chained comparisons such as `a < b <= c`
+   */
+  private parseComparison(): Node {
+    const first = this.parseArithmetic();
+    const ops: string[] = [];
+    const operands = [first];
+
+    for (;;) {
+      const token = this.peek();
+      let op: string | undefined;
+      if (token.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+        op = token.value;
+        this.position++;
+      } else if (this.acceptName('in')) {
+        op = 'in';
+      } else if (this.isName(this.peek(), 'not') && this.isName(this.peek(1), 'in')) {
+        this.position += 2;
+        op = 'not in';
+      }
+      if (!op) {
+        break;
+      }
+      ops.push(op);
+      operands.push(this.parseArithmetic());
+    }
+
+    return ops.length === 0 ? first : { type: 'compare', ops, operands };
+  }
+
+  /**
+   * Parse `+` and `-`
+   */
+  private parseArithmetic(): Node {
+    let left = this.parseTerm();
+    for (let op = this.acceptOp('+', '-'); op; op = this.acceptOp('+', '-')) {
+      left = { type: 'binary', op, left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  /**
+   * Parse `*`, `/`, `//` and `%`
+   */
+  private parseTerm(): Node {
+    let left = this.parseUnary();
+    for (let op = this.acceptOp('*', '/', '//', '%'); op; op = this.acceptOp('*', '/', '//', '%')) {
+      left = { type: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  /**
+   * Parse unary `-` and `+`
+   */
+  private parseUnary(): Node {
+    const op = this.acceptOp('-', '+');
+    if (op) {
+      return { type: 'unary', op, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  /**
+   * Parse `**`, which binds tighter than unary operators on its left
+   */
+  private parsePower(): Node {
+    const base = this.parsePostfix();
+    if (this.acceptOp('**')) {
+      return { type: 'binary', op: '**', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  /**
+   * Parse calls, indexing and attribute access
+   */
+  private parsePostfix(): Node {
+    let node = this.parseAtom();
+    for (;;) {
+      if (this.acceptOp('(')) {
+        node = { type: 'call', callee: node, args: this.parseList(')') };
+      } else if (this.acceptOp('[')) {
+        const index = this.parseConditional();
+        this.expectOp(']');
+        node = { type: 'index', object: node, index };
+      } else if (this.acceptOp('.')) {
+        const token = this.next();
+        if (token.kind !== 'name') {
+          throw this.error('Expected attribute name');
+        }
+        node = { type: 'member', object: node, property: token.value };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /**
+   * Parse literals, names and bracketed expressions
+   */
+  private parseAtom(): Node {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'name':
+        if (hasOwn(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        return { type: 'name', name: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOp(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'list', elements: this.parseList(']') };
+        }
+        if (token.value === '{') {
+          return this.parseDict();
+        }
+        break;
+    }
+    throw this.error('Unexpected token');
+  }
+
+  /**
+   * Parse comma-separated expressions up to a closing bracket
+   */
+  private parseList(close: string): Node[] {
+    const elements: Node[] = [];
+    while (!this.acceptOp(close)) {
+      elements.push(this.parseConditional());
+      if (!this.acceptOp(',')) {
+        this.expectOp(close);
+        break;
+      }
+    }
+    return elements;
+  }
+
+  /**
+   * Parse dict literal entries
+   */
+  private parseDict(): Node {
+    const entries: [Node, Node][] = [];
+    while (!this.acceptOp('}')) {
+      const key = this.parseConditional();
+      this.expectOp(':');
+      entries.push([key, this.parseConditional()]);
+      if (!this.acceptOp(',')) {
+        this.expectOp('}');
+        break;
+      }
+    }
+    return { type: 'dict', entries };
+  }
+
+  /**
+   * Look at a token without consuming it
+   */
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  /**
+   * Consume a token
+   */
+  private next(): Token {
+    const token = this.peek();
+    this.position++;
+    return token;
+  }
+
+  /**
+   * Check whether a token is a given name
+   */
+  private isName(token: Token, name: string): boolean {
+    return token.kind === 'name' && token.value === name;
+  }
+
+  /**
+   * Consume a name token if it matches
+   */
+  private acceptName(name: string): boolean {
+    if (this.isName(this.peek(), name)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Consume a name token or fail
+   */
+  private expectName(name: string): void {
+    if (!this.acceptName(name)) {
+      throw this.error(`Expected "${name}"`);
+    }
+  }
+
+  /**
+   * Consume an operator token if it matches
+   */
+  private acceptOp(...ops: string[]): string | undefined {
+    const token = this.peek();
+    if (token.kind === 'op' && ops.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Consume an operator token or fail
+   */
+  private expectOp(op: string): void {
+    if (!this.acceptOp(op)) {
+      throw this.error(`Expected "${op}"`);
+    }
+  }
+
+  /**
+   * Create error for the current expression
+   */
+  private error(message: string): XacroError {
+    return new XacroError(`${message} in expression: ${this.source}`);
+  }
+}
+
+/**
+ * Evaluate an expression tree
+ * @param node Expression tree
+ * @param resolve Resolver for property names
+ * @returns Value
+ */
+function evaluate(node: Node, resolve: NameResolver): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'name': {
+      const value = resolve(node.name);
+      if (value !== undefined) {
+        return value;
+      }
+      if (hasOwn(BUILTINS, node.name)) {
+        return BUILTINS[node.name];
+      }
+      throw new XacroError(`Undefined name: ${node.name}`);
+    }
+    case 'unary': {
+      const operand = evaluate(node.operand, resolve);
+      if (node.op === 'not') {
+        return !isTruthy(operand);
+      }
+      const num = expectNumber(operand, node.op);
+      return node.op === '-' ? -num : num;
+    }
+    case 'binary':
+      return applyBinary(node.op, evaluate(node.left, resolve), evaluate(node.right, resolve));
+    case 'compare': {
+      let left = evaluate(node.operands[0], resolve);
+      for (let i = 0; i < node.ops.length; i++) {
+        const right = evaluate(node.operands[i + 1], resolve);
+        if (!applyComparison(node.ops[i], left, right)) {
+          return false;
+        }
+        left = right;
+      }
+      return true;
+    }
+    case 'logical': {
+      const left = evaluate(node.left, resolve);
+      if (node.op === 'and') {
+        return isTruthy(left) ? evaluate(node.right, resolve) : left;
+      }
+      return isTruthy(left) ? left : evaluate(node.right, resolve);
+    }
+    case 'conditional':
+      return isTruthy(evaluate(node.test, resolve))
+        ? evaluate(node.consequent, resolve)
+        : evaluate(node.alternate, resolve);
+    case 'call': {
+      const callee = evaluate(node.callee, resolve);
+      if (typeof callee !== 'function') {
+        throw new XacroError(`${typeName(callee)} object is not callable`);
+      }
+      return callee(...node.args.map(arg => evaluate(arg, resolve)));
+    }
+    case 'member': {
+      const object = evaluate(node.object, resolve);
+      if (object !== null && typeof object === 'object' && hasOwn(object, node.property)) {
+        return (object as Record<string, unknown>)[node.property];
+      }
+      throw new XacroError(`${typeName(object)} object has no attribute ${node.property}`);
+    }
+    case 'index': {
+      const object = evaluate(node.object, resolve);
+      const index = evaluate(node.index, resolve);
+      if ((typeof object === 'string' || Array.isArray(object)) && typeof index === 'number') {
+        const value = object[index < 0 ? object.length + index : index];
+        if (value === undefined) {
+          throw new XacroError('index out of range');
+        }
+        return value;
+      }
+      if (isDict(object) && typeof index === 'string' && hasOwn(object, index)) {
+        return object[index];
+      }
+      throw new XacroError(`Invalid index ${formatValue(index)} for ${typeName(object)}`);
+    }
+    case 'list':
+      return node.elements.map(element => evaluate(element, resolve));
+    case 'dict': {
+      const dict: Record<string, unknown> = {};
+      for (const [key, value] of node.entries) {
+        Object.defineProperty(dict, formatValue(evaluate(key, resolve)), {
+          value: evaluate(value, resolve),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return dict;
+    }
+  }
+}
+
+/**
+ * Apply an arithmetic operator with Python semantics
+ * @param op Operator
+ * @param left Left operand
+ * @param right Right operand
+ * @returns Result
+ */
+function applyBinary(op: string, left: unknown, right: unknown): unknown {
+  if (op === '+' && typeof left === 'string' && typeof right === 'string') {
+    return left + right;
+  }
+  if (op === '+' && Array.isArray(left) && Array.isArray(right)) {
+    return [...left, ...right];
+  }
+  if (op === '*' && typeof left === 'string' && typeof right === 'number') {
+    return left.repeat(Math.max(0, Math.trunc(right)));
+  }
+
+  const a = expectNumber(left, op);
+  const b = expectNumber(right, op);
+  switch (op) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      if (b === 0) {
+        throw new XacroError('division by zero');
+      }
+      return a / b;
+    case '//':
+      if (b === 0) {
+        throw new XacroError('division by zero');
+      }
+      return Math.floor(a / b);
+    case '%':
+      if (b === 0) {
+        throw new XacroError('modulo by zero');
+      }
+      return a - b * Math.floor(a / b);
+    case '**':
+      return Math.pow(a, b);
+  }
+  throw new XacroError(`Unsupported operator ${op}`);
+}
+
+/**
+ * Apply a comparison operator
+ * @param op Operator
+ * @param left Left operand
+ * @param right Right operand
+ * @returns Result
+ */
+function applyComparison(op: string, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case 'in':
+    case 'not in': {
+      let contained: boolean;
+      if (typeof right === 'string' && typeof left === 'string') {
+        contained = right.includes(left);
+      } else if (Array.isArray(right)) {
+        contained = right.some(item => equals(item, left));
+      } else if (isDict(right)) {
+        contained = hasOwn(right, formatValue(left));
+      } else {
+        throw new XacroError(`argument of type ${typeName(right)} is not iterable`);
+      }
+      return op === 'in' ? contained : !contained;
+    }
+  }
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    return compareOrdered(op, left, right);
+  }
+  return compareOrdered(op, expectNumber(left, op), expectNumber(right, op));
+}
+
+/**
+ * Compare two ordered values
+ * @param op Operator
+ * @param left Left operand
+ * @param right Right operand
+ * @returns Result
+ */
+function compareOrdered<T extends string | number>(op: string, left: T, right: T): boolean {
+  switch (op) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+/**
+ * Python equality
+ * @param a First value
+ * @param b Second value
+ * @returns True if equal
+ */
+function equals(a: unknown, b: unknown): boolean {
+  const numeric = (v: unknown) => typeof v === 'number' || typeof v === 'boolean';
+  if (numeric(a) && numeric(b)) {
+    return Number(a) === Number(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  return a === b;
+}
+
+/**
+ * Python truthiness
+ * @param value Value
+ * @returns Boolean
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (isDict(value)) {
+    return Object.keys(value).length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Check whether an object has its own property, ignoring inherited ones such as `constructor`
+ * @param object Object
+ * @param key Property name
+ * @returns True if the property is defined on the object itself
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Check whether a value is a dict
+ * @param value Value
+ * @returns True for plain objects
+ */
+function isDict(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Coerce an operand to a number
+ * @param value Operand
+ * @param op Operator, for error messages
+ * @returns Number
+ */
+function expectNumber(value: unknown, op: string): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return Number(value);
+  }
+  throw new XacroError(`Unsupported operand type for ${op}: ${typeName(value)}`);
+}
+
+/**
+ * Python int()
+ * @param value Value
+ * @returns Integer
+ */
+function toInt(value: unknown): number {
+  const num = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (Number.isNaN(num)) {
+    throw new XacroError(`invalid literal for int(): ${formatValue(value)}`);
+  }
+  return Math.trunc(num);
+}
+
+/**
+ * Python float()
+ * @param value Value
+ * @returns Number
+ */
+function toFloat(value: unknown): number {
+  const num = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (Number.isNaN(num) && formatValue(value).toLowerCase() !== 'nan') {
+    throw new XacroError(`could not convert to float: ${formatValue(value)}`);
+  }
+  return num;
+}
+
+/**
+ * Python round(), which rounds halves to even
+ * @param value Value
+ * @param digits Number of decimal digits
+ * @returns Rounded value
+ */
+function roundHalfEven(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  const scaled = value * factor;
+  const floor = Math.floor(scaled);
+  const diff = scaled - floor;
+  const rounded = diff > 0.5 || (diff === 0.5 && floor % 2 !== 0) ? floor + 1 : floor;
+  return rounded / factor;
+}
+
+/**
+ * Python min() and max()
+ * @param values Arguments, or a single list
+ * @param better Comparison selecting the preferred value
+ * @returns Selected value
+ */
+function pickExtreme(values: unknown[], better: (a: number, b: number) => boolean): unknown {
+  const items = values.length === 1 && Array.isArray(values[0]) ? values[0] : values;
+  if (items.length === 0) {
+    throw new XacroError('arg is an empty sequence');
+  }
+  return items.reduce((best, item) =>
+    better(expectNumber(item, 'min/max'), expectNumber(best, 'min/max')) ? item : best
+  );
+}
+
+/**
+ * Python type name of a value, for error messages
+ * @param value Value
+ * @returns Type name
+ */
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NoneType';
+  }
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  switch (typeof value) {
+    case 'number':
+      return Number.isInteger(value) ? 'int' : 'float';
+    case 'string':
+      return 'str';
+    case 'boolean':
+      return 'bool';
+    case 'function':
+      return 'function';
+    default:
+      return 'dict';
+  }
+}
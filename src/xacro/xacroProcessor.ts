@@ -0,0 +1,815 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+
+import { XacroError } from '../errors';
+import { URDFParser, URDFParserOptions } from '../parser/urdfParser';
+import { Robot } from '../types/urdf';
+
+import { evaluateExpression, formatValue, literalValue, toCondition } from './expression';
+
+/**
+ * Resolve the text of an included file
+ * @param filename Filename after substitution, as written in `xacro:include`
+ * @param includingFile Filename of the including document, if known
+ * @returns File contents
+ */
+export type XacroFileResolver = (filename: string, includingFile?: string) => string;
+
+/**
+ * Options for xacro processor
+ */
+export interface XacroOptions {
+  /**
+   * Values for `$(arg name)`, overriding `xacro:arg` defaults
+   */
+  args?: Record<string, string>;
+  /**
+   * Resolver for `xacro:include` (includes fail when not set)
+   */
+  resolveFile?: XacroFileResolver;
+  /**
+   * Resolver for `$(find package)`
+   */
+  findPackage?: (packageName: string) => string | undefined;
+  /**
+   * Variables for `$(env NAME)` and `$(optenv NAME default)` (default: none)
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * Options for the URDF parser used by `parse`
+   */
+  parserOptions?: URDFParserOptions;
+}
+
+// Marker for attributes set on the enclosing element by xacro:attribute
+const ATTRIBUTE_MARKER = '#xacro:attribute';
+
+// Namespace URI prefix identifying the xacro namespace declaration
+const XACRO_NAMESPACE = 'http://www.ros.org/wiki/xacro';
+
+interface Property {
+  raw?: string;
+  value?: unknown;
+  evaluated: boolean;
+  evaluating?: boolean;
+  block?: any[];
+  scope: Scope;
+}
+
+interface MacroParam {
+  name: string;
+  kind: 'value' | 'block' | 'blocks';
+  defaultValue?: string;
+  forward?: boolean;
+}
+
+interface Macro {
+  name: string;
+  params: MacroParam[];
+  body: any[];
+  scope: Scope;
+}
+
+/**
+ * Symbol table for properties, macros and include namespaces
+ */
+class Scope {
+  properties = new Map<string, Property>();
+  macros = new Map<string, Macro>();
+  namespaces = new Map<string, Scope>();
+
+  /**
+   * Constructor
+   * @param parent Enclosing scope
+   * @param fallback Scope searched after the enclosing scopes, e.g. a macro's defining scope
+   */
+  constructor(
+    readonly parent?: Scope,
+    readonly fallback?: Scope
+  ) {}
+
+  /**
+   * Find a property in this scope or its ancestors
+   * @param name Property name
+   * @returns Property
+   */
+  findProperty(name: string): Property | undefined {
+    return (
+      this.properties.get(name) ??
+      this.parent?.findProperty(name) ??
+      this.fallback?.findProperty(name)
+    );
+  }
+
+  /**
+   * Find a macro, following `ns.` prefixes into include namespaces
+   * @param name Macro name
+   * @returns Macro
+   */
+  findMacro(name: string): Macro | undefined {
+    const dot = name.indexOf('.');
+    if (dot !== -1) {
+      return this.findNamespace(name.slice(0, dot))?.findMacro(name.slice(dot + 1));
+    }
+    return this.macros.get(name) ?? this.parent?.findMacro(name) ?? this.fallback?.findMacro(name);
+  }
+
+  /**
+   * Find an include namespace
+   * @param name Namespace name
+   * @returns Namespace scope
+   */
+  findNamespace(name: string): Scope | undefined {
+    return (
+      this.namespaces.get(name) ??
+      this.parent?.findNamespace(name) ??
+      this.fallback?.findNamespace(name)
+    );
+  }
+}
+
+/**
+ * Xacro Processor class
+ *
+ * Expands xacro documents into plain URDF: properties, macros with value and
+ * block parameters, `${}` expressions, conditionals, includes and `$(...)`
+ * substitution arguments.
+ */
+export class XacroProcessor {
+  private parser: XMLParser;
+  private builder: XMLBuilder;
+  private options: XacroOptions;
+
+  private prefix = 'xacro';
+  private args: Record<string, string> = {};
+  private currentFile?: string;
+  private rootScope = new Scope();
+
+  /**
+   * Constructor
+   * @param options Processor options
+   */
+  constructor(options: XacroOptions = {}) {
+    this.options = options;
+    this.parser = new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      allowBooleanAttributes: true,
+      parseTagValue: false,
+      parseAttributeValue: false,
+    });
+    this.builder = new XMLBuilder({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      indentBy: '  ',
+      suppressEmptyNode: true,
+    });
+  }
+
+  /**
+   * Expand xacro text into URDF text
+   * @param text Xacro text
+   * @param filename Filename of the document, passed to the file resolver for includes
+   * @returns URDF text
+   */
+  process(text: string, filename?: string): string {
+    this.args = { ...this.options.args };
+    this.currentFile = filename;
+    this.rootScope = new Scope();
+
+    const root = this.parseDocument(text);
+    const tag = tagOf(root)!;
+    const attributes: Record<string, string> = { ...root[':@'] };
+
+    this.prefix = 'xacro';
+    for (const [key, value] of Object.entries(attributes)) {
+      if (key.startsWith('@_xmlns:') && value.startsWith(XACRO_NAMESPACE)) {
+        this.prefix = key.slice('@_xmlns:'.length);
+        delete attributes[key];
+      }
+    }
+
+    const element = this.processElement(tag, attributes, root[tag], this.rootScope);
+    const xml: string = this.builder.build([element]);
+    return `<?xml version="1.0"?>\n${xml.trimStart()}`;
+  }
+
+  /**
+   * Expand xacro text and parse the result
+   * @param text Xacro text
+   * @param filename Filename of the document, passed to the file resolver for includes
+   * @returns Parsed URDF object
+   */
+  parse(text: string, filename?: string): Robot {
+    return new URDFParser(this.options.parserOptions).parse(this.process(text, filename));
+  }
+
+  /**
+   * Parse XML text and return its root element
+   * @param text XML text
+   * @returns Root element node
+   */
+  private parseDocument(text: string): any {
+    const nodes: any[] = this.parser.parse(text);
+    const root = nodes.find(node => {
+      const tag = tagOf(node);
+      return tag !== undefined && !tag.startsWith('?');
+    });
+    if (!root) {
+      throw new XacroError('Invalid xacro: Missing root element');
+    }
+    return root;
+  }
+
+  /**
+   * Process a list of nodes
+   * @param nodes Nodes in document order
+   * @param scope Current scope
+   * @returns Expanded nodes
+   */
+  private processNodes(nodes: any[], scope: Scope): any[] {
+    const result: any[] = [];
+
+    for (const node of nodes) {
+      if ('#text' in node) {
+        result.push({ '#text': this.substitute(String(node['#text']), scope) });
+        continue;
+      }
+
+      const tag = tagOf(node);
+      if (tag === undefined) {
+        continue;
+      }
+
+      const attributes = node[':@'] ?? {};
+      const children = node[tag] ?? [];
+      if (tag.startsWith(`${this.prefix}:`)) {
+        result.push(
+          ...this.processDirective(tag.slice(this.prefix.length + 1), attributes, children, scope)
+        );
+      } else {
+        result.push(this.processElement(tag, attributes, children, scope));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process a plain element
+   * @param tag Tag name
+   * @param attributes Raw attributes
+   * @param children Child nodes
+   * @param scope Current scope
+   * @returns Expanded element node
+   */
+  private processElement(
+    tag: string,
+    attributes: Record<string, string>,
+    children: any[],
+    scope: Scope
+  ): any {
+    const evaluated: Record<string, string> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      evaluated[key] = this.substitute(value, scope);
+    }
+
+    const content: any[] = [];
+    for (const child of this.processNodes(children, scope)) {
+      if (ATTRIBUTE_MARKER in child) {
+        evaluated[`@_${child[ATTRIBUTE_MARKER].name}`] = child[ATTRIBUTE_MARKER].value;
+      } else {
+        content.push(child);
+      }
+    }
+
+    const element: any = { [tag]: content };
+    if (Object.keys(evaluated).length > 0) {
+      element[':@'] = evaluated;
+    }
+    return element;
+  }
+
+  /**
+   * Process a xacro element
+   * @param directive Tag name without the xacro prefix
+   * @param attributes Raw attributes
+   * @param children Child nodes
+   * @param scope Current scope
+   * @returns Expanded nodes replacing the element
+   */
+  private processDirective(
+    directive: string,
+    attributes: Record<string, string>,
+    children: any[],
+    scope: Scope
+  ): any[] {
+    const attribute = (name: string): string | undefined => attributes[`@_${name}`];
+    const required = (name: string): string => {
+      const value = attribute(name);
+      if (value === undefined) {
+        throw new XacroError(`${this.prefix}:${directive} is missing the ${name} attribute`);
+      }
+      return value;
+    };
+
+    switch (directive) {
+      case 'property':
+        this.defineProperty(required('name'), attributes, children, scope);
+        return [];
+
+      case 'arg': {
+        const name = required('name');
+        const defaultValue = attribute('default');
+        if (!(name in this.args) && defaultValue !== undefined) {
+          this.args[name] = this.substitute(defaultValue, scope);
+        }
+        return [];
+      }
+
+      case 'macro': {
+        const name = required('name');
+        scope.macros.set(name, {
+          name,
+          params: parseParams(attribute('params') ?? ''),
+          body: children,
+          scope,
+        });
+        return [];
+      }
+
+      case 'if':
+      case 'unless': {
+        const condition = toCondition(this.evaluate(required('value'), scope));
+        return condition === (directive === 'if') ? this.processNodes(children, scope) : [];
+      }
+
+      case 'include':
+        return this.include(this.substitute(required('filename'), scope), attribute('ns'), scope);
+
+      case 'insert_block': {
+        const name = this.substitute(required('name'), scope);
+        const property = scope.findProperty(name);
+        if (!property?.block) {
+          throw new XacroError(`Undefined block: ${name}`);
+        }
+        return this.processNodes(clone(property.block), scope);
+      }
+
+      case 'element': {
+        const name = this.substitute(required(`${this.prefix}:name`), scope);
+        const rest = { ...attributes };
+        delete rest[`@_${this.prefix}:name`];
+        return [this.processElement(name, rest, children, scope)];
+      }
+
+      case 'attribute':
+        return [
+          {
+            [ATTRIBUTE_MARKER]: {
+              name: this.substitute(required('name'), scope),
+              value: this.substitute(required('value'), scope),
+            },
+          },
+        ];
+
+      case 'call': {
+        const name = this.substitute(required('macro'), scope);
+        const rest = { ...attributes };
+        delete rest['@_macro'];
+        return this.invokeMacro(name, rest, children, scope);
+      }
+
+      default:
+        return this.invokeMacro(directive, attributes, children, scope);
+    }
+  }
+
+  /**
+   * Define a property from a xacro:property element
+   * @param name Property name
+   * @param attributes Raw attributes
+   * @param children Child nodes, used as block content when there is no value
+   * @param scope Current scope
+   */
+  private defineProperty(
+    name: string,
+    attributes: Record<string, string>,
+    children: any[],
+    scope: Scope
+  ): void {
+    const target =
+      attributes['@_scope'] === 'global'
+        ? this.rootScope
+        : attributes['@_scope'] === 'parent'
+          ? (scope.parent ?? scope)
+          : scope;
+
+    const value = attributes['@_value'];
+    const defaultValue = attributes['@_default'];
+
+    if (value === undefined && defaultValue !== undefined) {
+      if (scope.findProperty(name) !== undefined) {
+        return;
+      }
+    }
+
+    const raw = value ?? defaultValue;
+    if (raw === undefined) {
+      target.properties.set(name, { block: children, evaluated: true, scope: target });
+    } else if (target !== scope) {
+      // The value may reference symbols of the current scope, so evaluate it now
+      target.properties.set(name, {
+        value: this.evaluateValue(raw, scope),
+        evaluated: true,
+        scope,
+      });
+    } else {
+      target.properties.set(name, { raw, evaluated: false, scope: target });
+    }
+  }
+
+  /**
+   * Expand a macro call
+   * @param name Macro name
+   * @param attributes Raw call attributes (parameter values)
+   * @param children Child elements passed as block parameters
+   * @param scope Calling scope
+   * @returns Expanded macro body
+   */
+  private invokeMacro(
+    name: string,
+    attributes: Record<string, string>,
+    children: any[],
+    scope: Scope
+  ): any[] {
+    const macro = scope.findMacro(name);
+    if (!macro) {
+      throw new XacroError(`Unknown macro: ${this.prefix}:${name}`);
+    }
+
+    // Names resolve in the calling scope first, as in xacro, then where the macro was defined
+    const macroScope = new Scope(scope, macro.scope);
+    const blocks = children.filter(child => tagOf(child) !== undefined);
+    const provided = new Set(Object.keys(attributes).map(key => key.slice(2)));
+    let blockIndex = 0;
+
+    for (const param of macro.params) {
+      if (param.kind !== 'value') {
+        const block = blocks[blockIndex++];
+        if (!block) {
+          throw new XacroError(`Not enough blocks passed to macro ${name}`);
+        }
+        const content = param.kind === 'block' ? [block] : block[tagOf(block)!];
+        macroScope.properties.set(param.name, { block: content, evaluated: true, scope });
+        continue;
+      }
+
+      if (provided.has(param.name)) {
+        provided.delete(param.name);
+        const value = this.evaluateValue(attributes[`@_${param.name}`], scope);
+        macroScope.properties.set(param.name, { value, evaluated: true, scope: macroScope });
+        continue;
+      }
+
+      const forwarded = param.forward ? scope.findProperty(param.name) : undefined;
+      if (forwarded) {
+        const value = this.propertyValue(param.name, forwarded);
+        macroScope.properties.set(param.name, { value, evaluated: true, scope: macroScope });
+      } else if (param.defaultValue !== undefined) {
+        const raw = param.defaultValue;
+        macroScope.properties.set(param.name, { raw, evaluated: false, scope: macroScope });
+      } else {
+        throw new XacroError(`Parameter ${param.name} missing for macro ${name}`);
+      }
+    }
+
+    if (provided.size > 0) {
+      throw new XacroError(`Invalid parameter ${[...provided].join(', ')} for macro ${name}`);
+    }
+    if (blockIndex < blocks.length) {
+      throw new XacroError(`Unused block passed to macro ${name}`);
+    }
+
+    return this.processNodes(clone(macro.body), macroScope);
+  }
+
+  /**
+   * Expand a xacro:include
+   * @param filename Included filename
+   * @param namespace Namespace for the included properties and macros
+   * @param scope Current scope
+   * @returns Expanded content of the included root element
+   */
+  private include(filename: string, namespace: string | undefined, scope: Scope): any[] {
+    if (!this.options.resolveFile) {
+      throw new XacroError(`Cannot include ${filename}: no file resolver configured`);
+    }
+
+    const text = this.options.resolveFile(filename, this.currentFile);
+    const root = this.parseDocument(text);
+    const includeScope = namespace ? new Scope(scope) : scope;
+    if (namespace) {
+      scope.namespaces.set(this.substitute(namespace, scope), includeScope);
+    }
+
+    const includingFile = this.currentFile;
+    this.currentFile = filename;
+    try {
+      return this.processNodes(root[tagOf(root)!], includeScope);
+    } finally {
+      this.currentFile = includingFile;
+    }
+  }
+
+  /**
+   * Substitute `$(...)` and `${...}` in text
+   * @param text Raw text
+   * @param scope Current scope
+   * @returns Substituted text
+   */
+  private substitute(text: string, scope: Scope): string {
+    const value = this.evaluate(text, scope);
+    return typeof value === 'string' ? value : formatValue(value);
+  }
+
+  /**
+   * Evaluate text with `$(...)` and `${...}` substitutions
+   *
+   * Text consisting of a single `${...}` expression keeps the expression's type.
+   * @param text Raw text
+   * @param scope Current scope
+   * @returns Value
+   */
+  private evaluate(text: string, scope: Scope): unknown {
+    const withArgs = replaceDelimited(text, '(', ')', command =>
+      this.substitutionArg(command, scope)
+    );
+
+    const single = /^\$\{/.test(withArgs) ? findClosing(withArgs, 2, '{', '}') : -1;
+    if (single === withArgs.length - 1) {
+      return this.evaluateExpression(withArgs.slice(2, -1), scope);
+    }
+
+    return replaceDelimited(withArgs, '{', '}', expression =>
+      formatValue(this.evaluateExpression(expression, scope))
+    );
+  }
+
+  /**
+   * Evaluate a property value, converting numeric text to numbers
+   * @param text Raw text
+   * @param scope Current scope
+   * @returns Value
+   */
+  private evaluateValue(text: string, scope: Scope): unknown {
+    const value = this.evaluate(text, scope);
+    return typeof value === 'string' ? literalValue(value) : value;
+  }
+
+  /**
+   * Evaluate a `${...}` expression
+   * @param expression Expression text
+   * @param scope Current scope
+   * @returns Value
+   */
+  private evaluateExpression(expression: string, scope: Scope): unknown {
+    return evaluateExpression(expression, name => this.resolveName(name, scope));
+  }
+
+  /**
+   * Resolve a name used in an expression
+   * @param name Property or namespace name
+   * @param scope Current scope
+   * @returns Value, or undefined if not defined
+   */
+  private resolveName(name: string, scope: Scope): unknown {
+    const property = scope.findProperty(name);
+    if (property) {
+      return this.propertyValue(name, property);
+    }
+
+    const namespace = scope.findNamespace(name);
+    if (namespace) {
+      const members: Record<string, unknown> = {};
+      for (const key of namespace.properties.keys()) {
+        Object.defineProperty(members, key, {
+          enumerable: true,
+          get: () => this.resolveName(key, namespace),
+        });
+      }
+      return members;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the value of a property, evaluating it on first use
+   * @param name Property name
+   * @param property Property
+   * @returns Value
+   */
+  private propertyValue(name: string, property: Property): unknown {
+    if (property.block) {
+      throw new XacroError(`Block property ${name} used in an expression`);
+    }
+    if (!property.evaluated) {
+      if (property.evaluating) {
+        throw new XacroError(`Circular property definition: ${name}`);
+      }
+      property.evaluating = true;
+      try {
+        property.value = this.evaluateValue(property.raw!, property.scope);
+        property.evaluated = true;
+      } finally {
+        property.evaluating = false;
+      }
+    }
+    return property.value;
+  }
+
+  /**
+   * Evaluate a `$(...)` substitution argument
+   * @param command Command text, e.g. `arg robot_name`
+   * @param scope Current scope
+   * @returns Substituted text
+   */
+  private substitutionArg(command: string, scope: Scope): string {
+    const [name, ...rest] = command.trim().split(/\s+/);
+    const argument = rest.join(' ');
+
+    switch (name) {
+      case 'arg':
+        if (!(argument in this.args)) {
+          throw new XacroError(`Undefined substitution argument ${argument}`);
+        }
+        return this.args[argument];
+      case 'find': {
+        const found = this.options.findPackage?.(argument);
+        if (found === undefined) {
+          throw new XacroError(`Package not found: ${argument}`);
+        }
+        return found;
+      }
+      case 'env': {
+        const value = this.options.env?.[argument];
+        if (value === undefined) {
+          throw new XacroError(`Environment variable ${argument} is not set`);
+        }
+        return value;
+      }
+      case 'optenv':
+        return this.options.env?.[rest[0]] ?? rest.slice(1).join(' ');
+      case 'eval':
+        return formatValue(this.evaluateExpression(argument, scope));
+      case 'dirname': {
+        if (this.currentFile === undefined) {
+          throw new XacroError('$(dirname) requires the document filename');
+        }
+        const slash = this.currentFile.lastIndexOf('/');
+        return slash === -1 ? '.' : this.currentFile.slice(0, slash);
+      }
+      default:
+        throw new XacroError(`Unsupported substitution argument: $(${command})`);
+    }
+  }
+}
+
+/**
+ * Expand xacro text into URDF text
+ * @param text Xacro text
+ * @param options Processor options
+ * @returns URDF text
+ */
+export function expandXacro(text: string, options: XacroOptions = {}): string {
+  return new XacroProcessor(options).process(text);
+}
+
+/**
+ * Parse macro parameter declarations
+ * @param params Value of the `params` attribute, e.g. `name *origin xyz:='0 0 0' side:=^|left`
+ * @returns Parameter list
+ */
+function parseParams(params: string): MacroParam[] {
+  const tokens = params.match(/(?:[^\s'"]+|'[^']*'|"[^"]*")+/g) ?? [];
+
+  return tokens.map(token => {
+    const stars = /^\*{0,2}/.exec(token)![0].length;
+    const body = token.slice(stars);
+    if (stars > 0) {
+      return { name: body, kind: stars === 1 ? 'block' : 'blocks' };
+    }
+
+    const separator = body.indexOf(':=');
+    if (separator === -1) {
+      return { name: body, kind: 'value' };
+    }
+
+    const name = body.slice(0, separator);
+    let defaultValue: string | undefined = body.slice(separator + 2);
+    let forward = false;
+    if (defaultValue.startsWith('^')) {
+      forward = true;
+      defaultValue = defaultValue.startsWith('^|') ? defaultValue.slice(2) : undefined;
+    }
+    if (defaultValue !== undefined) {
+      defaultValue = defaultValue.replace(/^'(.*)'$|^"(.*)"$/, '$1$2');
+    }
+
+    return { name, kind: 'value', defaultValue, forward };
+  });
+}
+
+/**
+ * Replace `$<open>...<close>` spans, honoring `$$` escapes
+ * @param text Text
+ * @param open Opening bracket
+ * @param close Closing bracket
+ * @param replace Replacement for the span content
+ * @returns Text with spans replaced
+ */
+function replaceDelimited(
+  text: string,
+  open: string,
+  close: string,
+  replace: (content: string) => string
+): string {
+  let result = '';
+  let position = 0;
+
+  while (position < text.length) {
+    const start = text.indexOf(`$${open}`, position);
+    if (start === -1) {
+      break;
+    }
+    if (text[start - 1] === '$') {
+      // `$$(` and `$${` escape the substitution
+      result += text.slice(position, start - 1) + `$${open}`;
+      position = start + 2;
+      continue;
+    }
+
+    const end = findClosing(text, start + 2, open, close);
+    if (end === -1) {
+      throw new XacroError(`Unterminated $${open} in: ${text}`);
+    }
+    result += text.slice(position, start) + replace(text.slice(start + 2, end));
+    position = end + 1;
+  }
+
+  return result + text.slice(position);
+}
+
+/**
+ * Find the bracket closing a span, skipping nested brackets and quoted strings
+ * @param text Text
+ * @param start Offset just after the opening bracket
+ * @param open Opening bracket
+ * @param close Closing bracket
+ * @returns Offset of the closing bracket, or -1
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Get the tag name of an element node
+ * @param node Node in preserveOrder format
+ * @returns Tag name, or undefined for text nodes
+ */
+function tagOf(node: any): string | undefined {
+  return Object.keys(node).find(key => key !== ':@' && !key.startsWith('#'));
+}
+
+/**
+ * Deep copy nodes so that expansion does not modify macro and block definitions
+ * @param nodes Nodes
+ * @returns Copied nodes
+ */
+function clone(nodes: any[]): any[] {
+  return JSON.parse(JSON.stringify(nodes));
+}